@@ -0,0 +1,30 @@
+import type { NextRequest } from 'next/server'
+import { AIService } from '@/lib/ai'
+import { apiError, apiSuccess, authenticateRequest, CONTENT_EDITOR_ROLES, isNonEmptyString, readJsonBody } from '@/lib/api'
+import type { AIContentType, GenerateContentRequest } from '@/types/ai'
+
+const CONTENT_TYPES: AIContentType[] = ['lesson', 'module', 'course']
+
+export async function POST(request: NextRequest) {
+  const auth = await authenticateRequest(request, CONTENT_EDITOR_ROLES)
+  if (auth.error) {
+    return auth.error
+  }
+
+  const body = await readJsonBody<GenerateContentRequest>(request)
+  if (!body || !isNonEmptyString(body.topic) || !isNonEmptyString(body.role)) {
+    return apiError(400, 'INVALID_INPUT', 'Topic and role are required')
+  }
+
+  if (body.contentType !== undefined && !CONTENT_TYPES.includes(body.contentType)) {
+    return apiError(400, 'INVALID_INPUT', `Content type must be one of: ${CONTENT_TYPES.join(', ')}`)
+  }
+
+  if (!AIService.isAvailable()) {
+    return apiError(503, 'AI_UNAVAILABLE', 'AI service is not available')
+  }
+
+  const generated = await AIService.generateContent(body.topic, body.role, body.contentType)
+
+  return apiSuccess(generated)
+}
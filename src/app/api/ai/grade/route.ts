@@ -0,0 +1,64 @@
+import type { NextRequest } from 'next/server'
+import { AIService } from '@/lib/ai'
+import { apiError, apiSuccess, authenticateRequest, isNonEmptyString, readJsonBody } from '@/lib/api'
+import { DEFAULT_GRADING_CRITERIA } from '@/lib/grading'
+import type { GradeAnswerRequest, GradingCriterion } from '@/types/ai'
+
+function parseCriteria(value: unknown): GradingCriterion[] | null {
+  if (value === undefined) {
+    return DEFAULT_GRADING_CRITERIA
+  }
+
+  if (!Array.isArray(value) || value.length === 0 || value.length > 20) {
+    return null
+  }
+
+  const criteria: GradingCriterion[] = []
+  for (const item of value) {
+    if (!item || !isNonEmptyString(item.name)) {
+      return null
+    }
+    criteria.push({
+      name: item.name.trim(),
+      description: isNonEmptyString(item.description) ? item.description.trim() : undefined,
+      weight: typeof item.weight === 'number' && item.weight > 0 ? item.weight : undefined
+    })
+  }
+
+  return criteria
+}
+
+// Learners call this while taking quizzes, so every signed-in role is allowed
+export async function POST(request: NextRequest) {
+  const auth = await authenticateRequest(request)
+  if (auth.error) {
+    return auth.error
+  }
+
+  const body = await readJsonBody<GradeAnswerRequest>(request)
+  if (!body || !isNonEmptyString(body.question) || typeof body.userAnswer !== 'string') {
+    return apiError(400, 'INVALID_INPUT', 'Question and user answer are required')
+  }
+
+  const criteria = parseCriteria(body.criteria)
+  if (!criteria) {
+    return apiError(400, 'INVALID_INPUT', 'Criteria must be a list of up to 20 named criteria')
+  }
+
+  if (!AIService.isAvailable()) {
+    return apiError(503, 'AI_UNAVAILABLE', 'AI service is not available')
+  }
+
+  try {
+    const result = await AIService.gradeAnswer(
+      body.question,
+      body.userAnswer,
+      typeof body.expectedAnswer === 'string' ? body.expectedAnswer : '',
+      criteria
+    )
+
+    return apiSuccess(result)
+  } catch {
+    return apiError(502, 'AI_GRADING_FAILED', 'Failed to grade answer')
+  }
+}
@@ -0,0 +1,24 @@
+import type { NextRequest } from 'next/server'
+import { AIService } from '@/lib/ai'
+import { apiError, apiSuccess, authenticateRequest, CONTENT_EDITOR_ROLES, isNonEmptyString, readJsonBody } from '@/lib/api'
+import type { ImproveWritingRequest } from '@/types/ai'
+
+export async function POST(request: NextRequest) {
+  const auth = await authenticateRequest(request, CONTENT_EDITOR_ROLES)
+  if (auth.error) {
+    return auth.error
+  }
+
+  const body = await readJsonBody<ImproveWritingRequest>(request)
+  if (!body || !isNonEmptyString(body.content)) {
+    return apiError(400, 'INVALID_INPUT', 'Content is required')
+  }
+
+  if (!AIService.isAvailable()) {
+    return apiError(503, 'AI_UNAVAILABLE', 'AI service is not available')
+  }
+
+  const improved = await AIService.improveWriting(body.content)
+
+  return apiSuccess(improved)
+}
@@ -0,0 +1,39 @@
+import type { NextRequest } from 'next/server'
+import { AIService } from '@/lib/ai'
+import { apiError, apiSuccess, authenticateRequest, isNonEmptyString, readJsonBody } from '@/lib/api'
+import type { ScoreTextAnswerRequest } from '@/types/ai'
+
+// Learners call this while taking quizzes, so every signed-in role is allowed
+export async function POST(request: NextRequest) {
+  const auth = await authenticateRequest(request)
+  if (auth.error) {
+    return auth.error
+  }
+
+  const body = await readJsonBody<ScoreTextAnswerRequest>(request)
+  if (
+    !body ||
+    !isNonEmptyString(body.question) ||
+    typeof body.userAnswer !== 'string' ||
+    typeof body.expectedAnswer !== 'string'
+  ) {
+    return apiError(400, 'INVALID_INPUT', 'Question, user answer and expected answer are required')
+  }
+
+  if (!AIService.isAvailable()) {
+    return apiError(503, 'AI_UNAVAILABLE', 'AI service is not available')
+  }
+
+  try {
+    const score = await AIService.scoreTextAnswer(
+      body.question,
+      body.userAnswer,
+      body.expectedAnswer,
+      isNonEmptyString(body.rubric) ? body.rubric : undefined
+    )
+
+    return apiSuccess(score)
+  } catch {
+    return apiError(502, 'AI_SCORING_FAILED', 'Failed to score answer')
+  }
+}
@@ -0,0 +1,13 @@
+import type { NextRequest } from 'next/server'
+import { AIService } from '@/lib/ai'
+import { apiSuccess, authenticateRequest } from '@/lib/api'
+import type { AIStatusResponse } from '@/types/ai'
+
+export async function GET(request: NextRequest) {
+  const auth = await authenticateRequest(request)
+  if (auth.error) {
+    return auth.error
+  }
+
+  return apiSuccess<AIStatusResponse>({ available: AIService.isAvailable() })
+}
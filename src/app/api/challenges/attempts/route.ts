@@ -0,0 +1,387 @@
+import type { NextRequest, NextResponse } from 'next/server'
+import { AIService } from '@/lib/ai'
+import { apiError, apiSuccess, authenticateRequest, createServiceClient, isNonEmptyString, readJsonBody } from '@/lib/api'
+import { getQuizPayload } from '@/lib/challenge-schema'
+import { applyQuestionDraw } from '@/lib/question-bank'
+import { buildGradingCriteria, getReviewReason, PASSING_SCORE } from '@/lib/grading'
+import { calculateQuizScore, creditForGradedAnswer, scoreAnswer } from '@/lib/quiz-scoring'
+import { getScenarioPathOutcome } from '@/lib/scenario'
+import type { GradingCriterion, GradingResult } from '@/types/ai'
+import type {
+  ApiResponse,
+  Challenge,
+  ChallengeAttempt,
+  ChallengeAttemptAnswer,
+  CreateChallengeAttemptDto,
+  CreateGradingReviewDto,
+  EssayChallengeContent,
+  EssayChallengeSolution,
+  QuestionDraw,
+  QuizChallengeContent,
+  QuizChallengeSolution,
+  ScenarioChallengeContent
+} from '@/types/content'
+
+const MAX_ANSWERS = 200
+
+type SubmittedAnswer = CreateChallengeAttemptDto['answers'][number]
+
+type ServiceClient = NonNullable<ReturnType<typeof createServiceClient>>
+
+interface QuizPayload {
+  content: QuizChallengeContent
+  solution: QuizChallengeSolution
+}
+
+// Answers as they will be recorded, the attempt score and the answers queued for a grader
+interface GradedSubmission {
+  answers: ChallengeAttemptAnswer[]
+  score: number
+  reviews: CreateGradingReviewDto[]
+}
+
+type GradingOutcome =
+  | { submission: GradedSubmission; error?: never }
+  | { submission?: never; error: NextResponse<ApiResponse<never>> }
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+// Only the answers themselves are taken from the client; grades and reviews are set here
+function parseAnswers(value: unknown): SubmittedAnswer[] | null {
+  if (!Array.isArray(value) || value.length > MAX_ANSWERS) {
+    return null
+  }
+
+  const answers: SubmittedAnswer[] = []
+  for (const item of value) {
+    const questionIndex = isRecord(item) ? item.question_index : null
+    if (!isRecord(item) || typeof questionIndex !== 'number' || !Number.isInteger(questionIndex) || questionIndex < 0) {
+      return null
+    }
+    answers.push({
+      question_index: questionIndex,
+      question_id: typeof item.question_id === 'string' ? item.question_id : undefined,
+      answer: item.answer ?? null
+    })
+  }
+
+  return answers
+}
+
+// The AI grade, or null when AI grading is unavailable or fails (AIService logs the failure)
+async function gradeWithAI(
+  question: string,
+  answer: string,
+  expected: string,
+  criteria: GradingCriterion[]
+): Promise<GradingResult | null> {
+  if (!AIService.isAvailable()) {
+    return null
+  }
+
+  try {
+    return await AIService.gradeAnswer(question, answer, expected, criteria)
+  } catch {
+    return null
+  }
+}
+
+function reviewFor(questionIndex: number, grading: GradingResult | null): CreateGradingReviewDto | null {
+  const reason = getReviewReason(grading)
+  return reason
+    ? { question_index: questionIndex, reason, ai_score: grading?.score, ai_confidence: grading?.confidence }
+    : null
+}
+
+/**
+ * The questions and answer key of a quiz attempt. Questions drawn from a bank are the ones of the
+ * caller's session, with the items' answers remapped to the order they were shown in; learners
+ * can't read those answers (migration 030), so the client never has them to grade against.
+ */
+async function loadQuizPayload(
+  client: ServiceClient,
+  challenge: Challenge,
+  userId: string,
+  sessionId: string | undefined
+): Promise<QuizPayload> {
+  const payload = getQuizPayload(challenge.challenge_type, challenge.content, challenge.solution)
+  // Without a session the database rejects bank quiz attempts
+  if (!payload.content.question_bank || !sessionId) {
+    return payload
+  }
+
+  const { data: session, error: sessionError } = await client
+    .from('challenge_sessions')
+    .select('draw')
+    .eq('id', sessionId)
+    .eq('user_id', userId)
+    .eq('challenge_id', challenge.id)
+    .maybeSingle()
+
+  if (sessionError) {
+    throw new Error(`Failed to fetch quiz session: ${sessionError.message}`)
+  }
+
+  const draw: QuestionDraw = Array.isArray(session?.draw) ? session.draw : []
+  if (draw.length === 0) {
+    return payload
+  }
+
+  const { data: items, error: itemsError } = await client
+    .from('question_bank_items')
+    .select('*')
+    .in('id', draw.map(entry => entry.item_id))
+
+  if (itemsError) {
+    throw new Error(`Failed to fetch drawn questions: ${itemsError.message}`)
+  }
+
+  return applyQuestionDraw(items || [], draw)
+}
+
+// open_text answers get an AI grade against the answer key. The database re-scores quiz attempts
+// (migration 028); the score computed here only stands for rows it can't score
+async function gradeQuiz(quiz: QuizPayload, submitted: SubmittedAnswer[]): Promise<GradingOutcome> {
+  const { content, solution } = quiz
+  const questions = content.questions
+  const answers: ChallengeAttemptAnswer[] = []
+  const reviews: CreateGradingReviewDto[] = []
+  const credits = questions.map(() => 0)
+
+  for (const entry of submitted) {
+    const question = questions[entry.question_index]
+    const expected = solution.answers[entry.question_index]
+    let credit = 0
+    let grading: GradingResult | null = null
+    let review: CreateGradingReviewDto | null = null
+
+    if (question?.type === 'open_text' && typeof entry.answer === 'string' && entry.answer.trim()) {
+      const expectedText = typeof expected === 'string' ? expected : ''
+      grading = await gradeWithAI(question.question, entry.answer, expectedText, buildGradingCriteria(question.criteria, question.rubric))
+      if (grading) {
+        credit = creditForGradedAnswer(question, grading.score, grading.score >= PASSING_SCORE)
+      } else {
+        // Same text match as the database until a grader reviews the answer
+        const match = expectedText.trim().toLowerCase()
+        credit = match && entry.answer.toLowerCase().includes(match) ? 1 : 0
+      }
+      review = reviewFor(entry.question_index, grading)
+    } else if (question) {
+      credit = scoreAnswer(question, entry.answer, expected)
+    }
+
+    if (question) {
+      credits[entry.question_index] = credit
+    }
+    if (review) {
+      reviews.push(review)
+    }
+
+    answers.push({
+      ...entry,
+      is_correct: credit === 1,
+      score: grading?.score ?? Math.round(credit * 100),
+      feedback: grading,
+      review: review ? { status: 'pending' } : undefined
+    })
+  }
+
+  return { submission: { answers, score: calculateQuizScore(questions, credits).score, reviews } }
+}
+
+// Without an AI grade the essay is only recorded when the learner chose to send it to a grader
+async function gradeEssay(challenge: Challenge, submitted: SubmittedAnswer[], sendToGrader: boolean): Promise<GradingOutcome> {
+  const content = (challenge.content || {}) as EssayChallengeContent
+  const solution = (challenge.solution || {}) as EssayChallengeSolution
+  const essay = submitted[0]?.answer
+
+  if (!isNonEmptyString(essay)) {
+    return { error: apiError(400, 'INVALID_INPUT', 'An essay is required') }
+  }
+
+  const grading = await gradeWithAI(
+    content.prompt,
+    essay,
+    solution.sample_answer || '',
+    buildGradingCriteria(content.criteria, solution.rubric)
+  )
+
+  if (!grading && !sendToGrader) {
+    return { error: apiError(503, 'AI_UNAVAILABLE', 'Your essay could not be graded automatically right now') }
+  }
+
+  const review = reviewFor(0, grading)
+  return {
+    submission: {
+      answers: [{
+        question_index: 0,
+        answer: essay,
+        is_correct: grading ? grading.score >= PASSING_SCORE : null,
+        score: grading?.score,
+        feedback: grading,
+        review: review ? { status: 'pending' } : undefined
+      }],
+      score: grading?.score ?? 0,
+      reviews: review ? [review] : []
+    }
+  }
+}
+
+// Test cases only run in the learner's browser, so a grader decides the score
+function gradeCode(submitted: SubmittedAnswer[]): GradingOutcome {
+  const answer = submitted[0]?.answer
+  if (!isRecord(answer) || typeof answer.code !== 'string') {
+    return { error: apiError(400, 'INVALID_INPUT', 'Code is required') }
+  }
+
+  return {
+    submission: {
+      answers: [{
+        question_index: 0,
+        // Results as run in the browser, shown to the grader
+        answer: { code: answer.code, results: Array.isArray(answer.results) ? answer.results : [] },
+        is_correct: null,
+        review: { status: 'pending' }
+      }],
+      score: 0,
+      reviews: [{ question_index: 0, reason: 'code_submission' }]
+    }
+  }
+}
+
+// The score is the one of the outcome the path reaches
+function gradeScenario(challenge: Challenge, submitted: SubmittedAnswer[]): GradingOutcome {
+  const content = (challenge.content || {}) as ScenarioChallengeContent
+  const path = isRecord(submitted[0]?.answer) ? submitted[0].answer.path : null
+  const outcome = Array.isArray(path) ? getScenarioPathOutcome(content, path) : null
+
+  if (!outcome) {
+    return { error: apiError(400, 'INVALID_INPUT', 'The path does not follow this scenario') }
+  }
+
+  return {
+    submission: {
+      answers: [{
+        question_index: 0,
+        question_id: outcome.id,
+        answer: { path, outcome: outcome.id },
+        is_correct: outcome.score >= PASSING_SCORE,
+        score: outcome.score
+      }],
+      score: outcome.score,
+      reviews: []
+    }
+  }
+}
+
+/**
+ * Grade and record a challenge attempt for the caller (migration 035).
+ * Learners can't insert attempts themselves, so scores can't be made up in the browser;
+ * max_attempts and quiz sessions are still enforced by the database triggers.
+ */
+export async function POST(request: NextRequest) {
+  const auth = await authenticateRequest(request)
+  if (auth.error) {
+    return auth.error
+  }
+
+  const body = await readJsonBody<CreateChallengeAttemptDto>(request)
+  const answers = parseAnswers(body?.answers)
+  if (!body || !isNonEmptyString(body.challenge_id) || !answers) {
+    return apiError(400, 'INVALID_INPUT', 'Challenge and a list of answers are required')
+  }
+
+  const hintsUsed = body.hints_used ?? 0
+  if (!Number.isInteger(hintsUsed) || hintsUsed < 0) {
+    return apiError(400, 'INVALID_INPUT', 'Hints used must be a whole number')
+  }
+
+  const client = createServiceClient()
+  if (!client) {
+    return apiError(503, 'DATABASE_UNAVAILABLE', 'SUPABASE_SERVICE_ROLE_KEY is not set')
+  }
+
+  const { data: challenge, error: challengeError } = await client
+    .from('challenges')
+    .select('*')
+    .eq('id', body.challenge_id)
+    .maybeSingle()
+
+  if (challengeError) {
+    console.error('Failed to load challenge for grading:', challengeError)
+    return apiError(500, 'ATTEMPT_FAILED', 'Failed to record attempt')
+  }
+  if (!challenge) {
+    return apiError(404, 'NOT_FOUND', 'Challenge not found')
+  }
+
+  let outcome: GradingOutcome
+  switch (challenge.challenge_type) {
+    case 'essay':
+      outcome = await gradeEssay(challenge, answers, body.send_to_grader === true)
+      break
+    case 'code':
+      outcome = gradeCode(answers)
+      break
+    case 'scenario':
+      outcome = gradeScenario(challenge, answers)
+      break
+    default:
+      try {
+        const sessionId = typeof body.session_id === 'string' ? body.session_id : undefined
+        outcome = await gradeQuiz(await loadQuizPayload(client, challenge, auth.user.id, sessionId), answers)
+      } catch (error) {
+        console.error('Failed to load quiz for grading:', error)
+        return apiError(500, 'ATTEMPT_FAILED', 'Failed to record attempt')
+      }
+  }
+
+  if (outcome.error) {
+    return outcome.error
+  }
+
+  const { submission } = outcome
+  const { data: attempt, error } = await client
+    .from('challenge_attempts')
+    .insert({
+      user_id: auth.user.id,
+      challenge_id: challenge.id,
+      answers: submission.answers,
+      score: Math.min(100, Math.max(0, Math.round(submission.score))),
+      started_at: typeof body.started_at === 'string' ? body.started_at : undefined,
+      session_id: typeof body.session_id === 'string' ? body.session_id : undefined,
+      draw: Array.isArray(body.draw) ? body.draw : undefined,
+      hints_used: hintsUsed
+    })
+    .select()
+    .single()
+
+  if (error) {
+    // max_attempts, inactive sessions and late submissions
+    if (error.code === '23514') {
+      return apiError(409, 'ATTEMPT_REJECTED', error.message)
+    }
+    console.error('Failed to record challenge attempt:', error)
+    return apiError(500, 'ATTEMPT_FAILED', 'Failed to record attempt')
+  }
+
+  if (submission.reviews.length > 0) {
+    const { error: reviewError } = await client
+      .from('grading_reviews')
+      .insert(submission.reviews.map(review => ({
+        ...review,
+        attempt_id: attempt.id,
+        user_id: attempt.user_id,
+        challenge_id: attempt.challenge_id
+      })))
+
+    // The attempt is recorded either way; its answers still show as pending review
+    if (reviewError) {
+      console.error('Failed to queue answers for grading:', reviewError)
+    }
+  }
+
+  return apiSuccess<ChallengeAttempt>(attempt, 201)
+}
@@ -0,0 +1,29 @@
+import type { NextRequest } from 'next/server'
+import { apiError, apiSuccess, authenticateCronRequest, createServiceClient } from '@/lib/api'
+
+interface ApplySchedulesResponse {
+  published: number
+  unpublished: number
+}
+
+// Applies publish and unpublish times that have passed (migration 022). Called by a scheduler
+// such as Vercel Cron, which sends GET requests with the CRON_SECRET bearer token.
+export async function GET(request: NextRequest) {
+  const authError = authenticateCronRequest(request)
+  if (authError) {
+    return authError
+  }
+
+  const client = createServiceClient()
+  if (!client) {
+    return apiError(503, 'DATABASE_UNAVAILABLE', 'SUPABASE_SERVICE_ROLE_KEY is not set')
+  }
+
+  const { data, error } = await client.rpc('apply_content_schedules')
+  if (error) {
+    console.error('Failed to apply content schedules:', error)
+    return apiError(500, 'SCHEDULE_FAILED', 'Failed to apply content schedules')
+  }
+
+  return apiSuccess<ApplySchedulesResponse>(data)
+}
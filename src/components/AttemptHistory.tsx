@@ -0,0 +1,137 @@
+'use client'
+
+import { useState } from 'react'
+import { PASSING_SCORE } from '@/lib/grading'
+import type { ChallengeAttempt, ChallengeAttemptAnswer } from '@/types/content'
+import GradingFeedback from './GradingFeedback'
+
+interface AttemptHistoryProps {
+  attempts: ChallengeAttempt[]
+  questions?: any[] // quiz questions, used to label answers
+}
+
+function formatDuration(seconds?: number | null): string {
+  if (seconds === null || seconds === undefined) {
+    return '-'
+  }
+  const minutes = Math.floor(seconds / 60)
+  return minutes > 0 ? `${minutes}m ${seconds % 60}s` : `${seconds}s`
+}
+
+// Readable version of a stored answer, using option labels where the question has them
+function formatAnswer(answer: any, question?: any): string {
+  if (answer === null || answer === undefined || answer === '') {
+    return 'No answer'
+  }
+  if (Array.isArray(question?.options)) {
+    const indexes: number[] = Array.isArray(answer) ? answer : [answer]
+    return indexes.map(index => question.options[index] ?? String(index)).join(', ')
+  }
+  if (typeof answer === 'string') {
+    return answer
+  }
+  if (Array.isArray(answer?.path)) {
+    return answer.path.map((step: any) => step.choice_id ? `${step.node_id} (${step.choice_id})` : step.node_id).join(' → ') // scenario path
+  }
+  if (Array.isArray(answer) && answer.every(item => typeof item === 'string')) {
+    return answer.join(', ') // cloze blanks in order
+  }
+  if (typeof answer === 'object' && !Array.isArray(answer)) {
+    return Object.entries(answer).map(([key, value]) => `${key} → ${value}`).join(', ')
+  }
+  return JSON.stringify(answer)
+}
+
+// Past submissions for a challenge, newest first, expandable to the answers given
+export default function AttemptHistory({ attempts, questions }: AttemptHistoryProps) {
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+
+  if (attempts.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-lg font-semibold text-gray-900">Past Attempts</h3>
+      {attempts.map(attempt => (
+        <div key={attempt.id} className="border border-gray-200 rounded-lg">
+          <button
+            onClick={() => setExpandedId(expandedId === attempt.id ? null : attempt.id)}
+            className="w-full flex items-center justify-between p-3 text-sm hover:bg-gray-50 transition-colors"
+          >
+            <span className="font-medium text-gray-900">Attempt {attempt.attempt_number}</span>
+            <span className="text-gray-500">{new Date(attempt.submitted_at).toLocaleString()}</span>
+            <span className="text-gray-500">⏱️ {formatDuration(attempt.time_taken_seconds)}</span>
+            <span className={`font-bold ${attempt.score >= PASSING_SCORE ? 'text-green-600' : 'text-orange-600'}`}>
+              {attempt.score}%
+            </span>
+            <span className="text-gray-400">{expandedId === attempt.id ? '▲' : '▼'}</span>
+          </button>
+
+          {expandedId === attempt.id && (
+            <div className="border-t border-gray-200 p-3 space-y-3">
+              {!!attempt.hints_used && (
+                <div className="text-xs text-yellow-700">
+                  💡 {attempt.hints_used} hint{attempt.hints_used === 1 ? '' : 's'} used
+                </div>
+              )}
+              {attempt.answers.map(answer => (
+                <AttemptAnswer
+                  key={answer.question_index}
+                  answer={answer}
+                  question={questions?.[answer.question_index]}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+function AttemptAnswer({ answer, question }: { answer: ChallengeAttemptAnswer; question?: any }) {
+  const icon = answer.is_correct === null ? '⏳'
+    : answer.is_correct ? '✅'
+    : answer.score ? '🟡' // partial credit
+    : '❌'
+  const isCode = answer.answer && typeof answer.answer === 'object' && typeof answer.answer.code === 'string'
+
+  return (
+    <div className="text-sm">
+      <div className="font-medium text-gray-900 mb-1">
+        {icon} {question?.question || `Question ${answer.question_index + 1}`}
+        {answer.score !== undefined && <span className="text-gray-500 font-normal"> · {answer.score}%</span>}
+      </div>
+
+      {isCode ? (
+        <>
+          <pre className="bg-gray-900 text-gray-100 rounded-md p-3 text-xs overflow-x-auto">{answer.answer.code}</pre>
+          {Array.isArray(answer.answer.results) && (
+            <div className="text-xs text-gray-600 mt-1">
+              {answer.answer.results.filter((result: any) => result.passed).length} / {answer.answer.results.length} tests passed
+            </div>
+          )}
+        </>
+      ) : (
+        <div className="text-gray-700 whitespace-pre-wrap">{formatAnswer(answer.answer, question)}</div>
+      )}
+
+      {answer.review?.status === 'pending' && (
+        <div className="mt-2 text-xs text-purple-700">📝 Awaiting review by a grader</div>
+      )}
+      {answer.review?.status === 'completed' && (
+        <div className="mt-2 p-2 bg-purple-50 border border-purple-200 rounded-md text-xs text-purple-800">
+          📝 Graded by a reviewer: {answer.review.score}%
+          {answer.review.comment && <div className="mt-1 whitespace-pre-wrap text-purple-700">{answer.review.comment}</div>}
+        </div>
+      )}
+
+      {answer.feedback && (
+        <div className="mt-2">
+          <GradingFeedback grading={answer.feedback} />
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,14 +1,25 @@
 'use client'
 
 import { useState } from 'react'
+import { useAuth } from '@/contexts/AuthContext'
 import { ContentService } from '@/lib/content'
-import type { } from '@/types/content'
+import { canChangeStatus, canSubmitForReview } from '@/lib/content-workflow'
+import type { ContentStatus } from '@/types/content'
+
+type BulkOperation = 'publish' | 'draft' | 'archive' | 'review'
+
+const TARGET_STATUS: Record<Exclude<BulkOperation, 'review'>, ContentStatus> = {
+  publish: 'published',
+  draft: 'draft',
+  archive: 'archived'
+}
 
 interface BulkContentOperationsProps {
   selectedItems: {
     type: 'path' | 'course' | 'module' | 'lesson'
     id: string
     title: string
+    status: ContentStatus
   }[]
   onOperationComplete: () => void
   onCancel: () => void
@@ -19,19 +30,29 @@ export default function BulkContentOperations({
   onOperationComplete, 
   onCancel 
 }: BulkContentOperationsProps) {
+  const { userProfile } = useAuth()
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
-  const [operation, setOperation] = useState<'publish' | 'draft' | 'archive' | null>(null)
+  const [operation, setOperation] = useState<BulkOperation | null>(null)
+
+  const role = userProfile?.role ?? 'user'
 
-  const handleBulkOperation = async (op: 'publish' | 'draft' | 'archive') => {
-    if (selectedItems.length === 0) {
+  // Items the operation applies to under the publishing workflow; the others are left unchanged
+  const getEligibleItems = (op: BulkOperation) => selectedItems.filter(item => op === 'review'
+    ? canSubmitForReview(role, item.status)
+    : item.status !== TARGET_STATUS[op] && canChangeStatus(role, item.status, TARGET_STATUS[op])
+  )
+
+  const handleBulkOperation = async (op: BulkOperation) => {
+    const items = getEligibleItems(op)
+    if (items.length === 0) {
       return
     }
 
     // Confirmation for destructive operations
     if (op === 'archive') {
       const confirmed = window.confirm(
-        `Are you sure you want to archive ${selectedItems.length} content item(s)? This will make them unavailable to learners.`
+        `Are you sure you want to archive ${items.length} content item(s)? This will make them unavailable to learners.`
       )
       if (!confirmed) {
         return
@@ -43,56 +64,40 @@ export default function BulkContentOperations({
     setOperation(op)
 
     try {
-      const operations = selectedItems.map(async (item) => {
-        switch (op) {
-          case 'publish':
-            switch (item.type) {
-              case 'path':
-                return ContentService.updateLearningPath(item.id, { status: 'published' })
-              case 'course':
-                return ContentService.updateCourse(item.id, { status: 'published' })
-              case 'module':
-                return ContentService.updateModule(item.id, { status: 'published' })
-              case 'lesson':
-                return ContentService.updateLesson(item.id, { status: 'published' })
-            }
-            break
-          case 'draft':
-            switch (item.type) {
-              case 'path':
-                return ContentService.updateLearningPath(item.id, { status: 'draft' })
-              case 'course':
-                return ContentService.updateCourse(item.id, { status: 'draft' })
-              case 'module':
-                return ContentService.updateModule(item.id, { status: 'draft' })
-              case 'lesson':
-                return ContentService.updateLesson(item.id, { status: 'draft' })
-            }
-            break
-          case 'archive':
-            switch (item.type) {
-              case 'path':
-                return ContentService.updateLearningPath(item.id, { status: 'archived' })
-              case 'course':
-                return ContentService.updateCourse(item.id, { status: 'archived' })
-              case 'module':
-                return ContentService.updateModule(item.id, { status: 'archived' })
-              case 'lesson':
-                return ContentService.updateLesson(item.id, { status: 'archived' })
-            }
-            break
+      const operations = items.map(async (item) => {
+        if (op === 'review') {
+          return ContentService.submitForReview(item.type, item.id)
+        }
 
+        const status = TARGET_STATUS[op]
+        switch (item.type) {
+          case 'path':
+            return ContentService.updateLearningPath(item.id, { status })
+          case 'course':
+            return ContentService.updateCourse(item.id, { status })
+          case 'module':
+            return ContentService.updateModule(item.id, { status })
+          case 'lesson':
+            return ContentService.updateLesson(item.id, { status })
         }
       })
 
-      await Promise.all(operations)
+      // Items someone else is editing are rejected while the others are saved, so report which failed
+      const results = await Promise.allSettled(operations)
+      const failures = results.flatMap((result, index) => result.status === 'rejected'
+        ? [`"${items[index].title}": ${result.reason instanceof Error ? result.reason.message : 'failed'}`]
+        : [])
+
+      if (failures.length > 0) {
+        throw new Error(`${failures.length} of ${items.length} item(s) were not changed. ${failures.join('; ')}`)
+      }
       
       console.log(`✅ Bulk ${op} operation completed successfully`)
       onOperationComplete()
 
     } catch (error) {
       console.error(`Failed to perform bulk ${op}:`, error)
-      setError(`Failed to ${op} selected items. Please try again.`)
+      setError(error instanceof Error ? error.message : `Failed to ${op} selected items. Please try again.`)
     } finally {
       setLoading(false)
       setOperation(null)
@@ -107,11 +112,15 @@ export default function BulkContentOperations({
     return groups
   }, {} as Record<string, typeof selectedItems>)
 
-  const getOperationDescription = (op: string) => {
+  const getOperationDescription = (op: BulkOperation) => {
+    const eligible = getEligibleItems(op).length
+    const skipped = eligible < selectedItems.length ? ` - ${eligible} of ${selectedItems.length} items` : ''
+
     switch (op) {
-      case 'publish': return 'Make content available to learners'
-      case 'draft': return 'Save as draft (not visible to learners)'
-      case 'archive': return 'Archive content (hidden but not deleted)'
+      case 'publish': return `Make content available to learners${skipped}`
+      case 'draft': return `Save as draft (not visible to learners)${skipped}`
+      case 'archive': return `Archive content (hidden but not deleted)${skipped}`
+      case 'review': return `Ask an admin to publish drafts${skipped}`
 
       default: return ''
     }
@@ -171,7 +180,7 @@ export default function BulkContentOperations({
             {/* Publish */}
             <button
               onClick={() => handleBulkOperation('publish')}
-              disabled={loading}
+              disabled={loading || getEligibleItems('publish').length === 0}
               className="flex flex-col items-center p-4 border border-green-200 rounded-lg hover:bg-green-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
               type="button"
             >
@@ -185,7 +194,7 @@ export default function BulkContentOperations({
             {/* Draft */}
             <button
               onClick={() => handleBulkOperation('draft')}
-              disabled={loading}
+              disabled={loading || getEligibleItems('draft').length === 0}
               className="flex flex-col items-center p-4 border border-yellow-200 rounded-lg hover:bg-yellow-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
               type="button"
             >
@@ -199,7 +208,7 @@ export default function BulkContentOperations({
             {/* Archive */}
             <button
               onClick={() => handleBulkOperation('archive')}
-              disabled={loading}
+              disabled={loading || getEligibleItems('archive').length === 0}
               className="flex flex-col items-center p-4 border border-gray-200 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
               type="button"
             >
@@ -210,6 +219,20 @@ export default function BulkContentOperations({
               </div>
             </button>
 
+            {/* Submit for Review */}
+            <button
+              onClick={() => handleBulkOperation('review')}
+              disabled={loading || getEligibleItems('review').length === 0}
+              className="flex flex-col items-center p-4 border border-blue-200 rounded-lg hover:bg-blue-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              type="button"
+            >
+              <div className="text-2xl mb-2">🔍</div>
+              <div className="text-sm font-medium text-blue-800">Submit for Review</div>
+              <div className="text-xs text-blue-600 text-center mt-1">
+                {getOperationDescription('review')}
+              </div>
+            </button>
+
 
           </div>
         </div>
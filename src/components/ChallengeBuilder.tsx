@@ -0,0 +1,1351 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { ContentService } from '@/lib/content'
+import { CODE_LANGUAGES, DIFFICULTY_LEVELS, QUESTION_TYPES } from '@/lib/challenge-schema'
+import { CLOZE_BLANK, SCORING_STRATEGIES, splitClozeText } from '@/lib/quiz-scoring'
+import { getScenarioIssues } from '@/lib/scenario'
+import type {
+  ChallengeType,
+  CodeTestCase,
+  DifficultyLevel,
+  NumericAnswer,
+  QuestionBank,
+  QuestionBankSource,
+  QuestionType,
+  QuizAnswerValue,
+  ScenarioChoice,
+  ScenarioNode,
+  ScenarioNodeType,
+  ScoringStrategy
+} from '@/types/content'
+
+interface ChallengeBuilderProps {
+  challengeType: ChallengeType
+  lessonId?: string
+  content: Record<string, any>
+  solution: Record<string, any>
+  onChange: (content: Record<string, any>, solution: Record<string, any>) => void
+}
+
+const inputClass = 'mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-gray-900'
+const smallButtonClass = 'px-2 py-1 text-xs text-gray-600 border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed'
+
+const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  single_choice: 'Single choice',
+  multiple_choice: 'Multiple choice',
+  open_text: 'Open text (AI graded)',
+  drag_drop: 'Drag and drop',
+  cloze: 'Fill in the blanks',
+  numeric: 'Numeric',
+  matching: 'Matching'
+}
+
+const SCORING_LABELS: Record<ScoringStrategy, string> = {
+  all_or_nothing: 'All or nothing',
+  proportional: 'Proportional',
+  penalty: 'Penalty for wrong picks',
+  kendall_tau: 'Relative order (Kendall tau)'
+}
+
+// Structured editor for challenge content/solution - replaces hand-edited JSON in ChallengeForm
+export default function ChallengeBuilder(props: ChallengeBuilderProps) {
+  switch (props.challengeType) {
+    case 'quiz':
+    case 'multiple_choice':
+      return <QuizBuilder {...props} />
+    case 'code':
+      return <CodeBuilder {...props} />
+    case 'essay':
+      return <EssayBuilder {...props} />
+    case 'scenario':
+      return <ScenarioBuilder {...props} />
+    default:
+      return null
+  }
+}
+
+function moveItem<T>(items: T[], from: number, to: number): T[] {
+  const result = [...items]
+  const [item] = result.splice(from, 1)
+  result.splice(to, 0, item)
+  return result
+}
+
+function replaceAt<T>(items: T[], index: number, value: T): T[] {
+  return items.map((item, itemIndex) => itemIndex === index ? value : item)
+}
+
+function removeAt<T>(items: T[], index: number): T[] {
+  return items.filter((_, itemIndex) => itemIndex !== index)
+}
+
+// ============================================================================
+// QUIZ / MULTIPLE CHOICE
+// ============================================================================
+
+function nextQuestionId(questions: Record<string, any>[]): string {
+  let number = questions.length + 1
+  while (questions.some(question => question.id === `q${number}`)) {
+    number++
+  }
+  return `q${number}`
+}
+
+// A blank question of the given type with its matching default answer
+function createQuestion(type: QuestionType, id: string): { question: Record<string, any>; answer: QuizAnswerValue } {
+  switch (type) {
+    case 'single_choice':
+      return { question: { id, type, question: '', options: ['', ''] }, answer: 0 }
+    case 'multiple_choice':
+      return { question: { id, type, question: '', options: ['', ''] }, answer: [0] }
+    case 'open_text':
+      return { question: { id, type, question: '', criteria: [] }, answer: '' }
+    case 'drag_drop':
+      return { question: { id, type, question: '', items: [''], zones: [''] }, answer: {} }
+    case 'cloze':
+      return { question: { id, type, question: 'Fill in the blanks.', text: `The answer is ${CLOZE_BLANK}.` }, answer: [['']] }
+    case 'numeric':
+      return { question: { id, type, question: '' }, answer: { value: 0 } }
+    case 'matching':
+      return { question: { id, type, question: '', left: [''], right: [''] }, answer: {} }
+  }
+}
+
+function asMapping(answer: QuizAnswerValue): Record<string, string> {
+  return answer && typeof answer === 'object' && !Array.isArray(answer) ? answer as Record<string, string> : {}
+}
+
+function QuizBuilder({ challengeType, lessonId, content, solution, onChange }: ChallengeBuilderProps) {
+  const questions: Record<string, any>[] = content.questions || []
+  const answers: QuizAnswerValue[] = solution.answers || []
+  const allowedTypes: QuestionType[] = challengeType === 'multiple_choice' ? ['multiple_choice'] : QUESTION_TYPES
+  const usesBank = !!content.question_bank
+
+  const update = (nextQuestions: Record<string, any>[], nextAnswers: QuizAnswerValue[]) => {
+    onChange({ ...content, questions: nextQuestions }, { ...solution, answers: nextAnswers })
+  }
+
+  const handleAdd = () => {
+    const { question, answer } = createQuestion(allowedTypes[0], nextQuestionId(questions))
+    update([...questions, question], [...answers, answer])
+  }
+
+  const handleMove = (index: number, offset: number) => {
+    update(moveItem(questions, index, index + offset), moveItem(answers, index, index + offset))
+  }
+
+  const handleRemove = (index: number) => {
+    update(removeAt(questions, index), removeAt(answers, index))
+  }
+
+  const handleSourceChange = (bank: boolean) => {
+    if (bank === usesBank) {
+      return
+    }
+    if (questions.some(question => question.question) && !confirm('Switching to a question bank removes the questions written here. Continue?')) {
+      return
+    }
+    if (bank) {
+      onChange({ questions: [], question_bank: { bank_id: '', draw_count: 5 } }, { answers: [] })
+    } else {
+      const { question, answer } = createQuestion(allowedTypes[0], 'q1')
+      onChange({ questions: [question] }, { answers: [answer] })
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-4 text-sm">
+        <label className="flex items-center gap-2">
+          <input type="radio" checked={!usesBank} onChange={() => handleSourceChange(false)} />
+          Write questions
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="radio" checked={usesBank} onChange={() => handleSourceChange(true)} />
+          Draw from a question bank
+        </label>
+      </div>
+
+      {usesBank ? (
+        <QuestionBankSourceEditor
+          lessonId={lessonId}
+          source={content.question_bank}
+          onChange={source => onChange({ ...content, question_bank: source }, solution)}
+        />
+      ) : (
+        <>
+          {questions.map((question, index) => (
+            <QuestionEditor
+              key={question.id || index}
+              index={index}
+              count={questions.length}
+              question={question}
+              answer={answers[index]}
+              allowedTypes={allowedTypes}
+              onChange={(nextQuestion, nextAnswer) => update(replaceAt(questions, index, nextQuestion), replaceAt(answers, index, nextAnswer))}
+              onMove={offset => handleMove(index, offset)}
+              onRemove={() => handleRemove(index)}
+            />
+          ))}
+
+          <button
+            type="button"
+            onClick={handleAdd}
+            className="w-full py-2 text-sm text-blue-600 border-2 border-dashed border-blue-300 rounded-md hover:bg-blue-50"
+          >
+            + Add question
+          </button>
+        </>
+      )}
+    </div>
+  )
+}
+
+function QuestionEditor({ index, count, question, answer, allowedTypes, onChange, onMove, onRemove }: {
+  index: number
+  count: number
+  question: Record<string, any>
+  answer: QuizAnswerValue
+  allowedTypes: QuestionType[]
+  onChange: (question: Record<string, any>, answer: QuizAnswerValue) => void
+  onMove: (offset: number) => void
+  onRemove: () => void
+}) {
+  const type = question.type as QuestionType
+  const strategies = SCORING_STRATEGIES[type] || []
+
+  const setField = (field: string, value: unknown) => {
+    onChange({ ...question, [field]: value }, answer)
+  }
+
+  // Keep the shared fields when switching type; type-specific fields start over
+  const handleTypeChange = (nextType: QuestionType) => {
+    const fresh = createQuestion(nextType, question.id)
+    onChange({
+      ...fresh.question,
+      question: question.question,
+      explanation: question.explanation,
+      points: question.points
+    }, fresh.answer)
+  }
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-3 bg-gray-50">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <span className="text-sm font-semibold text-gray-900">Question {index + 1}</span>
+          {allowedTypes.length > 1 && (
+            <select
+              value={type}
+              onChange={e => handleTypeChange(e.target.value as QuestionType)}
+              className="text-sm px-2 py-1 border border-gray-300 rounded-md text-gray-900"
+            >
+              {allowedTypes.map(option => (
+                <option key={option} value={option}>{QUESTION_TYPE_LABELS[option]}</option>
+              ))}
+            </select>
+          )}
+        </div>
+        <div className="flex gap-1">
+          <button type="button" onClick={() => onMove(-1)} disabled={index === 0} className={smallButtonClass} title="Move up">↑</button>
+          <button type="button" onClick={() => onMove(1)} disabled={index === count - 1} className={smallButtonClass} title="Move down">↓</button>
+          <button type="button" onClick={onRemove} disabled={count === 1} className={smallButtonClass} title="Remove question">✕</button>
+        </div>
+      </div>
+
+      <textarea
+        value={question.question || ''}
+        onChange={e => setField('question', e.target.value)}
+        rows={2}
+        className={inputClass}
+        placeholder="Question text"
+      />
+
+      {(type === 'single_choice' || type === 'multiple_choice') && (
+        <ChoiceOptionsEditor question={question} answer={answer} onChange={onChange} />
+      )}
+      {type === 'open_text' && (
+        <OpenTextEditor question={question} answer={answer} onChange={onChange} />
+      )}
+      {type === 'drag_drop' && (
+        <DragDropEditor question={question} answer={answer} onChange={onChange} />
+      )}
+      {type === 'cloze' && (
+        <ClozeEditor question={question} answer={answer} onChange={onChange} />
+      )}
+      {type === 'numeric' && (
+        <NumericEditor question={question} answer={answer} onChange={onChange} />
+      )}
+      {type === 'matching' && (
+        <MatchingEditor question={question} answer={answer} onChange={onChange} />
+      )}
+
+      <textarea
+        value={question.explanation || ''}
+        onChange={e => setField('explanation', e.target.value || undefined)}
+        rows={2}
+        className={inputClass}
+        placeholder="Explanation shown after submitting (optional)"
+      />
+
+      <div className="flex flex-wrap gap-4 text-sm">
+        <label className="flex items-center gap-2 text-gray-700">
+          Points
+          <input
+            type="number"
+            min="1"
+            value={question.points ?? 1}
+            onChange={e => setField('points', parseInt(e.target.value) || undefined)}
+            className="w-20 px-2 py-1 border border-gray-300 rounded-md text-gray-900"
+          />
+        </label>
+        {strategies.length > 1 && (
+          <label className="flex items-center gap-2 text-gray-700">
+            Scoring
+            <select
+              value={question.scoring || 'all_or_nothing'}
+              onChange={e => setField('scoring', e.target.value === 'all_or_nothing' ? undefined : e.target.value)}
+              className="px-2 py-1 border border-gray-300 rounded-md text-gray-900"
+            >
+              {strategies.map(strategy => (
+                <option key={strategy} value={strategy}>{SCORING_LABELS[strategy]}</option>
+              ))}
+            </select>
+          </label>
+        )}
+      </div>
+    </div>
+  )
+}
+
+// Options with a correct marker and an optional explanation each
+function ChoiceOptionsEditor({ question, answer, onChange }: {
+  question: Record<string, any>
+  answer: QuizAnswerValue
+  onChange: (question: Record<string, any>, answer: QuizAnswerValue) => void
+}) {
+  const options: string[] = question.options || []
+  const explanations: string[] = question.option_explanations || options.map(() => '')
+  const multiple = question.type === 'multiple_choice'
+  const correct: number[] = multiple ? (Array.isArray(answer) ? answer as number[] : []) : [typeof answer === 'number' ? answer : 0]
+
+  const withOptions = (nextOptions: string[], nextExplanations: string[]) => ({
+    ...question,
+    options: nextOptions,
+    option_explanations: nextExplanations.some(text => text.trim()) ? nextExplanations : undefined
+  })
+
+  const toggleCorrect = (index: number) => {
+    if (!multiple) {
+      onChange(question, index)
+      return
+    }
+    const next = correct.includes(index) ? correct.filter(item => item !== index) : [...correct, index].sort((a, b) => a - b)
+    onChange(question, next)
+  }
+
+  // Correct answers point at option indexes, so shift them past the removed option
+  const removeOption = (index: number) => {
+    const shifted = correct.filter(item => item !== index).map(item => item > index ? item - 1 : item)
+    onChange(
+      withOptions(removeAt(options, index), removeAt(explanations, index)),
+      multiple ? shifted : (shifted[0] ?? 0)
+    )
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="text-xs text-gray-500">
+        Mark the correct option{multiple ? 's' : ''}. Option explanations are shown to learners who picked them.
+      </div>
+      {options.map((option, index) => (
+        <div key={index} className="flex items-start gap-2">
+          <input
+            type={multiple ? 'checkbox' : 'radio'}
+            checked={correct.includes(index)}
+            onChange={() => toggleCorrect(index)}
+            className="mt-3"
+            title="Correct answer"
+          />
+          <div className="flex-1 space-y-1">
+            <input
+              type="text"
+              value={option}
+              onChange={e => onChange(withOptions(replaceAt(options, index, e.target.value), explanations), answer)}
+              className={inputClass}
+              placeholder={`Option ${index + 1}`}
+            />
+            <input
+              type="text"
+              value={explanations[index] || ''}
+              onChange={e => onChange(withOptions(options, replaceAt(explanations, index, e.target.value)), answer)}
+              className="block w-full px-3 py-1 border border-gray-200 rounded-md text-sm text-gray-700"
+              placeholder="Why this option is right or wrong (optional)"
+            />
+          </div>
+          <button
+            type="button"
+            onClick={() => removeOption(index)}
+            disabled={options.length <= 2}
+            className={`${smallButtonClass} mt-2`}
+            title="Remove option"
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => onChange(withOptions([...options, ''], [...explanations, '']), answer)}
+        className="text-sm text-blue-600 hover:text-blue-800"
+      >
+        + Add option
+      </button>
+    </div>
+  )
+}
+
+function OpenTextEditor({ question, answer, onChange }: {
+  question: Record<string, any>
+  answer: QuizAnswerValue
+  onChange: (question: Record<string, any>, answer: QuizAnswerValue) => void
+}) {
+  return (
+    <div className="space-y-2">
+      <textarea
+        value={typeof answer === 'string' ? answer : ''}
+        onChange={e => onChange(question, e.target.value)}
+        rows={3}
+        className={inputClass}
+        placeholder="Model answer used by the AI grader"
+      />
+      <StringListEditor
+        label="Grading criteria"
+        values={question.criteria || []}
+        placeholder="e.g. Accuracy"
+        onChange={criteria => onChange({ ...question, criteria }, answer)}
+      />
+      <input
+        type="text"
+        value={question.rubric || ''}
+        onChange={e => onChange({ ...question, rubric: e.target.value || undefined }, answer)}
+        className={inputClass}
+        placeholder="Rubric notes for the grader (optional)"
+      />
+    </div>
+  )
+}
+
+// Items, zones, and the item that belongs in each zone
+function DragDropEditor({ question, answer, onChange }: {
+  question: Record<string, any>
+  answer: QuizAnswerValue
+  onChange: (question: Record<string, any>, answer: QuizAnswerValue) => void
+}) {
+  const items: string[] = question.items || []
+  const zones: string[] = question.zones || []
+  const mapping = asMapping(answer)
+
+  // The answer refers to items and zones by text, so renames and removals carry over
+  const renameItem = (index: number, value: string) => {
+    const previous = items[index]
+    const nextMapping = Object.fromEntries(Object.entries(mapping).map(([zone, item]) => [zone, item === previous ? value : item]))
+    onChange({ ...question, items: replaceAt(items, index, value) }, nextMapping)
+  }
+
+  const removeItem = (index: number) => {
+    const nextMapping = Object.fromEntries(Object.entries(mapping).filter(([, item]) => item !== items[index]))
+    onChange({ ...question, items: removeAt(items, index) }, nextMapping)
+  }
+
+  const renameZone = (index: number, value: string) => {
+    const previous = zones[index]
+    const nextMapping = Object.fromEntries(Object.entries(mapping).map(([zone, item]) => [zone === previous ? value : zone, item]))
+    onChange({ ...question, zones: replaceAt(zones, index, value) }, nextMapping)
+  }
+
+  const removeZone = (index: number) => {
+    const nextMapping = Object.fromEntries(Object.entries(mapping).filter(([zone]) => zone !== zones[index]))
+    onChange({ ...question, zones: removeAt(zones, index) }, nextMapping)
+  }
+
+  const setZoneItem = (zone: string, item: string) => {
+    const nextMapping = { ...mapping }
+    if (item) {
+      nextMapping[zone] = item
+    } else {
+      delete nextMapping[zone]
+    }
+    onChange(question, nextMapping)
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div className="space-y-2">
+        <div className="text-xs font-medium text-gray-700">Items</div>
+        {items.map((item, index) => (
+          <div key={index} className="flex gap-2">
+            <input
+              type="text"
+              value={item}
+              onChange={e => renameItem(index, e.target.value)}
+              className={inputClass}
+              placeholder={`Item ${index + 1}`}
+            />
+            <button type="button" onClick={() => removeItem(index)} disabled={items.length <= 1} className={smallButtonClass}>✕</button>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => onChange({ ...question, items: [...items, ''] }, mapping)}
+          className="text-sm text-blue-600 hover:text-blue-800"
+        >
+          + Add item
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        <div className="text-xs font-medium text-gray-700">Zones and their correct item (zone order is the order used for ordering credit)</div>
+        {zones.map((zone, index) => (
+          <div key={index} className="flex gap-2">
+            <input
+              type="text"
+              value={zone}
+              onChange={e => renameZone(index, e.target.value)}
+              className={inputClass}
+              placeholder={`Zone ${index + 1}`}
+            />
+            <select
+              value={mapping[zone] || ''}
+              onChange={e => setZoneItem(zone, e.target.value)}
+              className="mt-1 px-2 border border-gray-300 rounded-md text-sm text-gray-900"
+            >
+              <option value="">(empty)</option>
+              {items.filter(item => item).map(item => (
+                <option key={item} value={item}>{item}</option>
+              ))}
+            </select>
+            <button type="button" onClick={() => removeZone(index)} disabled={zones.length <= 1} className={smallButtonClass}>✕</button>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => onChange({ ...question, zones: [...zones, ''] }, mapping)}
+          className="text-sm text-blue-600 hover:text-blue-800"
+        >
+          + Add zone
+        </button>
+      </div>
+    </div>
+  )
+}
+
+// Sentence with {{blank}} markers and the accepted answers for each blank
+function ClozeEditor({ question, answer, onChange }: {
+  question: Record<string, any>
+  answer: QuizAnswerValue
+  onChange: (question: Record<string, any>, answer: QuizAnswerValue) => void
+}) {
+  const text: string = question.text || ''
+  const accepted: string[][] = Array.isArray(answer) ? answer as string[][] : []
+  const blankCount = splitClozeText(text).length - 1
+
+  // Keep one answer list per blank as blanks are added or removed
+  const handleTextChange = (nextText: string) => {
+    const nextCount = splitClozeText(nextText).length - 1
+    const nextAccepted = Array.from({ length: nextCount }, (_, index) => accepted[index] || [''])
+    onChange({ ...question, text: nextText }, nextAccepted)
+  }
+
+  return (
+    <div className="space-y-2">
+      <textarea
+        value={text}
+        onChange={e => handleTextChange(e.target.value)}
+        rows={3}
+        className={`${inputClass} font-mono text-sm`}
+        placeholder={`Sentence with ${CLOZE_BLANK} where learners fill in a word`}
+      />
+      <div className="flex items-center justify-between text-xs text-gray-500">
+        <span>Write {CLOZE_BLANK} for each blank. **bold**, *italic* and `code` are supported.</span>
+        <button type="button" onClick={() => handleTextChange(`${text}${CLOZE_BLANK}`)} className="text-blue-600 hover:text-blue-800">
+          + Insert blank
+        </button>
+      </div>
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={!!question.case_sensitive}
+          onChange={e => onChange({ ...question, case_sensitive: e.target.checked || undefined }, answer)}
+        />
+        Case-sensitive answers
+      </label>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {Array.from({ length: blankCount }, (_, index) => (
+          <StringListEditor
+            key={index}
+            label={`Accepted answers for blank ${index + 1}`}
+            values={accepted[index] || ['']}
+            placeholder="Accepted answer"
+            onChange={values => onChange(question, replaceAt(
+              Array.from({ length: blankCount }, (_, blankIndex) => accepted[blankIndex] || ['']),
+              index,
+              values
+            ))}
+          />
+        ))}
+      </div>
+    </div>
+  )
+}
+
+function NumericEditor({ question, answer, onChange }: {
+  question: Record<string, any>
+  answer: QuizAnswerValue
+  onChange: (question: Record<string, any>, answer: QuizAnswerValue) => void
+}) {
+  const expected: NumericAnswer = answer && typeof answer === 'object' && 'value' in answer ? answer as NumericAnswer : { value: 0 }
+  const setExpected = (field: keyof NumericAnswer, value: unknown) => onChange(question, { ...expected, [field]: value })
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+      <label className="block text-gray-700">
+        Correct value
+        <input
+          type="number"
+          step="any"
+          value={expected.value}
+          onChange={e => setExpected('value', parseFloat(e.target.value) || 0)}
+          className={inputClass}
+        />
+      </label>
+      <label className="block text-gray-700">
+        Tolerance
+        <input
+          type="number"
+          step="any"
+          min="0"
+          value={expected.tolerance ?? 0}
+          onChange={e => setExpected('tolerance', parseFloat(e.target.value) || undefined)}
+          className={inputClass}
+        />
+      </label>
+      <label className="block text-gray-700">
+        Tolerance type
+        <select
+          value={expected.tolerance_type || 'absolute'}
+          onChange={e => setExpected('tolerance_type', e.target.value === 'absolute' ? undefined : e.target.value)}
+          className={inputClass}
+        >
+          <option value="absolute">± absolute</option>
+          <option value="relative">± % of value</option>
+        </select>
+      </label>
+      <label className="block text-gray-700">
+        Unit
+        <input
+          type="text"
+          value={question.unit || ''}
+          onChange={e => onChange({ ...question, unit: e.target.value || undefined }, answer)}
+          className={inputClass}
+          placeholder="e.g. USD/month"
+        />
+      </label>
+    </div>
+  )
+}
+
+// Left entries, right entries (extra right entries act as distractors), and the correct pairs
+function MatchingEditor({ question, answer, onChange }: {
+  question: Record<string, any>
+  answer: QuizAnswerValue
+  onChange: (question: Record<string, any>, answer: QuizAnswerValue) => void
+}) {
+  const left: string[] = question.left || []
+  const right: string[] = question.right || []
+  const pairs = asMapping(answer)
+
+  // Pairs refer to entries by text, so renames and removals carry over
+  const renameLeft = (index: number, value: string) => {
+    const previous = left[index]
+    const nextPairs = Object.fromEntries(Object.entries(pairs).map(([entry, match]) => [entry === previous ? value : entry, match]))
+    onChange({ ...question, left: replaceAt(left, index, value) }, nextPairs)
+  }
+
+  const removeLeft = (index: number) => {
+    const nextPairs = Object.fromEntries(Object.entries(pairs).filter(([entry]) => entry !== left[index]))
+    onChange({ ...question, left: removeAt(left, index) }, nextPairs)
+  }
+
+  const renameRight = (index: number, value: string) => {
+    const previous = right[index]
+    const nextPairs = Object.fromEntries(Object.entries(pairs).map(([entry, match]) => [entry, match === previous ? value : match]))
+    onChange({ ...question, right: replaceAt(right, index, value) }, nextPairs)
+  }
+
+  const removeRight = (index: number) => {
+    const nextPairs = Object.fromEntries(Object.entries(pairs).filter(([, match]) => match !== right[index]))
+    onChange({ ...question, right: removeAt(right, index) }, nextPairs)
+  }
+
+  const setMatch = (entry: string, match: string) => {
+    const nextPairs = { ...pairs }
+    if (match) {
+      nextPairs[entry] = match
+    } else {
+      delete nextPairs[entry]
+    }
+    onChange(question, nextPairs)
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div className="space-y-2">
+        <div className="text-xs font-medium text-gray-700">Left column and its correct match</div>
+        {left.map((entry, index) => (
+          <div key={index} className="flex gap-2">
+            <input
+              type="text"
+              value={entry}
+              onChange={e => renameLeft(index, e.target.value)}
+              className={inputClass}
+              placeholder={`Left ${index + 1}`}
+            />
+            <select
+              value={pairs[entry] || ''}
+              onChange={e => setMatch(entry, e.target.value)}
+              className="mt-1 px-2 border border-gray-300 rounded-md text-sm text-gray-900"
+            >
+              <option value="">(none)</option>
+              {right.filter(match => match).map(match => (
+                <option key={match} value={match}>{match}</option>
+              ))}
+            </select>
+            <button type="button" onClick={() => removeLeft(index)} disabled={left.length <= 1} className={smallButtonClass}>✕</button>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => onChange({ ...question, left: [...left, ''] }, pairs)}
+          className="text-sm text-blue-600 hover:text-blue-800"
+        >
+          + Add left entry
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        <div className="text-xs font-medium text-gray-700">Right column</div>
+        {right.map((entry, index) => (
+          <div key={index} className="flex gap-2">
+            <input
+              type="text"
+              value={entry}
+              onChange={e => renameRight(index, e.target.value)}
+              className={inputClass}
+              placeholder={`Right ${index + 1}`}
+            />
+            <button type="button" onClick={() => removeRight(index)} disabled={right.length <= 1} className={smallButtonClass}>✕</button>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => onChange({ ...question, right: [...right, ''] }, pairs)}
+          className="text-sm text-blue-600 hover:text-blue-800"
+        >
+          + Add right entry
+        </button>
+      </div>
+    </div>
+  )
+}
+
+function QuestionBankSourceEditor({ lessonId, source, onChange }: {
+  lessonId?: string
+  source: QuestionBankSource
+  onChange: (source: QuestionBankSource) => void
+}) {
+  const [banks, setBanks] = useState<QuestionBank[]>([])
+
+  useEffect(() => {
+    async function loadBanks() {
+      setBanks(await ContentService.getQuestionBanks(lessonId ? { lessonId } : undefined))
+    }
+
+    loadBanks()
+  }, [lessonId])
+
+  const toggleDifficulty = (level: DifficultyLevel) => {
+    const current = source.difficulty || []
+    const next = current.includes(level) ? current.filter(item => item !== level) : [...current, level]
+    onChange({ ...source, difficulty: next.length > 0 ? next : undefined })
+  }
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-3 bg-gray-50 text-sm">
+      <label className="block text-gray-700">
+        Question bank
+        <select
+          value={source.bank_id}
+          onChange={e => onChange({ ...source, bank_id: e.target.value })}
+          className={inputClass}
+        >
+          <option value="">Select a bank</option>
+          {banks.map(bank => (
+            <option key={bank.id} value={bank.id}>{bank.title}</option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex items-center gap-2 text-gray-700">
+        Questions per attempt
+        <input
+          type="number"
+          min="1"
+          value={source.draw_count}
+          onChange={e => onChange({ ...source, draw_count: parseInt(e.target.value) || 0 })}
+          className="w-20 px-2 py-1 border border-gray-300 rounded-md text-gray-900"
+        />
+      </label>
+
+      <StringListEditor
+        label="Only items tagged (any of)"
+        values={source.tags || []}
+        placeholder="tag"
+        onChange={tags => onChange({ ...source, tags: tags.length > 0 ? tags : undefined })}
+      />
+
+      <div className="flex gap-4 text-gray-700">
+        {DIFFICULTY_LEVELS.map(level => (
+          <label key={level} className="flex items-center gap-1 capitalize">
+            <input
+              type="checkbox"
+              checked={source.difficulty?.includes(level) || false}
+              onChange={() => toggleDifficulty(level)}
+            />
+            {level}
+          </label>
+        ))}
+      </div>
+
+      <label className="flex items-center gap-2 text-gray-700">
+        <input
+          type="checkbox"
+          checked={source.shuffle_options !== false}
+          onChange={e => onChange({ ...source, shuffle_options: e.target.checked ? undefined : false })}
+        />
+        Shuffle answer options
+      </label>
+    </div>
+  )
+}
+
+// ============================================================================
+// CODE
+// ============================================================================
+
+function CodeBuilder({ content, solution, onChange }: ChallengeBuilderProps) {
+  const testCases: CodeTestCase[] = content.test_cases || []
+
+  const setContent = (field: string, value: unknown) => onChange({ ...content, [field]: value }, solution)
+  const setSolution = (field: string, value: unknown) => onChange(content, { ...solution, [field]: value })
+  const setTestCases = (next: CodeTestCase[]) => setContent('test_cases', next)
+
+  return (
+    <div className="space-y-4 text-sm">
+      <textarea
+        value={content.problem_statement || ''}
+        onChange={e => setContent('problem_statement', e.target.value)}
+        rows={4}
+        className={inputClass}
+        placeholder="Problem statement"
+      />
+
+      <div className="grid grid-cols-2 gap-4">
+        <label className="block text-gray-700">
+          Language
+          <select
+            value={content.language || 'javascript'}
+            onChange={e => setContent('language', e.target.value)}
+            className={inputClass}
+          >
+            {CODE_LANGUAGES.map(language => (
+              <option key={language} value={language}>{language === 'typescript' ? 'TypeScript' : 'JavaScript'}</option>
+            ))}
+          </select>
+        </label>
+        <label className="block text-gray-700">
+          Function name
+          <input
+            type="text"
+            value={content.function_name || ''}
+            onChange={e => setContent('function_name', e.target.value || undefined)}
+            className={`${inputClass} font-mono`}
+            placeholder="solution"
+          />
+        </label>
+      </div>
+
+      <label className="block text-gray-700">
+        Starter code
+        <textarea
+          value={content.starter_code || ''}
+          onChange={e => setContent('starter_code', e.target.value)}
+          rows={6}
+          className={`${inputClass} font-mono`}
+        />
+      </label>
+
+      <div className="space-y-2">
+        <div className="font-medium text-gray-700">Test cases</div>
+        <div className="text-xs text-gray-500">Input is parsed as JSON; an array is spread as arguments.</div>
+        {testCases.map((testCase, index) => (
+          <div key={index} className="flex gap-2 items-start">
+            <input
+              type="text"
+              value={testCase.input}
+              onChange={e => setTestCases(replaceAt(testCases, index, { ...testCase, input: e.target.value }))}
+              className={`${inputClass} font-mono`}
+              placeholder="Input, e.g. [1, 2]"
+            />
+            <input
+              type="text"
+              value={testCase.expected_output}
+              onChange={e => setTestCases(replaceAt(testCases, index, { ...testCase, expected_output: e.target.value }))}
+              className={`${inputClass} font-mono`}
+              placeholder="Expected output"
+            />
+            <input
+              type="text"
+              value={testCase.description || ''}
+              onChange={e => setTestCases(replaceAt(testCases, index, { ...testCase, description: e.target.value }))}
+              className={inputClass}
+              placeholder="Description"
+            />
+            <button
+              type="button"
+              onClick={() => setTestCases(removeAt(testCases, index))}
+              disabled={testCases.length <= 1}
+              className={`${smallButtonClass} mt-2`}
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => setTestCases([...testCases, { input: '', expected_output: '', description: '' }])}
+          className="text-sm text-blue-600 hover:text-blue-800"
+        >
+          + Add test case
+        </button>
+      </div>
+
+      <label className="block text-gray-700">
+        Reference solution
+        <textarea
+          value={solution.solution_code || ''}
+          onChange={e => setSolution('solution_code', e.target.value)}
+          rows={6}
+          className={`${inputClass} font-mono`}
+        />
+      </label>
+
+      <textarea
+        value={solution.explanation || ''}
+        onChange={e => setSolution('explanation', e.target.value)}
+        rows={2}
+        className={inputClass}
+        placeholder="Solution explanation"
+      />
+    </div>
+  )
+}
+
+// ============================================================================
+// ESSAY
+// ============================================================================
+
+function EssayBuilder({ content, solution, onChange }: ChallengeBuilderProps) {
+  const criteria: string[] = content.criteria || []
+  const rubric: Record<string, string> = solution.rubric || {}
+
+  const setContent = (field: string, value: unknown) => onChange({ ...content, [field]: value }, solution)
+
+  // Rubric descriptions are keyed by criterion name
+  const renameCriterion = (index: number, name: string) => {
+    const previous = criteria[index]
+    const nextRubric = Object.fromEntries(Object.entries(rubric).map(([key, value]) => [key === previous ? name : key, value]))
+    onChange({ ...content, criteria: replaceAt(criteria, index, name) }, { ...solution, rubric: nextRubric })
+  }
+
+  const removeCriterion = (index: number) => {
+    const nextRubric = Object.fromEntries(Object.entries(rubric).filter(([key]) => key !== criteria[index]))
+    onChange({ ...content, criteria: removeAt(criteria, index) }, { ...solution, rubric: nextRubric })
+  }
+
+  return (
+    <div className="space-y-4 text-sm">
+      <textarea
+        value={content.prompt || ''}
+        onChange={e => setContent('prompt', e.target.value)}
+        rows={4}
+        className={inputClass}
+        placeholder="Essay prompt"
+      />
+
+      <div className="grid grid-cols-2 gap-4">
+        <label className="block text-gray-700">
+          Minimum words
+          <input
+            type="number"
+            min="0"
+            value={content.min_words ?? 0}
+            onChange={e => setContent('min_words', parseInt(e.target.value) || 0)}
+            className={inputClass}
+          />
+        </label>
+        <label className="block text-gray-700">
+          Maximum words
+          <input
+            type="number"
+            min="1"
+            value={content.max_words ?? 0}
+            onChange={e => setContent('max_words', parseInt(e.target.value) || 0)}
+            className={inputClass}
+          />
+        </label>
+      </div>
+
+      <div className="space-y-2">
+        <div className="font-medium text-gray-700">Rubric criteria</div>
+        {criteria.map((criterion, index) => (
+          <div key={index} className="flex gap-2 items-start">
+            <input
+              type="text"
+              value={criterion}
+              onChange={e => renameCriterion(index, e.target.value)}
+              className={`${inputClass} md:w-1/3`}
+              placeholder="Criterion"
+            />
+            <input
+              type="text"
+              value={rubric[criterion] || ''}
+              onChange={e => onChange(content, { ...solution, rubric: { ...rubric, [criterion]: e.target.value } })}
+              className={inputClass}
+              placeholder="What a strong answer shows"
+            />
+            <button type="button" onClick={() => removeCriterion(index)} className={`${smallButtonClass} mt-2`}>✕</button>
+          </div>
+        ))}
+        <button
+          type="button"
+          onClick={() => setContent('criteria', [...criteria, ''])}
+          className="text-sm text-blue-600 hover:text-blue-800"
+        >
+          + Add criterion
+        </button>
+      </div>
+
+      <textarea
+        value={solution.sample_answer || ''}
+        onChange={e => onChange(content, { ...solution, sample_answer: e.target.value })}
+        rows={5}
+        className={inputClass}
+        placeholder="Sample answer used by the AI grader"
+      />
+    </div>
+  )
+}
+
+// ============================================================================
+// SCENARIO
+// ============================================================================
+
+const SCENARIO_NODE_LABELS: Record<ScenarioNodeType, string> = {
+  narrative: 'Narrative',
+  choice: 'Choice',
+  outcome: 'Outcome'
+}
+
+function nextNodeId(nodes: Record<string, any>[], prefix: string): string {
+  let number = 1
+  while (nodes.some(node => node.id === `${prefix}_${number}`)) {
+    number++
+  }
+  return `${prefix}_${number}`
+}
+
+function createScenarioNode(type: ScenarioNodeType, id: string): Record<string, any> {
+  switch (type) {
+    case 'narrative':
+      return { id, type, title: '', body: '', next: '' }
+    case 'choice':
+      return { id, type, title: '', body: '', choices: [{ id: 'a', label: '', next: '' }] }
+    case 'outcome':
+      return { id, type, title: '', body: '', score: 100 }
+  }
+}
+
+// Graph editor: nodes with their links, plus a live list of graph problems
+function ScenarioBuilder({ content, solution, onChange }: ChallengeBuilderProps) {
+  const nodes: Record<string, any>[] = content.nodes || []
+  const issues = getScenarioIssues({ start_node: content.start_node || '', nodes: nodes as ScenarioNode[] })
+
+  const setNodes = (nextNodes: Record<string, any>[], startNode: string = content.start_node) => {
+    onChange({ ...content, start_node: startNode, nodes: nextNodes }, solution)
+  }
+
+  // Links refer to node ids, so renaming a node updates every link to it
+  const renameNode = (index: number, id: string) => {
+    const previous = nodes[index].id
+    const relink = (target: string) => target === previous ? id : target
+    const nextNodes = nodes.map((node, nodeIndex) => {
+      const renamed = nodeIndex === index ? { ...node, id } : node
+      if (renamed.type === 'narrative') {
+        return { ...renamed, next: relink(renamed.next) }
+      }
+      if (renamed.type === 'choice') {
+        return { ...renamed, choices: (renamed.choices || []).map((choice: ScenarioChoice) => ({ ...choice, next: relink(choice.next) })) }
+      }
+      return renamed
+    })
+    setNodes(nextNodes, relink(content.start_node))
+  }
+
+  const handleAdd = (type: ScenarioNodeType) => {
+    const node = createScenarioNode(type, nextNodeId(nodes, type))
+    setNodes([...nodes, node], content.start_node || node.id)
+  }
+
+  return (
+    <div className="space-y-4 text-sm">
+      <label className="block text-gray-700">
+        Start node
+        <select
+          value={content.start_node || ''}
+          onChange={e => setNodes(nodes, e.target.value)}
+          className={inputClass}
+        >
+          <option value="">Select the first node</option>
+          {nodes.map(node => (
+            <option key={node.id} value={node.id}>{node.title ? `${node.title} (${node.id})` : node.id}</option>
+          ))}
+        </select>
+      </label>
+
+      {issues.length > 0 ? (
+        <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-md text-yellow-800">
+          <div className="font-medium mb-1">Graph problems</div>
+          <ul className="list-disc list-inside space-y-0.5">
+            {issues.map(issue => <li key={issue}>{issue}</li>)}
+          </ul>
+        </div>
+      ) : (
+        <div className="p-3 bg-green-50 border border-green-200 rounded-md text-green-800">
+          ✅ Every node is reachable and every path ends in an outcome.
+        </div>
+      )}
+
+      {nodes.map((node, index) => (
+        <ScenarioNodeEditor
+          key={index}
+          node={node}
+          nodes={nodes}
+          isStart={node.id === content.start_node}
+          onRename={id => renameNode(index, id)}
+          onChange={nextNode => setNodes(replaceAt(nodes, index, nextNode))}
+          onRemove={() => setNodes(removeAt(nodes, index))}
+        />
+      ))}
+
+      <div className="flex gap-2">
+        {(Object.keys(SCENARIO_NODE_LABELS) as ScenarioNodeType[]).map(type => (
+          <button
+            key={type}
+            type="button"
+            onClick={() => handleAdd(type)}
+            className="flex-1 py-2 text-sm text-blue-600 border-2 border-dashed border-blue-300 rounded-md hover:bg-blue-50"
+          >
+            + {SCENARIO_NODE_LABELS[type]} node
+          </button>
+        ))}
+      </div>
+
+      <textarea
+        value={solution.explanation || ''}
+        onChange={e => onChange(content, { ...solution, explanation: e.target.value })}
+        rows={2}
+        className={inputClass}
+        placeholder="Debrief shown with every outcome (optional)"
+      />
+    </div>
+  )
+}
+
+function ScenarioNodeEditor({ node, nodes, isStart, onRename, onChange, onRemove }: {
+  node: Record<string, any>
+  nodes: Record<string, any>[]
+  isStart: boolean
+  onRename: (id: string) => void
+  onChange: (node: Record<string, any>) => void
+  onRemove: () => void
+}) {
+  const type = node.type as ScenarioNodeType
+  const choices: ScenarioChoice[] = node.choices || []
+  const targets = nodes.filter(other => other.id && other.id !== node.id)
+
+  const targetSelect = (value: string, onSelect: (target: string) => void) => (
+    <select
+      value={value || ''}
+      onChange={e => onSelect(e.target.value)}
+      className="px-2 py-1 border border-gray-300 rounded-md text-sm text-gray-900"
+    >
+      <option value="">Go to...</option>
+      {targets.map(other => (
+        <option key={other.id} value={other.id}>{other.title ? `${other.title} (${other.id})` : other.id}</option>
+      ))}
+    </select>
+  )
+
+  return (
+    <div className={`border rounded-lg p-4 space-y-3 ${isStart ? 'border-blue-300 bg-blue-50' : 'border-gray-200 bg-gray-50'}`}>
+      <div className="flex items-center gap-2">
+        <select
+          value={type}
+          onChange={e => onChange({ ...createScenarioNode(e.target.value as ScenarioNodeType, node.id), title: node.title, body: node.body })}
+          className="px-2 py-1 border border-gray-300 rounded-md text-sm text-gray-900"
+        >
+          {(Object.keys(SCENARIO_NODE_LABELS) as ScenarioNodeType[]).map(option => (
+            <option key={option} value={option}>{SCENARIO_NODE_LABELS[option]}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={node.id}
+          onChange={e => onRename(e.target.value)}
+          className="w-40 px-2 py-1 border border-gray-300 rounded-md font-mono text-xs text-gray-900"
+          title="Node id"
+        />
+        {isStart && <span className="text-xs font-medium text-blue-700">Start</span>}
+        <button type="button" onClick={onRemove} className={`${smallButtonClass} ml-auto`} title="Remove node">✕</button>
+      </div>
+
+      <input
+        type="text"
+        value={node.title || ''}
+        onChange={e => onChange({ ...node, title: e.target.value })}
+        className={inputClass}
+        placeholder="Title"
+      />
+      <textarea
+        value={node.body || ''}
+        onChange={e => onChange({ ...node, body: e.target.value })}
+        rows={3}
+        className={inputClass}
+        placeholder="What happens here (markdown)"
+      />
+
+      {type === 'narrative' && (
+        <div className="flex items-center gap-2 text-gray-700">
+          Continue to {targetSelect(node.next, next => onChange({ ...node, next }))}
+        </div>
+      )}
+
+      {type === 'choice' && (
+        <div className="space-y-2">
+          {choices.map((choice, index) => (
+            <div key={index} className="p-2 bg-white border border-gray-200 rounded-md space-y-2">
+              <div className="flex gap-2 items-center">
+                <input
+                  type="text"
+                  value={choice.label}
+                  onChange={e => onChange({ ...node, choices: replaceAt(choices, index, { ...choice, label: e.target.value }) })}
+                  className="flex-1 px-2 py-1 border border-gray-300 rounded-md text-sm text-gray-900"
+                  placeholder={`Choice ${index + 1}`}
+                />
+                {targetSelect(choice.next, next => onChange({ ...node, choices: replaceAt(choices, index, { ...choice, next }) }))}
+                <button
+                  type="button"
+                  onClick={() => onChange({ ...node, choices: removeAt(choices, index) })}
+                  disabled={choices.length <= 1}
+                  className={smallButtonClass}
+                >
+                  ✕
+                </button>
+              </div>
+              <input
+                type="text"
+                value={choice.consequence || ''}
+                onChange={e => onChange({ ...node, choices: replaceAt(choices, index, { ...choice, consequence: e.target.value || undefined }) })}
+                className="block w-full px-2 py-1 border border-gray-200 rounded-md text-sm text-gray-700"
+                placeholder="Consequence shown after picking this (optional)"
+              />
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => onChange({
+              ...node,
+              choices: [...choices, { id: nextChoiceId(choices), label: '', next: '' }]
+            })}
+            className="text-sm text-blue-600 hover:text-blue-800"
+          >
+            + Add choice
+          </button>
+        </div>
+      )}
+
+      {type === 'outcome' && (
+        <label className="flex items-center gap-2 text-gray-700">
+          Score
+          <input
+            type="number"
+            min="0"
+            max="100"
+            value={node.score ?? 0}
+            onChange={e => onChange({ ...node, score: parseInt(e.target.value) || 0 })}
+            className="w-20 px-2 py-1 border border-gray-300 rounded-md text-gray-900"
+          />
+          %
+        </label>
+      )}
+    </div>
+  )
+}
+
+// Choice ids only need to be unique within their node: a, b, c...
+function nextChoiceId(choices: ScenarioChoice[]): string {
+  const letters = 'abcdefghijklmnopqrstuvwxyz'
+  const free = [...letters].find(letter => !choices.some(choice => choice.id === letter))
+  return free || `choice_${choices.length + 1}`
+}
+
+// Editable list of short strings
+function StringListEditor({ label, values, placeholder, onChange }: {
+  label: string
+  values: string[]
+  placeholder?: string
+  onChange: (values: string[]) => void
+}) {
+  return (
+    <div className="space-y-1">
+      <div className="text-xs font-medium text-gray-700">{label}</div>
+      {values.map((value, index) => (
+        <div key={index} className="flex gap-2">
+          <input
+            type="text"
+            value={value}
+            onChange={e => onChange(replaceAt(values, index, e.target.value))}
+            className="block w-full px-3 py-1 border border-gray-300 rounded-md text-sm text-gray-900"
+            placeholder={placeholder}
+          />
+          <button type="button" onClick={() => onChange(removeAt(values, index))} className={smallButtonClass}>✕</button>
+        </div>
+      ))}
+      <button type="button" onClick={() => onChange([...values, ''])} className="text-sm text-blue-600 hover:text-blue-800">
+        + Add
+      </button>
+    </div>
+  )
+}
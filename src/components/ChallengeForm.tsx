@@ -1,8 +1,11 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { Challenge, CreateChallengeDto, UpdateChallengeDto, Lesson, ChallengeType } from '@/types/content'
+import { Challenge, ChallengeHintUsage, CreateChallengeDto, UpdateChallengeDto, Lesson, ChallengeType } from '@/types/content'
 import { ContentService } from '@/lib/content'
+import { upgradeLegacyChallengePayload, validateChallengePayload } from '@/lib/challenge-schema'
+import ChallengeBuilder from './ChallengeBuilder'
+import QuizEngine from './QuizEngine'
 
 interface ChallengeFormProps {
   challenge?: Challenge
@@ -12,14 +15,20 @@ interface ChallengeFormProps {
 }
 
 export default function ChallengeForm({ challenge, lessonId, onSave, onCancel }: ChallengeFormProps) {
+  // Existing challenges may still use the legacy single-question format
+  const initialPayload = challenge
+    ? upgradeLegacyChallengePayload(challenge.challenge_type, challenge.content, challenge.solution)
+    : { content: {}, solution: {} }
+
   const [formData, setFormData] = useState({
     lesson_id: lessonId || challenge?.lesson_id || '',
     title: challenge?.title || '',
     description: challenge?.description || '',
     challenge_type: challenge?.challenge_type || 'quiz' as ChallengeType,
-    content: challenge?.content || {},
-    solution: challenge?.solution || {},
+    content: initialPayload.content || {},
+    solution: initialPayload.solution || {},
     hints: challenge?.hints || [],
+    hint_xp_penalty: challenge?.hint_xp_penalty || 0,
     xp_reward: challenge?.xp_reward || 20,
     max_attempts: challenge?.max_attempts || 3,
     time_limit: challenge?.time_limit || 10,
@@ -32,8 +41,24 @@ export default function ChallengeForm({ challenge, lessonId, onSave, onCancel }:
   
   // Form fields for different challenge types
   const [hintsText, setHintsText] = useState(formData.hints.join('\n'))
-  const [contentJson, setContentJson] = useState(JSON.stringify(formData.content, null, 2))
-  const [solutionJson, setSolutionJson] = useState(JSON.stringify(formData.solution, null, 2))
+  const [hintUsage, setHintUsage] = useState<ChallengeHintUsage | null>(null)
+
+  // "Play as learner" preview of the current, unsaved content
+  const [previewChallenge, setPreviewChallenge] = useState<Challenge | null>(null)
+  const [previewKey, setPreviewKey] = useState(0)
+  const [previewError, setPreviewError] = useState<string | null>(null)
+
+  // How often learners reveal each saved hint
+  useEffect(() => {
+    const loadHintUsage = async () => {
+      if (!challenge || !challenge.hints || challenge.hints.length === 0) {
+        return
+      }
+      setHintUsage(await ContentService.getChallengeHintUsage(challenge.id, challenge.hints.length))
+    }
+
+    loadHintUsage()
+  }, [challenge])
 
   // Load lessons for selection
   useEffect(() => {
@@ -59,31 +84,42 @@ export default function ChallengeForm({ challenge, lessonId, onSave, onCancel }:
       switch (formData.challenge_type) {
         case 'quiz':
           defaultContent = {
-            question: '',
-            options: ['', '', '', ''],
-            multiple_correct: false
+            questions: [
+              {
+                id: 'q1',
+                type: 'single_choice',
+                question: '',
+                options: ['', '', '', ''],
+                explanation: ''
+              }
+            ]
           }
           defaultSolution = {
-            correct_answers: [0],
-            explanation: ''
+            answers: [0]
           }
           break
         case 'multiple_choice':
           defaultContent = {
-            question: '',
-            options: ['', '', '', ''],
-            multiple_select: true
+            questions: [
+              {
+                id: 'q1',
+                type: 'multiple_choice',
+                question: '',
+                options: ['', '', '', ''],
+                explanation: ''
+              }
+            ]
           }
           defaultSolution = {
-            correct_answers: [0],
-            explanation: ''
+            answers: [[0]]
           }
           break
         case 'code':
           defaultContent = {
             problem_statement: '',
-            starter_code: '',
+            starter_code: 'function solution(input) {\n  \n}\n',
             language: 'javascript',
+            function_name: 'solution',
             test_cases: [
               { input: '', expected_output: '', description: '' }
             ]
@@ -109,6 +145,28 @@ export default function ChallengeForm({ challenge, lessonId, onSave, onCancel }:
             }
           }
           break
+        case 'scenario':
+          defaultContent = {
+            start_node: 'start',
+            nodes: [
+              {
+                id: 'start',
+                type: 'choice',
+                title: 'The situation',
+                body: '',
+                choices: [
+                  { id: 'a', label: '', next: 'good_outcome' },
+                  { id: 'b', label: '', next: 'poor_outcome' }
+                ]
+              },
+              { id: 'good_outcome', type: 'outcome', title: 'Good outcome', body: '', score: 100 },
+              { id: 'poor_outcome', type: 'outcome', title: 'Poor outcome', body: '', score: 30 }
+            ]
+          }
+          defaultSolution = {
+            explanation: ''
+          }
+          break
       }
 
       setFormData(prev => ({
@@ -116,8 +174,6 @@ export default function ChallengeForm({ challenge, lessonId, onSave, onCancel }:
         content: defaultContent,
         solution: defaultSolution
       }))
-      setContentJson(JSON.stringify(defaultContent, null, 2))
-      setSolutionJson(JSON.stringify(defaultSolution, null, 2))
     }
   }, [formData.challenge_type, challenge])
 
@@ -127,13 +183,13 @@ export default function ChallengeForm({ challenge, lessonId, onSave, onCancel }:
     setError(null)
 
     try {
-      // Parse JSON fields
-      let content, solution
+      const { content, solution } = formData
+
+      // Validate content/solution against the challenge type before saving
       try {
-        content = JSON.parse(contentJson)
-        solution = JSON.parse(solutionJson)
-      } catch (jsonError) {
-        setError('Invalid JSON in content or solution fields')
+        validateChallengePayload(formData.challenge_type, content, solution)
+      } catch (validationError) {
+        setError(validationError instanceof Error ? validationError.message : 'Invalid challenge content')
         setLoading(false)
         return
       }
@@ -153,6 +209,7 @@ export default function ChallengeForm({ challenge, lessonId, onSave, onCancel }:
           content,
           solution,
           hints,
+          hint_xp_penalty: formData.hint_xp_penalty,
           xp_reward: formData.xp_reward,
           max_attempts: formData.max_attempts || undefined,
           time_limit: formData.time_limit || undefined,
@@ -169,6 +226,7 @@ export default function ChallengeForm({ challenge, lessonId, onSave, onCancel }:
           content,
           solution,
           hints,
+          hint_xp_penalty: formData.hint_xp_penalty,
           xp_reward: formData.xp_reward,
           max_attempts: formData.max_attempts || undefined,
           time_limit: formData.time_limit || undefined,
@@ -198,46 +256,70 @@ export default function ChallengeForm({ challenge, lessonId, onSave, onCancel }:
     }))
   }
 
+  const handleBuilderChange = (content: Record<string, any>, solution: Record<string, any>) => {
+    setFormData(prev => ({ ...prev, content, solution }))
+  }
+
+  // Validate first so the preview shows exactly what would be saved
+  const handlePreview = () => {
+    try {
+      const payload = validateChallengePayload(formData.challenge_type, formData.content, formData.solution)
+      const now = new Date().toISOString()
+      setPreviewChallenge({
+        id: `preview_${challenge?.id || 'new'}`,
+        lesson_id: formData.lesson_id,
+        title: formData.title || 'Untitled challenge',
+        description: formData.description,
+        challenge_type: formData.challenge_type,
+        content: payload.content,
+        solution: payload.solution,
+        hints: hintsText.split('\n').filter(hint => hint.trim() !== ''),
+        hint_xp_penalty: formData.hint_xp_penalty,
+        xp_reward: formData.xp_reward,
+        max_attempts: undefined, // unlimited retakes while previewing
+        time_limit: formData.time_limit || undefined,
+        sort_order: formData.sort_order,
+        created_at: now,
+        updated_at: now
+      })
+      setPreviewKey(prev => prev + 1)
+      setPreviewError(null)
+    } catch (validationError) {
+      setPreviewChallenge(null)
+      setPreviewError(validationError instanceof Error ? validationError.message : 'Invalid challenge content')
+    }
+  }
+
   const renderChallengeTypeHelp = () => {
     switch (formData.challenge_type) {
       case 'quiz':
         return (
           <div className="bg-blue-50 border border-blue-200 rounded-md p-3 text-sm">
-            <strong>Quiz Challenge:</strong> Single or multiple correct answers from a list of options.
-            <br />
-            <strong>Content:</strong> {`{ question: string, options: string[], multiple_correct: boolean }`}
-            <br />
-            <strong>Solution:</strong> {`{ correct_answers: number[], explanation: string }`}
+            <strong>Quiz Challenge:</strong> One or more questions of any supported type.
           </div>
         )
       case 'multiple_choice':
         return (
           <div className="bg-green-50 border border-green-200 rounded-md p-3 text-sm">
             <strong>Multiple Choice:</strong> Select one or more correct answers.
-            <br />
-            <strong>Content:</strong> {`{ question: string, options: string[], multiple_select: boolean }`}
-            <br />
-            <strong>Solution:</strong> {`{ correct_answers: number[], explanation: string }`}
           </div>
         )
       case 'code':
         return (
           <div className="bg-purple-50 border border-purple-200 rounded-md p-3 text-sm">
             <strong>Code Challenge:</strong> Programming exercise with test cases.
-            <br />
-            <strong>Content:</strong> {`{ problem_statement: string, starter_code: string, language: string, test_cases: array }`}
-            <br />
-            <strong>Solution:</strong> {`{ solution_code: string, explanation: string }`}
           </div>
         )
       case 'essay':
         return (
           <div className="bg-orange-50 border border-orange-200 rounded-md p-3 text-sm">
             <strong>Essay Challenge:</strong> Written response with word limits and criteria.
-            <br />
-            <strong>Content:</strong> {`{ prompt: string, min_words: number, max_words: number, criteria: string[] }`}
-            <br />
-            <strong>Solution:</strong> {`{ sample_answer: string, rubric: object }`}
+          </div>
+        )
+      case 'scenario':
+        return (
+          <div className="bg-teal-50 border border-teal-200 rounded-md p-3 text-sm">
+            <strong>Branching Scenario:</strong> Learners make decisions through a graph of narrative, choice and outcome nodes. The outcome they reach sets their score.
           </div>
         )
       default:
@@ -332,43 +414,67 @@ export default function ChallengeForm({ challenge, lessonId, onSave, onCancel }:
             <option value="multiple_choice">Multiple Choice</option>
             <option value="code">Code Challenge</option>
             <option value="essay">Essay</option>
+            <option value="scenario">Branching Scenario</option>
           </select>
           <div className="mt-2">
             {renderChallengeTypeHelp()}
           </div>
         </div>
 
-        {/* Content (JSON) */}
+        {/* Content and solution */}
         <div>
-          <label htmlFor="content" className="block text-sm font-medium text-gray-700">
-            Content (JSON) *
-          </label>
-          <textarea
-            id="content"
-            value={contentJson}
-            onChange={(e) => setContentJson(e.target.value)}
-            required
-            rows={8}
-            className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-gray-900 font-mono text-sm"
-            placeholder="Enter challenge content as JSON"
-          />
+          <div className="flex items-center justify-between">
+            <span className="block text-sm font-medium text-gray-700">
+              Content *
+            </span>
+            <button
+              type="button"
+              onClick={handlePreview}
+              className="px-3 py-1 text-sm text-blue-600 border border-blue-600 rounded-md hover:bg-blue-50"
+            >
+              ▶ Play as learner
+            </button>
+          </div>
+          <div className="mt-2">
+            <ChallengeBuilder
+              challengeType={formData.challenge_type}
+              lessonId={formData.lesson_id || undefined}
+              content={formData.content}
+              solution={formData.solution}
+              onChange={handleBuilderChange}
+            />
+          </div>
         </div>
 
-        {/* Solution (JSON) */}
-        <div>
-          <label htmlFor="solution" className="block text-sm font-medium text-gray-700">
-            Solution (JSON) *
-          </label>
-          <textarea
-            id="solution"
-            value={solutionJson}
-            onChange={(e) => setSolutionJson(e.target.value)}
-            required
-            rows={6}
-            className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-gray-900 font-mono text-sm"
-            placeholder="Enter expected solution as JSON"
-          />
-        </div>
+        {/* Learner preview */}
+        {previewError && (
+          <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded text-sm">
+            Fix this before previewing: {previewError}
+          </div>
+        )}
+        {previewChallenge && (
+          <div className="border-2 border-blue-200 rounded-lg">
+            <div className="flex items-center justify-between px-4 py-2 bg-blue-50 border-b border-blue-200 text-sm">
+              <span className="font-medium text-blue-900">Learner preview - answers are not saved</span>
+              <div className="flex gap-3">
+                <button type="button" onClick={handlePreview} className="text-blue-600 hover:text-blue-800">
+                  ↺ Restart with latest changes
+                </button>
+                <button type="button" onClick={() => setPreviewChallenge(null)} className="text-gray-600 hover:text-gray-800">
+                  Close
+                </button>
+              </div>
+            </div>
+            <div className="p-4 bg-gray-50">
+              <QuizEngine
+                key={previewKey}
+                challenge={previewChallenge}
+                onComplete={() => {}}
+                preview
+              />
+            </div>
+          </div>
+        )}
 
         {/* Hints */}
         <div>
@@ -383,6 +489,19 @@ export default function ChallengeForm({ challenge, lessonId, onSave, onCancel }:
             className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-gray-900"
             placeholder="Enter hints, one per line"
           />
+          <div className="mt-2 flex items-center gap-2 text-sm text-gray-700">
+            <label htmlFor="hint_xp_penalty">XP deducted per hint revealed</label>
+            <input
+              type="number"
+              id="hint_xp_penalty"
+              name="hint_xp_penalty"
+              value={formData.hint_xp_penalty}
+              onChange={handleInputChange}
+              min="0"
+              className="w-20 px-2 py-1 border border-gray-300 rounded-md text-gray-900"
+            />
+          </div>
+          {hintUsage && challenge && <HintUsageSummary hints={challenge.hints} usage={hintUsage} />}
         </div>
 
         {/* Settings Row */}
@@ -478,4 +597,34 @@ export default function ChallengeForm({ challenge, lessonId, onSave, onCancel }:
       </div>
     </form>
   )
-} 
\ No newline at end of file
+} 
+
+// Share of recorded attempts that revealed each hint
+function HintUsageSummary({ hints, usage }: { hints: string[]; usage: ChallengeHintUsage }) {
+  if (usage.attempt_count === 0) {
+    return <p className="mt-2 text-xs text-gray-500">No attempts yet, so there is no hint usage to show.</p>
+  }
+
+  return (
+    <div className="mt-3 p-3 bg-gray-50 border border-gray-200 rounded-md">
+      <div className="text-xs font-medium text-gray-700 mb-2">
+        Hint usage across {usage.attempt_count} attempt{usage.attempt_count === 1 ? '' : 's'}
+      </div>
+      <ul className="space-y-1">
+        {hints.map((hint, index) => {
+          const percentage = Math.round(((usage.hint_counts[index] || 0) / usage.attempt_count) * 100)
+          return (
+            <li key={index} className="flex items-center gap-2 text-xs text-gray-600">
+              <span className="w-16 shrink-0">Hint {index + 1}</span>
+              <div className="w-24 h-2 bg-gray-200 rounded-full overflow-hidden shrink-0">
+                <div className="h-full bg-yellow-400" style={{ width: `${percentage}%` }} />
+              </div>
+              <span className="w-10 shrink-0 text-right">{percentage}%</span>
+              <span className="truncate text-gray-500" title={hint}>{hint}</span>
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,338 @@
+'use client'
+
+import { useState, useEffect, useRef } from 'react'
+import { useAuth } from '@/contexts/AuthContext'
+import { ContentService } from '@/lib/content'
+import { runCodeChallenge, DEFAULT_CODE_RUN_LIMITS, DEFAULT_FUNCTION_NAME } from '@/lib/code-runner'
+import type { CodeRunResult } from '@/lib/code-runner'
+import { applyHintPenalty, calculateXpEarned, PASSING_SCORE } from '@/lib/grading'
+import type { Challenge, ChallengeAttempt, CodeChallengeContent } from '@/types/content'
+import AttemptHistory from './AttemptHistory'
+import HintPanel from './HintPanel'
+
+interface CodeChallengeProps {
+  challenge: Challenge
+  onComplete: (score: number, xpEarned: number) => void
+  onNext?: () => void
+  preview?: boolean
+}
+
+// Code challenge player: edit, run the test cases in a sandbox, submit for a score
+export default function CodeChallenge({ challenge, onComplete, onNext, preview }: CodeChallengeProps) {
+  const { user: authUser } = useAuth()
+  const user = preview ? null : authUser // previews never record attempts or progress
+  const content = (challenge.content || {}) as CodeChallengeContent
+  const testCases = content.test_cases || []
+
+  const [code, setCode] = useState<string>(content.starter_code || '')
+  const [running, setRunning] = useState(false)
+  const [submitting, setSubmitting] = useState(false)
+  const [runResult, setRunResult] = useState<CodeRunResult | null>(null)
+  const [submission, setSubmission] = useState<{ score: number; xpEarned: number; pendingReview?: boolean } | null>(null)
+  const [submitError, setSubmitError] = useState<string | null>(null)
+  const [pastAttempts, setPastAttempts] = useState<ChallengeAttempt[]>([])
+  const [startedAt] = useState(() => new Date().toISOString())
+  const [hintsUsed, setHintsUsed] = useState(0) // hints already seen stay revealed across submissions
+
+  useEffect(() => {
+    async function loadAttempts() {
+      if (!user) {
+        return
+      }
+      setPastAttempts(await ContentService.getChallengeAttempts(user.id, challenge.id))
+    }
+
+    loadAttempts()
+  }, [user, challenge.id])
+
+  const attemptsExhausted = !!challenge.max_attempts && pastAttempts.length >= challenge.max_attempts
+
+  const handleRun = async () => {
+    setRunning(true)
+    try {
+      setRunResult(await runCodeChallenge(code, content))
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  const handleSubmit = async () => {
+    setSubmitting(true)
+    setSubmitError(null)
+    try {
+      // Always re-run on submit so the results sent with the code match it
+      const result = await runCodeChallenge(code, content)
+      setRunResult(result)
+
+      if (user) {
+        // Tests only run in the browser, so the server queues the code for a grader (migration 035)
+        // and rejects the attempt once max_attempts is reached
+        const attempt = await ContentService.recordChallengeAttempt({
+          challenge_id: challenge.id,
+          answers: [{ question_index: 0, answer: { code, results: result.results } }],
+          started_at: startedAt,
+          hints_used: hintsUsed
+        })
+        if (attempt) {
+          setPastAttempts(prev => [attempt, ...prev])
+        }
+
+        // The grader's score and XP replace this once the review is completed
+        await ContentService.updateProgress(user.id, challenge.id, 'challenge', {
+          status: 'in_progress',
+          completion_percentage: 0,
+          score: 0,
+          xp_earned: 0,
+          attempts: attempt?.attempt_number,
+          hints_used: hintsUsed
+        })
+
+        setSubmission({ score: result.score, xpEarned: 0, pendingReview: true })
+        return
+      }
+
+      const xpEarned = applyHintPenalty(calculateXpEarned(result.score, challenge.xp_reward), hintsUsed, challenge.hint_xp_penalty)
+      setSubmission({ score: result.score, xpEarned })
+      onComplete(result.score, xpEarned)
+    } catch (error) {
+      console.error('Error submitting code challenge:', error)
+      setSubmitError(error instanceof Error ? error.message : 'Failed to submit code')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleReset = () => {
+    setCode(content.starter_code || '')
+    setRunResult(null)
+    setSubmission(null)
+  }
+
+  if (testCases.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <div className="text-red-500 text-xl mb-4">⚠️</div>
+        <p className="text-red-600">No test cases found for this challenge.</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto">
+      <div className="bg-white rounded-lg shadow-lg overflow-hidden">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-blue-500 to-indigo-600 text-white p-6">
+          <div className="flex items-center justify-between">
+            <h2 className="text-xl font-bold">{challenge.title}</h2>
+            <span className="text-xs uppercase tracking-wide bg-white/20 rounded px-2 py-1">
+              {content.language === 'typescript' ? 'TypeScript' : 'JavaScript'}
+            </span>
+          </div>
+          <div className="text-sm mt-2 opacity-90">
+            {testCases.length} test case{testCases.length === 1 ? '' : 's'} · +{challenge.xp_reward} XP
+          </div>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {/* Problem statement */}
+          <div>
+            <p className="text-gray-900 whitespace-pre-wrap">{content.problem_statement}</p>
+            <p className="text-xs text-gray-500 mt-2">
+              Implement <code className="bg-gray-100 px-1 rounded">{content.function_name || DEFAULT_FUNCTION_NAME}</code>.
+              Each test calls it with the test input and compares the return value (or console output) to the expected output.
+            </p>
+            <p className="text-xs text-gray-500 mt-1">
+              Runs are stopped after {DEFAULT_CODE_RUN_LIMITS.timeoutMs / 1000}s or {DEFAULT_CODE_RUN_LIMITS.maxTotalOutputLength.toLocaleString()} characters of console output.
+              Memory use is not measured, so a runaway allocation is only stopped by the time limit or the browser.
+            </p>
+          </div>
+
+          <HintPanel
+            hints={challenge.hints || []}
+            hintsUsed={hintsUsed}
+            penalty={challenge.hint_xp_penalty}
+            onReveal={() => setHintsUsed(prev => prev + 1)}
+            disabled={submitting}
+          />
+
+          {/* Editor */}
+          <CodeEditor
+            value={code}
+            onChange={setCode}
+            disabled={running || submitting}
+          />
+
+          {/* Actions */}
+          <div className="flex items-center justify-between">
+            <button
+              onClick={handleReset}
+              disabled={running || submitting}
+              className="px-4 py-2 text-gray-600 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              ↺ Reset
+            </button>
+            <div className="flex gap-3">
+              <button
+                onClick={handleRun}
+                disabled={running || submitting}
+                className="px-4 py-2 text-blue-600 border border-blue-600 rounded-md hover:bg-blue-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {running ? 'Running...' : '▶ Run Tests'}
+              </button>
+              <button
+                onClick={handleSubmit}
+                disabled={running || submitting || attemptsExhausted}
+                className="px-6 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {submitting ? 'Submitting...' : '✅ Submit'}
+              </button>
+            </div>
+          </div>
+
+          {(submitError || attemptsExhausted) && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+              {submitError || `You have used all ${challenge.max_attempts} attempts for this challenge.`}
+            </div>
+          )}
+
+          {challenge.max_attempts && (
+            <div className="text-sm text-gray-500 text-right">
+              {pastAttempts.length} of {challenge.max_attempts} attempts used
+            </div>
+          )}
+
+          {/* Test results */}
+          {runResult && <TestResults result={runResult} />}
+
+          {/* Submission summary */}
+          {submission && (
+            <div className="bg-gradient-to-r from-blue-50 to-indigo-50 rounded-lg p-4">
+              {submission.pendingReview ? (
+                <div>
+                  <span className="text-lg font-bold text-blue-600">📝 Sent for grading</span>
+                  <p className="text-sm text-gray-600 mt-1">
+                    Your code passed {submission.score}% of the tests here. A grader will review it, and your score
+                    and XP will appear in your progress once it has been graded.
+                  </p>
+                </div>
+              ) : (
+                <div className="flex items-center justify-between">
+                  <span className={`text-lg font-bold ${submission.score >= PASSING_SCORE ? 'text-green-600' : 'text-orange-600'}`}>
+                    {submission.score >= PASSING_SCORE ? 'Challenge Completed!' : 'Keep Going!'} {submission.score}%
+                  </span>
+                  <span className="text-lg font-bold text-blue-600">+{submission.xpEarned} XP</span>
+                </div>
+              )}
+              {onNext && (
+                <div className="mt-4 text-right">
+                  <button
+                    onClick={onNext}
+                    className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+                  >
+                    Continue →
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+
+          <AttemptHistory attempts={pastAttempts} />
+        </div>
+      </div>
+    </div>
+  )
+}
+
+// Plain textarea editor with line numbers and tab indentation
+function CodeEditor({ value, onChange, disabled }: {
+  value: string
+  onChange: (value: string) => void
+  disabled?: boolean
+}) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const lineCount = Math.max(value.split('\n').length, 12)
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key !== 'Tab') {
+      return
+    }
+    e.preventDefault()
+
+    const textarea = e.currentTarget
+    const { selectionStart, selectionEnd } = textarea
+    const next = `${value.slice(0, selectionStart)}  ${value.slice(selectionEnd)}`
+    onChange(next)
+
+    // Restore the caret after React re-renders the value
+    requestAnimationFrame(() => {
+      if (textareaRef.current) {
+        textareaRef.current.selectionStart = selectionStart + 2
+        textareaRef.current.selectionEnd = selectionStart + 2
+      }
+    })
+  }
+
+  return (
+    <div className="flex border border-gray-300 rounded-lg overflow-hidden bg-gray-900 font-mono text-sm">
+      <div className="select-none text-right text-gray-500 bg-gray-800 px-3 py-3 leading-6">
+        {Array.from({ length: lineCount }, (_, index) => (
+          <div key={index}>{index + 1}</div>
+        ))}
+      </div>
+      <textarea
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+        disabled={disabled}
+        spellCheck={false}
+        autoCapitalize="off"
+        autoComplete="off"
+        rows={lineCount}
+        className="flex-1 bg-gray-900 text-gray-100 p-3 leading-6 resize-none focus:outline-none whitespace-pre overflow-x-auto"
+      />
+    </div>
+  )
+}
+
+// Per-test pass/fail list
+function TestResults({ result }: { result: CodeRunResult }) {
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-900">Test Results</h3>
+        <span className={`text-sm font-bold ${result.passed === result.total ? 'text-green-600' : 'text-orange-600'}`}>
+          {result.passed} / {result.total} passed
+        </span>
+      </div>
+
+      {result.error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          {result.timed_out ? '⏱️ ' : '⚠️ '}{result.error}
+        </div>
+      )}
+
+      {result.results.map(test => (
+        <div
+          key={test.index}
+          className={`p-3 border rounded-lg text-sm ${test.passed ? 'border-green-200 bg-green-50' : 'border-red-200 bg-red-50'}`}
+        >
+          <div className="flex items-center justify-between mb-1">
+            <span className="font-medium text-gray-900">
+              {test.passed ? '✅' : '❌'} Test {test.index + 1}{test.description ? `: ${test.description}` : ''}
+            </span>
+            {test.duration_ms !== undefined && (
+              <span className="text-xs text-gray-500">{test.duration_ms} ms</span>
+            )}
+          </div>
+          <div className="font-mono text-xs text-gray-700 space-y-1">
+            <div>Input: {test.input || '(none)'}</div>
+            <div>Expected: {test.expected_output}</div>
+            {test.actual_output !== undefined && <div>Received: {test.actual_output}</div>}
+            {test.error && <div className="text-red-700">Error: {test.error}</div>}
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,256 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { ContentService } from '@/lib/content'
+import type { BundleConflictStrategy, BundleEntityType, BundleImportAction, BundleImportResult, LearningPath } from '@/types/content'
+
+const ENTITY_LABELS: Record<BundleEntityType, string> = {
+  path: 'Learning Path',
+  course: 'Course',
+  module: 'Module',
+  lesson: 'Lesson',
+  challenge: 'Challenge'
+}
+
+const ACTION_STYLES: Record<BundleImportAction, string> = {
+  create: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  unchanged: 'bg-gray-100 text-gray-700',
+  skip: 'bg-yellow-100 text-yellow-800'
+}
+
+const CONFLICT_OPTIONS: { value: BundleConflictStrategy; label: string }[] = [
+  { value: 'skip', label: 'Skip items whose slug is taken' },
+  { value: 'rename', label: 'Import them with a new slug' },
+  { value: 'overwrite', label: 'Overwrite the existing item' }
+]
+
+// Move a learning path between projects (e.g. staging to production) as a JSON bundle
+export default function ContentBundleTransfer({ onImported }: { onImported?: () => void }) {
+  const [paths, setPaths] = useState<LearningPath[]>([])
+  const [exportPathId, setExportPathId] = useState('')
+  const [exporting, setExporting] = useState(false)
+  const [exportError, setExportError] = useState<string | null>(null)
+
+  const [bundle, setBundle] = useState<unknown>(null)
+  const [fileName, setFileName] = useState('')
+  const [onConflict, setOnConflict] = useState<BundleConflictStrategy>('skip')
+  const [preview, setPreview] = useState<BundleImportResult | null>(null)
+  const [imported, setImported] = useState<BundleImportResult | null>(null)
+  const [importing, setImporting] = useState<'preview' | 'import' | null>(null)
+  const [importError, setImportError] = useState<string | null>(null)
+
+  useEffect(() => {
+    ContentService.getLearningPaths().then(setPaths)
+  }, [])
+
+  const handleExport = async () => {
+    setExporting(true)
+    setExportError(null)
+    try {
+      const exported = await ContentService.exportLearningPathBundle(exportPathId)
+      if (!exported) {
+        return
+      }
+
+      const blob = new Blob([JSON.stringify(exported, null, 2)], { type: 'application/json' })
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = `${exported.path.data.slug}.bundle.json`
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (err) {
+      setExportError(err instanceof Error ? err.message : 'Failed to export learning path')
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    setBundle(null)
+    setPreview(null)
+    setImported(null)
+    setImportError(null)
+    setFileName(file?.name ?? '')
+
+    if (!file) {
+      return
+    }
+
+    try {
+      setBundle(JSON.parse(await file.text()))
+    } catch {
+      setImportError('This file is not valid JSON.')
+    }
+  }
+
+  const runImport = async (dryRun: boolean) => {
+    setImporting(dryRun ? 'preview' : 'import')
+    setImportError(null)
+    try {
+      const result = await ContentService.importContentBundle(bundle, onConflict, dryRun)
+      if (dryRun) {
+        setPreview(result)
+      } else {
+        setPreview(null)
+        setImported(result)
+        if (onImported) {
+          onImported()
+        }
+      }
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : 'Failed to import bundle')
+    } finally {
+      setImporting(null)
+    }
+  }
+
+  const shown = imported ?? preview
+  const counts = shown?.changes.reduce<Partial<Record<BundleImportAction, number>>>((totals, change) => {
+    totals[change.action] = (totals[change.action] ?? 0) + 1
+    return totals
+  }, {})
+
+  return (
+    <div className="space-y-6">
+      {/* Export */}
+      <div className="bg-white rounded-lg shadow p-6 space-y-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Export Learning Path</h2>
+          <p className="text-sm text-gray-600">
+            Downloads the path with its courses, modules, lessons and challenges. Images and videos are listed in the bundle but not included.
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <select
+            value={exportPathId}
+            onChange={(e) => setExportPathId(e.target.value)}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900"
+          >
+            <option value="">Select a learning path...</option>
+            {paths.map(path => (
+              <option key={path.id} value={path.id}>
+                {path.title}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={!exportPathId || exporting}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {exporting ? 'Exporting...' : 'Download Bundle'}
+          </button>
+        </div>
+        {exportError && <p className="text-sm text-red-600">{exportError}</p>}
+      </div>
+
+      {/* Import */}
+      <div className="bg-white rounded-lg shadow p-6 space-y-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Import Bundle</h2>
+          <p className="text-sm text-gray-600">
+            Items already imported from the same bundle are updated in place. New items start as drafts, and nothing is deleted.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="bundle_file" className="block text-sm font-medium text-gray-700 mb-2">
+              Bundle File
+            </label>
+            <input
+              type="file"
+              id="bundle_file"
+              accept="application/json,.json"
+              onChange={handleFileChange}
+              className="w-full text-sm text-gray-700"
+            />
+          </div>
+          <div>
+            <label htmlFor="bundle_conflict" className="block text-sm font-medium text-gray-700 mb-2">
+              When a Slug Is Taken
+            </label>
+            <select
+              id="bundle_conflict"
+              value={onConflict}
+              onChange={(e) => {
+                setOnConflict(e.target.value as BundleConflictStrategy)
+                setPreview(null)
+              }}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900"
+            >
+              {CONFLICT_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {importError && <p className="text-sm text-red-600">{importError}</p>}
+
+        <div className="flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={() => runImport(true)}
+            disabled={!bundle || importing !== null}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+          >
+            {importing === 'preview' ? 'Checking...' : 'Preview Changes'}
+          </button>
+          <button
+            type="button"
+            onClick={() => runImport(false)}
+            disabled={!preview || importing !== null}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {importing === 'import' ? 'Importing...' : 'Import'}
+          </button>
+        </div>
+
+        {shown && (
+          <div className="border border-gray-200 rounded-md">
+            <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between">
+              <h3 className="font-medium text-gray-900">
+                {imported ? `Imported ${fileName}` : `Changes ${fileName} would make`}
+              </h3>
+              <div className="flex gap-2 text-xs">
+                {(Object.keys(ACTION_STYLES) as BundleImportAction[])
+                  .filter(action => counts?.[action])
+                  .map(action => (
+                    <span key={action} className={`px-2 py-0.5 rounded-full font-medium ${ACTION_STYLES[action]}`}>
+                      {counts?.[action]} {action}
+                    </span>
+                  ))}
+              </div>
+            </div>
+            <ul className="divide-y divide-gray-200 max-h-96 overflow-y-auto">
+              {shown.changes.map(change => (
+                <li key={`${change.entity_type}-${change.external_id}`} className="px-4 py-2 flex items-center justify-between gap-4 text-sm">
+                  <div className="min-w-0">
+                    <span className="text-gray-500">{ENTITY_LABELS[change.entity_type]}:</span>{' '}
+                    <span className="font-medium text-gray-900">{change.title}</span>
+                    {change.renamed_from && (
+                      <span className="text-gray-500"> (slug {change.renamed_from} → {change.slug})</span>
+                    )}
+                    {change.action === 'update' && change.changed_fields && change.changed_fields.length > 0 && (
+                      <span className="text-gray-500"> ({change.changed_fields.join(', ')})</span>
+                    )}
+                  </div>
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium shrink-0 ${ACTION_STYLES[change.action]}`}>
+                    {change.action}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -6,13 +6,19 @@ import { ContentService } from '@/lib/content'
 import PermissionGuard, { AdminOnly } from './PermissionGuard'
 import Modal from './Modal'
 import ContentPreview from './ContentPreview'
+import LessonDraftActions from './LessonDraftActions'
 import LearningPathForm from './LearningPathForm'
 import CourseForm from './CourseForm'
 import ModuleForm from './ModuleForm'
 import LessonForm from './LessonForm'
 import ChallengeForm from './ChallengeForm'
 import CurriculumBuilder from './CurriculumBuilder'
-import type { LearningPath, Course, Module, Lesson, Challenge, ContentStats } from '@/types/content'
+import GradingQueue from './GradingQueue'
+import ReviewQueue from './ReviewQueue'
+import ContentBundleTransfer from './ContentBundleTransfer'
+import MarkdownFolderSync from './MarkdownFolderSync'
+import NotificationBell from './NotificationBell'
+import type { LearningPath, Course, Module, Lesson, LessonDraft, Challenge, ContentStats, ScheduledContent } from '@/types/content'
 
 // Component that allows both admin and content_manager - now properly handles client-side logic
 function ContentEditorOnly({ children, fallback = null }: { children: React.ReactNode; fallback?: React.ReactNode }) {
@@ -41,10 +47,12 @@ export default function ContentDashboard() {
   const [courses, setCourses] = useState<Course[]>([])
   const [modules, setModules] = useState<Module[]>([])
   const [lessons, setLessons] = useState<Lesson[]>([])
+  const [lessonDrafts, setLessonDrafts] = useState<LessonDraft[]>([])
   const [challenges, setChallenges] = useState<Challenge[]>([])
+  const [scheduled, setScheduled] = useState<ScheduledContent[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
-  const [activeTab, setActiveTab] = useState<'overview' | 'paths' | 'courses' | 'modules' | 'lessons' | 'challenges' | 'curriculum'>('overview')
+  const [activeTab, setActiveTab] = useState<'overview' | 'paths' | 'courses' | 'modules' | 'lessons' | 'challenges' | 'curriculum' | 'grading' | 'reviews' | 'transfer'>('overview')
   
   // Modal states
   const [showPathModal, setShowPathModal] = useState(false)
@@ -61,6 +69,7 @@ export default function ContentDashboard() {
   // Preview modal states
   const [showPreviewModal, setShowPreviewModal] = useState(false)
   const [previewLesson, setPreviewLesson] = useState<Lesson | undefined>(undefined)
+  const [previewDraft, setPreviewDraft] = useState<LessonDraft | null>(null)
 
   // Memoized data loading function to prevent unnecessary re-renders
   const loadDashboardData = useCallback(async () => {
@@ -80,6 +89,7 @@ export default function ContentDashboard() {
       switch (activeTab) {
         case 'overview':
           // For overview, load minimal additional data
+          setScheduled(await ContentService.getScheduledContent())
           break
         case 'courses':
           const coursesData = await ContentService.getCourses()
@@ -90,8 +100,12 @@ export default function ContentDashboard() {
           setModules(modulesData)
           break
         case 'lessons':
-          const lessonsData = await ContentService.getLessons()
+          const [lessonsData, draftsData] = await Promise.all([
+            ContentService.getLessons(),
+            ContentService.getLessonDrafts()
+          ])
           setLessons(lessonsData)
+          setLessonDrafts(draftsData)
           break
         case 'challenges':
           const challengesData = await ContentService.getChallenges()
@@ -259,16 +273,28 @@ export default function ContentDashboard() {
   }, [])
 
   // Preview handlers
-  const handlePreviewLesson = useCallback((lesson: Lesson) => {
+  const handlePreviewLesson = useCallback(async (lesson: Lesson) => {
     setPreviewLesson(lesson)
+    setPreviewDraft(null)
     setShowPreviewModal(true)
+
+    // Published lessons may carry a staged draft to review alongside the live version
+    if (lesson.status === 'published') {
+      setPreviewDraft(await ContentService.getLessonDraft(lesson.id))
+    }
   }, [])
 
   const handlePreviewModalClose = useCallback(() => {
     setShowPreviewModal(false)
     setPreviewLesson(undefined)
+    setPreviewDraft(null)
   }, [])
 
+  const handlePreviewDraftClosed = useCallback(() => {
+    handlePreviewModalClose()
+    loadDashboardData()
+  }, [handlePreviewModalClose, loadDashboardData])
+
   // Show error state
   if (error) {
     return (
@@ -325,9 +351,12 @@ export default function ContentDashboard() {
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         {/* Header */}
-        <div className="mb-8">
-          <h1 className="text-3xl font-bold text-gray-900">Content Management Dashboard</h1>
-          <p className="text-gray-600 mt-2">Manage your learning content, courses, and challenges</p>
+        <div className="mb-8 flex items-start justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Content Management Dashboard</h1>
+            <p className="text-gray-600 mt-2">Manage your learning content, courses, and challenges</p>
+          </div>
+          <NotificationBell />
         </div>
 
         {/* Tab Navigation */}
@@ -342,6 +371,9 @@ export default function ContentDashboard() {
                 { id: 'modules', name: 'Modules', icon: '📋' },
                 { id: 'lessons', name: 'Lessons', icon: '📖' },
                 { id: 'challenges', name: 'Challenges', icon: '🎯' },
+                { id: 'grading', name: 'Grading Queue', icon: '📝' },
+                { id: 'reviews', name: 'Review Queue', icon: '✅' },
+                { id: 'transfer', name: 'Import / Export', icon: '📦' },
               ].map((tab) => (
                 <button
                   key={tab.id}
@@ -365,7 +397,7 @@ export default function ContentDashboard() {
 
         {/* Tab Content */}
         {activeTab === 'overview' && (
-          <OverviewTab stats={stats} paths={paths} onCreatePath={handleCreatePath} onEditPath={handleEditPath} />
+          <OverviewTab stats={stats} paths={paths} scheduled={scheduled} onCreatePath={handleCreatePath} onEditPath={handleEditPath} />
         )}
 
         {activeTab === 'curriculum' && (
@@ -392,13 +424,24 @@ export default function ContentDashboard() {
         )}
 
         {activeTab === 'lessons' && (
-          <LessonsTab lessons={lessons} onRefresh={loadDashboardData} onCreateLesson={handleCreateLesson} onEditLesson={handleEditLesson} onPreviewLesson={handlePreviewLesson} />
+          <LessonsTab lessons={lessons} drafts={lessonDrafts} onRefresh={loadDashboardData} onCreateLesson={handleCreateLesson} onEditLesson={handleEditLesson} onPreviewLesson={handlePreviewLesson} />
         )}
 
         {activeTab === 'challenges' && (
           <ChallengesTab challenges={challenges} onRefresh={loadDashboardData} onCreateChallenge={handleCreateChallenge} onEditChallenge={handleEditChallenge} />
         )}
 
+        {activeTab === 'grading' && <GradingQueue />}
+
+        {activeTab === 'reviews' && <ReviewQueue />}
+
+        {activeTab === 'transfer' && (
+          <div className="space-y-6">
+            <ContentBundleTransfer onImported={loadDashboardData} />
+            <MarkdownFolderSync onSynced={loadDashboardData} />
+          </div>
+        )}
+
         {/* Modals */}
         <Modal
           isOpen={showPathModal}
@@ -472,7 +515,17 @@ export default function ContentDashboard() {
           size="xl"
         >
           {previewLesson && (
-            <ContentPreview lesson={previewLesson} />
+            <div className="space-y-4">
+              {previewDraft && (
+                <LessonDraftActions
+                  draft={previewDraft}
+                  onUpdated={setPreviewDraft}
+                  onPublished={handlePreviewDraftClosed}
+                  onDiscarded={handlePreviewDraftClosed}
+                />
+              )}
+              <ContentPreview key={previewDraft?.id ?? 'published'} lesson={previewLesson} draft={previewDraft} />
+            </div>
           )}
         </Modal>
       </div>
@@ -484,11 +537,13 @@ export default function ContentDashboard() {
 function OverviewTab({ 
   stats, 
   paths, 
+  scheduled,
   onCreatePath,
   onEditPath
 }: { 
   stats: ContentStats | null
   paths: LearningPath[]
+  scheduled: ScheduledContent[]
   onCreatePath: () => void
   onEditPath: (path: LearningPath) => void
 }) {
@@ -526,6 +581,31 @@ function OverviewTab({
         />
       </div>
 
+      {/* Scheduled publishing */}
+      <div className="bg-white rounded-lg shadow p-6">
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">Scheduled Changes</h3>
+        {scheduled.length === 0 ? (
+          <p className="text-sm text-gray-500">Nothing is scheduled to be published or unpublished.</p>
+        ) : (
+          <div className="space-y-3">
+            {scheduled.map((item) => (
+              <div key={`${item.entity_type}-${item.id}`} className="flex items-center justify-between p-3 border rounded-lg">
+                <div className="flex items-center gap-3">
+                  <span className="text-xs font-medium px-2 py-0.5 rounded-full bg-gray-100 text-gray-700 capitalize">
+                    {item.entity_type}
+                  </span>
+                  <h4 className="font-medium text-gray-900">{item.title}</h4>
+                  <span className="text-xs text-gray-500">{item.status}</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <ScheduleBadges item={item} />
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
       {/* Recent Paths */}
       <div className="bg-white rounded-lg shadow p-6">
         <div className="flex items-center justify-between mb-4">
@@ -562,6 +642,7 @@ function OverviewTab({
                   <div className={`
                     w-3 h-3 rounded-full
                     ${path.status === 'published' ? 'bg-green-500' : 
+                      path.status === 'in_review' ? 'bg-blue-500' :
                       path.status === 'draft' ? 'bg-yellow-500' : 'bg-gray-500'}
                   `} />
                   <div>
@@ -575,6 +656,7 @@ function OverviewTab({
                   <span className={`
                     px-2 py-1 text-xs rounded-full
                     ${path.status === 'published' ? 'bg-green-100 text-green-800' : 
+                      path.status === 'in_review' ? 'bg-blue-100 text-blue-800' :
                       path.status === 'draft' ? 'bg-yellow-100 text-yellow-800' : 'bg-gray-100 text-gray-800'}
                   `}>
                     {path.status}
@@ -683,13 +765,17 @@ function PathsTab({
                       </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
-                      <span className={`
-                        inline-flex px-2 py-1 text-xs font-semibold rounded-full
-                        ${path.status === 'published' ? 'bg-green-100 text-green-800' : 
-                          path.status === 'draft' ? 'bg-yellow-100 text-yellow-800' : 'bg-gray-100 text-gray-800'}
-                      `}>
-                        {path.status}
-                      </span>
+                      <div className="flex flex-col items-start gap-1">
+                        <span className={`
+                          inline-flex px-2 py-1 text-xs font-semibold rounded-full
+                          ${path.status === 'published' ? 'bg-green-100 text-green-800' : 
+                            path.status === 'in_review' ? 'bg-blue-100 text-blue-800' :
+                            path.status === 'draft' ? 'bg-yellow-100 text-yellow-800' : 'bg-gray-100 text-gray-800'}
+                        `}>
+                          {path.status}
+                        </span>
+                        <ScheduleBadges item={path} />
+                      </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 capitalize">
                       {path.difficulty}
@@ -760,6 +846,24 @@ function StatCard({
   )
 }
 
+// Publish / unpublish time badges for a scheduled item
+function ScheduleBadges({ item }: { item: { publish_at?: string | null; unpublish_at?: string | null } }) {
+  return (
+    <>
+      {item.publish_at && (
+        <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
+          🕒 Publishes {new Date(item.publish_at).toLocaleString()}
+        </span>
+      )}
+      {item.unpublish_at && (
+        <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+          🕒 Unpublishes {new Date(item.unpublish_at).toLocaleString()}
+        </span>
+      )}
+    </>
+  )
+}
+
 // Courses Tab Component
 function CoursesTab({ 
   courses, 
@@ -822,11 +926,13 @@ function CoursesTab({
                       <span className={`
                         inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium
                         ${course.status === 'published' ? 'bg-green-100 text-green-800' : 
+                          course.status === 'in_review' ? 'bg-blue-100 text-blue-800' :
                           course.status === 'draft' ? 'bg-yellow-100 text-yellow-800' : 
                           'bg-gray-100 text-gray-800'}
                       `}>
                         {course.status}
                       </span>
+                      <ScheduleBadges item={course} />
                     </div>
                     {course.description && (
                       <p className="text-gray-600 mb-2">{course.description}</p>
@@ -921,11 +1027,13 @@ function ModulesTab({
                       <span className={`
                         inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium
                         ${module.status === 'published' ? 'bg-green-100 text-green-800' : 
+                          module.status === 'in_review' ? 'bg-blue-100 text-blue-800' :
                           module.status === 'draft' ? 'bg-yellow-100 text-yellow-800' : 
                           'bg-gray-100 text-gray-800'}
                       `}>
                         {module.status}
                       </span>
+                      <ScheduleBadges item={module} />
                     </div>
                     {module.description && (
                       <p className="text-gray-600 mb-2">{module.description}</p>
@@ -962,17 +1070,21 @@ function ModulesTab({
 // Lessons Tab Component
 function LessonsTab({ 
   lessons, 
+  drafts,
   onRefresh, 
   onCreateLesson, 
   onEditLesson,
   onPreviewLesson
 }: { 
   lessons: Lesson[]
+  drafts: LessonDraft[]
   onRefresh: () => void
   onCreateLesson: () => void
   onEditLesson: (lesson: Lesson) => void
   onPreviewLesson: (lesson: Lesson) => void
 }) {
+  const draftsByLesson = new Map(drafts.map(draft => [draft.lesson_id, draft]))
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -1032,11 +1144,18 @@ function LessonsTab({
                       <span className={`
                         inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium
                         ${lesson.status === 'published' ? 'bg-green-100 text-green-800' : 
+                          lesson.status === 'in_review' ? 'bg-blue-100 text-blue-800' :
                           lesson.status === 'draft' ? 'bg-yellow-100 text-yellow-800' : 
                           'bg-gray-100 text-gray-800'}
                       `}>
                         {lesson.status}
                       </span>
+                      {draftsByLesson.has(lesson.id) && (
+                        <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800">
+                          {draftsByLesson.get(lesson.id)?.status === 'approved' ? 'draft approved' : 'draft pending'}
+                        </span>
+                      )}
+                      <ScheduleBadges item={lesson} />
                     </div>
                     {lesson.summary && (
                       <p className="text-gray-600 mb-2">{lesson.summary}</p>
@@ -1142,6 +1261,7 @@ function ChallengesTab({
                         ${challenge.challenge_type === 'quiz' ? 'bg-blue-100 text-blue-800' : 
                           challenge.challenge_type === 'code' ? 'bg-purple-100 text-purple-800' :
                           challenge.challenge_type === 'essay' ? 'bg-orange-100 text-orange-800' :
+                          challenge.challenge_type === 'scenario' ? 'bg-teal-100 text-teal-800' :
                           'bg-green-100 text-green-800'}
                       `}>
                         {challenge.challenge_type}
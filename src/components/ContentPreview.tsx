@@ -2,7 +2,7 @@
 
 import { useState } from 'react'
 import dynamic from 'next/dynamic'
-import type { Lesson, LessonType } from '@/types/content'
+import type { Lesson, LessonDraft, LessonType } from '@/types/content'
 
 // Dynamically import markdown preview to avoid SSR issues
 const MarkdownPreview = dynamic(
@@ -12,11 +12,15 @@ const MarkdownPreview = dynamic(
 
 interface ContentPreviewProps {
   lesson: Partial<Lesson>
+  draft?: LessonDraft | null // staged edits of a published lesson, previewed in place of the lesson
   className?: string
 }
 
-export default function ContentPreview({ lesson, className = '' }: ContentPreviewProps) {
+export default function ContentPreview({ lesson: publishedLesson, draft, className = '' }: ContentPreviewProps) {
   const [videoError, setVideoError] = useState(false)
+  const [showDraft, setShowDraft] = useState(true)
+
+  const lesson: Partial<Lesson> = draft && showDraft ? { ...publishedLesson, ...draft.data } : publishedLesson
 
   const getYouTubeEmbedUrl = (url: string) => {
     // Convert YouTube watch URLs to embed URLs
@@ -192,6 +196,7 @@ export default function ContentPreview({ lesson, className = '' }: ContentPrevie
     switch (status) {
       case 'published': return 'bg-green-100 text-green-800'
       case 'draft': return 'bg-yellow-100 text-yellow-800'
+      case 'in_review': return 'bg-blue-100 text-blue-800'
       case 'archived': return 'bg-gray-100 text-gray-800'
       default: return 'bg-gray-100 text-gray-800'
     }
@@ -199,6 +204,31 @@ export default function ContentPreview({ lesson, className = '' }: ContentPrevie
 
   return (
     <div className={`bg-white rounded-lg shadow-sm border ${className}`}>
+      {/* Draft / published switch */}
+      {draft && (
+        <div className="flex items-center justify-between px-6 py-3 bg-yellow-50 border-b border-yellow-200 text-sm">
+          <span className="text-yellow-800">
+            {showDraft ? 'Previewing the staged draft - learners still see the published version' : 'Previewing the published version'}
+          </span>
+          <div className="flex rounded-md border border-yellow-300 overflow-hidden">
+            <button
+              type="button"
+              onClick={() => setShowDraft(false)}
+              className={`px-3 py-1 ${!showDraft ? 'bg-yellow-200 text-yellow-900' : 'bg-white text-gray-600'}`}
+            >
+              Published
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowDraft(true)}
+              className={`px-3 py-1 ${showDraft ? 'bg-yellow-200 text-yellow-900' : 'bg-white text-gray-600'}`}
+            >
+              Draft
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Header */}
       <div className="border-b border-gray-200 p-6">
         <div className="flex items-start justify-between">
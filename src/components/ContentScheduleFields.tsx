@@ -0,0 +1,56 @@
+'use client'
+
+import { useAuth } from '@/contexts/AuthContext'
+import { canSchedule } from '@/lib/content-workflow'
+import type { ScheduleInput } from '@/lib/content-workflow'
+
+interface ContentScheduleFieldsProps {
+  schedule: ScheduleInput
+  onChange: (e: React.ChangeEvent<HTMLInputElement>) => void // receives inputs named publish_at / unpublish_at
+}
+
+// Publish and unpublish times for a path, course, module or lesson; read-only for editors who can't publish
+export default function ContentScheduleFields({ schedule, onChange }: ContentScheduleFieldsProps) {
+  const { userProfile } = useAuth()
+  const editable = canSchedule(userProfile?.role ?? 'user')
+
+  return (
+    <div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="publish_at" className="block text-sm font-medium text-gray-700 mb-2">
+            Publish At
+          </label>
+          <input
+            type="datetime-local"
+            id="publish_at"
+            name="publish_at"
+            value={schedule.publish_at}
+            onChange={onChange}
+            disabled={!editable}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 disabled:bg-gray-100"
+          />
+        </div>
+        <div>
+          <label htmlFor="unpublish_at" className="block text-sm font-medium text-gray-700 mb-2">
+            Unpublish At
+          </label>
+          <input
+            type="datetime-local"
+            id="unpublish_at"
+            name="unpublish_at"
+            value={schedule.unpublish_at}
+            onChange={onChange}
+            disabled={!editable}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900 disabled:bg-gray-100"
+          />
+        </div>
+      </div>
+      <p className="text-xs text-gray-500 mt-1">
+        {editable
+          ? 'Leave empty to publish manually. Unpublishing returns this item and everything in it to draft.'
+          : 'Only admins can schedule publishing.'}
+      </p>
+    </div>
+  )
+}
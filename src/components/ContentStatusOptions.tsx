@@ -0,0 +1,21 @@
+'use client'
+
+import { useAuth } from '@/contexts/AuthContext'
+import { CONTENT_STATUS_LABELS, canChangeStatus } from '@/lib/content-workflow'
+import type { ContentStatus } from '@/types/content'
+
+// <option>s for a status select; statuses the user can't move the item to are disabled
+export default function ContentStatusOptions({ current = 'draft' }: { current?: ContentStatus }) {
+  const { userProfile } = useAuth()
+  const role = userProfile?.role ?? 'user'
+
+  return (
+    <>
+      {(Object.keys(CONTENT_STATUS_LABELS) as ContentStatus[]).map(status => (
+        <option key={status} value={status} disabled={!canChangeStatus(role, current, status)}>
+          {CONTENT_STATUS_LABELS[status]}
+        </option>
+      ))}
+    </>
+  )
+}
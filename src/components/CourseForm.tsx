@@ -2,7 +2,13 @@
 
 import { useState, useEffect } from 'react'
 import { ContentService } from '@/lib/content'
-import type { Course, CreateCourseDto, UpdateCourseDto, LearningPath } from '@/types/content'
+import RevisionHistory from './RevisionHistory'
+import ContentStatusOptions from './ContentStatusOptions'
+import SubmitForReview from './SubmitForReview'
+import ContentScheduleFields from './ContentScheduleFields'
+import EditLockBanner, { useEditLock } from './EditLockBanner'
+import { getScheduleChanges, getScheduleError, toScheduleInput } from '@/lib/content-workflow'
+import type { Course, CreateCourseDto, UpdateCourseDto, LearningPath, ContentStatus } from '@/types/content'
 
 interface CourseFormProps {
   course?: Course // If provided, we're editing; if not, we're creating
@@ -20,11 +26,15 @@ export default function CourseForm({ course, learningPathId, onSave, onCancel }:
     difficulty: 'beginner' as 'beginner' | 'intermediate' | 'advanced',
     sort_order: 0,
     estimated_hours: 0,
-    status: 'draft' as 'draft' | 'published' | 'archived'
+    status: 'draft' as ContentStatus,
+    publish_at: '',
+    unpublish_at: ''
   })
   
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [changeNote, setChangeNote] = useState('')
+  const editLock = useEditLock('course', course?.id)
   const [learningPaths, setLearningPaths] = useState<LearningPath[]>([])
 
   // Load learning paths for dropdown
@@ -51,7 +61,9 @@ export default function CourseForm({ course, learningPathId, onSave, onCancel }:
         difficulty: course.difficulty,
         sort_order: course.sort_order,
         estimated_hours: course.estimated_hours || 0,
-        status: course.status
+        status: course.status,
+        publish_at: toScheduleInput(course.publish_at),
+        unpublish_at: toScheduleInput(course.unpublish_at)
       })
     }
   }, [course])
@@ -88,20 +100,27 @@ export default function CourseForm({ course, learningPathId, onSave, onCancel }:
     setError(null)
 
     try {
+      const scheduleError = getScheduleError(formData)
+      if (scheduleError) {
+        throw new Error(scheduleError)
+      }
+
       let savedCourse: Course | null
 
       if (course) {
         // Update existing course
         const updateData: UpdateCourseDto = {
           ...formData,
-          estimated_hours: formData.estimated_hours || undefined
+          estimated_hours: formData.estimated_hours || undefined,
+          ...getScheduleChanges(formData, course)
         }
-        savedCourse = await ContentService.updateCourse(course.id, updateData)
+        savedCourse = await ContentService.updateCourse(course.id, updateData, changeNote, course.updated_at)
       } else {
         // Create new course
         const createData: CreateCourseDto = {
           ...formData,
-          estimated_hours: formData.estimated_hours || undefined
+          estimated_hours: formData.estimated_hours || undefined,
+          ...getScheduleChanges(formData)
         }
         savedCourse = await ContentService.createCourse(createData)
       }
@@ -127,6 +146,8 @@ export default function CourseForm({ course, learningPathId, onSave, onCancel }:
         </div>
       )}
 
+      <EditLockBanner editLock={editLock} />
+
       {/* Title */}
       <div>
         <label htmlFor="title" className="block text-sm font-medium text-gray-700 mb-2">
@@ -270,12 +291,34 @@ export default function CourseForm({ course, learningPathId, onSave, onCancel }:
           onChange={handleInputChange}
           className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900"
         >
-          <option value="draft">Draft</option>
-          <option value="published">Published</option>
-          <option value="archived">Archived</option>
+          <ContentStatusOptions current={course?.status} />
         </select>
       </div>
 
+      {/* Schedule */}
+      <ContentScheduleFields schedule={formData} onChange={handleInputChange} />
+
+      {/* Review submission, change note and revision history (only for existing courses) */}
+      {course && (
+        <div className="space-y-4 pt-6 border-t border-gray-200">
+          <div>
+            <label htmlFor="change_note" className="block text-sm font-medium text-gray-700 mb-2">
+              Change Note (optional)
+            </label>
+            <input
+              type="text"
+              id="change_note"
+              value={changeNote}
+              onChange={(e) => setChangeNote(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900"
+              placeholder="What changed in this save?"
+            />
+          </div>
+          <SubmitForReview entityType="course" entity={course} onSubmitted={() => onSave({ ...course, status: 'in_review' })} />
+          <RevisionHistory entityType="course" entityId={course.id} current={course} onRestored={onSave} />
+        </div>
+      )}
+
       {/* Form Actions */}
       <div className="flex items-center justify-end space-x-4 pt-6 border-t border-gray-200">
         <button
@@ -287,7 +330,7 @@ export default function CourseForm({ course, learningPathId, onSave, onCancel }:
         </button>
         <button
           type="submit"
-          disabled={loading}
+          disabled={loading || editLock.lockedByOther}
           className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md shadow-sm hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
         >
           {loading ? 'Saving...' : course ? 'Update Course' : 'Create Course'}
@@ -21,17 +21,30 @@ import {
 } from '@dnd-kit/sortable'
 import { CSS } from '@dnd-kit/utilities'
 import { ContentService } from '@/lib/content'
-import type { LearningPath, Course, Module, Lesson, Challenge } from '@/types/content'
+import { AIClient, AI_ROLES } from '@/lib/ai-client'
+import type { AIRole } from '@/lib/ai-client'
+import Modal from './Modal'
+import type { LearningPath, Course, Module, Lesson, Challenge, ContentStatus, ContentPlacement, ContentMove, MovableEntityType } from '@/types/content'
 
 // Types for curriculum tree
 interface CurriculumItem {
   id: string
+  node_id: string // unique tree position; a reused module or lesson appears under several parents
   type: 'path' | 'course' | 'module' | 'lesson' | 'challenge'
   title: string
-  status: 'draft' | 'published' | 'archived'
+  status: ContentStatus
   sort_order: number
   children?: CurriculumItem[]
   parent_id?: string
+  placement_id?: string // set when the item is shown through a placement rather than its home parent
+  usage_count?: number
+}
+
+// Where each movable item type can be dropped
+const PARENT_TYPES: Record<MovableEntityType, CurriculumItem['type']> = {
+  course: 'path',
+  module: 'course',
+  lesson: 'module'
 }
 
 interface CurriculumBuilderProps {
@@ -47,11 +60,17 @@ interface CurriculumBuilderProps {
 function SortableCurriculumItem({ 
   item, 
   level = 0,
-  onEdit
+  onEdit,
+  onInsertExisting,
+  onUnlink,
+  onDuplicate
 }: { 
   item: CurriculumItem
   level?: number
   onEdit: (item: CurriculumItem) => void
+  onInsertExisting: (item: CurriculumItem) => void
+  onUnlink: (item: CurriculumItem) => void
+  onDuplicate: (item: CurriculumItem) => void
 }) {
   const {
     attributes,
@@ -60,7 +79,7 @@ function SortableCurriculumItem({
     transform,
     transition,
     isDragging,
-  } = useSortable({ id: item.id })
+  } = useSortable({ id: item.node_id })
 
   const style = {
     transform: CSS.Transform.toString(transform),
@@ -124,6 +143,18 @@ function SortableCurriculumItem({
                     <span>{item.children.length} items</span>
                   </>
                 )}
+                {item.placement_id && (
+                  <>
+                    <span>•</span>
+                    <span className="text-purple-700">🔗 Linked</span>
+                  </>
+                )}
+                {(item.usage_count ?? 1) > 1 && (
+                  <>
+                    <span>•</span>
+                    <span className="text-purple-700">Used in {item.usage_count} places</span>
+                  </>
+                )}
               </div>
             </div>
           </div>
@@ -132,6 +163,7 @@ function SortableCurriculumItem({
           <span className={`
             px-2 py-1 text-xs rounded-full font-medium
             ${item.status === 'published' ? 'bg-green-100 text-green-800' : 
+              item.status === 'in_review' ? 'bg-blue-100 text-blue-800' :
               item.status === 'draft' ? 'bg-yellow-100 text-yellow-800' : 
               'bg-gray-100 text-gray-800'}
           `}>
@@ -141,6 +173,33 @@ function SortableCurriculumItem({
 
         {/* Action Buttons */}
         <div className="flex items-center gap-2 ml-4">
+          {(item.type === 'course' || item.type === 'module') && (
+            <button
+              onClick={() => onInsertExisting(item)}
+              className="text-purple-600 hover:text-purple-800 text-sm font-medium"
+              type="button"
+            >
+              + Existing {item.type === 'course' ? 'Module' : 'Lesson'}
+            </button>
+          )}
+          {(item.type === 'path' || item.type === 'course' || item.type === 'module') && (
+            <button
+              onClick={() => onDuplicate(item)}
+              className="text-gray-600 hover:text-gray-800 text-sm font-medium"
+              type="button"
+            >
+              Duplicate
+            </button>
+          )}
+          {item.placement_id && (
+            <button
+              onClick={() => onUnlink(item)}
+              className="text-red-600 hover:text-red-800 text-sm font-medium"
+              type="button"
+            >
+              Unlink
+            </button>
+          )}
           <button
             onClick={() => onEdit(item)}
             className="text-blue-600 hover:text-blue-800 text-sm font-medium"
@@ -155,15 +214,18 @@ function SortableCurriculumItem({
       {isExpanded && item.children && item.children.length > 0 && (
         <div className="pb-2">
           <SortableContext 
-            items={item.children.map(child => child.id)}
+            items={item.children.map(child => child.node_id)}
             strategy={verticalListSortingStrategy}
           >
             {item.children.map((child) => (
               <SortableCurriculumItem
-                key={child.id}
+                key={child.node_id}
                 item={child}
                 level={level + 1}
                 onEdit={onEdit}
+                onInsertExisting={onInsertExisting}
+                onUnlink={onUnlink}
+                onDuplicate={onDuplicate}
               />
             ))}
           </SortableContext>
@@ -185,6 +247,20 @@ export default function CurriculumBuilder({
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [draggedItem, setDraggedItem] = useState<CurriculumItem | null>(null)
+  const [allModules, setAllModules] = useState<Module[]>([])
+  const [allLessons, setAllLessons] = useState<Lesson[]>([])
+  const [insertTarget, setInsertTarget] = useState<CurriculumItem | null>(null)
+  const [insertItemId, setInsertItemId] = useState('')
+  const [insertError, setInsertError] = useState<string | null>(null)
+  const [inserting, setInserting] = useState(false)
+  const [lastMove, setLastMove] = useState<{ move: ContentMove; title: string; parentTitle: string } | null>(null)
+  const [moveError, setMoveError] = useState<string | null>(null)
+  const [duplicateSource, setDuplicateSource] = useState<CurriculumItem | null>(null)
+  const [duplicateForm, setDuplicateForm] = useState<{ title: string; parentId: string; role: AIRole | '' }>({ title: '', parentId: '', role: '' })
+  const [duplicating, setDuplicating] = useState(false)
+  const [duplicateError, setDuplicateError] = useState<string | null>(null)
+  const [duplicateNotice, setDuplicateNotice] = useState<string | null>(null)
+  const [aiAvailable, setAiAvailable] = useState(false)
 
   // Drag and drop sensors
   const sensors = useSensors(
@@ -202,17 +278,96 @@ export default function CurriculumBuilder({
       setError(null)
 
       // Load all content data
-      const [paths, courses, modules, lessons, challenges] = await Promise.all([
+      const [paths, courses, modules, lessons, challenges, modulePlacements, lessonPlacements] = await Promise.all([
         ContentService.getLearningPaths(),
         ContentService.getCourses(),
         ContentService.getModules(),
         ContentService.getLessons(),
         ContentService.getChallenges(),
+        ContentService.getPlacements('module'),
+        ContentService.getPlacements('lesson'),
       ])
 
+      // Each module or lesson is used once in its home parent plus once per placement
+      const countUsage = (placements: ContentPlacement[]) => {
+        const counts = new Map<string, number>()
+        placements.forEach(placement => {
+          counts.set(placement.item_id, (counts.get(placement.item_id) ?? 1) + 1)
+        })
+        return counts
+      }
+      const moduleUsage = countUsage(modulePlacements)
+      const lessonUsage = countUsage(lessonPlacements)
+
+      // A parent's children are its own items plus the ones placed in it, in one sort order
+      const withPlaced = <T extends { id: string; sort_order: number; placement_id?: string }>(
+        own: T[],
+        placements: ContentPlacement[],
+        items: T[]
+      ): T[] => {
+        const placed = placements.flatMap(placement => {
+          const item = items.find(candidate => candidate.id === placement.item_id)
+          return item ? [{ ...item, sort_order: placement.sort_order, placement_id: placement.id }] : []
+        })
+        return [...own, ...placed].sort((a, b) => a.sort_order - b.sort_order)
+      }
+
+      const buildLessons = (module: Module, parentNodeId: string): CurriculumItem[] =>
+        withPlaced(
+          lessons.filter(lesson => lesson.module_id === module.id),
+          lessonPlacements.filter(placement => placement.parent_id === module.id),
+          lessons
+        ).map(lesson => {
+          const nodeId = `${parentNodeId}/${lesson.placement_id ?? lesson.id}`
+          return {
+            id: lesson.id,
+            node_id: nodeId,
+            type: 'lesson' as const,
+            title: lesson.title,
+            status: lesson.status,
+            sort_order: lesson.sort_order,
+            parent_id: module.id,
+            placement_id: lesson.placement_id,
+            usage_count: lessonUsage.get(lesson.id) ?? 1,
+            children: challenges
+              .filter(challenge => challenge.lesson_id === lesson.id)
+              .map(challenge => ({
+                id: challenge.id,
+                node_id: `${nodeId}/${challenge.id}`,
+                type: 'challenge' as const,
+                title: challenge.title,
+                status: 'draft' as const,
+                sort_order: 0,
+                parent_id: lesson.id,
+              }))
+          }
+        })
+
+      const buildModules = (course: Course, parentNodeId: string): CurriculumItem[] =>
+        withPlaced(
+          modules.filter(module => module.course_id === course.id),
+          modulePlacements.filter(placement => placement.parent_id === course.id),
+          modules
+        ).map(module => {
+          const nodeId = `${parentNodeId}/${module.placement_id ?? module.id}`
+          return {
+            id: module.id,
+            node_id: nodeId,
+            type: 'module' as const,
+            title: module.title,
+            status: module.status,
+            sort_order: module.sort_order,
+            parent_id: course.id,
+            placement_id: module.placement_id,
+            usage_count: moduleUsage.get(module.id) ?? 1,
+            children: buildLessons(module, nodeId)
+          }
+        })
+
       // Build hierarchical tree structure
       const tree: CurriculumItem[] = paths.map(path => ({
         id: path.id,
+        node_id: path.id,
         type: 'path' as const,
         title: path.title,
         status: path.status,
@@ -222,47 +377,19 @@ export default function CurriculumBuilder({
           .sort((a, b) => a.sort_order - b.sort_order)
           .map(course => ({
             id: course.id,
+            node_id: `${path.id}/${course.id}`,
             type: 'course' as const,
             title: course.title,
             status: course.status,
             sort_order: course.sort_order,
             parent_id: path.id,
-            children: modules
-              .filter(module => module.course_id === course.id)
-              .sort((a, b) => a.sort_order - b.sort_order)
-              .map(module => ({
-                id: module.id,
-                type: 'module' as const,
-                title: module.title,
-                status: module.status,
-                sort_order: module.sort_order,
-                parent_id: course.id,
-                children: lessons
-                  .filter(lesson => lesson.module_id === module.id)
-                  .sort((a, b) => a.sort_order - b.sort_order)
-                  .map(lesson => ({
-                    id: lesson.id,
-                    type: 'lesson' as const,
-                    title: lesson.title,
-                    status: lesson.status,
-                    sort_order: lesson.sort_order,
-                    parent_id: module.id,
-                    children: challenges
-                      .filter(challenge => challenge.lesson_id === lesson.id)
-                      .map(challenge => ({
-                        id: challenge.id,
-                        type: 'challenge' as const,
-                        title: challenge.title,
-                        status: 'draft' as const,
-                        sort_order: 0,
-                        parent_id: lesson.id,
-                      }))
-                  }))
-              }))
+            children: buildModules(course, `${path.id}/${course.id}`)
           }))
       }))
 
       setCurriculumTree(tree)
+      setAllModules(modules)
+      setAllLessons(lessons)
 
     } catch (error) {
       console.error('Failed to load curriculum data:', error)
@@ -277,6 +404,10 @@ export default function CurriculumBuilder({
     loadCurriculumData()
   }, [loadCurriculumData])
 
+  useEffect(() => {
+    AIClient.isAvailable().then(setAiAvailable)
+  }, [])
+
   // Handle drag start
   const handleDragStart = (event: DragStartEvent) => {
     const { active } = event
@@ -284,7 +415,7 @@ export default function CurriculumBuilder({
     // Find the dragged item in the tree
     const findItem = (items: CurriculumItem[]): CurriculumItem | null => {
       for (const item of items) {
-        if (item.id === active.id) {
+        if (item.node_id === active.id) {
           return item
         }
         if (item.children) {
@@ -314,7 +445,7 @@ export default function CurriculumBuilder({
     const findItemAndParent = (items: CurriculumItem[], id: string, parent: CurriculumItem | null = null): { item: CurriculumItem; parent: CurriculumItem | null; index: number } | null => {
       for (let i = 0; i < items.length; i++) {
         const item = items[i]
-        if (item.id === id) {
+        if (item.node_id === id) {
           return { item, parent, index: i }
         }
         if (item.children) {
@@ -334,9 +465,9 @@ export default function CurriculumBuilder({
       return
     }
 
-    // Only allow reordering within the same parent
-    if (sourceInfo.parent?.id !== destInfo.parent?.id) {
-      console.log('Cross-parent dragging not supported yet')
+    // Dropped outside its own list: move it to another parent
+    if (sourceInfo.parent?.node_id !== destInfo.parent?.node_id) {
+      await moveToParent(sourceInfo.item, destInfo.item, destInfo.parent, destInfo.index)
       return
     }
 
@@ -364,7 +495,14 @@ export default function CurriculumBuilder({
 
     // Update sort orders in database
     try {
+      setMoveError(null)
+
       const updatePromises = newParentItems.map(async (item) => {
+        // A placed item keeps its own order in this parent
+        if (item.placement_id && (item.type === 'module' || item.type === 'lesson')) {
+          return ContentService.updatePlacementSortOrder(item.type, item.placement_id, item.sort_order)
+        }
+
         switch (item.type) {
           case 'course':
             return ContentService.updateCourse(item.id, { sort_order: item.sort_order })
@@ -386,11 +524,210 @@ export default function CurriculumBuilder({
 
     } catch (error) {
       console.error('Failed to update sort orders:', error)
+      setMoveError(error instanceof Error ? error.message : 'Failed to reorder items')
       // Revert the change
       loadCurriculumData()
     }
   }
 
+  // Dropped on an item of the same type, the item takes its place in that item's parent;
+  // dropped on a parent, it goes to the end of it
+  const moveToParent = async (
+    item: CurriculumItem,
+    target: CurriculumItem,
+    targetParent: CurriculumItem | null,
+    targetIndex: number
+  ) => {
+    if (item.type !== 'course' && item.type !== 'module' && item.type !== 'lesson') {
+      return
+    }
+
+    const droppedOnSibling = target.type === item.type
+    const newParent = droppedOnSibling ? targetParent : target.type === PARENT_TYPES[item.type] ? target : null
+
+    if (!newParent || (!droppedOnSibling && newParent.id === item.parent_id)) {
+      return
+    }
+
+    if (item.placement_id) {
+      setMoveError(`"${item.title}" is linked here. Unlink it and use + Existing ${item.type === 'module' ? 'Module' : 'Lesson'} on the new ${newParent.type} instead.`)
+      return
+    }
+
+    if (item.status === 'published' && newParent.status === 'archived') {
+      setMoveError(`Published ${item.type}s can't be moved into an archived ${newParent.type}.`)
+      return
+    }
+
+    try {
+      setMoveError(null)
+
+      const move = await ContentService.moveContent(
+        item.type,
+        item.id,
+        newParent.id,
+        droppedOnSibling ? targetIndex + 1 : undefined
+      )
+
+      if (move) {
+        setLastMove({ move, title: item.title, parentTitle: newParent.title })
+      }
+
+      await loadCurriculumData()
+
+      if (onRefresh) {
+        onRefresh()
+      }
+    } catch (error) {
+      console.error('Failed to move item:', error)
+      setMoveError(error instanceof Error ? error.message : 'Failed to move item')
+    }
+  }
+
+  const handleUndoMove = async () => {
+    if (!lastMove) {
+      return
+    }
+
+    const { move } = lastMove
+
+    try {
+      setMoveError(null)
+      await ContentService.moveContent(move.entity_type, move.item_id, move.from_parent_id, move.from_position)
+      setLastMove(null)
+      await loadCurriculumData()
+
+      if (onRefresh) {
+        onRefresh()
+      }
+    } catch (error) {
+      console.error('Failed to undo move:', error)
+      setMoveError(error instanceof Error ? error.message : 'Failed to undo move')
+    }
+  }
+
+  const openDuplicate = (item: CurriculumItem) => {
+    setDuplicateSource(item)
+    setDuplicateForm({ title: '', parentId: item.parent_id ?? '', role: '' })
+    setDuplicateError(null)
+  }
+
+  // A copied course can go to any path and a copied module to any course
+  const duplicateParents = duplicateSource?.type === 'course'
+    ? curriculumTree
+    : duplicateSource?.type === 'module'
+      ? curriculumTree.flatMap(path => path.children ?? [])
+      : []
+
+  const handleDuplicate = async () => {
+    if (!duplicateSource || (duplicateSource.type !== 'path' && duplicateSource.type !== 'course' && duplicateSource.type !== 'module')) {
+      return
+    }
+
+    try {
+      setDuplicating(true)
+      setDuplicateError(null)
+
+      const result = await ContentService.cloneContent(duplicateSource.type, duplicateSource.id, {
+        title: duplicateForm.title.trim() || undefined,
+        parentId: duplicateForm.parentId || undefined,
+        rewriteForRole: duplicateForm.role || undefined
+      })
+
+      if (result) {
+        setDuplicateNotice(
+          `Duplicated "${duplicateSource.title}" as a draft` +
+          (result.rewritten_lessons > 0 ? `, rewrote ${result.rewritten_lessons} lessons` : '') +
+          (result.failed_rewrites > 0 ? `; ${result.failed_rewrites} lessons kept their original text because the rewrite failed` : '') +
+          '.'
+        )
+      }
+
+      setDuplicateSource(null)
+      await loadCurriculumData()
+
+      if (onRefresh) {
+        onRefresh()
+      }
+    } catch (error) {
+      setDuplicateError(error instanceof Error ? error.message : 'Failed to duplicate item')
+    } finally {
+      setDuplicating(false)
+    }
+  }
+
+  const openInsertExisting = (item: CurriculumItem) => {
+    setInsertTarget(item)
+    setInsertItemId('')
+    setInsertError(null)
+  }
+
+  const closeInsertExisting = () => {
+    setInsertTarget(null)
+    setInsertItemId('')
+    setInsertError(null)
+  }
+
+  // Modules or lessons that are not in the target course or module yet
+  const usedInTarget = new Set(insertTarget?.children?.map(child => child.id) ?? [])
+  const insertCandidates = insertTarget?.type === 'course'
+    ? allModules
+        .filter(module => !usedInTarget.has(module.id))
+        .map(module => ({ id: module.id, label: `${module.title} (${module.course?.title ?? 'No course'})` }))
+    : allLessons
+        .filter(lesson => !usedInTarget.has(lesson.id))
+        .map(lesson => ({ id: lesson.id, label: `${lesson.title} (${lesson.module?.title ?? 'No module'})` }))
+
+  const handleInsertExisting = async () => {
+    if (!insertTarget || !insertItemId) {
+      return
+    }
+
+    try {
+      setInserting(true)
+      setInsertError(null)
+
+      await ContentService.placeContent(
+        insertTarget.type === 'course' ? 'module' : 'lesson',
+        insertItemId,
+        insertTarget.id
+      )
+
+      closeInsertExisting()
+      await loadCurriculumData()
+
+      if (onRefresh) {
+        onRefresh()
+      }
+    } catch (error) {
+      setInsertError(error instanceof Error ? error.message : 'Failed to insert item')
+    } finally {
+      setInserting(false)
+    }
+  }
+
+  const handleUnlink = async (item: CurriculumItem) => {
+    if (!item.placement_id || (item.type !== 'module' && item.type !== 'lesson')) {
+      return
+    }
+
+    if (!confirm(`Remove "${item.title}" from this ${item.type === 'module' ? 'course' : 'module'}? It stays in its other places.`)) {
+      return
+    }
+
+    try {
+      await ContentService.removePlacement(item.type, item.placement_id)
+      await loadCurriculumData()
+
+      if (onRefresh) {
+        onRefresh()
+      }
+    } catch (error) {
+      console.error('Failed to unlink item:', error)
+      setError(error instanceof Error ? error.message : 'Failed to unlink item')
+    }
+  }
+
   const handleEditItem = async (item: CurriculumItem) => {
     try {
       // Get the full item data before editing and call the appropriate handler
@@ -486,12 +823,66 @@ export default function CurriculumBuilder({
         <h3 className="font-medium text-blue-900 mb-2">📋 How to use the Curriculum Builder</h3>
         <ul className="text-sm text-blue-800 space-y-1">
           <li>• Drag the ⋮⋮ handle to reorder items within the same parent</li>
+          <li>• Drop a course, module or lesson on another parent (or among its items) to move it there</li>
           <li>• Use the ▼ ▶ buttons to expand/collapse sections</li>
           <li>• Items are automatically sorted by their display order</li>
+          <li>• Use + Existing Module / + Existing Lesson to reuse content in another course or module</li>
+          <li>• 🔗 Linked items are shared: edits show everywhere they are used, and Unlink removes only that copy</li>
           <li>• Changes are saved immediately to the database</li>
         </ul>
       </div>
 
+      {/* Move Feedback */}
+      {moveError && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 flex items-center justify-between">
+          <p className="text-sm text-red-700">{moveError}</p>
+          <button
+            onClick={() => setMoveError(null)}
+            className="text-sm font-medium text-red-700 hover:text-red-900"
+            type="button"
+          >
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {duplicateNotice && (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-4 flex items-center justify-between">
+          <p className="text-sm text-green-800">{duplicateNotice}</p>
+          <button
+            onClick={() => setDuplicateNotice(null)}
+            className="text-sm font-medium text-green-700 hover:text-green-900"
+            type="button"
+          >
+            Dismiss
+          </button>
+        </div>
+      )}
+
+      {lastMove && (
+        <div className="bg-green-50 border border-green-200 rounded-lg p-4 flex items-center justify-between">
+          <p className="text-sm text-green-800">
+            Moved &quot;{lastMove.title}&quot; to &quot;{lastMove.parentTitle}&quot;.
+          </p>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={handleUndoMove}
+              className="text-sm font-medium text-green-800 hover:text-green-900 underline"
+              type="button"
+            >
+              Undo
+            </button>
+            <button
+              onClick={() => setLastMove(null)}
+              className="text-sm font-medium text-green-700 hover:text-green-900"
+              type="button"
+            >
+              Dismiss
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Curriculum Tree */}
       {curriculumTree.length === 0 ? (
         <div className="bg-white rounded-lg shadow p-8 text-center">
@@ -508,14 +899,17 @@ export default function CurriculumBuilder({
             onDragEnd={handleDragEnd}
           >
             <SortableContext 
-              items={curriculumTree.map(item => item.id)}
+              items={curriculumTree.map(item => item.node_id)}
               strategy={verticalListSortingStrategy}
             >
               {curriculumTree.map((item) => (
                 <SortableCurriculumItem
-                  key={item.id}
+                  key={item.node_id}
                   item={item}
                   onEdit={handleEditItem}
+                  onInsertExisting={openInsertExisting}
+                  onUnlink={handleUnlink}
+                  onDuplicate={openDuplicate}
                 />
               ))}
             </SortableContext>
@@ -538,6 +932,163 @@ export default function CurriculumBuilder({
           </DndContext>
         </div>
       )}
+
+      {/* Duplicate Modal */}
+      <Modal
+        isOpen={!!duplicateSource}
+        onClose={() => setDuplicateSource(null)}
+        title={`Duplicate "${duplicateSource?.title ?? ''}"`}
+        size="md"
+      >
+        <div className="space-y-4">
+          {duplicateError && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-700">
+              {duplicateError}
+            </div>
+          )}
+
+          <p className="text-sm text-gray-600">
+            Copies everything inside it, including lessons and challenges. The copy starts as a draft.
+          </p>
+
+          <div>
+            <label htmlFor="duplicate_title" className="block text-sm font-medium text-gray-700 mb-2">
+              Title
+            </label>
+            <input
+              type="text"
+              id="duplicate_title"
+              value={duplicateForm.title}
+              onChange={(e) => setDuplicateForm(prev => ({ ...prev, title: e.target.value }))}
+              placeholder={`${duplicateSource?.title ?? ''} (Copy)`}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900"
+            />
+          </div>
+
+          {duplicateParents.length > 0 && (
+            <div>
+              <label htmlFor="duplicate_parent" className="block text-sm font-medium text-gray-700 mb-2">
+                {duplicateSource?.type === 'course' ? 'Learning Path' : 'Course'}
+              </label>
+              <select
+                id="duplicate_parent"
+                value={duplicateForm.parentId}
+                onChange={(e) => setDuplicateForm(prev => ({ ...prev, parentId: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900"
+              >
+                {duplicateParents.map(parent => (
+                  <option key={parent.id} value={parent.id}>
+                    {parent.title}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {aiAvailable && (
+            <div>
+              <label htmlFor="duplicate_role" className="block text-sm font-medium text-gray-700 mb-2">
+                Rewrite Lessons For
+              </label>
+              <select
+                id="duplicate_role"
+                value={duplicateForm.role}
+                onChange={(e) => setDuplicateForm(prev => ({ ...prev, role: e.target.value as AIRole | '' }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900"
+              >
+                <option value="">Keep original text</option>
+                {AI_ROLES.map(role => (
+                  <option key={role.value} value={role.value}>
+                    {role.label}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                Each copied lesson is rewritten with AI, which can take a while for large paths.
+              </p>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-3">
+            <button
+              onClick={() => setDuplicateSource(null)}
+              disabled={duplicating}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+              type="button"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleDuplicate}
+              disabled={duplicating}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+              type="button"
+            >
+              {duplicating ? 'Duplicating...' : 'Duplicate'}
+            </button>
+          </div>
+        </div>
+      </Modal>
+
+      {/* Insert Existing Modal */}
+      <Modal
+        isOpen={!!insertTarget}
+        onClose={closeInsertExisting}
+        title={`Add Existing ${insertTarget?.type === 'course' ? 'Module' : 'Lesson'} to "${insertTarget?.title ?? ''}"`}
+        size="md"
+      >
+        <div className="space-y-4">
+          {insertError && (
+            <div className="bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-700">
+              {insertError}
+            </div>
+          )}
+
+          {insertCandidates.length === 0 ? (
+            <p className="text-sm text-gray-500">Nothing else is available to add here.</p>
+          ) : (
+            <div>
+              <label htmlFor="insert_item_id" className="block text-sm font-medium text-gray-700 mb-2">
+                {insertTarget?.type === 'course' ? 'Module' : 'Lesson'}
+              </label>
+              <select
+                id="insert_item_id"
+                value={insertItemId}
+                onChange={(e) => setInsertItemId(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900"
+              >
+                <option value="">Select...</option>
+                {insertCandidates.map(candidate => (
+                  <option key={candidate.id} value={candidate.id}>
+                    {candidate.label}
+                  </option>
+                ))}
+              </select>
+              <p className="text-xs text-gray-500 mt-1">
+                The same item is shared, not copied: edits and learner progress apply everywhere it is used.
+              </p>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-3">
+            <button
+              onClick={closeInsertExisting}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+              type="button"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleInsertExisting}
+              disabled={!insertItemId || inserting}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+              type="button"
+            >
+              {inserting ? 'Adding...' : 'Add'}
+            </button>
+          </div>
+        </div>
+      </Modal>
     </div>
   )
 } 
\ No newline at end of file
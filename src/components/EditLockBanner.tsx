@@ -0,0 +1,117 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { useAuth } from '@/contexts/AuthContext'
+import { ContentService } from '@/lib/content'
+import { AdminOnly } from './PermissionGuard'
+import type { ContentEditLock, ContentEntityType } from '@/types/content'
+
+// Well inside the 90 second lease in migration 023, so one missed beat doesn't lose the lock
+const HEARTBEAT_INTERVAL_MS = 30 * 1000
+
+export interface EditLockState {
+  lock: ContentEditLock | null
+  lockedByOther: boolean
+  error: string | null
+  takeOver: () => Promise<void>
+}
+
+/**
+ * Hold the edit lock on an item while its form is open (pass no id when creating).
+ * The heartbeat keeps retrying while someone else holds the lock, so the form becomes
+ * editable as soon as they close it or their lease runs out.
+ */
+export function useEditLock(entityType: ContentEntityType, entityId?: string): EditLockState {
+  const { userProfile } = useAuth()
+  const [lock, setLock] = useState<ContentEditLock | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const userId = userProfile?.id
+
+  const acquire = useCallback(async (override: boolean = false) => {
+    if (!entityId) {
+      return
+    }
+
+    try {
+      setLock(await ContentService.acquireEditLock(entityType, entityId, override))
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to lock item for editing')
+    }
+  }, [entityType, entityId])
+
+  useEffect(() => {
+    if (!entityId || !userId) {
+      return
+    }
+
+    acquire()
+    const heartbeat = setInterval(() => acquire(), HEARTBEAT_INTERVAL_MS)
+
+    return () => {
+      clearInterval(heartbeat)
+      ContentService.releaseEditLock(entityType, entityId)
+    }
+  }, [entityType, entityId, userId, acquire])
+
+  return {
+    lock,
+    lockedByOther: !!lock && lock.locked_by !== userId,
+    error,
+    takeOver: () => acquire(true)
+  }
+}
+
+// Shown at the top of a form while someone else is editing the item
+export default function EditLockBanner({ editLock }: { editLock: EditLockState }) {
+  const [takingOver, setTakingOver] = useState(false)
+  const { lock, lockedByOther, error, takeOver } = editLock
+
+  const handleTakeOver = async () => {
+    if (!confirm('Take over editing? The other editor will be notified and their unsaved changes will not be kept.')) {
+      return
+    }
+
+    setTakingOver(true)
+    try {
+      await takeOver()
+    } finally {
+      setTakingOver(false)
+    }
+  }
+
+  if (error) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-md p-3 text-sm text-red-700">{error}</div>
+    )
+  }
+
+  if (!lock || !lockedByOther) {
+    return null
+  }
+
+  return (
+    <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4 flex items-start justify-between gap-4">
+      <div className="text-sm text-yellow-800">
+        <p className="font-medium">
+          🔒 Currently being edited by {lock.holder?.display_name || 'another editor'}
+        </p>
+        <p className="mt-1">
+          Editing since {new Date(lock.locked_at).toLocaleTimeString()}. You can look around, but saving is
+          disabled until they are done.
+        </p>
+      </div>
+      <AdminOnly>
+        <button
+          type="button"
+          onClick={handleTakeOver}
+          disabled={takingOver}
+          className="shrink-0 px-3 py-1.5 text-sm font-medium text-yellow-900 border border-yellow-300 rounded-md hover:bg-yellow-100 disabled:opacity-50"
+        >
+          {takingOver ? 'Taking over...' : 'Take Over Editing'}
+        </button>
+      </AdminOnly>
+    </div>
+  )
+}
@@ -0,0 +1,437 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useAuth } from '@/contexts/AuthContext'
+import { ContentService } from '@/lib/content'
+import { AIClient } from '@/lib/ai-client'
+import { applyHintPenalty, buildGradingCriteria, calculateXpEarned, PASSING_SCORE } from '@/lib/grading'
+import type {
+  Challenge,
+  ChallengeAttempt,
+  EssayChallengeContent,
+  EssayChallengeSolution
+} from '@/types/content'
+import type { GradingResult } from '@/types/ai'
+import AttemptHistory from './AttemptHistory'
+import GradingFeedback from './GradingFeedback'
+import HintPanel from './HintPanel'
+
+interface EssayChallengeProps {
+  challenge: Challenge
+  onComplete: (score: number, xpEarned: number) => void
+  onNext?: () => void
+  preview?: boolean
+}
+
+const AUTOSAVE_DELAY_MS = 1000
+
+function countWords(text: string): number {
+  return text.trim().split(/\s+/).filter(word => word.length > 0).length
+}
+
+// Drafts live in the browser until the essay is submitted
+function getDraftKey(challengeId: string, userId?: string): string {
+  return `essay_draft_${challengeId}_${userId || 'anonymous'}`
+}
+
+// Essay challenge player: word-limited response, autosaved draft, per-criterion AI grading
+export default function EssayChallenge({ challenge, onComplete, onNext, preview }: EssayChallengeProps) {
+  const { user: authUser } = useAuth()
+  const user = preview ? null : authUser // previews never record attempts or progress
+  const content = (challenge.content || {}) as EssayChallengeContent
+  const solution = (challenge.solution || {}) as EssayChallengeSolution
+  const minWords = content.min_words || 0
+  const maxWords = content.max_words || 0
+  const draftKey = getDraftKey(challenge.id, user?.id)
+
+  const [essay, setEssay] = useState('')
+  const [draftLoaded, setDraftLoaded] = useState(false)
+  const [draftSavedAt, setDraftSavedAt] = useState<Date | null>(null)
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [result, setResult] = useState<{ grading: GradingResult; xpEarned: number; pendingReview?: boolean } | null>(null)
+  const [aiUnavailable, setAiUnavailable] = useState(false)
+  const [sentForReview, setSentForReview] = useState(false)
+  const [pastAttempts, setPastAttempts] = useState<ChallengeAttempt[]>([])
+  const [startedAt] = useState(() => new Date().toISOString())
+  const [hintsUsed, setHintsUsed] = useState(0) // hints already seen stay revealed across revisions
+
+  const attemptsExhausted = !!challenge.max_attempts && pastAttempts.length >= challenge.max_attempts
+
+  // Restore the local draft, falling back to the last submitted response
+  useEffect(() => {
+    async function loadDraft() {
+      if (user) {
+        setPastAttempts(await ContentService.getChallengeAttempts(user.id, challenge.id))
+      }
+
+      const draft = preview ? null : window.localStorage.getItem(draftKey)
+      if (draft !== null) {
+        setEssay(draft)
+        setDraftLoaded(true)
+        return
+      }
+
+      if (user) {
+        try {
+          const [progress] = await ContentService.getUserProgress(user.id, challenge.id, 'challenge')
+          if (progress?.response) {
+            setEssay(progress.response)
+          }
+          if (progress?.feedback) {
+            setResult({ grading: progress.feedback, xpEarned: progress.xp_earned })
+          }
+        } catch (error) {
+          console.error('Error loading essay progress:', error)
+        }
+      }
+      setDraftLoaded(true)
+    }
+
+    loadDraft()
+  }, [draftKey, user, challenge.id, preview])
+
+  // Autosave the draft shortly after the learner stops typing
+  useEffect(() => {
+    if (!draftLoaded || result || preview) {
+      return
+    }
+
+    const timer = setTimeout(() => {
+      window.localStorage.setItem(draftKey, essay)
+      setDraftSavedAt(new Date())
+    }, AUTOSAVE_DELAY_MS)
+
+    return () => clearTimeout(timer)
+  }, [essay, draftKey, draftLoaded, result, preview])
+
+  const wordCount = countWords(essay)
+  const tooShort = wordCount < minWords
+  const tooLong = maxWords > 0 && wordCount > maxWords
+  const withinLimits = wordCount > 0 && !tooShort && !tooLong
+
+  // Learners' essays are graded on the server as the attempt is recorded (migration 035); essays the AI
+  // couldn't grade confidently are queued for a grader there. Previews are graded here and not recorded
+  const gradeEssay = async (sendToGrader: boolean): Promise<{ grading: GradingResult | null; pendingReview: boolean; attemptNumber?: number }> => {
+    if (!user) {
+      const grading = await AIClient.gradeAnswer(
+        content.prompt,
+        essay,
+        solution.sample_answer || '',
+        buildGradingCriteria(content.criteria, solution.rubric)
+      )
+      return { grading, pendingReview: false }
+    }
+
+    // The server rejects the attempt once max_attempts is reached
+    const attempt = await ContentService.recordChallengeAttempt({
+      challenge_id: challenge.id,
+      answers: [{ question_index: 0, answer: essay }],
+      started_at: startedAt,
+      hints_used: hintsUsed,
+      send_to_grader: sendToGrader
+    })
+    if (!attempt) {
+      throw new Error('Failed to record attempt')
+    }
+
+    setPastAttempts(prev => [attempt, ...prev])
+    const recorded = attempt.answers[0]
+    return {
+      grading: recorded?.feedback ?? null,
+      pendingReview: recorded?.review?.status === 'pending',
+      attemptNumber: attempt.attempt_number
+    }
+  }
+
+  // Record progress for the submission and clear the local draft
+  const recordProgress = async (grading: GradingResult | null, attemptNumber?: number): Promise<number> => {
+    const score = grading?.score ?? 0
+    const xpEarned = grading
+      ? applyHintPenalty(calculateXpEarned(score, challenge.xp_reward), hintsUsed, challenge.hint_xp_penalty)
+      : 0
+
+    if (user) {
+      await ContentService.updateProgress(user.id, challenge.id, 'challenge', {
+        status: grading && score >= PASSING_SCORE ? 'completed' : 'in_progress',
+        completion_percentage: score,
+        score,
+        xp_earned: xpEarned,
+        response: essay,
+        feedback: grading,
+        attempts: attemptNumber,
+        hints_used: hintsUsed
+      })
+    }
+
+    window.localStorage.removeItem(draftKey)
+    setDraftSavedAt(null)
+    return xpEarned
+  }
+
+  const handleSubmit = async () => {
+    if (!withinLimits) {
+      return
+    }
+
+    setSubmitting(true)
+    setError(null)
+    setAiUnavailable(false)
+
+    try {
+      let graded: Awaited<ReturnType<typeof gradeEssay>>
+      try {
+        graded = await gradeEssay(false)
+      } catch (gradingError) {
+        if (gradingError instanceof Error && gradingError.message.includes('Maximum attempts')) {
+          throw gradingError
+        }
+        console.error('Essay grading failed:', gradingError)
+        setAiUnavailable(true)
+        setError(user
+          ? 'Your essay could not be graded automatically right now. Your draft is saved - try again in a moment, or send it to a grader.'
+          : 'Your essay could not be graded right now. Your draft is saved - please try again in a moment.')
+        return
+      }
+
+      // Only essays sent to a grader are recorded without a grade
+      const { grading, pendingReview, attemptNumber } = graded
+      if (!grading) {
+        return
+      }
+
+      const xpEarned = await recordProgress(grading, attemptNumber)
+      setResult({ grading, xpEarned, pendingReview })
+      onComplete(grading.score, xpEarned)
+    } catch (error) {
+      console.error('Essay submission failed:', error)
+      setError(error instanceof Error && error.message.includes('Maximum attempts')
+        ? error.message
+        : 'Your essay could not be graded right now. Your draft is saved - please try again in a moment.')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  // When AI grading is down, a content manager grades the essay from the grading queue instead
+  const handleSendToGrader = async () => {
+    setSubmitting(true)
+    setError(null)
+
+    try {
+      const { grading, pendingReview, attemptNumber } = await gradeEssay(true)
+      const xpEarned = await recordProgress(grading, attemptNumber)
+      setAiUnavailable(false)
+
+      // AI grading may have recovered in the meantime
+      if (grading) {
+        setResult({ grading, xpEarned, pendingReview })
+        onComplete(grading.score, xpEarned)
+      } else {
+        setSentForReview(true)
+      }
+    } catch (error) {
+      console.error('Essay submission failed:', error)
+      setError(error instanceof Error && error.message.includes('Maximum attempts')
+        ? error.message
+        : 'Your essay could not be submitted right now. Your draft is saved - please try again in a moment.')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleRevise = () => {
+    setResult(null)
+  }
+
+  if (sentForReview) {
+    return (
+      <div className="max-w-2xl mx-auto">
+        <div className="bg-white rounded-lg shadow-lg p-8">
+          <div className="text-center mb-6">
+            <div className="text-4xl mb-2">📝</div>
+            <h2 className="text-2xl font-bold text-gray-900 mb-2">Sent for grading</h2>
+            <p className="text-gray-600">
+              A grader will review your essay against the rubric. Your score and XP will appear
+              in your progress once it has been graded.
+            </p>
+          </div>
+
+          {pastAttempts.length > 0 && (
+            <div className="mb-6">
+              <AttemptHistory attempts={pastAttempts} />
+            </div>
+          )}
+
+          {onNext && (
+            <div className="text-center">
+              <button
+                onClick={onNext}
+                className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+              >
+                Continue →
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    )
+  }
+
+  if (result) {
+    return (
+      <div className="max-w-2xl mx-auto">
+        <div className="bg-white rounded-lg shadow-lg p-8">
+          <div className="text-center mb-6">
+            <h2 className="text-2xl font-bold text-gray-900 mb-2">
+              {result.grading.score >= PASSING_SCORE ? 'Challenge Completed!' : 'Keep Learning!'}
+            </h2>
+            <div className="text-4xl font-bold mb-2" style={{
+              color: result.grading.score >= PASSING_SCORE ? '#10B981' : '#F59E0B'
+            }}>
+              {result.grading.score}%
+            </div>
+          </div>
+
+          <div className="bg-gradient-to-r from-blue-50 to-indigo-50 rounded-lg p-4 mb-6">
+            <div className="flex items-center justify-between">
+              <span className="text-sm text-gray-600">XP Earned</span>
+              <span className="text-lg font-bold text-blue-600">+{result.xpEarned} XP</span>
+            </div>
+          </div>
+
+          {result.pendingReview && (
+            <div className="mb-6 p-3 bg-purple-50 border border-purple-200 rounded-lg text-sm text-purple-800">
+              📝 This grade has been sent to a grader for review. Your score and XP may change once it has been graded.
+            </div>
+          )}
+
+          <div className="mb-6">
+            <GradingFeedback question={content.prompt} grading={result.grading} />
+          </div>
+
+          {pastAttempts.length > 0 && (
+            <div className="mb-6">
+              <AttemptHistory attempts={pastAttempts} />
+            </div>
+          )}
+
+          <div className="flex gap-3 justify-center">
+            {result.grading.score < 100 && !attemptsExhausted && (
+              <button
+                onClick={handleRevise}
+                className="px-6 py-2 bg-orange-600 text-white rounded-md hover:bg-orange-700 transition-colors"
+              >
+                ✏️ Revise Essay
+              </button>
+            )}
+
+            {onNext && (
+              <button
+                onClick={onNext}
+                className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+              >
+                Continue →
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto">
+      <div className="bg-white rounded-lg shadow-lg overflow-hidden">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-blue-500 to-indigo-600 text-white p-6">
+          <h2 className="text-xl font-bold">{challenge.title}</h2>
+          <div className="text-sm mt-2 opacity-90">
+            ✍️ {minWords}-{maxWords} words · +{challenge.xp_reward} XP
+          </div>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {/* Prompt */}
+          <p className="text-lg text-gray-900 whitespace-pre-wrap">{content.prompt}</p>
+
+          {/* Rubric */}
+          {content.criteria && content.criteria.length > 0 && (
+            <div className="p-4 bg-gray-50 rounded-lg">
+              <div className="text-sm font-medium text-gray-900 mb-2">You will be graded on:</div>
+              <ul className="list-disc list-inside text-sm text-gray-700 space-y-1">
+                {content.criteria.map(criterion => (
+                  <li key={criterion}>
+                    <span className="font-medium">{criterion}</span>
+                    {solution.rubric?.[criterion] && ` - ${solution.rubric[criterion]}`}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <HintPanel
+            hints={challenge.hints || []}
+            hintsUsed={hintsUsed}
+            penalty={challenge.hint_xp_penalty}
+            onReveal={() => setHintsUsed(prev => prev + 1)}
+            disabled={submitting}
+          />
+
+          {/* Essay */}
+          <div>
+            <textarea
+              value={essay}
+              onChange={(e) => setEssay(e.target.value)}
+              disabled={submitting || !draftLoaded}
+              placeholder="Write your essay here..."
+              className="w-full p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-vertical min-h-[300px]"
+              rows={12}
+            />
+            <div className="flex items-center justify-between text-sm mt-2">
+              <span className={tooLong || (tooShort && wordCount > 0) ? 'text-red-600' : withinLimits ? 'text-green-600' : 'text-gray-500'}>
+                {wordCount} / {maxWords} words
+                {tooShort && wordCount > 0 && ` · ${minWords - wordCount} more needed`}
+                {tooLong && ` · ${wordCount - maxWords} over the limit`}
+              </span>
+              <span className="text-gray-400">
+                {draftSavedAt && `Draft saved ${draftSavedAt.toLocaleTimeString()}`}
+              </span>
+            </div>
+          </div>
+
+          {attemptsExhausted && !error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+              You have used all {challenge.max_attempts} attempts for this challenge.
+            </div>
+          )}
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+              {error}
+            </div>
+          )}
+
+          <div className="flex justify-end gap-3">
+            {aiUnavailable && user && (
+              <button
+                onClick={handleSendToGrader}
+                disabled={submitting || !withinLimits || attemptsExhausted}
+                className="px-6 py-2 text-purple-700 border border-purple-300 rounded-md hover:bg-purple-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                📝 Send to a grader
+              </button>
+            )}
+            <button
+              onClick={handleSubmit}
+              disabled={submitting || !withinLimits || attemptsExhausted}
+              className="px-6 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {submitting ? 'Grading...' : '✅ Submit Essay'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
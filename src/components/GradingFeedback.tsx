@@ -0,0 +1,75 @@
+'use client'
+
+import { PASSING_SCORE } from '@/lib/grading'
+import type { GradingResult } from '@/types/ai'
+
+// Per-criterion feedback from AI grading
+export default function GradingFeedback({ question, grading }: { question?: string; grading: GradingResult }) {
+  return (
+    <div className="border border-gray-200 rounded-lg p-4">
+      {question && (
+        <div className="text-sm font-medium text-gray-900 mb-2">{question}</div>
+      )}
+
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-sm text-gray-600">Score</span>
+        <span className={`text-sm font-bold ${grading.score >= PASSING_SCORE ? 'text-green-600' : 'text-orange-600'}`}>
+          {grading.score}%
+        </span>
+      </div>
+
+      <div className="space-y-3 mb-3">
+        {grading.criteria.map(criterion => (
+          <div key={criterion.criterion}>
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-medium text-gray-700">{criterion.criterion}</span>
+              <span className="text-gray-600">{criterion.score}%</span>
+            </div>
+            <div className="w-full bg-gray-200 rounded-full h-2 mt-1">
+              <div
+                className={`h-2 rounded-full ${criterion.score >= PASSING_SCORE ? 'bg-green-500' : 'bg-orange-400'}`}
+                style={{ width: `${criterion.score}%` }}
+              ></div>
+            </div>
+            {criterion.feedback && (
+              <p className="text-xs text-gray-600 mt-1">{criterion.feedback}</p>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {grading.feedback && (
+        <p className="text-sm text-gray-700 mb-3">{grading.feedback}</p>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+        {grading.strengths.length > 0 && (
+          <div className="bg-green-50 rounded-md p-3">
+            <div className="font-medium text-green-800 mb-1">✅ Strengths</div>
+            <ul className="list-disc list-inside text-green-700 space-y-1">
+              {grading.strengths.map((strength, index) => (
+                <li key={index}>{strength}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+        {grading.gaps.length > 0 && (
+          <div className="bg-orange-50 rounded-md p-3">
+            <div className="font-medium text-orange-800 mb-1">📌 To improve</div>
+            <ul className="list-disc list-inside text-orange-700 space-y-1">
+              {grading.gaps.map((gap, index) => (
+                <li key={index}>{gap}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+
+      {grading.confidence < 0.5 && (
+        <p className="text-xs text-gray-500 mt-3">
+          The AI grader was not fully confident about this score.
+        </p>
+      )}
+    </div>
+  )
+}
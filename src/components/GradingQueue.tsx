@@ -0,0 +1,363 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { ContentService } from '@/lib/content'
+import { applyHintPenalty, buildGradingCriteria, calculateXpEarned, PASSING_SCORE } from '@/lib/grading'
+import { getQuizPayload } from '@/lib/challenge-schema'
+import { applyQuestionDraw } from '@/lib/question-bank'
+import { rescoreQuizAttempt } from '@/lib/quiz-scoring'
+import type { CodeTestResult } from '@/lib/code-runner'
+import type {
+  CodeChallengeContent,
+  CodeChallengeSolution,
+  EssayChallengeContent,
+  EssayChallengeSolution,
+  GradingReview,
+  GradingReviewReason,
+  GradingReviewStatus,
+  QuizQuestion
+} from '@/types/content'
+import type { GradingCriterion } from '@/types/ai'
+import GradingFeedback from './GradingFeedback'
+
+const REASON_LABELS: Record<GradingReviewReason, string> = {
+  low_confidence: 'Low AI confidence',
+  ai_unavailable: 'AI grading unavailable',
+  code_submission: 'Code submission'
+}
+
+// Everything the grader needs to judge one queued answer
+interface ReviewContext {
+  prompt: string
+  answer: string
+  expected?: string
+  criteria: GradingCriterion[]
+  questions?: QuizQuestion[] // quiz challenges: used to recompute the attempt score
+  note?: string // code challenges: the test results the learner's browser reported
+}
+
+async function loadReviewContext(review: GradingReview): Promise<ReviewContext | null> {
+  const { challenge, attempt } = review
+  if (!challenge || !attempt) {
+    return null
+  }
+
+  const recorded = attempt.answers.find(answer => answer.question_index === review.question_index)
+  const answer = typeof recorded?.answer === 'string' ? recorded.answer : ''
+
+  if (challenge.challenge_type === 'essay') {
+    const content = (challenge.content || {}) as EssayChallengeContent
+    const solution = (challenge.solution || {}) as EssayChallengeSolution
+    return {
+      prompt: content.prompt,
+      answer,
+      expected: solution.sample_answer,
+      criteria: buildGradingCriteria(content.criteria, solution.rubric)
+    }
+  }
+
+  // Code is graded against the test cases; the learner's own run can't be trusted for the score
+  if (challenge.challenge_type === 'code') {
+    const content = (challenge.content || {}) as CodeChallengeContent
+    const solution = (challenge.solution || {}) as CodeChallengeSolution
+    const submitted = recorded?.answer || {}
+    const results: CodeTestResult[] = Array.isArray(submitted.results) ? submitted.results : []
+    return {
+      prompt: content.problem_statement,
+      answer: typeof submitted.code === 'string' ? submitted.code : '',
+      expected: solution.solution_code,
+      criteria: (content.test_cases || []).map((test, index) => ({
+        name: `Test ${index + 1}`,
+        description: `${test.description ? `${test.description}: ` : ''}${test.input || '(no input)'} → ${test.expected_output}`
+      })),
+      note: results.length > 0
+        ? `${results.filter(result => result.passed).length} of ${results.length} tests passed in the learner's browser`
+        : undefined
+    }
+  }
+
+  // Bank-based quizzes are graded against the questions drawn for this attempt
+  let quiz = getQuizPayload(challenge.challenge_type, challenge.content, challenge.solution)
+  const bankSource = quiz.content.question_bank
+  if (bankSource && attempt.draw) {
+    const items = await ContentService.getQuestionBankItems(bankSource.bank_id, attempt.draw.map(entry => entry.item_id))
+    quiz = applyQuestionDraw(items, attempt.draw)
+  }
+
+  const question = quiz.content.questions[review.question_index]
+  if (!question) {
+    return null
+  }
+
+  const expected = quiz.solution.answers?.[review.question_index]
+  return {
+    prompt: question.question,
+    answer,
+    expected: typeof expected === 'string' ? expected : undefined,
+    criteria: question.type === 'open_text'
+      ? buildGradingCriteria(question.criteria, question.rubric)
+      : buildGradingCriteria(),
+    questions: quiz.content.questions
+  }
+}
+
+// Manual grading for essay and open-text answers the AI couldn't grade confidently, and for code submissions
+export default function GradingQueue() {
+  const [status, setStatus] = useState<GradingReviewStatus>('pending')
+  const [reviews, setReviews] = useState<GradingReview[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  const loadReviews = useCallback(async () => {
+    setLoading(true)
+    try {
+      const data = await ContentService.getGradingReviews(status)
+      setReviews(data)
+      setSelectedId(prev => data.some(review => review.id === prev) ? prev : data[0]?.id ?? null)
+    } finally {
+      setLoading(false)
+    }
+  }, [status])
+
+  useEffect(() => {
+    loadReviews()
+  }, [loadReviews])
+
+  const selected = reviews.find(review => review.id === selectedId)
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Grading Queue</h2>
+          <p className="text-sm text-gray-600">
+            Essay and open-text answers the AI could not grade confidently, and code submissions
+          </p>
+        </div>
+        <div className="flex rounded-md border border-gray-300 overflow-hidden text-sm">
+          {(['pending', 'completed'] as GradingReviewStatus[]).map(option => (
+            <button
+              key={option}
+              type="button"
+              onClick={() => setStatus(option)}
+              className={`px-4 py-2 ${status === option ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+            >
+              {option === 'pending' ? 'To grade' : 'Graded'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="p-6 space-y-3">
+          {[...Array(3)].map((_, i) => (
+            <div key={i} className="animate-pulse bg-gray-200 h-16 rounded-lg"></div>
+          ))}
+        </div>
+      ) : reviews.length === 0 ? (
+        <div className="p-12 text-center text-gray-500">
+          <div className="text-4xl mb-2">📝</div>
+          {status === 'pending' ? 'Nothing waiting to be graded.' : 'No graded submissions yet.'}
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3">
+          <ul className="divide-y divide-gray-200 border-r border-gray-200">
+            {reviews.map(review => (
+              <li key={review.id}>
+                <button
+                  type="button"
+                  onClick={() => setSelectedId(review.id)}
+                  className={`w-full text-left px-4 py-3 text-sm hover:bg-gray-50 ${review.id === selectedId ? 'bg-blue-50' : ''}`}
+                >
+                  <div className="font-medium text-gray-900 truncate">{review.challenge?.title || 'Challenge'}</div>
+                  <div className="text-gray-600 truncate">{review.user?.display_name || 'Learner'}</div>
+                  <div className="flex items-center gap-2 mt-1 text-xs">
+                    <span className="px-2 py-0.5 rounded-full bg-purple-100 text-purple-800">{REASON_LABELS[review.reason]}</span>
+                    <span className="text-gray-500">{new Date(review.created_at).toLocaleDateString()}</span>
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          <div className="lg:col-span-2 p-6">
+            {selected && <ReviewPanel key={selected.id} review={selected} onGraded={loadReviews} />}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function ReviewPanel({ review, onGraded }: { review: GradingReview; onGraded: () => void }) {
+  const [context, setContext] = useState<ReviewContext | null>(null)
+  const [loadingContext, setLoadingContext] = useState(true)
+  const [score, setScore] = useState<string>(review.ai_score !== null && review.ai_score !== undefined ? String(review.ai_score) : '')
+  const [comment, setComment] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const attemptAnswer = review.attempt?.answers.find(answer => answer.question_index === review.question_index)
+  const isPending = review.status === 'pending'
+
+  useEffect(() => {
+    loadReviewContext(review)
+      .then(setContext)
+      .catch(loadError => console.error('Failed to load submission:', loadError))
+      .finally(() => setLoadingContext(false))
+  }, [review])
+
+  const handleSave = async (finalScore: number) => {
+    const { challenge, attempt } = review
+    if (!challenge || !attempt || !context) {
+      return
+    }
+    if (!Number.isFinite(finalScore) || finalScore < 0 || finalScore > 100) {
+      setError('Enter a score between 0 and 100')
+      return
+    }
+
+    setSaving(true)
+    setError(null)
+    try {
+      // Quiz attempts are rescored with this answer's new score; essays are a single answer
+      const attemptScore = context.questions
+        ? rescoreQuizAttempt(context.questions, attempt.answers, { [review.question_index]: finalScore }).score
+        : Math.round(finalScore)
+      const xpEarned = applyHintPenalty(
+        calculateXpEarned(attemptScore, challenge.xp_reward),
+        attempt.hints_used || 0,
+        challenge.hint_xp_penalty
+      )
+
+      await ContentService.completeGradingReview(review.id, {
+        final_score: finalScore,
+        comment,
+        attempt_score: attemptScore,
+        xp_earned: xpEarned
+      })
+      onGraded()
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : 'Failed to save grade')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (loadingContext) {
+    return <div className="animate-pulse bg-gray-200 h-64 rounded-lg"></div>
+  }
+
+  if (!context) {
+    return <p className="text-sm text-red-600">This submission&apos;s challenge or question could not be loaded.</p>
+  }
+
+  return (
+    <div className="space-y-5">
+      <div>
+        <div className="text-xs uppercase tracking-wide text-gray-500 mb-1">
+          {review.challenge?.title} · {review.user?.display_name || 'Learner'} · attempt {review.attempt?.attempt_number}
+        </div>
+        <p className="text-gray-900 font-medium whitespace-pre-wrap">{context.prompt}</p>
+      </div>
+
+      <div>
+        <div className="text-sm font-medium text-gray-700 mb-1">Submission</div>
+        <div className="p-3 bg-gray-50 border border-gray-200 rounded-md text-sm text-gray-800 whitespace-pre-wrap max-h-80 overflow-y-auto">
+          {context.answer || 'No answer'}
+        </div>
+        {context.note && <p className="text-xs text-gray-500 mt-1">{context.note}</p>}
+      </div>
+
+      <div>
+        <div className="text-sm font-medium text-gray-700 mb-1">Rubric</div>
+        <ul className="list-disc list-inside text-sm text-gray-700 space-y-1">
+          {context.criteria.map(criterion => (
+            <li key={criterion.name}>
+              <span className="font-medium">{criterion.name}</span>
+              {criterion.description && ` - ${criterion.description}`}
+            </li>
+          ))}
+        </ul>
+        {context.expected && (
+          <details className="mt-2 text-sm">
+            <summary className="cursor-pointer text-blue-600">Expected answer</summary>
+            <p className="mt-1 text-gray-700 whitespace-pre-wrap">{context.expected}</p>
+          </details>
+        )}
+      </div>
+
+      {attemptAnswer?.feedback ? (
+        <div>
+          <div className="text-sm font-medium text-gray-700 mb-1">
+            AI grade
+            {review.ai_confidence !== null && review.ai_confidence !== undefined && (
+              <span className="font-normal text-gray-500"> · {Math.round(review.ai_confidence * 100)}% confidence</span>
+            )}
+          </div>
+          <GradingFeedback grading={attemptAnswer.feedback} />
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">No AI grade: automatic grading was unavailable for this submission.</p>
+      )}
+
+      {isPending ? (
+        <div className="border-t border-gray-200 pt-4 space-y-3">
+          <div className="flex items-center gap-3">
+            <label htmlFor="final_score" className="text-sm font-medium text-gray-700">Final score</label>
+            <input
+              id="final_score"
+              type="number"
+              min="0"
+              max="100"
+              value={score}
+              onChange={e => setScore(e.target.value)}
+              className="w-24 px-2 py-1 border border-gray-300 rounded-md text-gray-900"
+            />
+            <span className="text-sm text-gray-500">% (passing is {PASSING_SCORE}%)</span>
+          </div>
+          <textarea
+            value={comment}
+            onChange={e => setComment(e.target.value)}
+            rows={3}
+            placeholder="Comment for the learner (optional)"
+            className="block w-full px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-900"
+          />
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-700">{error}</div>
+          )}
+
+          <div className="flex justify-end gap-3">
+            {review.ai_score !== null && review.ai_score !== undefined && (
+              <button
+                type="button"
+                onClick={() => handleSave(review.ai_score as number)}
+                disabled={saving}
+                className="px-4 py-2 text-blue-600 border border-blue-600 rounded-md hover:bg-blue-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Confirm AI score ({review.ai_score}%)
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => handleSave(parseInt(score))}
+              disabled={saving || score === ''}
+              className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Saving...' : 'Save grade'}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="border-t border-gray-200 pt-4 text-sm text-gray-700 space-y-1">
+          <div>
+            Graded <span className="font-bold">{review.final_score}%</span>
+            {review.reviewed_at && ` on ${new Date(review.reviewed_at).toLocaleString()}`}
+          </div>
+          {review.comment && <p className="whitespace-pre-wrap text-gray-600">{review.comment}</p>}
+        </div>
+      )}
+    </div>
+  )
+}
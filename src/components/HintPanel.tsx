@@ -0,0 +1,42 @@
+'use client'
+
+interface HintPanelProps {
+  hints: string[]
+  hintsUsed: number
+  penalty?: number // XP deducted per hint revealed
+  onReveal: () => void
+  disabled?: boolean
+}
+
+// Progressive hints: each request reveals the next hint, at the challenge's XP cost
+export default function HintPanel({ hints, hintsUsed, penalty = 0, onReveal, disabled }: HintPanelProps) {
+  if (hints.length === 0) {
+    return null
+  }
+
+  const revealed = hints.slice(0, hintsUsed)
+  const remaining = hints.length - revealed.length
+
+  return (
+    <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg space-y-2">
+      {revealed.map((hint, index) => (
+        <div key={index} className="text-sm text-yellow-700">
+          <span className="font-medium text-yellow-800">💡 Hint {index + 1}:</span> {hint}
+        </div>
+      ))}
+
+      {remaining > 0 ? (
+        <button
+          onClick={onReveal}
+          disabled={disabled}
+          className="text-sm font-medium text-yellow-800 underline hover:no-underline disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          💡 {revealed.length === 0 ? 'Show a hint' : 'Show next hint'}
+          {' '}({remaining} left{penalty > 0 ? `, −${penalty} XP each` : ''})
+        </button>
+      ) : (
+        <div className="text-xs text-yellow-600">No more hints</div>
+      )}
+    </div>
+  )
+}
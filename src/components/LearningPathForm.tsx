@@ -2,7 +2,13 @@
 
 import { useState, useEffect } from 'react'
 import { ContentService } from '@/lib/content'
-import type { LearningPath, CreateLearningPathDto, UpdateLearningPathDto } from '@/types/content'
+import RevisionHistory from './RevisionHistory'
+import ContentStatusOptions from './ContentStatusOptions'
+import SubmitForReview from './SubmitForReview'
+import ContentScheduleFields from './ContentScheduleFields'
+import EditLockBanner, { useEditLock } from './EditLockBanner'
+import { getScheduleChanges, getScheduleError, toScheduleInput } from '@/lib/content-workflow'
+import type { LearningPath, CreateLearningPathDto, UpdateLearningPathDto, ContentStatus } from '@/types/content'
 
 interface LearningPathFormProps {
   path?: LearningPath // If provided, we're editing; if not, we're creating
@@ -18,11 +24,15 @@ export default function LearningPathForm({ path, onSave, onCancel }: LearningPat
     estimated_hours: 0,
     prerequisites: [] as string[],
     learning_outcomes: [] as string[],
-    status: 'draft' as 'draft' | 'published' | 'archived'
+    status: 'draft' as ContentStatus,
+    publish_at: '',
+    unpublish_at: ''
   })
   
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [changeNote, setChangeNote] = useState('')
+  const editLock = useEditLock('path', path?.id)
 
   // Initialize form with existing path data if editing
   useEffect(() => {
@@ -34,7 +44,9 @@ export default function LearningPathForm({ path, onSave, onCancel }: LearningPat
         estimated_hours: path.estimated_hours || 0,
         prerequisites: path.prerequisites || [],
         learning_outcomes: path.learning_outcomes || [],
-        status: path.status
+        status: path.status,
+        publish_at: toScheduleInput(path.publish_at),
+        unpublish_at: toScheduleInput(path.unpublish_at)
       })
     }
   }, [path])
@@ -45,6 +57,11 @@ export default function LearningPathForm({ path, onSave, onCancel }: LearningPat
     setError(null)
 
     try {
+      const scheduleError = getScheduleError(formData)
+      if (scheduleError) {
+        throw new Error(scheduleError)
+      }
+
       let savedPath: LearningPath
 
       if (path) {
@@ -53,9 +70,10 @@ export default function LearningPathForm({ path, onSave, onCancel }: LearningPat
           ...formData,
           estimated_hours: formData.estimated_hours || undefined,
           prerequisites: formData.prerequisites.length > 0 ? formData.prerequisites : undefined,
-          learning_outcomes: formData.learning_outcomes.length > 0 ? formData.learning_outcomes : undefined
+          learning_outcomes: formData.learning_outcomes.length > 0 ? formData.learning_outcomes : undefined,
+          ...getScheduleChanges(formData, path)
         }
-        const updatedPath = await ContentService.updateLearningPath(path.id, updateData)
+        const updatedPath = await ContentService.updateLearningPath(path.id, updateData, changeNote, path.updated_at)
         if (!updatedPath) throw new Error('Failed to update learning path')
         savedPath = updatedPath
       } else {
@@ -65,7 +83,8 @@ export default function LearningPathForm({ path, onSave, onCancel }: LearningPat
           slug: formData.title.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, ''),
           estimated_hours: formData.estimated_hours || undefined,
           prerequisites: formData.prerequisites.length > 0 ? formData.prerequisites : undefined,
-          learning_outcomes: formData.learning_outcomes.length > 0 ? formData.learning_outcomes : undefined
+          learning_outcomes: formData.learning_outcomes.length > 0 ? formData.learning_outcomes : undefined,
+          ...getScheduleChanges(formData)
         }
         const createdPath = await ContentService.createLearningPath(createData)
         if (!createdPath) throw new Error('Failed to create learning path')
@@ -105,6 +124,8 @@ export default function LearningPathForm({ path, onSave, onCancel }: LearningPat
         </div>
       )}
 
+      <EditLockBanner editLock={editLock} />
+
       {/* Title */}
       <div>
         <label htmlFor="title" className="block text-sm font-medium text-gray-700 mb-2">
@@ -226,12 +247,34 @@ export default function LearningPathForm({ path, onSave, onCancel }: LearningPat
           onChange={handleInputChange}
           className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900"
         >
-          <option value="draft">Draft</option>
-          <option value="published">Published</option>
-          <option value="archived">Archived</option>
+          <ContentStatusOptions current={path?.status} />
         </select>
       </div>
 
+      {/* Schedule */}
+      <ContentScheduleFields schedule={formData} onChange={handleInputChange} />
+
+      {/* Review submission, change note and revision history (only for existing paths) */}
+      {path && (
+        <div className="space-y-4 pt-6 border-t border-gray-200">
+          <div>
+            <label htmlFor="change_note" className="block text-sm font-medium text-gray-700 mb-2">
+              Change Note (optional)
+            </label>
+            <input
+              type="text"
+              id="change_note"
+              value={changeNote}
+              onChange={(e) => setChangeNote(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900"
+              placeholder="What changed in this save?"
+            />
+          </div>
+          <SubmitForReview entityType="path" entity={path} onSubmitted={() => onSave({ ...path, status: 'in_review' })} />
+          <RevisionHistory entityType="path" entityId={path.id} current={path} onRestored={onSave} />
+        </div>
+      )}
+
       {/* Form Actions */}
       <div className="flex justify-end space-x-3 pt-4 border-t border-gray-200">
         <button
@@ -243,7 +286,7 @@ export default function LearningPathForm({ path, onSave, onCancel }: LearningPat
         </button>
         <button
           type="submit"
-          disabled={loading}
+          disabled={loading || editLock.lockedByOther}
           className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
         >
           {loading ? 'Saving...' : (path ? 'Update Path' : 'Create Path')}
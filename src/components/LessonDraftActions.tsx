@@ -0,0 +1,102 @@
+'use client'
+
+import { useState } from 'react'
+import { ContentService } from '@/lib/content'
+import PermissionGuard from './PermissionGuard'
+import type { Lesson, LessonDraft } from '@/types/content'
+
+interface LessonDraftActionsProps {
+  draft: LessonDraft
+  onUpdated: (draft: LessonDraft) => void
+  onPublished: (lesson: Lesson) => void
+  onDiscarded: () => void
+}
+
+// Status of a published lesson's staged draft, with approve and publish for admins
+export default function LessonDraftActions({ draft, onUpdated, onPublished, onDiscarded }: LessonDraftActionsProps) {
+  const [working, setWorking] = useState<'approve' | 'publish' | 'discard' | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const run = async (action: 'approve' | 'publish' | 'discard') => {
+    if (action === 'publish' && !confirm('Publish this draft? Learners will see the new version right away.')) {
+      return
+    }
+    if (action === 'discard' && !confirm('Discard this draft? The published lesson is not affected.')) {
+      return
+    }
+
+    setWorking(action)
+    setError(null)
+    try {
+      if (action === 'approve') {
+        const approved = await ContentService.approveLessonDraft(draft)
+        if (approved) {
+          onUpdated({ ...draft, ...approved })
+        }
+      } else if (action === 'publish') {
+        const lesson = await ContentService.publishLessonDraft(draft)
+        if (lesson) {
+          onPublished(lesson)
+        }
+      } else {
+        await ContentService.discardLessonDraft(draft)
+        onDiscarded()
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update draft')
+    } finally {
+      setWorking(null)
+    }
+  }
+
+  const approved = draft.status === 'approved'
+
+  return (
+    <div className={`p-3 rounded-md border text-sm ${approved ? 'bg-green-50 border-green-200' : 'bg-yellow-50 border-yellow-200'}`}>
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <span className={`font-medium ${approved ? 'text-green-800' : 'text-yellow-800'}`}>
+            {approved ? '✅ Draft approved' : '✏️ Draft pending approval'}
+          </span>
+          <span className="text-gray-600">
+            {' '}· edited {new Date(draft.updated_at).toLocaleString()}
+            {draft.author?.display_name && ` by ${draft.author.display_name}`}
+            {approved && draft.approver?.display_name && ` · approved by ${draft.approver.display_name}`}
+          </span>
+        </div>
+        <div className="flex gap-2 shrink-0">
+          <PermissionGuard resource="content" action="publish">
+            {approved ? (
+              <button
+                type="button"
+                onClick={() => run('publish')}
+                disabled={working !== null}
+                className="px-3 py-1 text-xs font-medium text-white bg-green-600 rounded hover:bg-green-700 disabled:opacity-50"
+              >
+                {working === 'publish' ? 'Publishing...' : 'Publish'}
+              </button>
+            ) : (
+              <button
+                type="button"
+                onClick={() => run('approve')}
+                disabled={working !== null}
+                className="px-3 py-1 text-xs font-medium text-white bg-blue-600 rounded hover:bg-blue-700 disabled:opacity-50"
+              >
+                {working === 'approve' ? 'Approving...' : 'Approve'}
+              </button>
+            )}
+          </PermissionGuard>
+          <button
+            type="button"
+            onClick={() => run('discard')}
+            disabled={working !== null}
+            className="px-3 py-1 text-xs font-medium text-gray-700 border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+          >
+            {working === 'discard' ? 'Discarding...' : 'Discard'}
+          </button>
+        </div>
+      </div>
+      {error && <div className="mt-2 text-xs text-red-700">{error}</div>}
+    </div>
+  )
+}
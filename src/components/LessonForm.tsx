@@ -2,9 +2,16 @@
 
 import { useState, useEffect } from 'react'
 import dynamic from 'next/dynamic'
-import { Lesson, CreateLessonDto, UpdateLessonDto, Module, ContentStatus, LessonType } from '@/types/content'
+import { Lesson, LessonDraft, CreateLessonDto, UpdateLessonDto, Module, ContentStatus, LessonType } from '@/types/content'
 import { ContentService } from '@/lib/content'
-import { AIService, AI_ROLES, AIRole } from '@/lib/ai'
+import RevisionHistory from './RevisionHistory'
+import ContentStatusOptions from './ContentStatusOptions'
+import SubmitForReview from './SubmitForReview'
+import LessonDraftActions from './LessonDraftActions'
+import ContentScheduleFields from './ContentScheduleFields'
+import EditLockBanner, { useEditLock } from './EditLockBanner'
+import { getScheduleChanges, getScheduleError, toScheduleInput } from '@/lib/content-workflow'
+import { AIClient, AI_ROLES, AIRole } from '@/lib/ai-client'
 
 // Dynamically import the markdown editor to avoid SSR issues
 const MDEditor = dynamic(
@@ -34,19 +41,28 @@ export default function LessonForm({ lesson, moduleId, onSave, onCancel }: Lesso
     video_duration: lesson?.video_duration || 0,
     meta_title: lesson?.meta_title || '',
     meta_description: lesson?.meta_description || '',
-    status: lesson?.status || 'draft' as ContentStatus
+    status: lesson?.status || 'draft' as ContentStatus,
+    publish_at: toScheduleInput(lesson?.publish_at),
+    unpublish_at: toScheduleInput(lesson?.unpublish_at)
   })
 
   const [modules, setModules] = useState<Module[]>([])
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [showPreview, setShowPreview] = useState(false)
+  const [changeNote, setChangeNote] = useState('')
+  const editLock = useEditLock('lesson', lesson?.id)
+
+  // Staged draft of a published lesson (learners keep the published version until it is published)
+  const [draft, setDraft] = useState<LessonDraft | null>(null)
+  const [stageAsDraft, setStageAsDraft] = useState(lesson?.status === 'published')
 
   // AI Assistant states
   const [aiLoading, setAiLoading] = useState(false)
   const [aiError, setAiError] = useState<string | null>(null)
   const [selectedRole, setSelectedRole] = useState<AIRole>('general')
   const [showAiPanel, setShowAiPanel] = useState(false)
+  const [aiAvailable, setAiAvailable] = useState(false)
 
   // Load modules for selection
   useEffect(() => {
@@ -63,6 +79,56 @@ export default function LessonForm({ lesson, moduleId, onSave, onCancel }: Lesso
     loadModules()
   }, [])
 
+  // Continue editing a published lesson's staged draft if it has one
+  useEffect(() => {
+    if (!lesson || lesson.status !== 'published') {
+      return
+    }
+
+    let mounted = true
+
+    ContentService.getLessonDraft(lesson.id).then(existing => {
+      if (!mounted || !existing) {
+        return
+      }
+
+      const data = existing.data
+      setDraft(existing)
+      setFormData(prev => ({
+        ...prev,
+        title: data.title ?? prev.title,
+        content: data.content ?? '',
+        summary: data.summary ?? '',
+        estimated_minutes: data.estimated_minutes ?? prev.estimated_minutes,
+        xp_reward: data.xp_reward ?? prev.xp_reward,
+        lesson_type: data.lesson_type ?? prev.lesson_type,
+        video_url: data.video_url ?? '',
+        video_duration: data.video_duration ?? 0,
+        meta_title: data.meta_title ?? '',
+        meta_description: data.meta_description ?? ''
+      }))
+    })
+
+    return () => {
+      mounted = false
+    }
+  }, [lesson])
+
+  // Check whether the server has AI configured
+  useEffect(() => {
+    let mounted = true
+
+    AIClient.isAvailable().then(available => {
+      if (mounted) {
+        setAiAvailable(available)
+      }
+    })
+
+    return () => {
+      mounted = false
+    }
+  }, [])
+
   // Auto-generate slug from title
   useEffect(() => {
     if (formData.title && !lesson) {
@@ -83,8 +149,8 @@ export default function LessonForm({ lesson, moduleId, onSave, onCancel }: Lesso
 
   // AI Assistant Functions
   const handleAiAction = async (action: 'summarize' | 'rewrite' | 'improve' | 'generate' | 'meta') => {
-    if (!AIService.isAvailable()) {
-      setAiError('AI service is not available. Please check your OpenAI API key.')
+    if (!aiAvailable) {
+      setAiError('AI service is not available. Please check the server OpenAI API key.')
       return
     }
 
@@ -100,7 +166,7 @@ export default function LessonForm({ lesson, moduleId, onSave, onCancel }: Lesso
             setAiError('Please add some content to summarize')
             return
           }
-          result = await AIService.summarizeContent(formData.content)
+          result = await AIClient.summarizeContent(formData.content)
           if (result) {
             setFormData(prev => ({ ...prev, summary: result as string }))
           }
@@ -111,7 +177,7 @@ export default function LessonForm({ lesson, moduleId, onSave, onCancel }: Lesso
             setAiError('Please add some content to rewrite')
             return
           }
-          result = await AIService.rewriteForRole(formData.content, selectedRole)
+          result = await AIClient.rewriteForRole(formData.content, selectedRole)
           if (result) {
             setFormData(prev => ({ ...prev, content: result as string }))
           }
@@ -122,7 +188,7 @@ export default function LessonForm({ lesson, moduleId, onSave, onCancel }: Lesso
             setAiError('Please add some content to improve')
             return
           }
-          result = await AIService.improveWriting(formData.content)
+          result = await AIClient.improveWriting(formData.content)
           if (result) {
             setFormData(prev => ({ ...prev, content: result as string }))
           }
@@ -133,7 +199,7 @@ export default function LessonForm({ lesson, moduleId, onSave, onCancel }: Lesso
             setAiError('Please add a lesson title to generate content')
             return
           }
-          result = await AIService.generateContent(formData.title, selectedRole, 'lesson')
+          result = await AIClient.generateContent(formData.title, selectedRole, 'lesson')
           if (result) {
             setFormData(prev => ({ ...prev, content: result as string }))
           }
@@ -144,7 +210,7 @@ export default function LessonForm({ lesson, moduleId, onSave, onCancel }: Lesso
             setAiError('Please add a title and content to generate meta description')
             return
           }
-          result = await AIService.generateMetaDescription(formData.title, formData.content)
+          result = await AIClient.generateMetaDescription(formData.title, formData.content)
           if (result) {
             setFormData(prev => ({ ...prev, meta_description: result as string }))
           }
@@ -185,7 +251,49 @@ export default function LessonForm({ lesson, moduleId, onSave, onCancel }: Lesso
         return
       }
 
+      const scheduleError = getScheduleError(formData)
+      if (scheduleError) {
+        setError(scheduleError)
+        return
+      }
+
       let result: Lesson | null = null
+      const schedule = getScheduleChanges(formData, lesson)
+
+      // Staged edits go to the lesson's draft; placement and status only change on the lesson itself
+      if (lesson && stageAsDraft) {
+        if (
+          formData.module_id !== lesson.module_id ||
+          formData.slug !== lesson.slug ||
+          formData.sort_order !== lesson.sort_order ||
+          formData.status !== lesson.status ||
+          schedule.publish_at !== undefined ||
+          schedule.unpublish_at !== undefined
+        ) {
+          setError('Module, slug, order, status and schedule are not staged. Turn off "Stage as draft" to change them on the published lesson.')
+          return
+        }
+
+        const savedDraft = await ContentService.saveLessonDraft(lesson.id, {
+          title: formData.title,
+          content: formData.content,
+          summary: formData.summary,
+          estimated_minutes: formData.estimated_minutes,
+          xp_reward: formData.xp_reward,
+          lesson_type: formData.lesson_type,
+          video_url: formData.video_url,
+          video_duration: formData.video_duration || undefined,
+          meta_title: formData.meta_title,
+          meta_description: formData.meta_description
+        })
+
+        if (savedDraft) {
+          onSave(lesson)
+        } else {
+          setError('Failed to save draft')
+        }
+        return
+      }
 
       if (lesson) {
         // Update existing lesson - only include changed fields
@@ -233,6 +341,12 @@ export default function LessonForm({ lesson, moduleId, onSave, onCancel }: Lesso
         if (formData.status !== lesson.status) {
           updateData.status = formData.status
         }
+        if (schedule.publish_at !== undefined) {
+          updateData.publish_at = schedule.publish_at
+        }
+        if (schedule.unpublish_at !== undefined) {
+          updateData.unpublish_at = schedule.unpublish_at
+        }
 
         // Only proceed if there are actual changes
         if (Object.keys(updateData).length === 0) {
@@ -243,7 +357,7 @@ export default function LessonForm({ lesson, moduleId, onSave, onCancel }: Lesso
         }
 
         console.log('Updating lesson with data:', updateData)
-        result = await ContentService.updateLesson(lesson.id, updateData)
+        result = await ContentService.updateLesson(lesson.id, updateData, changeNote, lesson.updated_at)
       } else {
         // Create new lesson
         const createData: CreateLessonDto = {
@@ -259,7 +373,8 @@ export default function LessonForm({ lesson, moduleId, onSave, onCancel }: Lesso
           video_url: formData.video_url || undefined,
           video_duration: formData.video_duration || undefined,
           meta_title: formData.meta_title || undefined,
-          meta_description: formData.meta_description || undefined
+          meta_description: formData.meta_description || undefined,
+          ...schedule
         }
         result = await ContentService.createLesson(createData)
       }
@@ -296,6 +411,7 @@ export default function LessonForm({ lesson, moduleId, onSave, onCancel }: Lesso
     switch (status) {
       case 'published': return 'bg-green-100 text-green-800'
       case 'draft': return 'bg-yellow-100 text-yellow-800'
+      case 'in_review': return 'bg-blue-100 text-blue-800'
       case 'archived': return 'bg-gray-100 text-gray-800'
       default: return 'bg-gray-100 text-gray-800'
     }
@@ -312,6 +428,8 @@ export default function LessonForm({ lesson, moduleId, onSave, onCancel }: Lesso
           </div>
         )}
 
+        <EditLockBanner editLock={editLock} />
+
         <div className="space-y-4">
           {/* Header */}
           <div className="flex items-center justify-between">
@@ -332,7 +450,7 @@ export default function LessonForm({ lesson, moduleId, onSave, onCancel }: Lesso
             </div>
 
             {/* AI Assistant Toggle */}
-            {AIService.isAvailable() && (
+            {aiAvailable && (
               <div className="flex items-center space-x-2">
                 <div className="flex items-center space-x-2 text-sm text-gray-600">
                   <div className="w-2 h-2 bg-green-400 rounded-full"></div>
@@ -353,8 +471,36 @@ export default function LessonForm({ lesson, moduleId, onSave, onCancel }: Lesso
             )}
           </div>
 
+          {/* Staged draft (only for published lessons) */}
+          {lesson?.status === 'published' && (
+            <div className="space-y-3">
+              {draft && (
+                <LessonDraftActions
+                  draft={draft}
+                  onUpdated={setDraft}
+                  onPublished={onSave}
+                  onDiscarded={() => onSave(lesson)}
+                />
+              )}
+              <label className="flex items-start gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={stageAsDraft}
+                  onChange={(e) => setStageAsDraft(e.target.checked)}
+                  className="mt-0.5 h-4 w-4 text-blue-600 border-gray-300 rounded"
+                />
+                <span>
+                  Stage as draft
+                  <span className="block text-gray-500">
+                    Learners keep seeing the published version until an admin approves and publishes the draft
+                  </span>
+                </span>
+              </label>
+            </div>
+          )}
+
           {/* AI Assistant Panel */}
-          {showAiPanel && AIService.isAvailable() && (
+          {showAiPanel && aiAvailable && (
             <div className="bg-blue-50 border border-blue-200 rounded-md p-4">
               <h3 className="text-lg font-medium text-blue-900 mb-3">🤖 AI Assistant</h3>
               
@@ -688,17 +834,42 @@ export default function LessonForm({ lesson, moduleId, onSave, onCancel }: Lesso
                 required
                 className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-gray-900"
               >
-                <option value="draft">Draft</option>
-                <option value="published">Published</option>
-                <option value="archived">Archived</option>
+                <ContentStatusOptions current={lesson?.status} />
               </select>
               <p className="mt-1 text-sm text-gray-500">
                 Only published lessons are visible to learners
               </p>
             </div>
+            <div className="mt-4">
+              <ContentScheduleFields schedule={formData} onChange={handleInputChange} />
+            </div>
           </div>
         </div>
 
+        {/* Review submission, change note and revision history (only for existing lessons) */}
+        {lesson && (
+          <div className="space-y-4 pt-6 border-t border-gray-200">
+            {/* Drafts are recorded as a revision when they are published */}
+            {!stageAsDraft && (
+              <div>
+                <label htmlFor="change_note" className="block text-sm font-medium text-gray-700 mb-2">
+                  Change Note (optional)
+                </label>
+                <input
+                  type="text"
+                  id="change_note"
+                  value={changeNote}
+                  onChange={(e) => setChangeNote(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900"
+                  placeholder="What changed in this save?"
+                />
+              </div>
+            )}
+            <SubmitForReview entityType="lesson" entity={lesson} onSubmitted={() => onSave({ ...lesson, status: 'in_review' })} />
+            <RevisionHistory entityType="lesson" entityId={lesson.id} current={lesson} onRestored={onSave} />
+          </div>
+        )}
+
         {/* Form Actions */}
         <div className="flex items-center justify-between pt-6 border-t">
           <button
@@ -712,10 +883,10 @@ export default function LessonForm({ lesson, moduleId, onSave, onCancel }: Lesso
           <div className="flex space-x-3">
             <button
               type="submit"
-              disabled={loading}
+              disabled={loading || editLock.lockedByOther}
               className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              {loading ? 'Saving...' : (lesson ? 'Update Lesson' : 'Create Lesson')}
+              {loading ? 'Saving...' : (lesson ? (stageAsDraft ? 'Save Draft' : 'Update Lesson') : 'Create Lesson')}
             </button>
           </div>
         </div>
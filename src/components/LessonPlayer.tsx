@@ -388,7 +388,8 @@ export function LessonPlayer({ lessonId }: LessonPlayerProps) {
                       <span className="text-lg">
                         {challenge.challenge_type === 'quiz' ? '❓' :
                          challenge.challenge_type === 'code' ? '💻' :
-                         challenge.challenge_type === 'essay' ? '📝' : '🎯'}
+                         challenge.challenge_type === 'essay' ? '📝' :
+                         challenge.challenge_type === 'scenario' ? '🧭' : '🎯'}
                       </span>
                       <h4 className="font-medium text-gray-900">{challenge.title}</h4>
                       <span className="px-2 py-1 text-xs font-medium rounded-full bg-blue-100 text-blue-800">
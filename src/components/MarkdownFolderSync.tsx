@@ -0,0 +1,240 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { ContentService } from '@/lib/content'
+import type { MarkdownFile } from '@/lib/content-markdown'
+import type { BundleEntityType, LearningPath, MarkdownSyncAction, MarkdownSyncResult } from '@/types/content'
+
+const ENTITY_LABELS: Record<BundleEntityType, string> = {
+  path: 'Learning Path',
+  course: 'Course',
+  module: 'Module',
+  lesson: 'Lesson',
+  challenge: 'Challenge'
+}
+
+const ACTION_STYLES: Record<MarkdownSyncAction, string> = {
+  created: 'bg-green-100 text-green-800',
+  updated: 'bg-blue-100 text-blue-800',
+  unchanged: 'bg-gray-100 text-gray-700',
+  failed: 'bg-red-100 text-red-800'
+}
+
+const FOLDER_FILE_PATTERN = /\.(md|ya?ml)$/
+
+// Writing a folder needs the File System Access API (Chrome and Edge)
+type DirectoryPickerWindow = Window & {
+  showDirectoryPicker?: (options?: { mode?: 'read' | 'readwrite' }) => Promise<FileSystemDirectoryHandle>
+}
+
+async function writeFolder(root: FileSystemDirectoryHandle, files: MarkdownFile[]) {
+  for (const file of files) {
+    const parts = file.path.split('/')
+    let dir = root
+    for (const name of parts.slice(0, -1)) {
+      dir = await dir.getDirectoryHandle(name, { create: true })
+    }
+
+    const handle = await dir.getFileHandle(parts[parts.length - 1], { create: true })
+    const writable = await handle.createWritable()
+    await writable.write(file.content)
+    await writable.close()
+  }
+}
+
+// Round-trip a learning path through a folder of markdown and YAML files kept in git
+export default function MarkdownFolderSync({ onSynced }: { onSynced?: () => void }) {
+  const [paths, setPaths] = useState<LearningPath[]>([])
+  const [canWriteFolders, setCanWriteFolders] = useState(false)
+  const [exportPathId, setExportPathId] = useState('')
+  const [exporting, setExporting] = useState(false)
+  const [exportMessage, setExportMessage] = useState<string | null>(null)
+  const [exportError, setExportError] = useState<string | null>(null)
+
+  const [files, setFiles] = useState<MarkdownFile[]>([])
+  const [syncing, setSyncing] = useState(false)
+  const [result, setResult] = useState<MarkdownSyncResult | null>(null)
+  const [syncError, setSyncError] = useState<string | null>(null)
+
+  useEffect(() => {
+    ContentService.getLearningPaths().then(setPaths)
+    setCanWriteFolders(typeof (window as DirectoryPickerWindow).showDirectoryPicker === 'function')
+  }, [])
+
+  const handleExport = async () => {
+    const picker = (window as DirectoryPickerWindow).showDirectoryPicker
+    if (!picker) {
+      return
+    }
+
+    setExportError(null)
+    setExportMessage(null)
+    try {
+      const root = await picker({ mode: 'readwrite' })
+      setExporting(true)
+
+      const exported = await ContentService.exportMarkdownFolder(exportPathId)
+      if (!exported) {
+        return
+      }
+
+      await writeFolder(root, exported)
+      setExportMessage(`Wrote ${exported.length} files to ${root.name}.`)
+    } catch (err) {
+      // Closing the folder picker is not an error
+      if (err instanceof DOMException && err.name === 'AbortError') {
+        return
+      }
+      setExportError(err instanceof Error ? err.message : 'Failed to export learning path')
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  const handleFolderChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files ?? [])
+      .filter(file => FOLDER_FILE_PATTERN.test(file.name))
+
+    setResult(null)
+    setSyncError(null)
+    setFiles(await Promise.all(selected.map(async (file): Promise<MarkdownFile> => ({
+      path: file.webkitRelativePath || file.name,
+      content: await file.text()
+    }))))
+  }
+
+  const handleSync = async () => {
+    setSyncing(true)
+    setSyncError(null)
+    try {
+      setResult(await ContentService.syncMarkdownFolder(files))
+      if (onSynced) {
+        onSynced()
+      }
+    } catch (err) {
+      setSyncError(err instanceof Error ? err.message : 'Failed to sync folder')
+    } finally {
+      setSyncing(false)
+    }
+  }
+
+  const counts = result?.changes.reduce<Partial<Record<MarkdownSyncAction, number>>>((totals, change) => {
+    totals[change.action] = (totals[change.action] ?? 0) + 1
+    return totals
+  }, {})
+
+  return (
+    <div className="space-y-6">
+      {/* Export */}
+      <div className="bg-white rounded-lg shadow p-6 space-y-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Export to Markdown Folder</h2>
+          <p className="text-sm text-gray-600">
+            Writes path.yaml, a course-*/module-* folder per course and module, one NN-slug.md file per lesson and a .quiz.yaml file with its challenges.
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <select
+            value={exportPathId}
+            onChange={(e) => setExportPathId(e.target.value)}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900"
+          >
+            <option value="">Select a learning path...</option>
+            {paths.map(path => (
+              <option key={path.id} value={path.id}>
+                {path.title}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={!exportPathId || !canWriteFolders || exporting}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {exporting ? 'Exporting...' : 'Write to Folder'}
+          </button>
+        </div>
+        {!canWriteFolders && (
+          <p className="text-sm text-gray-500">This browser can&apos;t write folders; use Chrome or Edge to export.</p>
+        )}
+        {exportMessage && <p className="text-sm text-green-700">{exportMessage}</p>}
+        {exportError && <p className="text-sm text-red-600">{exportError}</p>}
+      </div>
+
+      {/* Sync */}
+      <div className="bg-white rounded-lg shadow p-6 space-y-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Sync Markdown Folder</h2>
+          <p className="text-sm text-gray-600">
+            Items are matched on their slug (challenges on their title) and only changed fields are saved. New items start as drafts, and nothing is deleted.
+          </p>
+        </div>
+
+        <div>
+          <label htmlFor="markdown_folder" className="block text-sm font-medium text-gray-700 mb-2">
+            Folder
+          </label>
+          <input
+            type="file"
+            id="markdown_folder"
+            multiple
+            ref={(input) => input?.setAttribute('webkitdirectory', '')}
+            onChange={handleFolderChange}
+            className="w-full text-sm text-gray-700"
+          />
+        </div>
+
+        {syncError && <p className="text-sm text-red-600">{syncError}</p>}
+
+        <div className="flex justify-end">
+          <button
+            type="button"
+            onClick={handleSync}
+            disabled={files.length === 0 || syncing}
+            className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {syncing ? 'Syncing...' : `Sync ${files.length} Files`}
+          </button>
+        </div>
+
+        {result && (
+          <div className="border border-gray-200 rounded-md">
+            <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between">
+              <h3 className="font-medium text-gray-900">Sync Report</h3>
+              <div className="flex gap-2 text-xs">
+                {(Object.keys(ACTION_STYLES) as MarkdownSyncAction[])
+                  .filter(action => counts?.[action])
+                  .map(action => (
+                    <span key={action} className={`px-2 py-0.5 rounded-full font-medium ${ACTION_STYLES[action]}`}>
+                      {counts?.[action]} {action}
+                    </span>
+                  ))}
+              </div>
+            </div>
+            <ul className="divide-y divide-gray-200 max-h-96 overflow-y-auto">
+              {result.changes.map((change, index) => (
+                <li key={`${change.file}-${index}`} className="px-4 py-2 flex items-center justify-between gap-4 text-sm">
+                  <div className="min-w-0">
+                    <div>
+                      <span className="text-gray-500">{ENTITY_LABELS[change.entity_type]}:</span>{' '}
+                      <span className="font-medium text-gray-900">{change.title}</span>
+                      {change.action === 'updated' && change.changed_fields && (
+                        <span className="text-gray-500"> ({change.changed_fields.join(', ')})</span>
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-500 truncate">{change.file}</div>
+                    {change.error && <div className="text-xs text-red-600">{change.error}</div>}
+                  </div>
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-medium shrink-0 ${ACTION_STYLES[change.action]}`}>
+                    {change.action}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
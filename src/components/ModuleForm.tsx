@@ -3,6 +3,12 @@
 import { useState, useEffect } from 'react'
 import { Module, CreateModuleDto, UpdateModuleDto, Course, ContentStatus } from '@/types/content'
 import { ContentService } from '@/lib/content'
+import RevisionHistory from './RevisionHistory'
+import ContentStatusOptions from './ContentStatusOptions'
+import SubmitForReview from './SubmitForReview'
+import ContentScheduleFields from './ContentScheduleFields'
+import EditLockBanner, { useEditLock } from './EditLockBanner'
+import { getScheduleChanges, getScheduleError, toScheduleInput } from '@/lib/content-workflow'
 
 interface ModuleFormProps {
   module?: Module
@@ -20,12 +26,16 @@ export default function ModuleForm({ module, courseId, onSave, onCancel }: Modul
     short_description: module?.short_description || '',
     estimated_minutes: module?.estimated_minutes || 30,
     sort_order: module?.sort_order || 1,
-    status: module?.status || 'draft' as ContentStatus
+    status: module?.status || 'draft' as ContentStatus,
+    publish_at: toScheduleInput(module?.publish_at),
+    unpublish_at: toScheduleInput(module?.unpublish_at)
   })
 
   const [courses, setCourses] = useState<Course[]>([])
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [changeNote, setChangeNote] = useState('')
+  const editLock = useEditLock('module', module?.id)
 
   // Load courses for selection
   useEffect(() => {
@@ -59,6 +69,11 @@ export default function ModuleForm({ module, courseId, onSave, onCancel }: Modul
     setError(null)
 
     try {
+      const scheduleError = getScheduleError(formData)
+      if (scheduleError) {
+        throw new Error(scheduleError)
+      }
+
       let result: Module | null = null
 
       if (module) {
@@ -89,6 +104,13 @@ export default function ModuleForm({ module, courseId, onSave, onCancel }: Modul
         if (formData.status !== module.status) {
           updateData.status = formData.status
         }
+        const schedule = getScheduleChanges(formData, module)
+        if (schedule.publish_at !== undefined) {
+          updateData.publish_at = schedule.publish_at
+        }
+        if (schedule.unpublish_at !== undefined) {
+          updateData.unpublish_at = schedule.unpublish_at
+        }
 
         // Only proceed if there are actual changes
         if (Object.keys(updateData).length === 0) {
@@ -99,7 +121,7 @@ export default function ModuleForm({ module, courseId, onSave, onCancel }: Modul
         }
 
         console.log('Updating module with data:', updateData)
-        result = await ContentService.updateModule(module.id, updateData)
+        result = await ContentService.updateModule(module.id, updateData, changeNote, module.updated_at)
       } else {
         // Create new module
         const createData: CreateModuleDto = {
@@ -109,7 +131,8 @@ export default function ModuleForm({ module, courseId, onSave, onCancel }: Modul
           description: formData.description || undefined,
           short_description: formData.short_description || undefined,
           estimated_minutes: formData.estimated_minutes,
-          sort_order: formData.sort_order
+          sort_order: formData.sort_order,
+          ...getScheduleChanges(formData)
         }
         result = await ContentService.createModule(createData)
       }
@@ -148,6 +171,8 @@ export default function ModuleForm({ module, courseId, onSave, onCancel }: Modul
           </div>
         )}
 
+        <EditLockBanner editLock={editLock} />
+
         {/* Course Selection */}
         <div>
           <label htmlFor="course_id" className="block text-sm font-medium text-gray-700">
@@ -286,14 +311,36 @@ export default function ModuleForm({ module, courseId, onSave, onCancel }: Modul
               onChange={handleInputChange}
               className="mt-1 block w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 text-gray-900"
             >
-              <option value="draft">Draft</option>
-              <option value="published">Published</option>
-              <option value="archived">Archived</option>
+              <ContentStatusOptions current={module?.status} />
             </select>
           </div>
         )}
+
+        {/* Schedule */}
+        <ContentScheduleFields schedule={formData} onChange={handleInputChange} />
       </div>
 
+      {/* Review submission, change note and revision history (only for existing modules) */}
+      {module && (
+        <div className="space-y-4 pt-6 border-t border-gray-200">
+          <div>
+            <label htmlFor="change_note" className="block text-sm font-medium text-gray-700 mb-2">
+              Change Note (optional)
+            </label>
+            <input
+              type="text"
+              id="change_note"
+              value={changeNote}
+              onChange={(e) => setChangeNote(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-gray-900"
+              placeholder="What changed in this save?"
+            />
+          </div>
+          <SubmitForReview entityType="module" entity={module} onSubmitted={() => onSave({ ...module, status: 'in_review' })} />
+          <RevisionHistory entityType="module" entityId={module.id} current={module} onRestored={onSave} />
+        </div>
+      )}
+
       {/* Form Actions */}
       <div className="flex justify-end space-x-3 pt-6 border-t border-gray-200">
         <button
@@ -305,7 +352,7 @@ export default function ModuleForm({ module, courseId, onSave, onCancel }: Modul
         </button>
         <button
           type="submit"
-          disabled={loading}
+          disabled={loading || editLock.lockedByOther}
           className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md shadow-sm hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
         >
           {loading ? 'Saving...' : (module ? 'Update Module' : 'Create Module')}
@@ -0,0 +1,98 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useAuth } from '@/contexts/AuthContext'
+import { ContentService } from '@/lib/content'
+import type { UserNotification } from '@/types/content'
+
+const NOTIFICATION_ICONS: Record<string, string> = {
+  content_approved: '✅ ',
+  content_rejected: '✏️ ',
+  edit_lock_overridden: '🔒 '
+}
+
+// The signed-in user's notifications, such as review decisions on content they submitted or an admin taking over their edit lock
+export default function NotificationBell() {
+  const { userProfile } = useAuth()
+  const [notifications, setNotifications] = useState<UserNotification[]>([])
+  const [open, setOpen] = useState(false)
+
+  const userId = userProfile?.id
+
+  useEffect(() => {
+    if (!userId) {
+      return
+    }
+
+    let mounted = true
+
+    ContentService.getNotifications(userId).then(data => {
+      if (mounted) {
+        setNotifications(data)
+      }
+    })
+
+    return () => {
+      mounted = false
+    }
+  }, [userId])
+
+  if (!userId) {
+    return null
+  }
+
+  const unreadCount = notifications.filter(notification => !notification.read_at).length
+
+  const handleToggle = async () => {
+    setOpen(!open)
+
+    // Opening the list counts as reading it
+    if (!open && unreadCount > 0) {
+      await ContentService.markNotificationsRead(userId)
+      const readAt = new Date().toISOString()
+      setNotifications(prev => prev.map(notification => ({ ...notification, read_at: notification.read_at || readAt })))
+    }
+  }
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        onClick={handleToggle}
+        className="relative p-2 rounded-full bg-white shadow hover:bg-gray-50"
+        aria-label="Notifications"
+      >
+        <span className="text-xl">🔔</span>
+        {unreadCount > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-red-600 text-white text-xs font-bold flex items-center justify-center">
+            {unreadCount}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 bg-white rounded-lg shadow-lg border border-gray-200 z-20">
+          <div className="px-4 py-3 border-b border-gray-200 text-sm font-medium text-gray-900">Notifications</div>
+          {notifications.length === 0 ? (
+            <div className="p-4 text-sm text-gray-500">No notifications yet.</div>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+              {notifications.map(notification => (
+                <li key={notification.id} className="p-4">
+                  <div className="text-sm font-medium text-gray-900">
+                    {NOTIFICATION_ICONS[notification.type] ?? ''}
+                    {notification.title}
+                  </div>
+                  {notification.message && (
+                    <p className="text-sm text-gray-600 mt-1">{notification.message}</p>
+                  )}
+                  <div className="text-xs text-gray-400 mt-1">{new Date(notification.created_at).toLocaleString()}</div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,21 +1,44 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { useAuth } from '@/contexts/AuthContext'
 import { ContentService } from '@/lib/content'
-import { AIService } from '@/lib/ai'
-import type { Challenge, UserProgress } from '@/types/content'
+import { AIClient } from '@/lib/ai-client'
+import { applyHintPenalty, buildGradingCriteria, calculateXpEarned, PASSING_SCORE } from '@/lib/grading'
+import { getQuizPayload } from '@/lib/challenge-schema'
+import { applyQuestionDraw, drawQuestions, withUnavailableQuestions } from '@/lib/question-bank'
+import { calculateQuizScore, creditForGradedAnswer, creditForRecordedScore, getQuestionPoints, scoreAnswer, splitClozeText } from '@/lib/quiz-scoring'
+import type {
+  Challenge,
+  ChallengeAttempt,
+  ChallengeSession,
+  QuestionDraw,
+  QuizChallengeContent,
+  QuizChallengeSolution,
+  QuizQuestion
+} from '@/types/content'
+import type { GradingResult } from '@/types/ai'
+import AttemptHistory from './AttemptHistory'
+import CodeChallenge from './CodeChallenge'
+import EssayChallenge from './EssayChallenge'
+import GradingFeedback from './GradingFeedback'
+import HintPanel from './HintPanel'
+import ScenarioChallenge from './ScenarioChallenge'
 
-interface QuizEngineProps {
+export interface QuizEngineProps {
   challenge: Challenge
   onComplete: (score: number, xpEarned: number) => void
   onNext?: () => void
+  preview?: boolean // authoring preview: nothing is saved and no session is started
 }
 
 interface QuizAnswer {
   questionIndex: number
   answer: any
   isCorrect?: boolean
+  credit?: number // 0-1, partial credit per the question's scoring strategy
+  grading?: GradingResult // AI feedback for open-text answers
+  pendingReview?: boolean // queued for a human grader; the score may change
 }
 
 interface QuizState {
@@ -23,64 +46,223 @@ interface QuizState {
   answers: QuizAnswer[]
   showResults: boolean
   score: number
+  pointsEarned?: number
+  totalPoints?: number
   timeRemaining?: number
   attempts: number
+  hintsUsed: number
   isSubmitting: boolean
+  startedAt: string
+  submitError?: string
 }
 
-export default function QuizEngine({ challenge, onComplete, onNext }: QuizEngineProps) {
-  const { user } = useAuth()
+const SESSION_AUTOSAVE_DELAY_MS = 800
+
+// Convert the server deadline to a local timestamp using the server clock returned with the session
+function getLocalDeadline(session: ChallengeSession): number | null {
+  if (!session.deadline_at) {
+    return null
+  }
+  const serverNow = session.server_now ? Date.parse(session.server_now) : Date.now()
+  return Date.now() + (Date.parse(session.deadline_at) - serverNow)
+}
+
+function formatCountdown(seconds: number): string {
+  const minutes = Math.floor(seconds / 60)
+  return `${minutes}:${String(seconds % 60).padStart(2, '0')}`
+}
+
+export default function QuizEngine(props: QuizEngineProps) {
+  // Code challenges have their own editor and test runner
+  if (props.challenge.challenge_type === 'code') {
+    return <CodeChallenge {...props} />
+  }
+
+  if (props.challenge.challenge_type === 'essay') {
+    return <EssayChallenge {...props} />
+  }
+
+  if (props.challenge.challenge_type === 'scenario') {
+    return <ScenarioChallenge {...props} />
+  }
+
+  return <QuestionQuiz {...props} />
+}
+
+// Question-based challenges (quiz / multiple_choice)
+function QuestionQuiz({ challenge, onComplete, onNext, preview }: QuizEngineProps) {
+  const { user: authUser } = useAuth()
+  const user = preview ? null : authUser
   const [quizState, setQuizState] = useState<QuizState>({
     currentQuestion: 0,
     answers: [],
     showResults: false,
     score: 0,
     attempts: 0,
-    isSubmitting: false
+    hintsUsed: 0,
+    isSubmitting: false,
+    startedAt: new Date().toISOString()
   })
-  const [progress, setProgress] = useState<UserProgress | null>(null)
+  const [pastAttempts, setPastAttempts] = useState<ChallengeAttempt[]>([])
+  const [session, setSession] = useState<ChallengeSession | null>(null)
+  const [deadline, setDeadline] = useState<number | null>(null) // local epoch ms
+  const [sessionNotice, setSessionNotice] = useState<string | null>(null)
+  const timeUpHandled = useRef(false)
+  const submitRef = useRef<() => Promise<void>>(() => Promise.resolve())
+  // Questions drawn from a question bank for the current attempt
+  const [drawn, setDrawn] = useState<{ draw: QuestionDraw; content: QuizChallengeContent; solution: QuizChallengeSolution } | null>(null)
+
+  // Extract questions from challenge content (legacy single-question rows are upgraded on the fly)
+  const fixedPayload = getQuizPayload(challenge.challenge_type, challenge.content, challenge.solution)
+  const bankSource = fixedPayload.content.question_bank
+  const { content: quizContent, solution } = bankSource
+    ? drawn || { content: { questions: [] }, solution: { answers: [] } }
+    : fixedPayload
+  const questions: any[] = quizContent.questions
+
+  // Load the drawn bank questions. A session serves its draw without the answer key; the attempts
+  // route and the database grade against the bank instead. Without a session (e.g. an authoring
+  // preview) draw locally
+  const loadDraw = async (started?: ChallengeSession): Promise<number> => {
+    if (!bankSource) {
+      return questions.length
+    }
+
+    if (started?.draw) {
+      const sessionQuestions = await ContentService.getSessionQuestions(started.id)
+      const drawnQuestions = sessionQuestions ? withUnavailableQuestions(started.draw, sessionQuestions) : []
+      setDrawn({ draw: started.draw, content: { questions: drawnQuestions }, solution: { answers: [] } })
+      return drawnQuestions.length
+    }
+
+    const draw = drawQuestions(await ContentService.getQuestionBankItems(bankSource.bank_id), bankSource)
+    const items = await ContentService.getQuestionBankItems(bankSource.bank_id, draw.map(entry => entry.item_id))
+    const applied = applyQuestionDraw(items, draw)
+    setDrawn({ draw, ...applied })
+    return applied.content.questions.length
+  }
+
+  // Without a session only a client-side countdown is possible
+  const beginLocalAttempt = async () => {
+    timeUpHandled.current = false
+    setSession(null)
+    setDeadline(challenge.time_limit ? Date.now() + challenge.time_limit * 60 * 1000 : null)
+    await loadDraw()
+  }
 
-  // Extract questions from challenge content
-  const questions = challenge.content?.questions || []
-  const solution = challenge.solution || {}
+  // Start (or resume) the server-side session and restore its saved answers
+  const beginSession = async () => {
+    if (!user) {
+      await beginLocalAttempt()
+      return
+    }
+
+    timeUpHandled.current = false
+    const started = await ContentService.startChallengeSession(challenge.id)
+
+    if (!started) {
+      await beginLocalAttempt()
+      return
+    }
+
+    // The server records an expired session as an attempt scoring 0
+    if (started.previous_expired) {
+      const attempts = await ContentService.getChallengeAttempts(user.id, challenge.id)
+      setPastAttempts(attempts)
+      setQuizState(prev => ({ ...prev, attempts: attempts.length }))
+    }
+
+    // No session is returned active once the expired one used the last attempt
+    if (started.status !== 'active') {
+      return
+    }
+
+    const questionCount = await loadDraw(started)
+    setSession(started)
+    setDeadline(getLocalDeadline(started))
+    setSessionNotice(started.previous_expired
+      ? 'Your previous session ran out of time and was recorded as an attempt scoring 0, so a new one has started.'
+      : null)
+    setQuizState(prev => ({
+      ...prev,
+      currentQuestion: Math.min(started.current_question, Math.max(questionCount - 1, 0)),
+      answers: started.answers.map(a => ({ questionIndex: a.question_index, answer: a.answer })),
+      hintsUsed: started.hints_used ?? 0,
+      startedAt: started.started_at
+    }))
+  }
 
   useEffect(() => {
-    // Load existing progress
-    async function loadProgress() {
-      if (!user) return
-      
+    // Load previous attempts, then start or resume a session if attempts remain
+    async function initialize() {
+      if (!user) {
+        await beginLocalAttempt()
+        return
+      }
+
       try {
-        const progressData = await ContentService.getUserProgress(user.id)
-        const challengeProgress = progressData.find(p => 
-          p.content_id === challenge.id && p.content_type === 'challenge'
-        )
-        
-        if (challengeProgress) {
-          setProgress(challengeProgress)
-          setQuizState(prev => ({ ...prev, attempts: challengeProgress.attempts }))
+        const attempts = await ContentService.getChallengeAttempts(user.id, challenge.id)
+        setPastAttempts(attempts)
+        setQuizState(prev => ({ ...prev, attempts: attempts.length }))
+
+        if (!challenge.max_attempts || attempts.length < challenge.max_attempts) {
+          await beginSession()
         }
       } catch (error) {
-        console.error('Error loading quiz progress:', error)
+        console.error('Error loading quiz attempts:', error)
       }
     }
 
-    loadProgress()
+    initialize()
   }, [user, challenge.id])
 
-  // Timer for timed quizzes
+  // Countdown to the session deadline; the server rejects submissions after it
   useEffect(() => {
-    if (challenge.time_limit && !quizState.showResults) {
-      const timer = setTimeout(() => {
+    if (deadline === null || quizState.showResults) {
+      return
+    }
+
+    const tick = () => {
+      const remaining = Math.max(0, Math.ceil((deadline - Date.now()) / 1000))
+      setQuizState(prev => ({ ...prev, timeRemaining: remaining }))
+      if (remaining === 0) {
+        clearInterval(timer)
         handleTimeUp()
-      }, challenge.time_limit * 60 * 1000) // Convert minutes to milliseconds
+      }
+    }
 
-      return () => clearTimeout(timer)
+    const timer = setInterval(tick, 1000)
+    tick()
+
+    return () => clearInterval(timer)
+  }, [deadline, quizState.showResults])
+
+  // Save partial answers to the session so a reload can resume
+  useEffect(() => {
+    if (!session || quizState.showResults || quizState.isSubmitting) {
+      return
     }
-  }, [challenge.time_limit, quizState.showResults])
+
+    const timer = setTimeout(() => {
+      ContentService.saveChallengeSession(
+        session.id,
+        quizState.answers.map(a => ({ question_index: a.questionIndex, answer: a.answer })),
+        quizState.currentQuestion,
+        quizState.hintsUsed
+      )
+    }, SESSION_AUTOSAVE_DELAY_MS)
+
+    return () => clearTimeout(timer)
+  }, [session, quizState.answers, quizState.currentQuestion, quizState.hintsUsed, quizState.showResults, quizState.isSubmitting])
 
   const handleTimeUp = () => {
+    // Submit whatever has been answered, once
+    if (timeUpHandled.current) {
+      return
+    }
+    timeUpHandled.current = true
     setQuizState(prev => ({ ...prev, showResults: true }))
-    calculateAndSubmitScore()
+    submitRef.current()
   }
 
   const handleAnswer = (questionIndex: number, answer: any) => {
@@ -98,6 +280,10 @@ export default function QuizEngine({ challenge, onComplete, onNext }: QuizEngine
     })
   }
 
+  const handleRevealHint = () => {
+    setQuizState(prev => ({ ...prev, hintsUsed: Math.min(prev.hintsUsed + 1, challenge.hints?.length || 0) }))
+  }
+
   const handleNextQuestion = () => {
     if (quizState.currentQuestion < questions.length - 1) {
       setQuizState(prev => ({ ...prev, currentQuestion: prev.currentQuestion + 1 }))
@@ -111,88 +297,127 @@ export default function QuizEngine({ challenge, onComplete, onNext }: QuizEngine
   }
 
   const calculateAndSubmitScore = async () => {
-    setQuizState(prev => ({ ...prev, isSubmitting: true }))
+    setQuizState(prev => ({ ...prev, isSubmitting: true, submitError: undefined }))
 
     try {
-      let correctAnswers = 0
-      const totalQuestions = questions.length
       const answersWithCorrectness: QuizAnswer[] = []
 
       // Score each question
       for (let i = 0; i < questions.length; i++) {
         const question = questions[i]
         const userAnswer = quizState.answers.find(a => a.questionIndex === i)
+        // Unknown for questions drawn through a session; the database scores those against the bank
         const correctAnswer = solution.answers?.[i]
 
         if (!userAnswer) {
-          answersWithCorrectness.push({ questionIndex: i, answer: null, isCorrect: false })
+          answersWithCorrectness.push({ questionIndex: i, answer: null, isCorrect: false, credit: 0 })
           continue
         }
 
-        let isCorrect = false
+        let credit = 0
+        let grading: GradingResult | undefined
 
-        switch (question.type) {
-          case 'multiple_choice':
-          case 'single_choice':
-            isCorrect = userAnswer.answer === correctAnswer
-            break
-          
-          case 'drag_drop':
-            // Compare drag-drop order/mapping
-            isCorrect = JSON.stringify(userAnswer.answer) === JSON.stringify(correctAnswer)
-            break
-          
-          case 'open_text':
-            // Use AI to score open-text responses
+        if (question.type === 'open_text') {
+          // Recorded attempts are graded on the server against the answer key; previews grade here
+          if (!user) {
+            const expectedText = typeof correctAnswer === 'string' ? correctAnswer : ''
             try {
-              const aiScore = await AIService.scoreTextAnswer(
+              grading = await AIClient.gradeAnswer(
                 question.question,
                 userAnswer.answer,
-                correctAnswer,
-                question.rubric || 'Rate this answer on accuracy and completeness (0-100)'
+                expectedText,
+                buildGradingCriteria(question.criteria, question.rubric)
               )
-              isCorrect = aiScore >= 70 // 70% threshold for correct
+              credit = creditForGradedAnswer(question, grading.score, grading.score >= PASSING_SCORE)
             } catch (error) {
-              console.error('AI scoring failed:', error)
+              console.error('AI grading failed:', error)
               // Fallback to simple text matching
-              isCorrect = userAnswer.answer.toLowerCase().includes(correctAnswer.toLowerCase())
+              const expected = expectedText.trim().toLowerCase()
+              credit = expected && userAnswer.answer.toLowerCase().includes(expected) ? 1 : 0
             }
-            break
-          
-          default:
-            isCorrect = userAnswer.answer === correctAnswer
+          }
+        } else {
+          // Partial credit per the question's scoring strategy
+          credit = scoreAnswer(question, userAnswer.answer, correctAnswer)
         }
 
-        if (isCorrect) correctAnswers++
         answersWithCorrectness.push({ 
           questionIndex: i, 
           answer: userAnswer.answer, 
-          isCorrect 
+          isCorrect: credit === 1,
+          credit,
+          grading
         })
       }
 
-      const scorePercentage = Math.round((correctAnswers / totalQuestions) * 100)
-      
-      // Variable XP based on performance (Sprint 6 feature)
-      let xpEarned = 0
-      if (scorePercentage >= 90) {
-        xpEarned = challenge.xp_reward * 1.5 // Bonus for excellent performance
-      } else if (scorePercentage >= 80) {
-        xpEarned = challenge.xp_reward * 1.2 // Bonus for good performance
-      } else if (scorePercentage >= 70) {
-        xpEarned = challenge.xp_reward // Full XP for passing
-      } else if (scorePercentage >= 50) {
-        xpEarned = Math.round(challenge.xp_reward * 0.5) // Partial XP for attempt
+      // Weighted by each question's points
+      let quizScore = calculateQuizScore(questions, answersWithCorrectness.map(a => a.credit ?? 0))
+      let scoredAnswers = answersWithCorrectness
+
+      // Record the attempt (the server enforces max_attempts and scores it) and update progress
+      let attemptNumber = quizState.attempts + 1
+      if (user) {
+        const attempt = await ContentService.recordChallengeAttempt({
+          challenge_id: challenge.id,
+          answers: answersWithCorrectness.map(a => ({
+            question_index: a.questionIndex,
+            question_id: questions[a.questionIndex]?.id,
+            answer: a.answer
+          })),
+          started_at: quizState.startedAt,
+          session_id: session?.id,
+          draw: drawn?.draw,
+          hints_used: quizState.hintsUsed
+        })
+
+        if (attempt) {
+          attemptNumber = attempt.attempt_number
+          // The server grades open-text answers and the database re-scores the attempt (migrations 028, 035); its result stands
+          scoredAnswers = answersWithCorrectness.map(a => {
+            const recorded = attempt.answers.find(answer => answer.question_index === a.questionIndex)
+            const credit = typeof recorded?.score === 'number' ? creditForRecordedScore(questions[a.questionIndex], recorded.score) : 0
+            return {
+              ...a,
+              isCorrect: credit === 1,
+              credit,
+              grading: recorded?.feedback ?? a.grading,
+              pendingReview: recorded?.review?.status === 'pending'
+            }
+          })
+          quizScore = { ...calculateQuizScore(questions, scoredAnswers.map(a => a.credit ?? 0)), score: attempt.score }
+          setPastAttempts(prev => [attempt, ...prev])
+
+          // Explanations of drawn questions are only served once the session is over
+          if (drawn && session) {
+            const reviewed = await ContentService.getSessionQuestions(session.id)
+            if (reviewed) {
+              setDrawn({ ...drawn, content: { questions: withUnavailableQuestions(drawn.draw, reviewed) } })
+            }
+          }
+        }
+
+        // The session is closed once the attempt is recorded
+        setSession(null)
+        setDeadline(null)
       }
-      // No XP for scores below 50%
 
-      // Update progress
+      const { score: scorePercentage, pointsEarned, totalPoints } = quizScore
+
+      // Variable XP based on performance (Sprint 6 feature), less the cost of hints revealed
+      const xpEarned = applyHintPenalty(
+        calculateXpEarned(scorePercentage, challenge.xp_reward),
+        quizState.hintsUsed,
+        challenge.hint_xp_penalty
+      )
+
       if (user) {
         await ContentService.updateProgress(user.id, challenge.id, 'challenge', {
           status: scorePercentage >= 70 ? 'completed' : 'in_progress',
           completion_percentage: scorePercentage,
           score: scorePercentage,
-          xp_earned: xpEarned
+          xp_earned: xpEarned,
+          attempts: attemptNumber,
+          hints_used: quizState.hintsUsed
         })
       }
 
@@ -200,38 +425,88 @@ export default function QuizEngine({ challenge, onComplete, onNext }: QuizEngine
         ...prev, 
         showResults: true, 
         score: scorePercentage,
-        answers: answersWithCorrectness,
-        attempts: prev.attempts + 1,
+        pointsEarned,
+        totalPoints,
+        answers: scoredAnswers,
+        attempts: attemptNumber,
         isSubmitting: false
       }))
 
       onComplete(scorePercentage, xpEarned)
     } catch (error) {
       console.error('Error calculating quiz score:', error)
-      setQuizState(prev => ({ ...prev, isSubmitting: false }))
+      setQuizState(prev => ({
+        ...prev,
+        showResults: false,
+        isSubmitting: false,
+        submitError: error instanceof Error ? error.message : 'Failed to submit quiz'
+      }))
     }
   }
 
+  submitRef.current = calculateAndSubmitScore
+
   const canRetake = () => {
     if (!challenge.max_attempts) return true
     return quizState.attempts < challenge.max_attempts
   }
 
-  const handleRetake = () => {
+  const handleRetake = async () => {
     setQuizState({
       currentQuestion: 0,
       answers: [],
       showResults: false,
       score: 0,
       attempts: quizState.attempts,
-      isSubmitting: false
+      hintsUsed: 0,
+      isSubmitting: false,
+      startedAt: new Date().toISOString()
     })
+    setDrawn(null)
+    await beginSession()
   }
 
+  const timeUp = deadline !== null && quizState.timeRemaining === 0
+
   const getCurrentAnswer = () => {
     return quizState.answers.find(a => a.questionIndex === quizState.currentQuestion)
   }
 
+  if (!quizState.showResults && !canRetake()) {
+    return (
+      <div className="max-w-2xl mx-auto">
+        <div className="bg-white rounded-lg shadow-lg p-8">
+          <div className="text-center mb-6">
+            <h2 className="text-2xl font-bold text-gray-900 mb-2">No attempts remaining</h2>
+            <p className="text-gray-600">
+              You have used all {challenge.max_attempts} attempts for this challenge.
+            </p>
+          </div>
+          <AttemptHistory attempts={pastAttempts} questions={bankSource ? undefined : questions} />
+          {onNext && (
+            <div className="mt-6 text-center">
+              <button
+                onClick={onNext}
+                className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+              >
+                Continue →
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    )
+  }
+
+  if (bankSource && !drawn) {
+    return (
+      <div className="text-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto"></div>
+        <p className="mt-4 text-gray-600">Loading questions...</p>
+      </div>
+    )
+  }
+
   if (questions.length === 0) {
     return (
       <div className="text-center py-8">
@@ -267,6 +542,12 @@ export default function QuizEngine({ challenge, onComplete, onNext }: QuizEngine
             }}>
               {quizState.score}%
             </div>
+
+            {quizState.totalPoints !== undefined && (
+              <div className="text-sm text-gray-500 mb-2">
+                {quizState.pointsEarned} of {quizState.totalPoints} points
+              </div>
+            )}
             
             <p className="text-gray-600">
               {quizState.score >= 90 && 'Outstanding performance! 🌟'}
@@ -282,10 +563,7 @@ export default function QuizEngine({ challenge, onComplete, onNext }: QuizEngine
             <div className="flex items-center justify-between">
               <span className="text-sm text-gray-600">XP Earned</span>
               <span className="text-lg font-bold text-blue-600">
-                +{quizState.score >= 90 ? Math.round(challenge.xp_reward * 1.5) :
-                   quizState.score >= 80 ? Math.round(challenge.xp_reward * 1.2) :
-                   quizState.score >= 70 ? challenge.xp_reward :
-                   quizState.score >= 50 ? Math.round(challenge.xp_reward * 0.5) : 0} XP
+                +{applyHintPenalty(calculateXpEarned(quizState.score, challenge.xp_reward), quizState.hintsUsed, challenge.hint_xp_penalty)} XP
               </span>
             </div>
             {quizState.score >= 80 && (
@@ -293,8 +571,48 @@ export default function QuizEngine({ challenge, onComplete, onNext }: QuizEngine
                 ⭐ Bonus XP for excellent performance!
               </div>
             )}
+            {quizState.hintsUsed > 0 && !!challenge.hint_xp_penalty && (
+              <div className="text-xs text-yellow-700 mt-1">
+                💡 −{quizState.hintsUsed * challenge.hint_xp_penalty} XP for {quizState.hintsUsed} hint{quizState.hintsUsed === 1 ? '' : 's'}
+              </div>
+            )}
           </div>
 
+          {quizState.answers.some(a => a.pendingReview) && (
+            <div className="mb-6 p-3 bg-purple-50 border border-purple-200 rounded-lg text-sm text-purple-800">
+              📝 {quizState.answers.filter(a => a.pendingReview).length === 1 ? 'One answer was' : 'Some answers were'} sent
+              to a grader for review. Your score and XP may change once it has been graded.
+            </div>
+          )}
+
+          {/* AI Feedback for open-text answers */}
+          {quizState.answers.some(a => a.grading) && (
+            <div className="space-y-4 mb-6">
+              <h3 className="text-lg font-semibold text-gray-900">Feedback on your answers</h3>
+              {quizState.answers.filter(a => a.grading).map(a => (
+                <GradingFeedback
+                  key={a.questionIndex}
+                  question={questions[a.questionIndex]?.question}
+                  grading={a.grading as GradingResult}
+                />
+              ))}
+            </div>
+          )}
+
+          {/* Explanations for each question */}
+          {questions.some(q => q.explanation || q.option_explanations) && (
+            <div className="space-y-3 mb-6">
+              <h3 className="text-lg font-semibold text-gray-900">Review</h3>
+              {questions.map((question, index) => (
+                <AnswerReview
+                  key={question.id || index}
+                  question={question}
+                  answer={quizState.answers.find(a => a.questionIndex === index)}
+                />
+              ))}
+            </div>
+          )}
+
           {/* Action Buttons */}
           <div className="flex gap-3 justify-center">
             {canRetake() && quizState.score < 100 && (
@@ -321,6 +639,12 @@ export default function QuizEngine({ challenge, onComplete, onNext }: QuizEngine
             Attempt {quizState.attempts} 
             {challenge.max_attempts && ` of ${challenge.max_attempts}`}
           </div>
+
+          {pastAttempts.length > 0 && (
+            <div className="mt-6">
+              <AttemptHistory attempts={pastAttempts} questions={bankSource ? undefined : questions} />
+            </div>
+          )}
         </div>
       </div>
     )
@@ -348,7 +672,11 @@ export default function QuizEngine({ challenge, onComplete, onNext }: QuizEngine
             ></div>
           </div>
           
-          {challenge.time_limit && (
+          {deadline !== null && quizState.timeRemaining !== undefined ? (
+            <div className={`text-sm mt-2 font-mono ${quizState.timeRemaining <= 60 ? 'font-bold text-red-100' : 'opacity-90'}`}>
+              ⏱️ Time remaining: {formatCountdown(quizState.timeRemaining)}
+            </div>
+          ) : challenge.time_limit && (
             <div className="text-sm mt-2 opacity-90">
               ⏱️ Time limit: {challenge.time_limit} minutes
             </div>
@@ -360,6 +688,11 @@ export default function QuizEngine({ challenge, onComplete, onNext }: QuizEngine
           <div className="mb-6">
             <h3 className="text-lg font-semibold text-gray-900 mb-4">
               {currentQuestion.question}
+              {getQuestionPoints(currentQuestion) !== 1 && (
+                <span className="ml-2 text-sm font-normal text-gray-500">
+                  ({getQuestionPoints(currentQuestion)} points)
+                </span>
+              )}
             </h3>
             
             {currentQuestion.image_url && (
@@ -380,11 +713,34 @@ export default function QuizEngine({ challenge, onComplete, onNext }: QuizEngine
 
           {/* Hints */}
           {challenge.hints && challenge.hints.length > 0 && (
-            <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
-              <div className="text-sm font-medium text-yellow-800 mb-2">💡 Hint:</div>
-              <div className="text-sm text-yellow-700">
-                {challenge.hints[Math.min(quizState.attempts, challenge.hints.length - 1)]}
-              </div>
+            <div className="mb-6">
+              <HintPanel
+                hints={challenge.hints}
+                hintsUsed={quizState.hintsUsed}
+                penalty={challenge.hint_xp_penalty}
+                onReveal={handleRevealHint}
+                disabled={quizState.isSubmitting || timeUp}
+              />
+            </div>
+          )}
+
+          {sessionNotice && (
+            <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+              {sessionNotice}
+            </div>
+          )}
+
+          {quizState.submitError && (
+            <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+              {quizState.submitError}
+              {timeUp && canRetake() && (
+                <button
+                  onClick={handleRetake}
+                  className="ml-2 underline hover:no-underline"
+                >
+                  Start a new attempt
+                </button>
+              )}
             </div>
           )}
 
@@ -405,7 +761,7 @@ export default function QuizEngine({ challenge, onComplete, onNext }: QuizEngine
             {quizState.currentQuestion === questions.length - 1 ? (
               <button
                 onClick={calculateAndSubmitScore}
-                disabled={quizState.isSubmitting || quizState.answers.length === 0}
+                disabled={quizState.isSubmitting || quizState.answers.length === 0 || timeUp}
                 className="px-6 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
               >
                 {quizState.isSubmitting ? 'Submitting...' : '✅ Submit Quiz'}
@@ -425,6 +781,36 @@ export default function QuizEngine({ challenge, onComplete, onNext }: QuizEngine
   )
 }
 
+// Result, explanation and the explanations of the picked options for one question
+function AnswerReview({ question, answer }: { question: QuizQuestion; answer?: QuizAnswer }) {
+  const credit = answer?.credit ?? 0
+  const icon = credit === 1 ? '✅' : credit > 0 ? '🟡' : '❌'
+  const picked: number[] = typeof answer?.answer === 'number'
+    ? [answer.answer]
+    : Array.isArray(answer?.answer) ? answer.answer : []
+  const optionNotes = 'options' in question && question.option_explanations
+    ? picked.filter(index => question.option_explanations?.[index]).map(index => ({
+        option: question.options[index],
+        note: question.option_explanations?.[index]
+      }))
+    : []
+
+  return (
+    <div className="p-3 border border-gray-200 rounded-lg text-sm">
+      <div className="font-medium text-gray-900">
+        {icon} {question.question}
+        {credit > 0 && credit < 1 && <span className="text-gray-500 font-normal"> · {Math.round(credit * 100)}% credit</span>}
+      </div>
+      {optionNotes.map(({ option, note }) => (
+        <div key={option} className="mt-1 text-gray-700">
+          <span className="font-medium">{option}:</span> {note}
+        </div>
+      ))}
+      {question.explanation && <div className="mt-1 text-gray-600">{question.explanation}</div>}
+    </div>
+  )
+}
+
 // Question type renderers
 function renderQuestionType(question: any, currentAnswer: any, onAnswer: (answer: any) => void) {
   switch (question.type) {
@@ -494,6 +880,39 @@ function renderQuestionType(question: any, currentAnswer: any, onAnswer: (answer
         />
       )
 
+    case 'cloze':
+      return (
+        <ClozeQuestion
+          question={question}
+          currentAnswer={currentAnswer}
+          onAnswer={onAnswer}
+        />
+      )
+
+    case 'numeric':
+      return (
+        <div className="flex items-center gap-3">
+          <input
+            type="text"
+            inputMode="decimal"
+            value={currentAnswer ?? ''}
+            onChange={(e) => onAnswer(e.target.value)}
+            placeholder="Enter a number"
+            className="w-48 p-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          {question.unit && <span className="text-gray-600">{question.unit}</span>}
+        </div>
+      )
+
+    case 'matching':
+      return (
+        <MatchingQuestion
+          question={question}
+          currentAnswer={currentAnswer}
+          onAnswer={onAnswer}
+        />
+      )
+
     default:
       return (
         <div className="text-center py-4 text-gray-500">
@@ -582,4 +1001,96 @@ function DragDropQuestion({ question, currentAnswer, onAnswer }: {
       </div>
     </div>
   )
-} 
\ No newline at end of file
+}
+
+// Bold, italic and inline code inside a cloze sentence
+function renderInlineMarkdown(text: string) {
+  return text.split(/(\*\*[^*]+\*\*|\*[^*]+\*|`[^`]+`)/g).map((part, index) => {
+    if (part.startsWith('**') && part.endsWith('**') && part.length > 4) {
+      return <strong key={index}>{part.slice(2, -2)}</strong>
+    }
+    if (part.startsWith('`') && part.endsWith('`') && part.length > 2) {
+      return <code key={index} className="bg-gray-100 px-1 rounded text-sm">{part.slice(1, -1)}</code>
+    }
+    if (part.startsWith('*') && part.endsWith('*') && part.length > 2) {
+      return <em key={index}>{part.slice(1, -1)}</em>
+    }
+    return <span key={index} className="whitespace-pre-wrap">{part}</span>
+  })
+}
+
+// Fill-in-the-blank: one input per {{blank}} in the sentence
+function ClozeQuestion({ question, currentAnswer, onAnswer }: {
+  question: any
+  currentAnswer: any
+  onAnswer: (answer: any) => void
+}) {
+  const segments = splitClozeText(question.text || '')
+  const filled: string[] = Array.isArray(currentAnswer) ? currentAnswer : []
+
+  const handleChange = (blankIndex: number, value: string) => {
+    const next = Array.from({ length: segments.length - 1 }, (_, index) => filled[index] ?? '')
+    next[blankIndex] = value
+    onAnswer(next)
+  }
+
+  return (
+    <div className="p-4 bg-gray-50 rounded-lg leading-10 text-gray-900">
+      {segments.map((segment, index) => (
+        <span key={index}>
+          {renderInlineMarkdown(segment)}
+          {index < segments.length - 1 && (
+            <input
+              type="text"
+              value={filled[index] ?? ''}
+              onChange={(e) => handleChange(index, e.target.value)}
+              aria-label={`Blank ${index + 1}`}
+              className="mx-1 w-36 px-2 py-1 border-b-2 border-blue-400 bg-white rounded-t focus:outline-none focus:border-blue-600"
+            />
+          )}
+        </span>
+      ))}
+    </div>
+  )
+}
+
+// Two-column matching: pick a right-hand entry for every left-hand entry
+function MatchingQuestion({ question, currentAnswer, onAnswer }: {
+  question: any
+  currentAnswer: any
+  onAnswer: (answer: any) => void
+}) {
+  const left: string[] = question.left || []
+  const right: string[] = question.right || []
+  const pairs: Record<string, string> = currentAnswer || {}
+
+  const handleChange = (entry: string, match: string) => {
+    const next = { ...pairs }
+    if (match) {
+      next[entry] = match
+    } else {
+      delete next[entry]
+    }
+    onAnswer(next)
+  }
+
+  return (
+    <div className="space-y-3">
+      {left.map(entry => (
+        <div key={entry} className="grid grid-cols-2 gap-3 items-center p-3 border border-gray-200 rounded-lg">
+          <span className="text-gray-900">{entry}</span>
+          <select
+            value={pairs[entry] || ''}
+            onChange={(e) => handleChange(entry, e.target.value)}
+            className="p-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">Select a match...</option>
+            {right.map(match => (
+              <option key={match} value={match}>{match}</option>
+            ))}
+          </select>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,170 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { ContentService } from '@/lib/content'
+import PermissionGuard from './PermissionGuard'
+import type { ContentEntityType, ContentReviewRequest, ReviewRequestStatus } from '@/types/content'
+
+const ENTITY_LABELS: Record<ContentEntityType, string> = {
+  path: 'Learning Path',
+  course: 'Course',
+  module: 'Module',
+  lesson: 'Lesson'
+}
+
+const STATUS_OPTIONS: { value: ReviewRequestStatus; label: string }[] = [
+  { value: 'pending', label: 'Waiting' },
+  { value: 'approved', label: 'Approved' },
+  { value: 'rejected', label: 'Rejected' }
+]
+
+// Content submitted by content managers, for admins to publish or send back with comments
+export default function ReviewQueue() {
+  const [status, setStatus] = useState<ReviewRequestStatus>('pending')
+  const [requests, setRequests] = useState<ContentReviewRequest[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const loadRequests = useCallback(async () => {
+    setLoading(true)
+    try {
+      setRequests(await ContentService.getReviewRequests(status))
+    } finally {
+      setLoading(false)
+    }
+  }, [status])
+
+  useEffect(() => {
+    loadRequests()
+  }, [loadRequests])
+
+  return (
+    <div className="bg-white rounded-lg shadow">
+      <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Review Queue</h2>
+          <p className="text-sm text-gray-600">
+            Content submitted for publishing
+          </p>
+        </div>
+        <div className="flex rounded-md border border-gray-300 overflow-hidden text-sm">
+          {STATUS_OPTIONS.map(option => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => setStatus(option.value)}
+              className={`px-4 py-2 ${status === option.value ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="p-6 space-y-3">
+          {[...Array(3)].map((_, i) => (
+            <div key={i} className="animate-pulse bg-gray-200 h-16 rounded-lg"></div>
+          ))}
+        </div>
+      ) : requests.length === 0 ? (
+        <div className="p-12 text-center text-gray-500">
+          <div className="text-4xl mb-2">✅</div>
+          {status === 'pending' ? 'Nothing waiting for review.' : 'No reviewed submissions yet.'}
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-200">
+          {requests.map(request => (
+            <ReviewRequestItem key={request.id} request={request} onReviewed={loadRequests} />
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+function ReviewRequestItem({ request, onReviewed }: { request: ContentReviewRequest; onReviewed: () => void }) {
+  const [comment, setComment] = useState('')
+  const [saving, setSaving] = useState<'approve' | 'reject' | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleReview = async (approve: boolean) => {
+    setSaving(approve ? 'approve' : 'reject')
+    setError(null)
+    try {
+      await ContentService.reviewContent(request, approve, comment)
+      onReviewed()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save review')
+    } finally {
+      setSaving(null)
+    }
+  }
+
+  return (
+    <li className="p-6 space-y-3">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <div className="flex items-center gap-2">
+            <span className="text-xs font-medium px-2 py-0.5 rounded-full bg-gray-100 text-gray-700">
+              {ENTITY_LABELS[request.entity_type]}
+            </span>
+            <h3 className="font-medium text-gray-900">{request.entity_title}</h3>
+          </div>
+          <p className="text-sm text-gray-500 mt-1">
+            Submitted by {request.submitter?.display_name || 'Unknown author'} on {new Date(request.submitted_at).toLocaleString()}
+          </p>
+        </div>
+        {request.reviewed_at && (
+          <span className="text-xs text-gray-500 shrink-0">
+            Reviewed {new Date(request.reviewed_at).toLocaleString()}
+          </span>
+        )}
+      </div>
+
+      {request.note && (
+        <div className="text-sm text-gray-700 bg-gray-50 rounded p-3">
+          <span className="font-medium">Author&apos;s note:</span> {request.note}
+        </div>
+      )}
+
+      {request.reviewer_comment && (
+        <div className={`text-sm rounded p-3 ${request.status === 'approved' ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'}`}>
+          <span className="font-medium">Reviewer comment:</span> {request.reviewer_comment}
+        </div>
+      )}
+
+      {request.status === 'pending' && (
+        <PermissionGuard resource="content" action="publish">
+          <div className="space-y-2">
+            <textarea
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              rows={2}
+              placeholder="Comment for the author (required when rejecting)"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            {error && <p className="text-sm text-red-600">{error}</p>}
+            <div className="flex justify-end gap-2">
+              <button
+                type="button"
+                onClick={() => handleReview(false)}
+                disabled={saving !== null}
+                className="px-4 py-2 text-sm font-medium text-red-700 border border-red-300 rounded-md hover:bg-red-50 disabled:opacity-50"
+              >
+                {saving === 'reject' ? 'Rejecting...' : 'Reject'}
+              </button>
+              <button
+                type="button"
+                onClick={() => handleReview(true)}
+                disabled={saving !== null}
+                className="px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-md hover:bg-green-700 disabled:opacity-50"
+              >
+                {saving === 'approve' ? 'Publishing...' : 'Approve & Publish'}
+              </button>
+            </div>
+          </div>
+        </PermissionGuard>
+      )}
+    </li>
+  )
+}
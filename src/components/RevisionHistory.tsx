@@ -0,0 +1,196 @@
+'use client'
+
+import { useState } from 'react'
+import { ContentService } from '@/lib/content'
+import { REVISION_TEXT_FIELDS, diffLines, getChangedFields } from '@/lib/revisions'
+import type { DiffRow } from '@/lib/revisions'
+import type { ContentRevision, RevisionEntityType } from '@/types/content'
+
+interface RevisionHistoryProps {
+  entityType: RevisionEntityType
+  entityId: string
+  current: Record<string, any> // the saved entity being edited
+  onRestored: (entity: any) => void
+}
+
+const DIFF_ROW_STYLES: Record<DiffRow['type'], { left: string; right: string }> = {
+  equal: { left: '', right: '' },
+  added: { left: 'bg-gray-50', right: 'bg-green-50 text-green-900' },
+  removed: { left: 'bg-red-50 text-red-900', right: 'bg-gray-50' },
+  changed: { left: 'bg-red-50 text-red-900', right: 'bg-green-50 text-green-900' }
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') {
+    return '(empty)'
+  }
+  if (Array.isArray(value)) {
+    return value.length > 0 ? value.join(', ') : '(empty)'
+  }
+  return String(value)
+}
+
+// Saved versions of a path, course, module or lesson, with a comparison against the current version and restore
+export default function RevisionHistory({ entityType, entityId, current, onRestored }: RevisionHistoryProps) {
+  const [open, setOpen] = useState(false)
+  const [revisions, setRevisions] = useState<ContentRevision[] | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [comparingId, setComparingId] = useState<string | null>(null)
+  const [restoringId, setRestoringId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const toggle = async () => {
+    setOpen(!open)
+    if (open || revisions) {
+      return
+    }
+
+    setLoading(true)
+    try {
+      setRevisions(await ContentService.getContentRevisions(entityType, entityId))
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleRestore = async (revision: ContentRevision) => {
+    if (!confirm(`Restore revision ${revision.revision_number}? Your current version stays in the history.`)) {
+      return
+    }
+
+    setRestoringId(revision.id)
+    setError(null)
+    try {
+      const restored = await ContentService.restoreContentRevision(revision)
+      if (!restored) {
+        throw new Error('Failed to restore revision')
+      }
+      onRestored(restored)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore revision')
+    } finally {
+      setRestoringId(null)
+    }
+  }
+
+  return (
+    <div className="border border-gray-200 rounded-lg">
+      <button
+        type="button"
+        onClick={toggle}
+        className="w-full flex items-center justify-between p-3 text-sm font-medium text-gray-700 hover:bg-gray-50 transition-colors"
+      >
+        <span>🕘 Revision History{revisions ? ` (${revisions.length})` : ''}</span>
+        <span className="text-gray-400">{open ? '▲' : '▼'}</span>
+      </button>
+
+      {open && (
+        <div className="border-t border-gray-200 p-3 space-y-2">
+          {error && (
+            <div className="p-2 bg-red-50 border border-red-200 rounded text-sm text-red-700">{error}</div>
+          )}
+
+          {loading ? (
+            <div className="text-sm text-gray-500">Loading revisions...</div>
+          ) : !revisions || revisions.length === 0 ? (
+            <div className="text-sm text-gray-500">No revisions saved yet.</div>
+          ) : (
+            revisions.map((revision, index) => (
+              <div key={revision.id} className="border border-gray-100 rounded">
+                <div className="flex items-center justify-between gap-3 p-2 text-sm">
+                  <div className="min-w-0">
+                    <span className="font-medium text-gray-900">#{revision.revision_number}</span>
+                    <span className="text-gray-500"> · {new Date(revision.created_at).toLocaleString()}</span>
+                    <span className="text-gray-500"> · {revision.author?.display_name || 'Unknown author'}</span>
+                    {index === 0 && <span className="ml-2 text-xs text-blue-600">latest</span>}
+                    {revision.change_note && (
+                      <div className="text-xs text-gray-600 truncate">{revision.change_note}</div>
+                    )}
+                  </div>
+                  <div className="flex gap-2 shrink-0">
+                    <button
+                      type="button"
+                      onClick={() => setComparingId(comparingId === revision.id ? null : revision.id)}
+                      className="px-2 py-1 text-xs text-blue-600 border border-blue-200 rounded hover:bg-blue-50"
+                    >
+                      {comparingId === revision.id ? 'Hide' : 'Compare'}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleRestore(revision)}
+                      disabled={restoringId !== null}
+                      className="px-2 py-1 text-xs text-gray-700 border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      {restoringId === revision.id ? 'Restoring...' : 'Restore'}
+                    </button>
+                  </div>
+                </div>
+
+                {comparingId === revision.id && (
+                  <RevisionComparison entityType={entityType} revision={revision} current={current} />
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function RevisionComparison({ entityType, revision, current }: {
+  entityType: RevisionEntityType
+  revision: ContentRevision
+  current: Record<string, any>
+}) {
+  const changedFields = getChangedFields(entityType, revision.snapshot, current)
+
+  if (changedFields.length === 0) {
+    return (
+      <div className="border-t border-gray-100 p-2 text-xs text-gray-500">Same as the current version.</div>
+    )
+  }
+
+  return (
+    <div className="border-t border-gray-100 p-2 space-y-3">
+      <div className="grid grid-cols-2 gap-2 text-xs font-medium text-gray-500">
+        <span>Revision {revision.revision_number}</span>
+        <span>Current</span>
+      </div>
+      {changedFields.map(field => (
+        <div key={field} className="space-y-1">
+          <div className="text-xs font-medium text-gray-700">{field}</div>
+          {REVISION_TEXT_FIELDS.includes(field) ? (
+            <SideBySideDiff before={revision.snapshot[field] || ''} after={current[field] || ''} />
+          ) : (
+            <div className="grid grid-cols-2 gap-2 text-xs">
+              <span className="p-1 bg-red-50 text-red-900 rounded break-words">{formatValue(revision.snapshot[field])}</span>
+              <span className="p-1 bg-green-50 text-green-900 rounded break-words">{formatValue(current[field])}</span>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+function SideBySideDiff({ before, after }: { before: string; after: string }) {
+  const rows = diffLines(before, after)
+
+  return (
+    <div className="max-h-96 overflow-auto border border-gray-200 rounded font-mono text-xs">
+      <table className="w-full table-fixed border-collapse">
+        <tbody>
+          {rows.map((row, index) => (
+            <tr key={index} className="align-top">
+              <td className="w-10 px-1 text-right text-gray-400 select-none">{row.leftNumber ?? ''}</td>
+              <td className={`px-2 whitespace-pre-wrap break-words ${DIFF_ROW_STYLES[row.type].left}`}>{row.left ?? ''}</td>
+              <td className="w-10 px-1 text-right text-gray-400 select-none border-l border-gray-200">{row.rightNumber ?? ''}</td>
+              <td className={`px-2 whitespace-pre-wrap break-words ${DIFF_ROW_STYLES[row.type].right}`}>{row.right ?? ''}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
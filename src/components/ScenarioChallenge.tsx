@@ -0,0 +1,318 @@
+'use client'
+
+import { useState, useEffect, useRef } from 'react'
+import dynamic from 'next/dynamic'
+import { useAuth } from '@/contexts/AuthContext'
+import { ContentService } from '@/lib/content'
+import { applyHintPenalty, calculateXpEarned, PASSING_SCORE } from '@/lib/grading'
+import { getScenarioNode, MAX_SCENARIO_STEPS } from '@/lib/scenario'
+import type {
+  Challenge,
+  ChallengeAttempt,
+  ScenarioChallengeContent,
+  ScenarioChallengeSolution,
+  ScenarioChoice,
+  ScenarioPathStep
+} from '@/types/content'
+import AttemptHistory from './AttemptHistory'
+import HintPanel from './HintPanel'
+
+// Dynamically import the markdown preview to avoid SSR issues
+const MarkdownPreview = dynamic(
+  () => import('@uiw/react-md-editor').then((mod) => mod.default.Markdown),
+  { ssr: false, loading: () => <div className="animate-pulse bg-gray-200 h-24 rounded"></div> }
+)
+
+interface ScenarioChallengeProps {
+  challenge: Challenge
+  onComplete: (score: number, xpEarned: number) => void
+  onNext?: () => void
+  preview?: boolean
+}
+
+// Branching scenario player: walk the graph from the start node, record the path, score the outcome
+export default function ScenarioChallenge({ challenge, onComplete, onNext, preview }: ScenarioChallengeProps) {
+  const { user: authUser } = useAuth()
+  const user = preview ? null : authUser // previews never record attempts or progress
+  const content = (challenge.content || { start_node: '', nodes: [] }) as ScenarioChallengeContent
+  const solution = (challenge.solution || {}) as ScenarioChallengeSolution
+
+  const [nodeId, setNodeId] = useState(content.start_node)
+  const [path, setPath] = useState<ScenarioPathStep[]>([])
+  const [pendingChoice, setPendingChoice] = useState<ScenarioChoice | null>(null)
+  const [result, setResult] = useState<{ score: number; xpEarned: number } | null>(null)
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [pastAttempts, setPastAttempts] = useState<ChallengeAttempt[]>([])
+  const [startedAt, setStartedAt] = useState(() => new Date().toISOString())
+  const [hintsUsed, setHintsUsed] = useState(0)
+  const finishing = useRef(false)
+
+  const node = getScenarioNode(content, nodeId)
+  const attemptsExhausted = !!challenge.max_attempts && pastAttempts.length >= challenge.max_attempts
+
+  useEffect(() => {
+    async function loadAttempts() {
+      if (!user) {
+        return
+      }
+      setPastAttempts(await ContentService.getChallengeAttempts(user.id, challenge.id))
+    }
+
+    loadAttempts()
+  }, [user, challenge.id])
+
+  const goTo = (step: ScenarioPathStep, nextId: string) => {
+    if (path.length + 1 >= MAX_SCENARIO_STEPS) {
+      setError('This scenario is taking too many steps. Please restart.')
+      return
+    }
+    setPath(prev => [...prev, step])
+    setPendingChoice(null)
+    setNodeId(nextId)
+  }
+
+  const handleChoice = (choice: ScenarioChoice) => {
+    // Show the consequence first when the author wrote one
+    if (choice.consequence) {
+      setPendingChoice(choice)
+      return
+    }
+    goTo({ node_id: nodeId, choice_id: choice.id }, choice.next)
+  }
+
+  // Reaching an outcome ends the run: score it and record the path
+  useEffect(() => {
+    if (node?.type !== 'outcome' || result || finishing.current) {
+      return
+    }
+    finishing.current = true
+
+    async function finish(outcomeScore: number, outcomeId: string) {
+      const fullPath = [...path, { node_id: outcomeId }]
+      setSubmitting(true)
+      setError(null)
+
+      try {
+        let score = outcomeScore
+        let attemptNumber: number | undefined
+        if (user) {
+          // The server scores the path's outcome and rejects the attempt once max_attempts is reached
+          const attempt = await ContentService.recordChallengeAttempt({
+            challenge_id: challenge.id,
+            answers: [{
+              question_index: 0,
+              question_id: outcomeId,
+              answer: { path: fullPath, outcome: outcomeId }
+            }],
+            started_at: startedAt,
+            hints_used: hintsUsed
+          })
+          if (attempt) {
+            score = attempt.score
+            attemptNumber = attempt.attempt_number
+            setPastAttempts(prev => [attempt, ...prev])
+          }
+        }
+
+        const xpEarned = applyHintPenalty(calculateXpEarned(score, challenge.xp_reward), hintsUsed, challenge.hint_xp_penalty)
+        if (user) {
+          await ContentService.updateProgress(user.id, challenge.id, 'challenge', {
+            status: score >= PASSING_SCORE ? 'completed' : 'in_progress',
+            completion_percentage: score,
+            score,
+            xp_earned: xpEarned,
+            attempts: attemptNumber,
+            hints_used: hintsUsed
+          })
+        }
+
+        setPath(fullPath)
+        setResult({ score, xpEarned })
+        onComplete(score, xpEarned)
+      } catch (error) {
+        console.error('Error submitting scenario:', error)
+        setError(error instanceof Error ? error.message : 'Failed to submit scenario')
+      } finally {
+        setSubmitting(false)
+      }
+    }
+
+    finish(node.score, node.id)
+  }, [node, result])
+
+  const handleRestart = () => {
+    finishing.current = false
+    setNodeId(content.start_node)
+    setPath([])
+    setPendingChoice(null)
+    setResult(null)
+    setError(null)
+    setHintsUsed(0)
+    setStartedAt(new Date().toISOString())
+  }
+
+  if (!node) {
+    return (
+      <div className="text-center py-8">
+        <div className="text-red-500 text-xl mb-4">⚠️</div>
+        <p className="text-red-600">This scenario is missing node &quot;{nodeId}&quot;.</p>
+      </div>
+    )
+  }
+
+  if (attemptsExhausted && !result && path.length === 0) {
+    return (
+      <div className="max-w-2xl mx-auto">
+        <div className="bg-white rounded-lg shadow-lg p-8 text-center">
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">No attempts remaining</h2>
+          <p className="text-gray-600 mb-6">
+            You have used all {challenge.max_attempts} attempts for this scenario.
+          </p>
+          <AttemptHistory attempts={pastAttempts} />
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto">
+      <div className="bg-white rounded-lg shadow-lg overflow-hidden">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-blue-500 to-indigo-600 text-white p-6">
+          <h2 className="text-xl font-bold">{challenge.title}</h2>
+          <div className="text-sm mt-2 opacity-90">
+            🧭 Step {path.length + 1} · +{challenge.xp_reward} XP
+          </div>
+        </div>
+
+        <div className="p-6 space-y-6">
+          {node.title && <h3 className="text-lg font-semibold text-gray-900">{node.title}</h3>}
+          <div className="prose max-w-none">
+            <MarkdownPreview source={node.body} style={{ backgroundColor: 'transparent' }} />
+          </div>
+
+          {pendingChoice ? (
+            <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg space-y-3">
+              <div className="text-sm font-medium text-yellow-800">You chose: {pendingChoice.label}</div>
+              <div className="prose max-w-none">
+                <MarkdownPreview source={pendingChoice.consequence || ''} style={{ backgroundColor: 'transparent' }} />
+              </div>
+              <div className="text-right">
+                <button
+                  onClick={() => goTo({ node_id: nodeId, choice_id: pendingChoice.id }, pendingChoice.next)}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+                >
+                  Continue →
+                </button>
+              </div>
+            </div>
+          ) : node.type === 'choice' ? (
+            <div className="space-y-3">
+              {node.choices.map(choice => (
+                <button
+                  key={choice.id}
+                  onClick={() => handleChoice(choice)}
+                  className="w-full text-left p-3 border border-gray-200 rounded-lg hover:bg-blue-50 hover:border-blue-300 transition-colors"
+                >
+                  {choice.label}
+                </button>
+              ))}
+            </div>
+          ) : node.type === 'narrative' ? (
+            <div className="text-right">
+              <button
+                onClick={() => goTo({ node_id: nodeId }, node.next)}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+              >
+                Continue →
+              </button>
+            </div>
+          ) : null}
+
+          {!result && (
+            <HintPanel
+              hints={challenge.hints || []}
+              hintsUsed={hintsUsed}
+              penalty={challenge.hint_xp_penalty}
+              onReveal={() => setHintsUsed(prev => prev + 1)}
+              disabled={submitting}
+            />
+          )}
+
+          {submitting && <div className="text-sm text-gray-500">Saving your result...</div>}
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+              {error}
+            </div>
+          )}
+
+          {/* Outcome */}
+          {result && (
+            <div className="space-y-4">
+              <div className="bg-gradient-to-r from-blue-50 to-indigo-50 rounded-lg p-4">
+                <div className="flex items-center justify-between">
+                  <span className={`text-lg font-bold ${result.score >= PASSING_SCORE ? 'text-green-600' : 'text-orange-600'}`}>
+                    {result.score >= PASSING_SCORE ? 'Challenge Completed!' : 'Keep Learning!'} {result.score}%
+                  </span>
+                  <span className="text-lg font-bold text-blue-600">+{result.xpEarned} XP</span>
+                </div>
+              </div>
+
+              {solution.explanation && (
+                <div className="p-4 bg-gray-50 rounded-lg text-sm text-gray-700 whitespace-pre-wrap">
+                  {solution.explanation}
+                </div>
+              )}
+
+              <ScenarioPath content={content} path={path} />
+
+              <div className="flex gap-3 justify-center">
+                {result.score < 100 && !attemptsExhausted && (
+                  <button
+                    onClick={handleRestart}
+                    className="px-6 py-2 bg-orange-600 text-white rounded-md hover:bg-orange-700 transition-colors"
+                  >
+                    🔄 Try another path
+                  </button>
+                )}
+                {onNext && (
+                  <button
+                    onClick={onNext}
+                    className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors"
+                  >
+                    Continue →
+                  </button>
+                )}
+              </div>
+            </div>
+          )}
+
+          {result && pastAttempts.length > 0 && <AttemptHistory attempts={pastAttempts} />}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+// The decisions that led to the outcome
+function ScenarioPath({ content, path }: { content: ScenarioChallengeContent; path: ScenarioPathStep[] }) {
+  return (
+    <div>
+      <div className="text-sm font-medium text-gray-900 mb-2">Your path</div>
+      <ol className="list-decimal list-inside text-sm text-gray-700 space-y-1">
+        {path.map((step, index) => {
+          const stepNode = getScenarioNode(content, step.node_id)
+          const choice = stepNode?.type === 'choice' ? stepNode.choices.find(item => item.id === step.choice_id) : undefined
+          return (
+            <li key={index}>
+              {stepNode?.title || step.node_id}
+              {choice && <span className="text-gray-500"> → {choice.label}</span>}
+            </li>
+          )
+        })}
+      </ol>
+    </div>
+  )
+}
@@ -0,0 +1,70 @@
+'use client'
+
+import { useState } from 'react'
+import { useAuth } from '@/contexts/AuthContext'
+import { ContentService } from '@/lib/content'
+import { canSubmitForReview } from '@/lib/content-workflow'
+import type { ContentEntityType, ContentStatus } from '@/types/content'
+
+interface SubmitForReviewProps {
+  entityType: ContentEntityType
+  entity: { id: string; status: ContentStatus }
+  onSubmitted: () => void
+}
+
+// Lets content managers ask an admin to publish a draft; shows the waiting state once submitted
+export default function SubmitForReview({ entityType, entity, onSubmitted }: SubmitForReviewProps) {
+  const { userProfile } = useAuth()
+  const [note, setNote] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  if (entity.status === 'in_review') {
+    return (
+      <div className="p-3 bg-blue-50 border border-blue-200 rounded-md text-sm text-blue-800">
+        ⏳ Waiting for review. An admin will publish it or send it back with comments.
+      </div>
+    )
+  }
+
+  if (!userProfile || !canSubmitForReview(userProfile.role, entity.status)) {
+    return null
+  }
+
+  const handleSubmit = async () => {
+    setSubmitting(true)
+    setError(null)
+    try {
+      await ContentService.submitForReview(entityType, entity.id, note)
+      onSubmitted()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to submit for review')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="p-3 bg-gray-50 border border-gray-200 rounded-md space-y-2">
+      <div className="text-sm font-medium text-gray-700">Ready to publish?</div>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder="Note for the reviewer (optional)"
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          type="button"
+          onClick={handleSubmit}
+          disabled={submitting}
+          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          {submitting ? 'Submitting...' : 'Submit for Review'}
+        </button>
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  )
+}
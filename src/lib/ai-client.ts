@@ -0,0 +1,152 @@
+import { supabase } from './supabase'
+import type { ApiResponse } from '@/types/content'
+import type {
+  AIContentType,
+  AIStatusResponse,
+  GenerateContentRequest,
+  GradeAnswerRequest,
+  GradingCriterion,
+  GradingResult,
+  ImproveWritingRequest,
+  MetaDescriptionRequest,
+  RewriteRequest,
+  ScoreTextAnswerRequest,
+  SuggestImprovementsRequest,
+  SummarizeRequest
+} from '@/types/ai'
+
+export { AI_ROLES } from '@/types/ai'
+export type { AIRole } from '@/types/ai'
+
+// Browser-side AI client
+// Mirrors the AIService API but calls the /api/ai route handlers, so the OpenAI key never leaves the server
+export class AIClient {
+  private static availability: Promise<boolean> | null = null
+
+  private static async getAccessToken(): Promise<string | null> {
+    if (!supabase?.auth) {
+      return null
+    }
+
+    const { data } = await supabase.auth.getSession()
+    return data?.session?.access_token || null
+  }
+
+  private static async request<T>(endpoint: string, body?: unknown): Promise<T> {
+    const accessToken = await this.getAccessToken()
+    if (!accessToken) {
+      throw new Error('User not authenticated')
+    }
+
+    const response = await fetch(`/api/ai/${endpoint}`, {
+      method: body === undefined ? 'GET' : 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${accessToken}`
+      },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    })
+
+    let payload: ApiResponse<T> | null = null
+    try {
+      payload = await response.json()
+    } catch {
+      // Non-JSON responses are handled below
+    }
+
+    if (!response.ok || !payload?.success) {
+      throw new Error(payload?.error?.message || `AI request failed with status ${response.status}`)
+    }
+
+    return payload.data as T
+  }
+
+  // Check if AI service is available on the server (cached per page load)
+  static isAvailable(): Promise<boolean> {
+    if (!this.availability) {
+      this.availability = this.request<AIStatusResponse>('status')
+        .then(status => status.available)
+        .catch(error => {
+          console.warn('AI availability check failed:', error)
+          this.availability = null
+          return false
+        })
+    }
+
+    return this.availability
+  }
+
+  static async summarizeContent(content: string, maxLength: number = 200): Promise<string | null> {
+    try {
+      return await this.request<string | null>('summarize', { content, maxLength } satisfies SummarizeRequest)
+    } catch (error) {
+      console.error('Failed to summarize content:', error)
+      return null
+    }
+  }
+
+  static async rewriteForRole(content: string, role: string): Promise<string | null> {
+    try {
+      return await this.request<string | null>('rewrite', { content, role } satisfies RewriteRequest)
+    } catch (error) {
+      console.error('Failed to rewrite content:', error)
+      return null
+    }
+  }
+
+  static async improveWriting(content: string): Promise<string | null> {
+    try {
+      return await this.request<string | null>('improve', { content } satisfies ImproveWritingRequest)
+    } catch (error) {
+      console.error('Failed to improve writing:', error)
+      return null
+    }
+  }
+
+  static async generateContent(topic: string, role: string, contentType: AIContentType = 'lesson'): Promise<string | null> {
+    try {
+      return await this.request<string | null>('generate', { topic, role, contentType } satisfies GenerateContentRequest)
+    } catch (error) {
+      console.error('Failed to generate content:', error)
+      return null
+    }
+  }
+
+  static async generateMetaDescription(title: string, content: string): Promise<string | null> {
+    try {
+      return await this.request<string | null>('meta-description', { title, content } satisfies MetaDescriptionRequest)
+    } catch (error) {
+      console.error('Failed to generate meta description:', error)
+      return null
+    }
+  }
+
+  // Throws on failure so callers can fall back to non-AI scoring, like AIService.scoreTextAnswer
+  static scoreTextAnswer(
+    question: string,
+    userAnswer: string,
+    expectedAnswer: string,
+    rubric: string = 'Rate this answer on accuracy and completeness (0-100)'
+  ): Promise<number> {
+    return this.request<number>('score', { question, userAnswer, expectedAnswer, rubric } satisfies ScoreTextAnswerRequest)
+  }
+
+  // Structured per-criterion grading; throws on failure like scoreTextAnswer
+  static gradeAnswer(
+    question: string,
+    userAnswer: string,
+    expectedAnswer: string = '',
+    criteria?: GradingCriterion[]
+  ): Promise<GradingResult> {
+    return this.request<GradingResult>('grade', { question, userAnswer, expectedAnswer, criteria } satisfies GradeAnswerRequest)
+  }
+
+  static async suggestImprovements(content: string): Promise<string[] | null> {
+    try {
+      return await this.request<string[] | null>('suggest', { content } satisfies SuggestImprovementsRequest)
+    } catch (error) {
+      console.error('Failed to suggest improvements:', error)
+      return null
+    }
+  }
+}
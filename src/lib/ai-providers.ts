@@ -0,0 +1,248 @@
+import OpenAI from 'openai'
+
+// AI provider abstraction - AIService builds the prompts, providers turn them into text
+// Configure with AI_PROVIDER = 'openai' (default) | 'openai_compatible' | 'local'
+
+export type AITask =
+  | 'summarize'
+  | 'rewrite'
+  | 'improve'
+  | 'generate'
+  | 'meta_description'
+  | 'score'
+  | 'suggest'
+  | 'grade'
+
+export interface AIChatMessage {
+  role: 'system' | 'user'
+  content: string
+}
+
+export interface AICompletionRequest {
+  task: AITask
+  messages: AIChatMessage[]
+  maxTokens: number
+  temperature: number
+  // Raw task inputs, so providers that don't run a model can still respond sensibly
+  input: Record<string, string | number | undefined>
+  // Ask for JSON matching this schema when the provider supports structured output
+  responseFormat?: {
+    name: string
+    schema: Record<string, unknown>
+  }
+}
+
+export interface AIProvider {
+  readonly name: string
+  readonly model: string
+  complete(_request: AICompletionRequest): Promise<string | null>
+}
+
+export type AIProviderName = 'openai' | 'openai_compatible' | 'local'
+
+export const DEFAULT_AI_MODEL = 'gpt-4o'
+
+// Hosted OpenAI models
+export class OpenAIProvider implements AIProvider {
+  readonly name: string = 'openai'
+  readonly model: string
+  protected client: OpenAI
+  protected supportsJsonSchema: boolean = true
+
+  constructor(apiKey: string, model: string = DEFAULT_AI_MODEL, baseURL?: string) {
+    this.model = model
+    this.client = new OpenAI({ apiKey, baseURL })
+  }
+
+  async complete(request: AICompletionRequest): Promise<string | null> {
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages: request.messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      response_format: request.responseFormat && this.supportsJsonSchema
+        ? {
+            type: 'json_schema',
+            json_schema: {
+              name: request.responseFormat.name,
+              schema: request.responseFormat.schema,
+              strict: true
+            }
+          }
+        : undefined
+    })
+
+    return response.choices[0]?.message?.content?.trim() || null
+  }
+}
+
+// Self-hosted models behind an OpenAI-compatible API (vLLM, Ollama, LM Studio, ...)
+export class OpenAICompatibleProvider extends OpenAIProvider {
+  readonly name: string = 'openai_compatible'
+
+  constructor(baseURL: string, model: string, apiKey: string = 'not-needed') {
+    super(apiKey, model, baseURL)
+    // Structured output support varies between servers, so rely on the prompt and validate afterwards
+    this.supportsJsonSchema = false
+  }
+}
+
+// Deterministic offline provider for tests and local development - never touches the network
+export class LocalStubProvider implements AIProvider {
+  readonly name: string = 'local'
+  readonly model: string = 'local-stub'
+
+  complete(request: AICompletionRequest): Promise<string | null> {
+    return Promise.resolve(this.respond(request))
+  }
+
+  private respond(request: AICompletionRequest): string | null {
+    const input = request.input
+    const text = (key: string) => String(input[key] ?? '').trim()
+
+    switch (request.task) {
+      case 'summarize': {
+        const maxLength = Number(input.maxLength) || 200
+        const firstParagraph = stripMarkdown(text('content')).split(/\n\s*\n/)[0] || ''
+        return truncate(firstParagraph, maxLength) || null
+      }
+
+      case 'rewrite':
+        return `> Adapted for: ${text('role') || 'general'}\n\n${text('content')}`
+
+      case 'improve':
+        return text('content')
+          .split('\n')
+          .map(line => line.replace(/[ \t]+/g, ' ').trimEnd())
+          .join('\n')
+          .replace(/\n{3,}/g, '\n\n') || null
+
+      case 'generate': {
+        const topic = text('topic')
+        return [
+          `# ${topic}`,
+          '',
+          '## Introduction',
+          `An overview of ${topic} for ${text('role') || 'general'} readers.`,
+          '',
+          '## Key Concepts',
+          `- What ${topic} is`,
+          `- Why ${topic} matters`,
+          '',
+          '## Key Takeaways',
+          `- ${topic} in practice`
+        ].join('\n')
+      }
+
+      case 'meta_description':
+        return truncate(`${text('title')}: ${stripMarkdown(text('content')).replace(/\s+/g, ' ')}`, 155)
+
+      case 'score':
+        return String(scoreByOverlap(text('userAnswer'), text('expectedAnswer')))
+
+      case 'suggest': {
+        const content = text('content')
+        const suggestions: string[] = []
+        if (!/^#{1,6}\s/m.test(content)) {
+          suggestions.push('Add headings to break the lesson into scannable sections.')
+        }
+        if (!/^\s*[-*]\s/m.test(content)) {
+          suggestions.push('Summarize the key points as a bulleted list.')
+        }
+        if (!/example/i.test(content)) {
+          suggestions.push('Include a concrete, real-world example.')
+        }
+        suggestions.push('End with a short recap of the key takeaways.')
+        return JSON.stringify(suggestions)
+      }
+
+      case 'grade': {
+        const criteria: Array<{ name: string }> = JSON.parse(text('criteria') || '[]')
+        const score = scoreByOverlap(text('userAnswer'), text('expectedAnswer') || text('question'))
+        return JSON.stringify({
+          criteria: criteria.map(criterion => ({
+            criterion: criterion.name,
+            score,
+            feedback: `${criterion.name}: ${score >= 70 ? 'meets expectations' : 'needs more detail'}.`
+          })),
+          feedback: score >= 70
+            ? 'Your answer covers most of the expected points.'
+            : 'Your answer misses several of the expected points.',
+          strengths: score > 0 ? ['Addresses the question'] : [],
+          gaps: score < 100 ? ['Some expected points are missing'] : [],
+          confidence: 0.5
+        })
+      }
+
+      default:
+        return null
+    }
+  }
+}
+
+function stripMarkdown(value: string): string {
+  return value
+    .replace(/```[\s\S]*?```/g, '')
+    .replace(/^#{1,6}\s+/gm, '')
+    .replace(/[*_`>]/g, '')
+    .trim()
+}
+
+function truncate(value: string, maxLength: number): string {
+  if (value.length <= maxLength) {
+    return value
+  }
+  return `${value.slice(0, Math.max(0, maxLength - 3)).trimEnd()}...`
+}
+
+// Share of expected-answer words that appear in the user's answer, 0-100
+function scoreByOverlap(userAnswer: string, expectedAnswer: string): number {
+  const words = (value: string) => new Set(value.toLowerCase().match(/[a-z0-9]+/g) || [])
+  const expected = words(expectedAnswer)
+  if (expected.size === 0) {
+    return 0
+  }
+
+  const given = words(userAnswer)
+  let matched = 0
+  expected.forEach(word => {
+    if (given.has(word)) {
+      matched++
+    }
+  })
+
+  return Math.round((matched / expected.size) * 100)
+}
+
+// Build the provider configured through environment variables (server-side only)
+export function createAIProvider(): AIProvider | null {
+  const providerName = (process.env.AI_PROVIDER || 'openai') as AIProviderName
+  const model = process.env.AI_MODEL || DEFAULT_AI_MODEL
+
+  switch (providerName) {
+    case 'local':
+      return new LocalStubProvider()
+
+    case 'openai_compatible': {
+      const baseURL = process.env.AI_BASE_URL
+      if (!baseURL) {
+        console.warn('AI_BASE_URL not set for openai_compatible provider. AI features will be disabled.')
+        return null
+      }
+      return new OpenAICompatibleProvider(baseURL, model, process.env.AI_API_KEY || undefined)
+    }
+
+    case 'openai': {
+      const apiKey = process.env.OPENAI_API_KEY
+      if (!apiKey) {
+        console.warn('OpenAI API key not found. AI features will be disabled.')
+        return null
+      }
+      return new OpenAIProvider(apiKey, model)
+    }
+
+    default:
+      console.warn(`Unknown AI_PROVIDER "${providerName}". AI features will be disabled.`)
+      return null
+  }
+}
@@ -1,34 +1,37 @@
-import OpenAI from 'openai'
+import { createAIProvider } from './ai-providers'
+import type { AIProvider } from './ai-providers'
+import { DEFAULT_GRADING_CRITERIA, getGradingResultSchema, parseGradingResult } from './grading'
+import type { AIContentType, GradingCriterion, GradingResult } from '@/types/ai'
 
 // AI Service for content generation and editing
+// Server-only: browser code must go through AIClient, which calls the /api/ai routes
 export class AIService {
-  private static client: OpenAI | null = null
+  // undefined until resolved; null once resolved to "AI not configured", so that is only reported once
+  private static provider: AIProvider | null | undefined = undefined
 
-  // Initialize OpenAI client
-  private static initClient(): OpenAI | null {
-    try {
-      // Only use server-side API key - NEVER expose to client
-      const apiKey = process.env.OPENAI_API_KEY // Remove NEXT_PUBLIC_ prefix
-
-      if (!apiKey) {
-        console.warn('OpenAI API key not found. AI features will be disabled.')
-        return null
-      }
-
-      this.client = new OpenAI({
-        apiKey,
-      })
+  // Resolve the configured AI provider (OpenAI, OpenAI-compatible or local stub)
+  private static getProvider(): AIProvider | null {
+    if (this.provider !== undefined) {
+      return this.provider
+    }
 
-      return this.client
+    try {
+      this.provider = createAIProvider()
     } catch (error) {
-      console.error('Failed to initialize OpenAI client:', error)
-      return null
+      console.error('Failed to initialize AI provider:', error)
+      this.provider = null
     }
+    return this.provider
+  }
+
+  // Override the provider, e.g. with LocalStubProvider in tests or offline scripts
+  static setProvider(provider: AIProvider | null): void {
+    this.provider = provider
   }
 
   // Check if AI service is available
   static isAvailable(): boolean {
-    return this.initClient() !== null
+    return this.getProvider() !== null
   }
 
   // Role-based persona prompts for different target audiences
@@ -47,12 +50,13 @@ export class AIService {
 
   // Summarize content
   static async summarizeContent(content: string, maxLength: number = 200): Promise<string | null> {
-    const client = this.initClient()
-    if (!client) return null
+    const provider = this.getProvider()
+    if (!provider) return null
 
     try {
-      const response = await client.chat.completions.create({
-        model: 'gpt-4o',
+      const result = await provider.complete({
+        task: 'summarize',
+        input: { content, maxLength },
         messages: [
           {
             role: 'system',
@@ -63,11 +67,11 @@ export class AIService {
             content: `Please summarize this content:\n\n${content}`
           }
         ],
-        max_tokens: Math.floor(maxLength / 2), // Rough estimate for token limit
+        maxTokens: Math.floor(maxLength / 2), // Rough estimate for token limit
         temperature: 0.3
       })
 
-      return response.choices[0]?.message?.content?.trim() || null
+      return result
     } catch (error) {
       console.error('Failed to summarize content:', error)
       return null
@@ -76,14 +80,15 @@ export class AIService {
 
   // Rewrite content for specific role/audience
   static async rewriteForRole(content: string, role: string): Promise<string | null> {
-    const client = this.initClient()
-    if (!client) return null
+    const provider = this.getProvider()
+    if (!provider) return null
 
     try {
       const persona = this.getRolePersona(role)
       
-      const response = await client.chat.completions.create({
-        model: 'gpt-4o',
+      const result = await provider.complete({
+        task: 'rewrite',
+        input: { content, role },
         messages: [
           {
             role: 'system',
@@ -94,11 +99,11 @@ export class AIService {
             content: content
           }
         ],
-        max_tokens: 2000,
+        maxTokens: 2000,
         temperature: 0.4
       })
 
-      return response.choices[0]?.message?.content?.trim() || null
+      return result
     } catch (error) {
       console.error('Failed to rewrite content:', error)
       return null
@@ -107,12 +112,13 @@ export class AIService {
 
   // Improve writing quality and clarity
   static async improveWriting(content: string): Promise<string | null> {
-    const client = this.initClient()
-    if (!client) return null
+    const provider = this.getProvider()
+    if (!provider) return null
 
     try {
-      const response = await client.chat.completions.create({
-        model: 'gpt-4o',
+      const result = await provider.complete({
+        task: 'improve',
+        input: { content },
         messages: [
           {
             role: 'system',
@@ -123,11 +129,11 @@ export class AIService {
             content: content
           }
         ],
-        max_tokens: 2000,
+        maxTokens: 2000,
         temperature: 0.3
       })
 
-      return response.choices[0]?.message?.content?.trim() || null
+      return result
     } catch (error) {
       console.error('Failed to improve writing:', error)
       return null
@@ -135,9 +141,9 @@ export class AIService {
   }
 
   // Generate content based on a topic and role
-  static async generateContent(topic: string, role: string, contentType: 'lesson' | 'module' | 'course' = 'lesson'): Promise<string | null> {
-    const client = this.initClient()
-    if (!client) return null
+  static async generateContent(topic: string, role: string, contentType: AIContentType = 'lesson'): Promise<string | null> {
+    const provider = this.getProvider()
+    if (!provider) return null
 
     try {
       const persona = this.getRolePersona(role)
@@ -148,8 +154,9 @@ export class AIService {
         'course': 'Create a course overview that outlines the learning objectives, target audience, and module structure.'
       }
 
-      const response = await client.chat.completions.create({
-        model: 'gpt-4o',
+      const result = await provider.complete({
+        task: 'generate',
+        input: { topic, role, contentType },
         messages: [
           {
             role: 'system',
@@ -160,11 +167,11 @@ export class AIService {
             content: `Create content about: ${topic}`
           }
         ],
-        max_tokens: 2500,
+        maxTokens: 2500,
         temperature: 0.6
       })
 
-      return response.choices[0]?.message?.content?.trim() || null
+      return result
     } catch (error) {
       console.error('Failed to generate content:', error)
       return null
@@ -173,12 +180,13 @@ export class AIService {
 
   // Generate meta description for SEO
   static async generateMetaDescription(title: string, content: string): Promise<string | null> {
-    const client = this.initClient()
-    if (!client) return null
+    const provider = this.getProvider()
+    if (!provider) return null
 
     try {
-      const response = await client.chat.completions.create({
-        model: 'gpt-4o',
+      const result = await provider.complete({
+        task: 'meta_description',
+        input: { title, content },
         messages: [
           {
             role: 'system',
@@ -189,11 +197,11 @@ export class AIService {
             content: `Title: ${title}\n\nContent summary: ${content.substring(0, 500)}...`
           }
         ],
-        max_tokens: 100,
+        maxTokens: 100,
         temperature: 0.3
       })
 
-      return response.choices[0]?.message?.content?.trim() || null
+      return result
     } catch (error) {
       console.error('Failed to generate meta description:', error)
       return null
@@ -207,14 +215,15 @@ export class AIService {
     expectedAnswer: string, 
     rubric: string = 'Rate this answer on accuracy and completeness (0-100)'
   ): Promise<number> {
-    const client = this.initClient()
-    if (!client) {
+    const provider = this.getProvider()
+    if (!provider) {
       throw new Error('AI service not available')
     }
 
     try {
-      const response = await client.chat.completions.create({
-        model: 'gpt-4o',
+      const result = await provider.complete({
+        task: 'score',
+        input: { question, userAnswer, expectedAnswer, rubric },
         messages: [
           {
             role: 'system',
@@ -241,11 +250,11 @@ Rubric: ${rubric}
 Score (0-100):`
           }
         ],
-        max_tokens: 50,
+        maxTokens: 50,
         temperature: 0.1 // Low temperature for consistent scoring
       })
 
-      const scoreText = response.choices[0]?.message?.content?.trim() || '0'
+      const scoreText = result || '0'
       const score = parseInt(scoreText.replace(/[^0-9]/g, '')) || 0
       
       // Ensure score is within valid range
@@ -256,14 +265,80 @@ Score (0-100):`
     }
   }
 
+  // Grade a free-text answer per rubric criterion with written feedback
+  static async gradeAnswer(
+    question: string,
+    userAnswer: string,
+    expectedAnswer: string = '',
+    criteria: GradingCriterion[] = DEFAULT_GRADING_CRITERIA
+  ): Promise<GradingResult> {
+    const provider = this.getProvider()
+    if (!provider) {
+      throw new Error('AI service not available')
+    }
+
+    const rubricText = criteria
+      .map(criterion => `- ${criterion.name}${criterion.weight !== undefined ? ` (weight ${criterion.weight})` : ''}${criterion.description ? `: ${criterion.description}` : ''}`)
+      .join('\n')
+
+    try {
+      const result = await provider.complete({
+        task: 'grade',
+        input: { question, userAnswer, expectedAnswer, criteria: JSON.stringify(criteria) },
+        messages: [
+          {
+            role: 'system',
+            content: `You are an expert educator grading a learner's answer. Score each rubric criterion from 0-100 and explain the score in one or two sentences addressed to the learner.
+
+Respond ONLY with JSON of this shape:
+{
+  "criteria": [{ "criterion": string, "score": number, "feedback": string }],
+  "feedback": string, // overall feedback for the learner
+  "strengths": string[], // what the answer does well
+  "gaps": string[], // what is missing or incorrect
+  "confidence": number // 0-1, how confident you are in this grade
+}
+
+Include every rubric criterion exactly once, using the criterion names as given. Be fair but thorough.`
+          },
+          {
+            role: 'user',
+            content: `Question: ${question}
+
+${expectedAnswer ? `Expected Answer: ${expectedAnswer}\n\n` : ''}User's Answer: ${userAnswer}
+
+Rubric criteria:
+${rubricText}`
+          }
+        ],
+        maxTokens: 800,
+        temperature: 0.1, // Low temperature for consistent grading
+        responseFormat: {
+          name: 'grading_result',
+          schema: getGradingResultSchema(criteria)
+        }
+      })
+
+      if (!result) {
+        throw new Error('AI grader returned no result')
+      }
+
+      return parseGradingResult(result, criteria)
+    } catch (error) {
+      console.error('Failed to grade answer:', error)
+      throw error
+    }
+  }
+
   // Suggest lesson improvements
   static async suggestImprovements(content: string): Promise<string[] | null> {
-    const client = this.initClient()
-    if (!client) return null
+    const provider = this.getProvider()
+    if (!provider) return null
 
     try {
-      const response = await client.chat.completions.create({
-        model: 'gpt-4o',
+      const result = await provider.complete({
+        task: 'suggest',
+        input: { content },
         messages: [
           {
             role: 'system',
@@ -274,11 +349,11 @@ Score (0-100):`
             content: content
           }
         ],
-        max_tokens: 500,
+        maxTokens: 500,
         temperature: 0.4
       })
 
-      const suggestions = response.choices[0]?.message?.content?.trim()
+      const suggestions = result
       if (!suggestions) return null
 
       try {
@@ -294,14 +369,6 @@ Score (0-100):`
   }
 }
 
-// Export available roles for UI
-export const AI_ROLES = [
-  { value: 'coo', label: 'COO (Operations Focus)' },
-  { value: 'product_manager', label: 'Product Manager' },
-  { value: 'project_manager', label: 'Project Manager' },
-  { value: 'founder', label: 'Founder/CEO' },
-  { value: 'delivery_director', label: 'Delivery Director' },
-  { value: 'general', label: 'General Business Professional' }
-] as const
-
-export type AIRole = typeof AI_ROLES[number]['value'] 
\ No newline at end of file
+// Re-export roles so existing server-side imports keep working
+export { AI_ROLES } from '@/types/ai'
+export type { AIRole } from '@/types/ai'
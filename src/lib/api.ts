@@ -0,0 +1,153 @@
+import { timingSafeEqual } from 'crypto'
+import { createClient } from '@supabase/supabase-js'
+import { NextResponse } from 'next/server'
+import type { NextRequest } from 'next/server'
+import type { UserRole } from '@/types/auth'
+import type { ApiResponse } from '@/types/content'
+
+// Server-side helpers for Next.js route handlers under src/app/api
+
+export interface AuthenticatedUser {
+  id: string
+  role: UserRole
+}
+
+export type AuthResult =
+  | { user: AuthenticatedUser; error?: never }
+  | { user?: never; error: NextResponse<ApiResponse<never>> }
+
+// Roles allowed to use authoring tools
+export const CONTENT_EDITOR_ROLES: UserRole[] = ['admin', 'content_manager']
+
+// Every signed-in role
+export const ALL_ROLES: UserRole[] = ['admin', 'content_manager', 'user']
+
+export function apiSuccess<T>(data: T, status: number = 200): NextResponse<ApiResponse<T>> {
+  return NextResponse.json({ success: true, data }, { status })
+}
+
+export function apiError(status: number, code: string, message: string): NextResponse<ApiResponse<never>> {
+  return NextResponse.json({ success: false, error: { code, message } }, { status })
+}
+
+// Parse a JSON request body, returning null when it is missing or malformed
+export async function readJsonBody<T>(request: NextRequest): Promise<Partial<T> | null> {
+  try {
+    const body = await request.json()
+    return body && typeof body === 'object' ? body : null
+  } catch {
+    return null
+  }
+}
+
+// Create a Supabase client that acts on behalf of the caller so RLS still applies
+export function createRequestClient(accessToken: string) {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+
+  if (!supabaseUrl || !supabaseAnonKey) {
+    return null
+  }
+
+  return createClient(supabaseUrl, supabaseAnonKey, {
+    global: {
+      headers: { Authorization: `Bearer ${accessToken}` }
+    },
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false
+    }
+  })
+}
+
+// Create a Supabase client with the service role key for server jobs; it bypasses RLS,
+// so only use it in routes that are not reachable by regular users or that check the
+// caller and write only on their behalf (e.g. recording their graded attempts)
+export function createServiceClient() {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!supabaseUrl || !serviceRoleKey) {
+    return null
+  }
+
+  return createClient(supabaseUrl, serviceRoleKey, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false
+    }
+  })
+}
+
+function getBearerToken(request: NextRequest): string | null {
+  const header = request.headers.get('authorization')
+  if (!header?.toLowerCase().startsWith('bearer ')) {
+    return null
+  }
+
+  const token = header.slice(7).trim()
+  return token.length > 0 ? token : null
+}
+
+// Verify the caller's Supabase session and check their role
+export async function authenticateRequest(
+  request: NextRequest,
+  allowedRoles: UserRole[] = ALL_ROLES
+): Promise<AuthResult> {
+  const accessToken = getBearerToken(request)
+  if (!accessToken) {
+    return { error: apiError(401, 'UNAUTHENTICATED', 'Authentication required') }
+  }
+
+  const client = createRequestClient(accessToken)
+  if (!client) {
+    return { error: apiError(503, 'DATABASE_UNAVAILABLE', 'Database connection not available') }
+  }
+
+  try {
+    const { data: userData, error: userError } = await client.auth.getUser(accessToken)
+    if (userError || !userData.user) {
+      return { error: apiError(401, 'UNAUTHENTICATED', 'Invalid or expired session') }
+    }
+
+    const { data: profile, error: profileError } = await client
+      .from('user_profiles')
+      .select('role')
+      .eq('id', userData.user.id)
+      .maybeSingle()
+
+    if (profileError || !profile) {
+      return { error: apiError(403, 'FORBIDDEN', 'User profile not found') }
+    }
+
+    const role = profile.role as UserRole
+    if (!allowedRoles.includes(role)) {
+      return { error: apiError(403, 'FORBIDDEN', 'You do not have permission to perform this action') }
+    }
+
+    return { user: { id: userData.user.id, role } }
+  } catch (error) {
+    console.error('Failed to authenticate API request:', error)
+    return { error: apiError(500, 'AUTH_FAILED', 'Failed to verify session') }
+  }
+}
+
+// Check that a scheduled job was called with the CRON_SECRET bearer token
+export function authenticateCronRequest(request: NextRequest): NextResponse<ApiResponse<never>> | null {
+  const cronSecret = process.env.CRON_SECRET
+  if (!cronSecret) {
+    return apiError(503, 'CRON_NOT_CONFIGURED', 'CRON_SECRET is not set')
+  }
+
+  const token = Buffer.from(getBearerToken(request) ?? '')
+  const secret = Buffer.from(cronSecret)
+  if (token.length !== secret.length || !timingSafeEqual(token, secret)) {
+    return apiError(401, 'UNAUTHENTICATED', 'Invalid cron secret')
+  }
+
+  return null
+}
+
+export function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0
+}
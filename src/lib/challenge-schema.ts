@@ -0,0 +1,587 @@
+import type {
+  ChallengePayload,
+  ChallengeType,
+  CodeChallengeContent,
+  CodeChallengeSolution,
+  CodeLanguage,
+  DifficultyLevel,
+  EssayChallengeContent,
+  EssayChallengeSolution,
+  QuizAnswerValue,
+  QuizChallengeContent,
+  QuizChallengeSolution,
+  QuizQuestion,
+  QuestionBankSource,
+  QuestionType,
+  ScenarioChallengeContent,
+  ScenarioChallengeSolution,
+  ScenarioNode,
+  ScenarioNodeType,
+  ScoringStrategy
+} from '@/types/content'
+import { CLOZE_BLANK, SCORING_STRATEGIES, splitClozeText } from './quiz-scoring'
+import { getScenarioIssues } from './scenario'
+
+// Runtime validation for challenge content/solution JSONB
+// Shared by ContentService (create/update) and ChallengeForm (pre-submit checks)
+
+export const CHALLENGE_TYPES: ChallengeType[] = ['quiz', 'multiple_choice', 'code', 'essay', 'scenario']
+export const SCENARIO_NODE_TYPES: ScenarioNodeType[] = ['narrative', 'choice', 'outcome']
+export const QUESTION_TYPES: QuestionType[] = ['single_choice', 'multiple_choice', 'open_text', 'drag_drop', 'cloze', 'numeric', 'matching']
+export const CODE_LANGUAGES: CodeLanguage[] = ['javascript', 'typescript']
+export const DIFFICULTY_LEVELS: DifficultyLevel[] = ['beginner', 'intermediate', 'advanced']
+
+function invalid(field: string, message: string): never {
+  throw new Error(`Invalid challenge ${field}: ${message}`)
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function requireObject(value: unknown, field: string): Record<string, any> {
+  if (!isObject(value)) {
+    invalid(field, 'must be an object')
+  }
+  return value
+}
+
+function requireString(value: unknown, field: string, allowEmpty: boolean = false): string {
+  if (typeof value !== 'string' || (!allowEmpty && value.trim() === '')) {
+    invalid(field, allowEmpty ? 'must be a string' : 'is required')
+  }
+  return value
+}
+
+function optionalString(value: unknown, field: string): string | undefined {
+  if (value === undefined || value === null) {
+    return undefined
+  }
+  return requireString(value, field, true)
+}
+
+function requireStringArray(value: unknown, field: string, minLength: number = 0): string[] {
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+    invalid(field, 'must be a list of strings')
+  }
+  if (value.length < minLength) {
+    invalid(field, `needs at least ${minLength} item${minLength === 1 ? '' : 's'}`)
+  }
+  return value
+}
+
+function requireNonNegativeInteger(value: unknown, field: string): number {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+    invalid(field, 'must be a non-negative whole number')
+  }
+  return value
+}
+
+function requireOptionIndex(value: unknown, optionCount: number, field: string): number {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0 || value >= optionCount) {
+    invalid(field, `must be an option index between 0 and ${optionCount - 1}`)
+  }
+  return value
+}
+
+// ============================================================================
+// QUIZ / MULTIPLE CHOICE
+// ============================================================================
+
+function optionalPoints(value: unknown, field: string): number | undefined {
+  if (value === undefined || value === null) {
+    return undefined
+  }
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+    invalid(field, 'must be a positive number')
+  }
+  return value
+}
+
+function optionalScoringStrategy(value: unknown, type: QuestionType, field: string): ScoringStrategy | undefined {
+  if (value === undefined || value === null) {
+    return undefined
+  }
+  const allowed = SCORING_STRATEGIES[type]
+  if (!allowed.includes(value as ScoringStrategy)) {
+    invalid(field, `must be one of: ${allowed.join(', ')}`)
+  }
+  return value as ScoringStrategy
+}
+
+function validateQuestion(value: unknown, field: string): QuizQuestion {
+  const question = requireObject(value, field)
+
+  if (!QUESTION_TYPES.includes(question.type)) {
+    invalid(`${field}.type`, `must be one of: ${QUESTION_TYPES.join(', ')}`)
+  }
+
+  const base = {
+    id: requireString(question.id, `${field}.id`),
+    question: requireString(question.question, `${field}.question`),
+    image_url: optionalString(question.image_url, `${field}.image_url`),
+    explanation: optionalString(question.explanation, `${field}.explanation`),
+    points: optionalPoints(question.points, `${field}.points`),
+    scoring: optionalScoringStrategy(question.scoring, question.type, `${field}.scoring`)
+  }
+
+  switch (question.type as QuestionType) {
+    case 'single_choice':
+    case 'multiple_choice': {
+      const options = requireStringArray(question.options, `${field}.options`, 2)
+      const optionExplanations = question.option_explanations === undefined
+        ? undefined
+        : requireStringArray(question.option_explanations, `${field}.option_explanations`)
+      if (optionExplanations && optionExplanations.length !== options.length) {
+        invalid(`${field}.option_explanations`, 'needs one entry per option')
+      }
+      return {
+        ...base,
+        type: question.type,
+        options,
+        option_explanations: optionExplanations
+      }
+    }
+
+    case 'open_text':
+      return {
+        ...base,
+        type: 'open_text',
+        rubric: optionalString(question.rubric, `${field}.rubric`),
+        criteria: question.criteria === undefined ? undefined : requireStringArray(question.criteria, `${field}.criteria`)
+      }
+
+    case 'drag_drop':
+      return {
+        ...base,
+        type: 'drag_drop',
+        items: requireStringArray(question.items, `${field}.items`, 1),
+        zones: requireStringArray(question.zones, `${field}.zones`, 1)
+      }
+
+    case 'cloze': {
+      const text = requireString(question.text, `${field}.text`)
+      if (splitClozeText(text).length < 2) {
+        invalid(`${field}.text`, `needs at least one ${CLOZE_BLANK}`)
+      }
+      if (question.case_sensitive !== undefined && typeof question.case_sensitive !== 'boolean') {
+        invalid(`${field}.case_sensitive`, 'must be true or false')
+      }
+      return {
+        ...base,
+        type: 'cloze',
+        text,
+        case_sensitive: question.case_sensitive
+      }
+    }
+
+    case 'numeric':
+      return {
+        ...base,
+        type: 'numeric',
+        unit: optionalString(question.unit, `${field}.unit`)
+      }
+
+    case 'matching': {
+      const left = requireStringArray(question.left, `${field}.left`, 1)
+      const right = requireStringArray(question.right, `${field}.right`, 1)
+      if (new Set(left).size !== left.length) {
+        invalid(`${field}.left`, 'entries must be unique')
+      }
+      return {
+        ...base,
+        type: 'matching',
+        left,
+        right
+      }
+    }
+  }
+}
+
+function validateAnswer(question: QuizQuestion, value: unknown, field: string): QuizAnswerValue {
+  switch (question.type) {
+    case 'single_choice':
+      return requireOptionIndex(value, question.options.length, field)
+
+    case 'multiple_choice': {
+      if (!Array.isArray(value) || value.length === 0) {
+        invalid(field, 'must list at least one correct option index')
+      }
+      return value.map((item, itemIndex) => requireOptionIndex(item, question.options.length, `${field}[${itemIndex}]`))
+    }
+
+    case 'open_text':
+      return requireString(value, field, true)
+
+    case 'drag_drop': {
+      const mapping = requireObject(value, field)
+      for (const [zone, item] of Object.entries(mapping)) {
+        if (!question.zones.includes(zone)) {
+          invalid(field, `unknown zone "${zone}"`)
+        }
+        if (typeof item !== 'string' || !question.items.includes(item)) {
+          invalid(field, `zone "${zone}" must map to one of the question's items`)
+        }
+      }
+      return mapping as Record<string, string>
+    }
+
+    case 'cloze': {
+      const blankCount = splitClozeText(question.text).length - 1
+      if (!Array.isArray(value) || value.length !== blankCount) {
+        invalid(field, `must list accepted answers for each of the ${blankCount} blank${blankCount === 1 ? '' : 's'}`)
+      }
+      return value.map((accepted, blankIndex) => requireStringArray(accepted, `${field}[${blankIndex}]`, 1))
+    }
+
+    case 'numeric': {
+      const expected = requireObject(value, field)
+      if (typeof expected.value !== 'number' || !Number.isFinite(expected.value)) {
+        invalid(`${field}.value`, 'must be a number')
+      }
+      if (expected.tolerance !== undefined && (typeof expected.tolerance !== 'number' || expected.tolerance < 0)) {
+        invalid(`${field}.tolerance`, 'must be a non-negative number')
+      }
+      if (expected.tolerance_type !== undefined && !['absolute', 'relative'].includes(expected.tolerance_type)) {
+        invalid(`${field}.tolerance_type`, 'must be absolute or relative')
+      }
+      return {
+        value: expected.value,
+        tolerance: expected.tolerance,
+        tolerance_type: expected.tolerance_type
+      }
+    }
+
+    case 'matching': {
+      const pairs = requireObject(value, field)
+      for (const entry of question.left) {
+        const match = pairs[entry]
+        if (typeof match !== 'string' || !question.right.includes(match)) {
+          invalid(field, `"${entry}" must be matched to one of the right-hand entries`)
+        }
+      }
+      for (const entry of Object.keys(pairs)) {
+        if (!question.left.includes(entry)) {
+          invalid(field, `unknown left-hand entry "${entry}"`)
+        }
+      }
+      return pairs as Record<string, string>
+    }
+  }
+}
+
+function validateQuestionBankSource(value: unknown): QuestionBankSource {
+  const field = 'content.question_bank'
+  const source = requireObject(value, field)
+
+  const drawCount = requireNonNegativeInteger(source.draw_count, `${field}.draw_count`)
+  if (drawCount === 0) {
+    invalid(`${field}.draw_count`, 'must draw at least one question')
+  }
+
+  const difficulty = source.difficulty === undefined ? undefined : requireStringArray(source.difficulty, `${field}.difficulty`)
+  if (difficulty?.some(level => !DIFFICULTY_LEVELS.includes(level as DifficultyLevel))) {
+    invalid(`${field}.difficulty`, `must only contain: ${DIFFICULTY_LEVELS.join(', ')}`)
+  }
+
+  if (source.shuffle_options !== undefined && typeof source.shuffle_options !== 'boolean') {
+    invalid(`${field}.shuffle_options`, 'must be true or false')
+  }
+
+  return {
+    bank_id: requireString(source.bank_id, `${field}.bank_id`),
+    draw_count: drawCount,
+    tags: source.tags === undefined ? undefined : requireStringArray(source.tags, `${field}.tags`),
+    difficulty: difficulty as DifficultyLevel[] | undefined,
+    shuffle_options: source.shuffle_options
+  }
+}
+
+function validateQuizPayload(content: unknown, solution: unknown): { content: QuizChallengeContent; solution: QuizChallengeSolution } {
+  const contentObject = requireObject(content, 'content')
+  const solutionObject = requireObject(solution, 'solution')
+
+  // Bank-based quizzes draw their questions per attempt, so there is no fixed list to check
+  if (contentObject.question_bank !== undefined) {
+    return {
+      content: { ...contentObject, questions: [], question_bank: validateQuestionBankSource(contentObject.question_bank) },
+      solution: {
+        ...solutionObject,
+        answers: [],
+        explanation: optionalString(solutionObject.explanation, 'solution.explanation')
+      }
+    }
+  }
+
+  if (!Array.isArray(contentObject.questions) || contentObject.questions.length === 0) {
+    invalid('content.questions', 'needs at least one question')
+  }
+
+  const questions: QuizQuestion[] = contentObject.questions.map((question: unknown, index: number) =>
+    validateQuestion(question, `content.questions[${index}]`)
+  )
+  const ids = new Set<string>()
+  questions.forEach((question, index) => {
+    if (ids.has(question.id)) {
+      invalid(`content.questions[${index}].id`, `duplicate question id "${question.id}"`)
+    }
+    ids.add(question.id)
+  })
+
+  if (!Array.isArray(solutionObject.answers) || solutionObject.answers.length !== questions.length) {
+    invalid('solution.answers', `must have one answer per question (${questions.length})`)
+  }
+
+  return {
+    content: { ...contentObject, questions },
+    solution: {
+      ...solutionObject,
+      answers: questions.map((question, index) => validateAnswer(question, solutionObject.answers[index], `solution.answers[${index}]`)),
+      explanation: optionalString(solutionObject.explanation, 'solution.explanation')
+    }
+  }
+}
+
+// ============================================================================
+// CODE
+// ============================================================================
+
+function validateFunctionName(value: unknown): string | undefined {
+  const name = optionalString(value, 'content.function_name')
+  if (name && !/^[A-Za-z_$][\w$]*$/.test(name)) {
+    invalid('content.function_name', 'must be a valid JavaScript identifier')
+  }
+  return name || undefined
+}
+
+function validateCodePayload(content: unknown, solution: unknown): { content: CodeChallengeContent; solution: CodeChallengeSolution } {
+  const contentObject = requireObject(content, 'content')
+  const solutionObject = requireObject(solution, 'solution')
+
+  if (!CODE_LANGUAGES.includes(contentObject.language)) {
+    invalid('content.language', `must be one of: ${CODE_LANGUAGES.join(', ')}`)
+  }
+
+  if (!Array.isArray(contentObject.test_cases) || contentObject.test_cases.length === 0) {
+    invalid('content.test_cases', 'needs at least one test case')
+  }
+
+  return {
+    content: {
+      ...contentObject,
+      problem_statement: requireString(contentObject.problem_statement, 'content.problem_statement'),
+      starter_code: requireString(contentObject.starter_code, 'content.starter_code', true),
+      language: contentObject.language,
+      function_name: validateFunctionName(contentObject.function_name),
+      test_cases: contentObject.test_cases.map((value: unknown, index: number) => {
+        const field = `content.test_cases[${index}]`
+        const testCase = requireObject(value, field)
+        return {
+          ...testCase,
+          input: requireString(testCase.input, `${field}.input`, true),
+          expected_output: requireString(testCase.expected_output, `${field}.expected_output`, true),
+          description: optionalString(testCase.description, `${field}.description`)
+        }
+      })
+    },
+    solution: {
+      ...solutionObject,
+      solution_code: requireString(solutionObject.solution_code, 'solution.solution_code', true),
+      explanation: optionalString(solutionObject.explanation, 'solution.explanation')
+    }
+  }
+}
+
+// ============================================================================
+// ESSAY
+// ============================================================================
+
+function validateEssayPayload(content: unknown, solution: unknown): { content: EssayChallengeContent; solution: EssayChallengeSolution } {
+  const contentObject = requireObject(content, 'content')
+  const solutionObject = requireObject(solution, 'solution')
+
+  const minWords = requireNonNegativeInteger(contentObject.min_words, 'content.min_words')
+  const maxWords = requireNonNegativeInteger(contentObject.max_words, 'content.max_words')
+  if (maxWords === 0 || maxWords < minWords) {
+    invalid('content.max_words', 'must be greater than zero and at least min_words')
+  }
+
+  const criteria = requireStringArray(contentObject.criteria, 'content.criteria', 1)
+  const rubric = requireObject(solutionObject.rubric, 'solution.rubric')
+  for (const criterion of criteria) {
+    if (typeof rubric[criterion] !== 'string') {
+      invalid('solution.rubric', `needs a description for criterion "${criterion}"`)
+    }
+  }
+
+  return {
+    content: {
+      ...contentObject,
+      prompt: requireString(contentObject.prompt, 'content.prompt'),
+      min_words: minWords,
+      max_words: maxWords,
+      criteria
+    },
+    solution: {
+      ...solutionObject,
+      sample_answer: optionalString(solutionObject.sample_answer, 'solution.sample_answer'),
+      rubric: rubric as Record<string, string>
+    }
+  }
+}
+
+// ============================================================================
+// SCENARIO
+// ============================================================================
+
+function validateScenarioNode(value: unknown, field: string): ScenarioNode {
+  const node = requireObject(value, field)
+
+  if (!SCENARIO_NODE_TYPES.includes(node.type)) {
+    invalid(`${field}.type`, `must be one of: ${SCENARIO_NODE_TYPES.join(', ')}`)
+  }
+
+  const base = {
+    id: requireString(node.id, `${field}.id`),
+    title: optionalString(node.title, `${field}.title`),
+    body: requireString(node.body, `${field}.body`, true)
+  }
+
+  switch (node.type as ScenarioNodeType) {
+    case 'narrative':
+      return { ...base, type: 'narrative', next: requireString(node.next, `${field}.next`) }
+
+    case 'choice': {
+      if (!Array.isArray(node.choices)) {
+        invalid(`${field}.choices`, 'must be a list')
+      }
+      return {
+        ...base,
+        type: 'choice',
+        choices: node.choices.map((item: unknown, index: number) => {
+          const choice = requireObject(item, `${field}.choices[${index}]`)
+          return {
+            id: requireString(choice.id, `${field}.choices[${index}].id`),
+            label: requireString(choice.label, `${field}.choices[${index}].label`),
+            next: requireString(choice.next, `${field}.choices[${index}].next`),
+            consequence: optionalString(choice.consequence, `${field}.choices[${index}].consequence`)
+          }
+        })
+      }
+    }
+
+    case 'outcome':
+      if (typeof node.score !== 'number') {
+        invalid(`${field}.score`, 'must be a number between 0 and 100')
+      }
+      return { ...base, type: 'outcome', score: node.score }
+  }
+}
+
+function validateScenarioPayload(content: unknown, solution: unknown): { content: ScenarioChallengeContent; solution: ScenarioChallengeSolution } {
+  const contentObject = requireObject(content, 'content')
+  const solutionObject = solution === undefined || solution === null ? {} : requireObject(solution, 'solution')
+
+  if (!Array.isArray(contentObject.nodes)) {
+    invalid('content.nodes', 'must be a list')
+  }
+
+  const scenario: ScenarioChallengeContent = {
+    ...contentObject,
+    start_node: requireString(contentObject.start_node, 'content.start_node'),
+    nodes: contentObject.nodes.map((node: unknown, index: number) => validateScenarioNode(node, `content.nodes[${index}]`))
+  }
+
+  const issues = getScenarioIssues(scenario)
+  if (issues.length > 0) {
+    invalid('content.nodes', issues.join('; '))
+  }
+
+  return {
+    content: scenario,
+    solution: {
+      ...solutionObject,
+      explanation: optionalString(solutionObject.explanation, 'solution.explanation')
+    }
+  }
+}
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+// Validate a question bank item; items use the same question/answer shapes as quiz challenges
+export function validateQuestionBankItem(question: unknown, answer: unknown): { question: QuizQuestion; answer: QuizAnswerValue } {
+  const validated = validateQuestion(question, 'question')
+  return { question: validated, answer: validateAnswer(validated, answer, 'answer') }
+}
+
+/**
+ * Validate challenge content/solution for the given type.
+ * Returns the typed payload or throws an Error naming the offending field.
+ */
+export function validateChallengePayload(challengeType: unknown, content: unknown, solution: unknown): ChallengePayload {
+  switch (challengeType) {
+    case 'quiz':
+    case 'multiple_choice':
+      return { challenge_type: challengeType, ...validateQuizPayload(content, solution) }
+    case 'code':
+      return { challenge_type: 'code', ...validateCodePayload(content, solution) }
+    case 'essay':
+      return { challenge_type: 'essay', ...validateEssayPayload(content, solution) }
+    case 'scenario':
+      return { challenge_type: 'scenario', ...validateScenarioPayload(content, solution) }
+    default:
+      invalid('challenge_type', `must be one of: ${CHALLENGE_TYPES.join(', ')}`)
+  }
+}
+
+/**
+ * Convert the legacy single-question format written by older versions of ChallengeForm
+ * ({ question, options, multiple_correct | multiple_select } / { correct_answers, explanation })
+ * into the questions[]/answers[] format QuizEngine plays. Other payloads are returned unchanged.
+ * Migration 011 applies the same conversion to stored rows.
+ */
+export function upgradeLegacyChallengePayload(
+  challengeType: ChallengeType,
+  content: any,
+  solution: any
+): { content: any; solution: any } {
+  const isQuizType = challengeType === 'quiz' || challengeType === 'multiple_choice'
+  if (!isQuizType || !isObject(content) || Array.isArray(content.questions) || typeof content.question !== 'string') {
+    return { content, solution }
+  }
+
+  const multiple = Boolean(content.multiple_correct ?? content.multiple_select ?? false)
+  const correctAnswers: number[] = Array.isArray(solution?.correct_answers) ? solution.correct_answers : []
+
+  return {
+    content: {
+      questions: [
+        {
+          id: 'q1',
+          type: multiple ? 'multiple_choice' : 'single_choice',
+          question: content.question,
+          options: Array.isArray(content.options) ? content.options : [],
+          ...(typeof solution?.explanation === 'string' && solution.explanation ? { explanation: solution.explanation } : {})
+        }
+      ]
+    },
+    solution: {
+      answers: [multiple ? correctAnswers : correctAnswers[0]],
+      ...(typeof solution?.explanation === 'string' ? { explanation: solution.explanation } : {})
+    }
+  }
+}
+
+// Typed questions for QuizEngine, tolerating legacy rows that have not been migrated yet
+export function getQuizPayload(challengeType: ChallengeType, content: any, solution: any): { content: QuizChallengeContent; solution: QuizChallengeSolution } {
+  const upgraded = upgradeLegacyChallengePayload(challengeType, content, solution)
+  return {
+    content: {
+      questions: Array.isArray(upgraded.content?.questions) ? upgraded.content.questions : [],
+      question_bank: upgraded.content?.question_bank
+    },
+    solution: { ...upgraded.solution, answers: Array.isArray(upgraded.solution?.answers) ? upgraded.solution.answers : [] }
+  }
+}
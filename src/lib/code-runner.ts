@@ -0,0 +1,300 @@
+import type { CodeChallengeContent, CodeTestCase } from '@/types/content'
+
+// Sandboxed runner for `code` challenges (browser only)
+// Learner code runs inside a dedicated Web Worker: no DOM, storage or network access,
+// killed when it exceeds the time limit or writes more console output than the budget.
+// Workers have no way to measure heap usage, so memory is not limited beyond that; a
+// runaway allocation ends when the browser or the time limit stops the worker.
+
+export const DEFAULT_FUNCTION_NAME = 'solution'
+
+export interface CodeRunLimits {
+  timeoutMs: number // wall-clock limit for the whole run
+  maxOutputLength: number // characters of output shown per test case
+  maxTotalOutputLength: number // characters of console output for the whole run; the worker is killed past it
+}
+
+export const DEFAULT_CODE_RUN_LIMITS: CodeRunLimits = {
+  timeoutMs: 5000,
+  maxOutputLength: 2000,
+  maxTotalOutputLength: 100000
+}
+
+export interface CodeTestResult {
+  index: number
+  description?: string
+  input: string
+  expected_output: string
+  actual_output?: string
+  passed: boolean
+  error?: string
+  duration_ms?: number
+}
+
+export interface CodeRunResult {
+  results: CodeTestResult[]
+  passed: number
+  total: number
+  score: number // 0-100
+  error?: string // compile/runtime error that stopped the run
+  timed_out: boolean
+}
+
+// Runs inside the worker - kept as plain JavaScript source so it is not bundled with app code
+const WORKER_SOURCE = `
+'use strict';
+
+// Network and storage APIs are removed from the global object and every prototype it inherits
+// from (fetch and importScripts live on WorkerGlobalScope.prototype), so they can't be reached
+// through Object.getPrototypeOf(self) either. If one can't be removed, nothing is run.
+const blocked = ['fetch', 'XMLHttpRequest', 'WebSocket', 'EventSource', 'importScripts', 'indexedDB', 'caches', 'BroadcastChannel', 'Worker', 'SharedWorker', 'WebTransport'];
+const scopes = [];
+for (let scope = self; scope; scope = Object.getPrototypeOf(scope)) {
+  scopes.push(scope);
+}
+for (const scope of scopes) {
+  for (const name of blocked) {
+    if (Object.prototype.hasOwnProperty.call(scope, name)) {
+      try { delete scope[name]; } catch (e) { /* checked below */ }
+    }
+  }
+}
+const unblocked = blocked.filter(function (name) {
+  return scopes.some(function (scope) { return Object.prototype.hasOwnProperty.call(scope, name); });
+});
+
+function format(value) {
+  if (typeof value === 'string') return value;
+  if (value === undefined) return 'undefined';
+  try { return JSON.stringify(value); } catch (e) { return String(value); }
+}
+
+function parseInput(input) {
+  const trimmed = String(input).trim();
+  if (trimmed === '') return [];
+  try {
+    const parsed = JSON.parse(trimmed);
+    return Array.isArray(parsed) ? parsed : [parsed];
+  } catch (e) {
+    return [input];
+  }
+}
+
+function matches(actual, logs, expected) {
+  const expectedText = String(expected).trim();
+  let expectedValue;
+  let expectedIsJson = false;
+  try { expectedValue = JSON.parse(expectedText); expectedIsJson = true; } catch (e) { /* plain text */ }
+
+  const candidates = actual === undefined ? [logs] : [actual, logs];
+  return candidates.some(function (candidate) {
+    if (expectedIsJson && typeof candidate !== 'string') {
+      return JSON.stringify(candidate) === JSON.stringify(expectedValue);
+    }
+    const text = typeof candidate === 'string' ? candidate : format(candidate);
+    return text.trim() === expectedText || (expectedIsJson && text.trim() === JSON.stringify(expectedValue));
+  });
+}
+
+self.onmessage = async function (event) {
+  const { code, functionName, testCases, limits } = event.data;
+
+  if (unblocked.length > 0) {
+    self.postMessage({ type: 'fatal', error: 'This browser could not sandbox the code (' + unblocked.join(', ') + ' still reachable)' });
+    return;
+  }
+
+  let logs = [];
+  let outputLength = 0;
+  let outputExceeded = false;
+  const sandboxConsole = {
+    log: function () {
+      if (outputExceeded) return;
+      const line = Array.prototype.map.call(arguments, format).join(' ');
+      outputLength += line.length + 1;
+      if (outputLength > limits.maxTotalOutputLength) {
+        // The main thread terminates the worker on this message, even mid-loop
+        outputExceeded = true;
+        self.postMessage({ type: 'fatal', error: 'Output limit of ' + limits.maxTotalOutputLength + ' characters exceeded' });
+        return;
+      }
+      logs.push(line);
+    },
+  };
+  sandboxConsole.info = sandboxConsole.log;
+  sandboxConsole.warn = sandboxConsole.log;
+  sandboxConsole.error = sandboxConsole.log;
+
+  let entry;
+  try {
+    const factory = new Function('console', '"use strict";\\n' + code + '\\n;return typeof ' + functionName + " === 'function' ? " + functionName + ' : undefined;');
+    entry = factory(sandboxConsole);
+  } catch (error) {
+    self.postMessage({ type: 'fatal', error: 'Code failed to load: ' + (error && error.message ? error.message : String(error)) });
+    return;
+  }
+
+  if (typeof entry !== 'function') {
+    self.postMessage({ type: 'fatal', error: 'Define a function named "' + functionName + '"' });
+    return;
+  }
+
+  for (let index = 0; index < testCases.length; index++) {
+    const testCase = testCases[index];
+    logs = [];
+    const started = performance.now();
+    try {
+      const actual = await entry.apply(null, parseInput(testCase.input));
+      const output = logs.join('\\n');
+      const shown = (actual === undefined ? output : format(actual)).slice(0, limits.maxOutputLength);
+      self.postMessage({
+        type: 'result',
+        index: index,
+        passed: matches(actual, output, testCase.expected_output),
+        actual_output: shown,
+        duration_ms: Math.round(performance.now() - started)
+      });
+    } catch (error) {
+      self.postMessage({
+        type: 'result',
+        index: index,
+        passed: false,
+        error: error && error.message ? error.message : String(error),
+        duration_ms: Math.round(performance.now() - started)
+      });
+    }
+  }
+
+  self.postMessage({ type: 'done' });
+};
+`
+
+// TypeScript is transpiled by sucrase in a worker of its own, so the transpiler stays out of the
+// app bundle and is only downloaded for TypeScript challenges
+async function toJavaScript(code: string, language: CodeChallengeContent['language']): Promise<string> {
+  if (language !== 'typescript') {
+    return code
+  }
+
+  const worker = new Worker(new URL('./code-transpiler.worker.ts', import.meta.url))
+  try {
+    return await new Promise<string>((resolve, reject) => {
+      worker.onmessage = (event: MessageEvent<{ code?: string; error?: string }>) => {
+        if (event.data.error !== undefined) {
+          reject(new Error(event.data.error))
+        } else {
+          resolve(event.data.code || '')
+        }
+      }
+      worker.onerror = (event: ErrorEvent) => {
+        event.preventDefault()
+        reject(new Error(event.message || 'The TypeScript transpiler failed to load'))
+      }
+      worker.postMessage(code)
+    })
+  } finally {
+    worker.terminate()
+  }
+}
+
+function summarize(testCases: CodeTestCase[], results: Map<number, CodeTestResult>, error?: string, timedOut: boolean = false): CodeRunResult {
+  const allResults = testCases.map((testCase, index) => results.get(index) || {
+    index,
+    description: testCase.description,
+    input: testCase.input,
+    expected_output: testCase.expected_output,
+    passed: false,
+    error: timedOut ? 'Not run: time limit exceeded' : 'Not run'
+  })
+
+  const passed = allResults.filter(result => result.passed).length
+  return {
+    results: allResults,
+    passed,
+    total: testCases.length,
+    score: testCases.length > 0 ? Math.round((passed / testCases.length) * 100) : 0,
+    error,
+    timed_out: timedOut
+  }
+}
+
+/**
+ * Run learner code against every test case of a code challenge.
+ * The entry point is `content.function_name` (default `solution`); each test's `input` is parsed
+ * as JSON and spread as arguments when it is an array. A test passes when the return value, or
+ * the console output if nothing is returned, matches `expected_output`.
+ */
+export async function runCodeChallenge(
+  code: string,
+  content: CodeChallengeContent,
+  limits: CodeRunLimits = DEFAULT_CODE_RUN_LIMITS
+): Promise<CodeRunResult> {
+  const testCases = content.test_cases || []
+  const results = new Map<number, CodeTestResult>()
+
+  if (typeof window === 'undefined' || typeof Worker === 'undefined') {
+    return summarize(testCases, results, 'Code can only be run in the browser')
+  }
+
+  let javascript: string
+  try {
+    javascript = await toJavaScript(code, content.language)
+  } catch (error) {
+    return summarize(testCases, results, `Failed to compile TypeScript: ${error instanceof Error ? error.message : String(error)}`)
+  }
+
+  const workerUrl = URL.createObjectURL(new Blob([WORKER_SOURCE], { type: 'application/javascript' }))
+  const worker = new Worker(workerUrl)
+
+  return new Promise<CodeRunResult>(resolve => {
+    let settled = false
+
+    const finish = (error?: string, timedOut: boolean = false) => {
+      if (settled) {
+        return
+      }
+      settled = true
+      clearTimeout(timer)
+      worker.terminate()
+      URL.revokeObjectURL(workerUrl)
+      resolve(summarize(testCases, results, error, timedOut))
+    }
+
+    const timer = setTimeout(() => {
+      finish(`Time limit of ${limits.timeoutMs / 1000}s exceeded`, true)
+    }, limits.timeoutMs)
+
+    worker.onmessage = (event: MessageEvent) => {
+      const message = event.data
+      if (message.type === 'result') {
+        const testCase = testCases[message.index]
+        results.set(message.index, {
+          index: message.index,
+          description: testCase.description,
+          input: testCase.input,
+          expected_output: testCase.expected_output,
+          actual_output: message.actual_output,
+          passed: message.passed,
+          error: message.error,
+          duration_ms: message.duration_ms
+        })
+      } else if (message.type === 'fatal') {
+        finish(message.error)
+      } else if (message.type === 'done') {
+        finish()
+      }
+    }
+
+    worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault()
+      finish(event.message || 'Code execution failed')
+    }
+
+    worker.postMessage({
+      code: javascript,
+      functionName: content.function_name || DEFAULT_FUNCTION_NAME,
+      testCases,
+      limits
+    })
+  })
+}
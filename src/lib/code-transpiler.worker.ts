@@ -0,0 +1,15 @@
+import { transform } from 'sucrase'
+
+// Strips the types from TypeScript learner code for code-runner.ts. Sucrase only removes
+// type syntax and leaves the rest of the code as written, which the sandbox runs as is
+self.onmessage = (event: MessageEvent<string>) => {
+  try {
+    const { code } = transform(event.data, {
+      transforms: ['typescript'],
+      disableESTransforms: true
+    })
+    self.postMessage({ code })
+  } catch (error) {
+    self.postMessage({ error: error instanceof Error ? error.message : String(error) })
+  }
+}
@@ -0,0 +1,265 @@
+import type {
+  BundleChallenge,
+  BundleCourse,
+  BundleEntityType,
+  BundleLearningPath,
+  BundleLesson,
+  BundleMediaReference,
+  BundleModule,
+  Challenge,
+  ContentBundle,
+  Course,
+  LearningPath,
+  Lesson,
+  Module
+} from '@/types/content'
+import { upgradeLegacyChallengePayload, validateChallengePayload } from './challenge-schema'
+import { REVISION_FIELDS } from './revisions'
+
+// Portable content bundles: a learning path with its courses, modules, lessons and challenges as
+// versioned JSON, for moving content between Supabase projects. Imported by migration 027.
+// Question banks and placements (migration 024) are not included; challenges that draw from a
+// bank need that bank in the destination project too.
+
+export const CONTENT_BUNDLE_FORMAT = 'owntheflow-content-bundle'
+export const CONTENT_BUNDLE_VERSION = 1
+
+// Columns carried in a bundle: the editable fields plus the order within the parent.
+// Status, ownership and timestamps belong to the project the content lives in.
+export const BUNDLE_FIELDS: Record<BundleEntityType, string[]> = {
+  path: REVISION_FIELDS.path,
+  course: [...REVISION_FIELDS.course, 'sort_order'],
+  module: [...REVISION_FIELDS.module, 'sort_order'],
+  lesson: [...REVISION_FIELDS.lesson, 'sort_order'],
+  challenge: [
+    'title', 'description', 'challenge_type', 'content', 'solution', 'hints', 'hint_xp_penalty',
+    'xp_reward', 'max_attempts', 'time_limit', 'sort_order'
+  ]
+}
+
+const SLUG_PATTERN = /^[a-z0-9-]+$/
+
+// Images embedded in markdown: ![alt](url)
+const MARKDOWN_IMAGE_PATTERN = /!\[[^\]]*\]\(\s*<?([^)\s>]+)/g
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+function toEntry(entityType: BundleEntityType, row: Record<string, any>): { external_id: string; data: Record<string, any> } {
+  const data: Record<string, any> = {}
+  for (const field of BUNDLE_FIELDS[entityType]) {
+    if (field in row) {
+      data[field] = row[field] ?? null
+    }
+  }
+
+  // Rows imported from another project keep the id they had there
+  return { external_id: row.external_id || row.id, data }
+}
+
+function bySortOrder(a: { sort_order: number }, b: { sort_order: number }): number {
+  return a.sort_order - b.sort_order
+}
+
+function collectMedia(entry: { external_id: string; data: Record<string, any> }, media: BundleMediaReference[]) {
+  for (const [field, value] of Object.entries(entry.data)) {
+    if (typeof value !== 'string' || !value) {
+      continue
+    }
+
+    if (field.endsWith('_url')) {
+      media.push({ url: value, external_id: entry.external_id, field })
+    }
+
+    for (const match of value.matchAll(MARKDOWN_IMAGE_PATTERN)) {
+      media.push({ url: match[1], external_id: entry.external_id, field })
+    }
+  }
+}
+
+// Assemble a bundle from a path and its rows; children are matched on their parent ids
+export function buildContentBundle(
+  path: LearningPath,
+  courses: Course[],
+  modules: Module[],
+  lessons: Lesson[],
+  challenges: Challenge[]
+): ContentBundle {
+  const media: BundleMediaReference[] = []
+
+  const withMedia = <T extends { external_id: string; data: Record<string, any> }>(entry: T): T => {
+    collectMedia(entry, media)
+    return entry
+  }
+
+  const bundlePath: BundleLearningPath = {
+    ...withMedia(toEntry('path', path)),
+    courses: courses
+      .filter(course => course.path_id === path.id)
+      .sort(bySortOrder)
+      .map((course): BundleCourse => ({
+        ...withMedia(toEntry('course', course)),
+        modules: modules
+          .filter(module => module.course_id === course.id)
+          .sort(bySortOrder)
+          .map((module): BundleModule => ({
+            ...withMedia(toEntry('module', module)),
+            lessons: lessons
+              .filter(lesson => lesson.module_id === module.id)
+              .sort(bySortOrder)
+              .map((lesson): BundleLesson => ({
+                ...withMedia(toEntry('lesson', lesson)),
+                challenges: challenges
+                  .filter(challenge => challenge.lesson_id === lesson.id)
+                  .sort(bySortOrder)
+                  .map((challenge): BundleChallenge => toEntry('challenge', challenge))
+              }))
+          }))
+      }))
+  }
+
+  return {
+    format: CONTENT_BUNDLE_FORMAT,
+    version: CONTENT_BUNDLE_VERSION,
+    exported_at: new Date().toISOString(),
+    path: bundlePath,
+    media
+  }
+}
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+function invalid(field: string, message: string): never {
+  throw new Error(`Invalid content bundle ${field}: ${message}`)
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function requireArray(value: unknown, field: string): unknown[] {
+  if (!Array.isArray(value)) {
+    invalid(field, 'must be a list')
+  }
+  return value
+}
+
+const CHILD_KEYS: Partial<Record<BundleEntityType, { key: string; type: BundleEntityType }>> = {
+  path: { key: 'courses', type: 'course' },
+  course: { key: 'modules', type: 'module' },
+  module: { key: 'lessons', type: 'lesson' },
+  lesson: { key: 'challenges', type: 'challenge' }
+}
+
+function validateEntry(
+  entityType: BundleEntityType,
+  value: unknown,
+  field: string,
+  seen: Record<BundleEntityType, Set<string>>
+): Record<string, any> {
+  if (!isObject(value)) {
+    invalid(field, 'must be an object')
+  }
+
+  if (typeof value.external_id !== 'string' || value.external_id.trim() === '') {
+    invalid(`${field}.external_id`, 'is required')
+  }
+  if (seen[entityType].has(value.external_id)) {
+    invalid(`${field}.external_id`, `"${value.external_id}" is used by more than one ${entityType}`)
+  }
+  seen[entityType].add(value.external_id)
+
+  if (!isObject(value.data)) {
+    invalid(`${field}.data`, 'must be an object')
+  }
+
+  const data = { ...value.data }
+  for (const key of Object.keys(data)) {
+    if (!BUNDLE_FIELDS[entityType].includes(key)) {
+      invalid(`${field}.data.${key}`, `is not a ${entityType} field`)
+    }
+  }
+
+  if (typeof data.title !== 'string' || data.title.trim().length < 3) {
+    invalid(`${field}.data.title`, 'must be at least 3 characters')
+  }
+
+  if (entityType !== 'challenge' && (typeof data.slug !== 'string' || !SLUG_PATTERN.test(data.slug) || data.slug.length > 100)) {
+    invalid(`${field}.data.slug`, 'must use only lowercase letters, numbers and hyphens')
+  }
+
+  if (data.sort_order !== undefined && (!Number.isInteger(data.sort_order) || data.sort_order < 0)) {
+    invalid(`${field}.data.sort_order`, 'must be a non-negative whole number')
+  }
+
+  if (entityType === 'challenge') {
+    const upgraded = upgradeLegacyChallengePayload(data.challenge_type, data.content, data.solution)
+    try {
+      const payload = validateChallengePayload(data.challenge_type, upgraded.content, upgraded.solution)
+      data.content = payload.content
+      data.solution = payload.solution
+    } catch (error) {
+      invalid(`${field}.data`, error instanceof Error ? error.message : 'has an invalid challenge payload')
+    }
+  }
+
+  const entry: Record<string, any> = { external_id: value.external_id, data }
+
+  const children = CHILD_KEYS[entityType]
+  if (children) {
+    entry[children.key] = requireArray(value[children.key], `${field}.${children.key}`)
+      .map((child, index) => validateEntry(children.type, child, `${field}.${children.key}[${index}]`, seen))
+  }
+
+  return entry
+}
+
+/**
+ * Check that a parsed file is a bundle this version can import and return it typed.
+ * Legacy quiz payloads are upgraded like ContentService does on save.
+ * Throws an Error naming the offending field.
+ */
+export function validateContentBundle(value: unknown): ContentBundle {
+  if (!isObject(value)) {
+    invalid('file', 'must be a JSON object')
+  }
+
+  if (value.format !== CONTENT_BUNDLE_FORMAT) {
+    invalid('format', `must be "${CONTENT_BUNDLE_FORMAT}"`)
+  }
+
+  if (!Number.isInteger(value.version) || value.version < 1) {
+    invalid('version', 'must be a whole number')
+  }
+  if (value.version > CONTENT_BUNDLE_VERSION) {
+    invalid('version', `${value.version} was exported by a newer version of the app; this one reads up to ${CONTENT_BUNDLE_VERSION}`)
+  }
+
+  const seen: Record<BundleEntityType, Set<string>> = {
+    path: new Set(),
+    course: new Set(),
+    module: new Set(),
+    lesson: new Set(),
+    challenge: new Set()
+  }
+
+  const path = validateEntry('path', value.path, 'path', seen) as BundleLearningPath
+
+  const media = requireArray(value.media ?? [], 'media').map((reference, index): BundleMediaReference => {
+    if (!isObject(reference) || typeof reference.url !== 'string' || typeof reference.external_id !== 'string' || typeof reference.field !== 'string') {
+      invalid(`media[${index}]`, 'must have url, external_id and field')
+    }
+    return { url: reference.url, external_id: reference.external_id, field: reference.field }
+  })
+
+  return {
+    format: CONTENT_BUNDLE_FORMAT,
+    version: value.version,
+    exported_at: typeof value.exported_at === 'string' ? value.exported_at : '',
+    path,
+    media
+  }
+}
@@ -0,0 +1,300 @@
+import yaml from 'js-yaml'
+import type { BundleEntityType, Challenge, Course, LearningPath, Lesson, Module } from '@/types/content'
+import { upgradeLegacyChallengePayload, validateChallengePayload } from './challenge-schema'
+import { BUNDLE_FIELDS } from './content-bundle'
+
+// Markdown folder layout for writing a learning path in git:
+//
+//   path.yaml                                       learning path fields, including its slug
+//   course-<slug>/course.yaml                       course fields
+//   course-<slug>/module-<slug>/module.yaml         module fields
+//   course-<slug>/module-<slug>/NN-<slug>.md        lesson: front-matter with CreateLessonDto fields,
+//                                                   the markdown body is the lesson content
+//   course-<slug>/module-<slug>/NN-<slug>.quiz.yaml list of the lesson's challenges
+//
+// Course, module and lesson slugs come from the folder and file names, and NN is the lesson's
+// sort_order. Syncing matches existing content on slug (challenges on title within their lesson),
+// so renaming a file creates a new item. Nothing is deleted, and a field left out of a file keeps
+// its stored value. Other files are ignored.
+
+export interface MarkdownFile {
+  path: string // relative to the folder, with / separators
+  content: string
+}
+
+export interface MarkdownEntry {
+  file: string
+  data: Record<string, any>
+}
+
+export interface MarkdownLesson extends MarkdownEntry {
+  challenges: MarkdownEntry[]
+}
+
+export interface MarkdownModule extends MarkdownEntry {
+  lessons: MarkdownLesson[]
+}
+
+export interface MarkdownCourse extends MarkdownEntry {
+  modules: MarkdownModule[]
+}
+
+export interface MarkdownPath extends MarkdownEntry {
+  courses: MarkdownCourse[]
+}
+
+const SLUG_PATTERN = /^[a-z0-9-]+$/
+const COURSE_DIR_PATTERN = /^course-([a-z0-9-]+)$/
+const MODULE_DIR_PATTERN = /^module-([a-z0-9-]+)$/
+const LESSON_FILE_PATTERN = /^(\d+)-([a-z0-9-]+)\.md$/
+const QUIZ_FILE_PATTERN = /^(\d+)-([a-z0-9-]+)\.quiz\.ya?ml$/
+const FRONT_MATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/
+
+// Fields written to each file. Slugs of courses, modules and lessons live in their names and
+// lesson content in the markdown body, so they are left out of the YAML.
+const FILE_FIELDS: Record<BundleEntityType, string[]> = {
+  path: BUNDLE_FIELDS.path,
+  course: BUNDLE_FIELDS.course.filter(field => field !== 'slug'),
+  module: BUNDLE_FIELDS.module.filter(field => field !== 'slug'),
+  lesson: BUNDLE_FIELDS.lesson.filter(field => field !== 'slug' && field !== 'content' && field !== 'sort_order'),
+  challenge: BUNDLE_FIELDS.challenge.filter(field => field !== 'sort_order')
+}
+
+function pickFileFields(entityType: BundleEntityType, row: Record<string, any>): Record<string, any> {
+  const fields: Record<string, any> = {}
+  for (const field of FILE_FIELDS[entityType]) {
+    if (row[field] !== null && row[field] !== undefined) {
+      fields[field] = row[field]
+    }
+  }
+  return fields
+}
+
+function toYaml(value: unknown): string {
+  return yaml.dump(value, { lineWidth: -1, noRefs: true })
+}
+
+function padOrder(sortOrder: number): string {
+  return String(sortOrder).padStart(2, '0')
+}
+
+function bySortOrder(a: { sort_order: number }, b: { sort_order: number }): number {
+  return a.sort_order - b.sort_order
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+// Lay out a path and its rows as files; children are matched on their parent ids
+export function buildMarkdownFolder(
+  path: LearningPath,
+  courses: Course[],
+  modules: Module[],
+  lessons: Lesson[],
+  challenges: Challenge[]
+): MarkdownFile[] {
+  const files: MarkdownFile[] = [{ path: 'path.yaml', content: toYaml(pickFileFields('path', path)) }]
+
+  for (const course of courses.filter(c => c.path_id === path.id).sort(bySortOrder)) {
+    const courseDir = `course-${course.slug}`
+    files.push({ path: `${courseDir}/course.yaml`, content: toYaml(pickFileFields('course', course)) })
+
+    for (const courseModule of modules.filter(m => m.course_id === course.id).sort(bySortOrder)) {
+      const moduleDir = `${courseDir}/module-${courseModule.slug}`
+      files.push({ path: `${moduleDir}/module.yaml`, content: toYaml(pickFileFields('module', courseModule)) })
+
+      for (const lesson of lessons.filter(l => l.module_id === courseModule.id).sort(bySortOrder)) {
+        const baseName = `${moduleDir}/${padOrder(lesson.sort_order)}-${lesson.slug}`
+        files.push({
+          path: `${baseName}.md`,
+          content: `---\n${toYaml(pickFileFields('lesson', lesson))}---\n\n${lesson.content ?? ''}\n`
+        })
+
+        const lessonChallenges = challenges.filter(ch => ch.lesson_id === lesson.id).sort(bySortOrder)
+        if (lessonChallenges.length > 0) {
+          files.push({
+            path: `${baseName}.quiz.yaml`,
+            content: toYaml(lessonChallenges.map(challenge => pickFileFields('challenge', challenge)))
+          })
+        }
+      }
+    }
+  }
+
+  return files
+}
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+function invalid(file: string, message: string): never {
+  throw new Error(`Invalid markdown folder ${file}: ${message}`)
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+// CORE_SCHEMA keeps dates and times as strings
+function parseYaml(file: string, text: string): unknown {
+  try {
+    return yaml.load(text, { schema: yaml.CORE_SCHEMA })
+  } catch (error) {
+    invalid(file, error instanceof Error ? error.message : 'is not valid YAML')
+  }
+}
+
+function checkFields(entityType: BundleEntityType, file: string, value: unknown): Record<string, any> {
+  if (!isObject(value)) {
+    invalid(file, 'must contain a YAML mapping')
+  }
+
+  for (const key of Object.keys(value)) {
+    if (!FILE_FIELDS[entityType].includes(key)) {
+      invalid(file, `"${key}" is not a ${entityType} field`)
+    }
+  }
+
+  if (typeof value.title !== 'string' || value.title.trim().length < 3) {
+    invalid(file, 'title must be at least 3 characters')
+  }
+
+  return { ...value }
+}
+
+function checkChallenge(file: string, value: unknown, index: number): Record<string, any> {
+  const data = checkFields('challenge', `${file} (challenge ${index + 1})`, value)
+  const upgraded = upgradeLegacyChallengePayload(data.challenge_type, data.content, data.solution)
+
+  try {
+    const payload = validateChallengePayload(data.challenge_type, upgraded.content, upgraded.solution)
+    return { ...data, content: payload.content, solution: payload.solution, sort_order: index + 1 }
+  } catch (error) {
+    invalid(`${file} (challenge ${index + 1})`, error instanceof Error ? error.message : 'has an invalid challenge payload')
+  }
+}
+
+/**
+ * Read a folder in the layout above into a tree of entity fields.
+ * Files may sit under one top-level folder (as a browser folder upload gives them).
+ * Throws an Error naming the offending file.
+ */
+export function parseMarkdownFolder(files: MarkdownFile[]): MarkdownPath {
+  const rootFile = files
+    .filter(file => file.path === 'path.yaml' || file.path.endsWith('/path.yaml'))
+    .sort((a, b) => a.path.split('/').length - b.path.split('/').length)[0]
+
+  if (!rootFile) {
+    invalid('path.yaml', 'is missing')
+  }
+
+  const prefix = rootFile.path.slice(0, -'path.yaml'.length)
+  const byPath = new Map(
+    files
+      .filter(file => file.path.startsWith(prefix))
+      .map(file => [file.path.slice(prefix.length), file.content])
+  )
+
+  const pathData = checkFields('path', 'path.yaml', parseYaml('path.yaml', rootFile.content))
+  if (typeof pathData.slug !== 'string' || !SLUG_PATTERN.test(pathData.slug)) {
+    invalid('path.yaml', 'slug must use only lowercase letters, numbers and hyphens')
+  }
+
+  // Immediate sub-folders of a folder, sorted by name
+  const subFolders = (dir: string): string[] => [...new Set(
+    [...byPath.keys()]
+      .filter(file => file.startsWith(dir) && file.slice(dir.length).includes('/'))
+      .map(file => file.slice(dir.length).split('/')[0])
+  )].sort()
+
+  const filesIn = (dir: string): string[] => [...byPath.keys()]
+    .filter(file => file.startsWith(dir) && !file.slice(dir.length).includes('/'))
+    .map(file => file.slice(dir.length))
+    .sort()
+
+  // Names that match a pattern, with the pattern's captures
+  const matching = (names: string[], pattern: RegExp) => names.flatMap(name => {
+    const match = name.match(pattern)
+    return match ? [{ name, captures: match.slice(1) }] : []
+  })
+
+  const readFolderFields = (entityType: 'course' | 'module', dir: string, slug: string, index: number) => {
+    const file = `${dir}${entityType}.yaml`
+    const content = byPath.get(file)
+    if (content === undefined) {
+      invalid(file, 'is missing')
+    }
+
+    const data = checkFields(entityType, file, parseYaml(file, content))
+    return { file, data: { ...data, slug, sort_order: data.sort_order ?? index + 1 } }
+  }
+
+  const courses = matching(subFolders(''), COURSE_DIR_PATTERN)
+    .map(({ name: courseName, captures: [courseSlug] }, courseIndex): MarkdownCourse => {
+      const courseDir = `${courseName}/`
+
+      const modules = matching(subFolders(courseDir), MODULE_DIR_PATTERN)
+        .map(({ name: moduleName, captures: [moduleSlug] }, moduleIndex): MarkdownModule => {
+          const moduleDir = `${courseDir}${moduleName}/`
+          const names = filesIn(moduleDir)
+          const quizzes = matching(names, QUIZ_FILE_PATTERN)
+
+          const lessons = matching(names, LESSON_FILE_PATTERN)
+            .map(({ name: lessonName, captures: [order, slug] }): MarkdownLesson => {
+              const file = `${moduleDir}${lessonName}`
+              const match = (byPath.get(file) ?? '').match(FRONT_MATTER_PATTERN)
+              if (!match) {
+                invalid(file, 'must start with --- front-matter ---')
+              }
+
+              const frontMatter = checkFields('lesson', file, parseYaml(file, match[1]))
+              const quizName = quizzes.find(quiz => quiz.captures[0] === order && quiz.captures[1] === slug)?.name
+
+              let challenges: MarkdownEntry[] = []
+              if (quizName) {
+                const quizFile = `${moduleDir}${quizName}`
+                const quiz = parseYaml(quizFile, byPath.get(quizFile) ?? '') ?? []
+                if (!Array.isArray(quiz)) {
+                  invalid(quizFile, 'must contain a list of challenges')
+                }
+                challenges = quiz.map((challenge, index) => ({ file: quizFile, data: checkChallenge(quizFile, challenge, index) }))
+              }
+
+              return {
+                file,
+                data: { ...frontMatter, slug, sort_order: Number(order), content: match[2].replace(/^\r?\n/, '').replace(/\s+$/, '') },
+                challenges
+              }
+            })
+
+          return { ...readFolderFields('module', moduleDir, moduleSlug, moduleIndex), lessons }
+        })
+
+      return { ...readFolderFields('course', courseDir, courseSlug, courseIndex), modules }
+    })
+
+  return { file: 'path.yaml', data: pathData, courses }
+}
+
+// Neither key order nor keys left empty matter when comparing YAML against JSONB values
+function canonical(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(canonical)
+  }
+  if (isObject(value)) {
+    return Object.fromEntries(
+      Object.keys(value)
+        .filter(key => value[key] !== null && value[key] !== undefined)
+        .sort()
+        .map(key => [key, canonical(value[key])])
+    )
+  }
+  return value ?? null
+}
+
+// Fields of an entry that differ from the stored row
+export function getMarkdownChangedFields(existing: Record<string, any>, data: Record<string, any>): string[] {
+  return Object.keys(data).filter(field => JSON.stringify(canonical(existing[field])) !== JSON.stringify(canonical(data[field])))
+}
@@ -0,0 +1,81 @@
+import { hasPermission } from '@/types/auth'
+import type { UserRole } from '@/types/auth'
+import type { ContentStatus } from '@/types/content'
+
+// Publishing workflow for paths, courses, modules and lessons (migration 021 enforces the same rules)
+//   draft ──submit──> in_review ──approve──> published
+//                        └───────reject────> draft
+
+export const CONTENT_STATUS_LABELS: Record<ContentStatus, string> = {
+  draft: 'Draft',
+  in_review: 'In Review',
+  published: 'Published',
+  archived: 'Archived'
+}
+
+// Statuses an item can be moved to directly. in_review is only entered by submitting for review,
+// and leaving it without a review decision (back to draft, or archived) withdraws the request.
+const STATUS_TRANSITIONS: Record<ContentStatus, ContentStatus[]> = {
+  draft: ['published', 'archived'],
+  in_review: ['draft', 'archived'],
+  published: ['draft', 'archived'],
+  archived: ['draft', 'published']
+}
+
+export function canChangeStatus(role: UserRole, from: ContentStatus, to: ContentStatus): boolean {
+  if (from === to) {
+    return true
+  }
+  if (!STATUS_TRANSITIONS[from].includes(to)) {
+    return false
+  }
+  return to !== 'published' || hasPermission(role, 'content', 'publish')
+}
+
+export function canSubmitForReview(role: UserRole, status: ContentStatus): boolean {
+  return status === 'draft' && hasPermission(role, 'content', 'update')
+}
+
+// Scheduled publishing (migration 022). Like publishing itself, only admins can set schedules;
+// the /api/content/schedules job applies them once their time has passed.
+
+export interface ScheduleInput {
+  publish_at: string // datetime-local input values, empty when not scheduled
+  unpublish_at: string
+}
+
+export function canSchedule(role: UserRole): boolean {
+  return hasPermission(role, 'content', 'publish')
+}
+
+// A stored timestamp as a datetime-local input value, in the browser's time zone
+export function toScheduleInput(timestamp?: string | null): string {
+  if (!timestamp) {
+    return ''
+  }
+  const date = new Date(timestamp)
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16)
+}
+
+function fromScheduleInput(value: string): string | null {
+  return value ? new Date(value).toISOString() : null
+}
+
+export function getScheduleError(schedule: ScheduleInput): string | null {
+  if (schedule.publish_at && schedule.unpublish_at && schedule.unpublish_at <= schedule.publish_at) {
+    return 'The unpublish time must be after the publish time'
+  }
+  return null
+}
+
+// Schedule fields for a save. Unchanged times come back undefined so they are left out of the
+// update and editors without publish permission can still save scheduled content.
+export function getScheduleChanges(
+  schedule: ScheduleInput,
+  saved?: { publish_at?: string | null; unpublish_at?: string | null }
+): { publish_at?: string | null; unpublish_at?: string | null } {
+  return {
+    publish_at: schedule.publish_at !== toScheduleInput(saved?.publish_at) ? fromScheduleInput(schedule.publish_at) : undefined,
+    unpublish_at: schedule.unpublish_at !== toScheduleInput(saved?.unpublish_at) ? fromScheduleInput(schedule.unpublish_at) : undefined
+  }
+}
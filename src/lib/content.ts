@@ -1,10 +1,26 @@
 import { supabase } from './supabase'
+import { upgradeLegacyChallengePayload, validateChallengePayload, validateQuestionBankItem } from './challenge-schema'
+import { pickLessonDraftFields, pickRevisionFields } from './revisions'
+import { AIClient, AI_ROLES } from './ai-client'
+import type { AIRole } from './ai-client'
+import { buildContentBundle, validateContentBundle } from './content-bundle'
+import { buildMarkdownFolder, getMarkdownChangedFields, parseMarkdownFolder } from './content-markdown'
+import type { MarkdownEntry, MarkdownFile } from './content-markdown'
 import type { 
   LearningPath, 
   Course, 
   Module, 
   Lesson, 
   Challenge,
+  ChallengeAttempt,
+  ChallengeHintUsage,
+  ChallengeSession,
+  ChallengeSessionAnswer,
+  GradingReview,
+  GradingReviewStatus,
+  QuestionBank,
+  QuestionBankItem,
+  QuizQuestion,
   UserProgress,
   UserXP,
   XPLevel,
@@ -20,6 +36,36 @@ import type {
   CreateChallengeDto,
   UpdateChallengeDto,
   UpdateProgressDto,
+  CreateChallengeAttemptDto,
+  ApiResponse,
+  CompleteGradingReviewDto,
+  CreateQuestionBankDto,
+  UpdateQuestionBankDto,
+  CreateQuestionBankItemDto,
+  UpdateQuestionBankItemDto,
+  ContentRevision,
+  RevisionEntityType,
+  LessonDraft,
+  LessonDraftData,
+  ContentEntityType,
+  ContentReviewRequest,
+  ReviewRequestStatus,
+  UserNotification,
+  ScheduledContent,
+  ContentEditLock,
+  ContentPlacement,
+  ContentMove,
+  CloneEntityType,
+  CloneContentOptions,
+  ContentCloneResult,
+  ContentBundle,
+  BundleConflictStrategy,
+  BundleImportResult,
+  BundleEntityType,
+  MarkdownSyncChange,
+  MarkdownSyncResult,
+  MovableEntityType,
+  PlacementEntityType,
   ContentSearchParams,
   ContentStats,
   UserLearningStats
@@ -163,6 +209,320 @@ function handleError(operation: string, error: any): void {
   // Example: Sentry.captureException(error, { tags: { operation } })
 }
 
+const CONTENT_TABLES: Record<ContentEntityType, string> = {
+  path: 'learning_paths',
+  course: 'courses',
+  module: 'modules',
+  lesson: 'lessons'
+}
+
+// Reusable modules and lessons (migration 024): columns linking each kind to its parent
+const PLACEMENTS: Record<PlacementEntityType, { table: string; itemTable: string; itemColumn: string; parentColumn: string }> = {
+  module: { table: 'module_placements', itemTable: 'modules', itemColumn: 'module_id', parentColumn: 'course_id' },
+  lesson: { table: 'lesson_placements', itemTable: 'lessons', itemColumn: 'lesson_id', parentColumn: 'module_id' }
+}
+
+// Modules or lessons placed in a parent besides their home one, shaped like the parent's own
+// children: the placement's sort_order and placement_id replace the item's home values
+async function fetchPlacedItems(entityType: PlacementEntityType, parentId: string, select: string): Promise<any[]> {
+  const config = PLACEMENTS[entityType]
+  const { data, error } = await supabase
+    .from(config.table)
+    .select(`id, sort_order, item:${config.itemTable}(${select})`)
+    .eq(config.parentColumn, parentId)
+
+  if (error) {
+    throw new Error(`Failed to fetch placed ${config.itemTable}: ${error.message}`)
+  }
+
+  // Items the caller can't read (RLS) come back as null
+  return (data || [])
+    .filter((placement: any) => placement.item)
+    .map((placement: any) => ({ ...placement.item, sort_order: placement.sort_order, placement_id: placement.id }))
+}
+
+// Ids of the published modules or lessons in the given parents, home or placed, each id once
+async function fetchPublishedChildIds(entityType: PlacementEntityType, parentIds: string[]): Promise<string[]> {
+  if (parentIds.length === 0) {
+    return []
+  }
+
+  const config = PLACEMENTS[entityType]
+  const { data: placements, error: placementsError } = await supabase
+    .from(config.table)
+    .select(config.itemColumn)
+    .in(config.parentColumn, parentIds)
+
+  if (placementsError) {
+    throw new Error(`Failed to fetch placements: ${placementsError.message}`)
+  }
+
+  const placedIds = (placements || []).map((placement: any) => placement[config.itemColumn])
+  const filters = [`${config.parentColumn}.in.(${parentIds.join(',')})`]
+  if (placedIds.length > 0) {
+    filters.push(`id.in.(${placedIds.join(',')})`)
+  }
+
+  const { data, error } = await supabase
+    .from(config.itemTable)
+    .select('id')
+    .eq('status', 'published')
+    .or(filters.join(','))
+
+  if (error) {
+    throw new Error(`Failed to fetch ${config.itemTable}: ${error.message}`)
+  }
+
+  return (data || []).map((item: { id: string }) => item.id)
+}
+
+// Rewrite a cloned lesson's content for a persona; lessons without content are skipped
+async function rewriteClonedLesson(lessonId: string, role: AIRole): Promise<'rewritten' | 'skipped' | 'failed'> {
+  const { data: lesson, error } = await supabase
+    .from('lessons')
+    .select('content')
+    .eq('id', lessonId)
+    .single()
+
+  if (error) {
+    return 'failed'
+  }
+
+  if (!lesson?.content?.trim()) {
+    return 'skipped'
+  }
+
+  const rewritten = await AIClient.rewriteForRole(lesson.content, role)
+  if (!rewritten) {
+    return 'failed'
+  }
+
+  // Through updateLesson so the rewrite gets a revision and updated_by like any other edit
+  try {
+    const roleLabel = AI_ROLES.find(option => option.value === role)?.label ?? role
+    await ContentService.updateLesson(lessonId, { content: rewritten }, `Rewritten for ${roleLabel}`)
+    return 'rewritten'
+  } catch {
+    return 'failed'
+  }
+}
+
+// Row type of each content table below a learning path
+interface ContentChildRows {
+  courses: Course
+  modules: Module
+  lessons: Lesson
+  challenges: Challenge
+}
+
+// Rows of a table that belong to any of the given parents
+async function fetchChildRows<T extends keyof ContentChildRows>(
+  table: T,
+  parentColumn: string,
+  parentIds: string[]
+): Promise<ContentChildRows[T][]> {
+  if (parentIds.length === 0) {
+    return []
+  }
+
+  const { data, error } = await supabase
+    .from(table)
+    .select('*')
+    .in(parentColumn, parentIds)
+
+  if (error) {
+    throw new Error(`Failed to fetch ${table}: ${error.message}`)
+  }
+
+  return (data || []) as ContentChildRows[T][]
+}
+
+// A learning path with the rows of everything in it, for exports.
+// Placed modules and lessons (migration 024) are left out; only the path's own content is included
+async function fetchLearningPathTree(pathId: string) {
+  const { data: path, error } = await supabase
+    .from('learning_paths')
+    .select('*')
+    .eq('id', pathId)
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to fetch learning path: ${error.message}`)
+  }
+
+  const courses = await fetchChildRows('courses', 'path_id', [path.id])
+  const modules = await fetchChildRows('modules', 'course_id', courses.map(course => course.id))
+  const lessons = await fetchChildRows('lessons', 'module_id', modules.map(module => module.id))
+  const challenges = await fetchChildRows('challenges', 'lesson_id', lessons.map(lesson => lesson.id))
+
+  return { path, courses, modules, lessons, challenges }
+}
+
+const MARKDOWN_SYNC_NOTE = 'Synced from markdown folder'
+
+// Create the row for a markdown folder entry, or save the fields that differ from the existing one,
+// and record the change. Returns the row id, or null when saving failed
+async function syncMarkdownEntry(
+  entityType: BundleEntityType,
+  entry: MarkdownEntry,
+  target: {
+    existing: Record<string, any> | undefined
+    create: () => Promise<{ id: string } | null>
+    update: (id: string, fields: Record<string, any>) => Promise<{ id: string } | null>
+  },
+  changes: MarkdownSyncChange[]
+): Promise<string | null> {
+  const change = { entity_type: entityType, title: entry.data.title, file: entry.file }
+
+  try {
+    if (!target.existing) {
+      const created = await target.create()
+      if (!created) {
+        throw new Error(`Failed to create ${entityType}`)
+      }
+
+      changes.push({ ...change, action: 'created' })
+      return created.id
+    }
+
+    const changedFields = getMarkdownChangedFields(target.existing, entry.data)
+    if (changedFields.length > 0) {
+      const updated = await target.update(
+        target.existing.id,
+        Object.fromEntries(changedFields.map(field => [field, entry.data[field]]))
+      )
+      if (!updated) {
+        throw new Error(`Failed to update ${entityType}`)
+      }
+    }
+
+    changes.push({
+      ...change,
+      action: changedFields.length > 0 ? 'updated' : 'unchanged',
+      changed_fields: changedFields
+    })
+    return target.existing.id
+  } catch (error) {
+    changes.push({ ...change, action: 'failed', error: error instanceof Error ? error.message : String(error) })
+    return null
+  }
+}
+
+const PARENT_TYPES: Record<MovableEntityType, ContentEntityType> = {
+  course: 'path',
+  module: 'course',
+  lesson: 'module'
+}
+
+function toPlacement(entityType: PlacementEntityType, row: any): ContentPlacement {
+  const config = PLACEMENTS[entityType]
+  return {
+    id: row.id,
+    entity_type: entityType,
+    item_id: row[config.itemColumn],
+    parent_id: row[config.parentColumn],
+    sort_order: row.sort_order,
+    created_at: row.created_at
+  }
+}
+
+// Parents list their placed children, so their cached lists change with placements
+function clearPlacementCache() {
+  clearCache('placements_')
+  clearCache('modules')
+  clearCache('lessons')
+  clearCache('module_')
+  clearCache('course_')
+}
+
+function byPlacementOrder(a: { sort_order: number }, b: { sort_order: number }): number {
+  return a.sort_order - b.sort_order
+}
+
+// Cached lists and the entity itself after its status changes outside the regular update methods
+function clearContentCache(entityType: ContentEntityType, entityId: string) {
+  const keys: Record<ContentEntityType, [string, string]> = {
+    path: ['learning_paths', `learning_path_${entityId}`],
+    course: ['courses', `course_${entityId}`],
+    module: ['modules', `module_${entityId}`],
+    lesson: ['lessons', `lesson_${entityId}`]
+  }
+
+  for (const key of keys[entityType]) {
+    clearCache(key)
+  }
+  clearCache('stats')
+}
+
+// Live edit lock on an item with its holder's name, or null when nobody is editing it (migration 023)
+async function fetchEditLock(entityType: ContentEntityType, entityId: string): Promise<ContentEditLock | null> {
+  const { data, error } = await supabase
+    .from('content_edit_locks')
+    .select(`
+      *,
+      holder:user_profiles!content_edit_locks_locked_by_fkey(display_name)
+    `)
+    .eq('entity_type', entityType)
+    .eq('entity_id', entityId)
+    .gt('expires_at', new Date().toISOString())
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to fetch edit lock: ${error.message}`)
+  }
+
+  return data
+}
+
+async function assertNotLockedByOthers(entityType: ContentEntityType, entityId: string, userId: string): Promise<void> {
+  const lock = await fetchEditLock(entityType, entityId)
+  if (lock && lock.locked_by !== userId) {
+    throw new Error(`${lock.holder?.display_name || 'Someone else'} is editing this item right now, so your changes were not saved`)
+  }
+}
+
+// Reorders only move an item among its siblings, which the database lets through edit locks (migration 037)
+function isReorderOnly(data: object): boolean {
+  return Object.keys(data).every(key => key === 'sort_order')
+}
+
+// Children follow a parent set to draft or archived. The database updates them in one transaction,
+// past their edit locks, since the parent's own update was already checked (migration 037)
+async function cascadeContentStatus(entityType: ContentEntityType, entityId: string, newStatus: 'draft' | 'archived'): Promise<void> {
+  try {
+    if (!validateSupabase()) {
+      return
+    }
+
+    const { error } = await supabase.rpc('cascade_content_status_from', {
+      p_entity_type: entityType,
+      p_entity_id: entityId,
+      p_status: newStatus
+    })
+
+    if (error) {
+      throw new Error(`Failed to cascade status: ${error.message}`)
+    }
+
+    console.log(`✅ Successfully cascaded status '${newStatus}' from ${entityType} ${entityId} to all child content`)
+
+  } catch (error) {
+    console.error(`Error cascading status from ${entityType}:`, error)
+    throw error
+  }
+}
+
+const STALE_EDIT_MESSAGE = 'This item was changed by someone else after you opened it. Reopen it to get the latest version, then make your changes again.'
+
+// Form saves pass the updated_at their copy was loaded with; saving over a newer version would
+// silently discard someone else's changes. The update itself is also limited to that version, since
+// another save can land between this check and the update
+function assertNotStale(current: { updated_at: string }, expectedUpdatedAt: string): void {
+  if (current.updated_at !== expectedUpdatedAt) {
+    throw new Error(STALE_EDIT_MESSAGE)
+  }
+}
+
 // Database connection validation
 function validateSupabase(): boolean {
   if (!supabase) {
@@ -332,7 +692,12 @@ export class ContentService {
     }
   }
 
-  static async updateLearningPath(id: string, data: UpdateLearningPathDto): Promise<LearningPath | null> {
+  /**
+   * Rejected while someone else holds the edit lock (the database enforces this too, migration 032).
+   * Pass expectedUpdatedAt (the updated_at the editor loaded) from forms to also reject the save
+   * when the item changed in the meantime. Errors are rethrown for the UI to show.
+   */
+  static async updateLearningPath(id: string, data: UpdateLearningPathDto, changeNote?: string, expectedUpdatedAt?: string): Promise<LearningPath | null> {
     try {
       if (!validateSupabase()) return null
 
@@ -356,6 +721,13 @@ export class ContentService {
         throw new Error('Learning path not found')
       }
 
+      if (!isReorderOnly(data)) {
+        await assertNotLockedByOthers('path', id, user.data.user.id)
+      }
+      if (expectedUpdatedAt) {
+        assertNotStale(existingPath, expectedUpdatedAt)
+      }
+
       // Check for changes to avoid unnecessary updates
       const hasChanges = Object.keys(data).some(key => {
         return data[key as keyof UpdateLearningPathDto] !== existingPath[key as keyof typeof existingPath]
@@ -384,10 +756,11 @@ export class ContentService {
         }
       }
 
-      // Prepare update data
+      // Prepare update data; the database records the revision with the change note (migration 033)
       const updateData: any = {
         ...data,
-        updated_by: user.data.user.id
+        updated_by: user.data.user.id,
+        revision_note: changeNote?.trim() || null
       }
 
       // If status is being changed to 'published', set published metadata
@@ -396,18 +769,26 @@ export class ContentService {
         updateData.published_at = new Date().toISOString()
       }
 
-      const { data: result, error } = await supabase
+      // Only the version the editor loaded is updated; if it changed, no row is returned
+      let query = supabase
         .from('learning_paths')
         .update(updateData)
         .eq('id', id)
-        .select()
-        .maybeSingle()
+      if (expectedUpdatedAt) {
+        query = query.eq('updated_at', expectedUpdatedAt)
+      }
+
+      const { data: result, error } = await query.select().maybeSingle()
 
       if (error) {
         throw new Error(`Failed to update learning path: ${error.message}`)
       }
 
       if (!result) {
+        if (expectedUpdatedAt) {
+          throw new Error(STALE_EDIT_MESSAGE)
+        }
+
         // If no result returned, fetch the current data as fallback
         console.warn('Update returned no data, fetching current learning path data')
         const { data: fallbackResult, error: fallbackError } = await supabase
@@ -428,6 +809,7 @@ export class ContentService {
         clearCache('learning_paths')
         clearCache(`learning_path_${id}`)
         clearCache('stats')
+        clearCache(`content_revisions_path_${id}`)
 
         return fallbackResult
       }
@@ -441,11 +823,12 @@ export class ContentService {
       clearCache('learning_paths')
       clearCache(`learning_path_${id}`)
       clearCache('stats')
+      clearCache(`content_revisions_path_${id}`)
 
       return result
     } catch (error) {
       handleError('updateLearningPath', error)
-      return null
+      throw error
     }
   }
 
@@ -514,7 +897,12 @@ export class ContentService {
           throw new Error(`Failed to fetch course: ${error.message}`)
         }
 
-        return data
+        const placedModules = await fetchPlacedItems('module', id, '*, lessons:lessons(count)')
+
+        return {
+          ...data,
+          modules: [...(data.modules || []), ...placedModules].sort(byPlacementOrder)
+        }
       })
     } catch (error) {
       handleError('getCourse', error)
@@ -556,7 +944,8 @@ export class ContentService {
     }
   }
 
-  static async updateCourse(id: string, data: UpdateCourseDto): Promise<Course | null> {
+  // Same edit lock and stale-save checks as updateLearningPath; errors are rethrown
+  static async updateCourse(id: string, data: UpdateCourseDto, changeNote?: string, expectedUpdatedAt?: string): Promise<Course | null> {
     try {
       if (!validateSupabase()) return null
 
@@ -580,6 +969,13 @@ export class ContentService {
         throw new Error('Course not found')
       }
 
+      if (!isReorderOnly(data)) {
+        await assertNotLockedByOthers('course', id, user.data.user.id)
+      }
+      if (expectedUpdatedAt) {
+        assertNotStale(existingCourse, expectedUpdatedAt)
+      }
+
       // Check for changes to avoid unnecessary updates
       const hasChanges = Object.keys(data).some(key => {
         return data[key as keyof UpdateCourseDto] !== existingCourse[key as keyof typeof existingCourse]
@@ -612,7 +1008,8 @@ export class ContentService {
       // Prepare update data
       const updateData: any = {
         ...data,
-        updated_by: user.data.user.id
+        updated_by: user.data.user.id,
+        revision_note: changeNote?.trim() || null
       }
 
       // If status is being changed to 'published', set published metadata
@@ -621,18 +1018,26 @@ export class ContentService {
         updateData.published_at = new Date().toISOString()
       }
 
-      const { data: result, error } = await supabase
+      // Only the version the editor loaded is updated; if it changed, no row is returned
+      let query = supabase
         .from('courses')
         .update(updateData)
         .eq('id', id)
-        .select()
-        .maybeSingle()
+      if (expectedUpdatedAt) {
+        query = query.eq('updated_at', expectedUpdatedAt)
+      }
+
+      const { data: result, error } = await query.select().maybeSingle()
 
       if (error) {
         throw new Error(`Failed to update course: ${error.message}`)
       }
 
       if (!result) {
+        if (expectedUpdatedAt) {
+          throw new Error(STALE_EDIT_MESSAGE)
+        }
+
         // If no result returned, fetch the current data as fallback
         console.warn('Update returned no data, fetching current course data')
         const { data: fallbackResult, error: fallbackError } = await supabase
@@ -654,6 +1059,7 @@ export class ContentService {
         clearCache(`course_${id}`)
         clearCache('learning_paths')
         clearCache('stats')
+        clearCache(`content_revisions_course_${id}`)
 
         return fallbackResult
       }
@@ -668,11 +1074,12 @@ export class ContentService {
       clearCache(`course_${id}`)
       clearCache('learning_paths')
       clearCache('stats')
+      clearCache(`content_revisions_course_${id}`)
 
       return result
     } catch (error) {
       handleError('updateCourse', error)
-      return null
+      throw error
     }
   }
 
@@ -706,10 +1113,15 @@ export class ContentService {
           throw new Error(`Failed to fetch modules: ${error.message}`)
         }
 
-        return data?.map((module: any) => ({
+        // A course's list includes the modules placed in it
+        const placedModules = courseId
+          ? await fetchPlacedItems('module', courseId, '*, course:courses(*), lessons:lessons(count)')
+          : []
+
+        return [...(data || []), ...placedModules].sort(byPlacementOrder).map((module: any) => ({
           ...module,
           lesson_count: module.lessons?.[0]?.count || 0
-        })) || []
+        }))
       })
     } catch (error) {
       handleError('getModules', error)
@@ -741,7 +1153,12 @@ export class ContentService {
           throw new Error(`Failed to fetch module: ${error.message}`)
         }
 
-        return data
+        const placedLessons = await fetchPlacedItems('lesson', id, '*, challenges:challenges(count)')
+
+        return {
+          ...data,
+          lessons: [...(data.lessons || []), ...placedLessons].sort(byPlacementOrder)
+        }
       })
     } catch (error) {
       handleError('getModule', error)
@@ -783,7 +1200,8 @@ export class ContentService {
     }
   }
 
-  static async updateModule(id: string, data: UpdateModuleDto): Promise<Module | null> {
+  // Same edit lock and stale-save checks as updateLearningPath; errors are rethrown
+  static async updateModule(id: string, data: UpdateModuleDto, changeNote?: string, expectedUpdatedAt?: string): Promise<Module | null> {
     try {
       if (!validateSupabase()) return null
 
@@ -814,6 +1232,13 @@ export class ContentService {
         throw new Error('Module not found')
       }
 
+      if (!isReorderOnly(data)) {
+        await assertNotLockedByOthers('module', id, user.data.user.id)
+      }
+      if (expectedUpdatedAt) {
+        assertNotStale(existingModule, expectedUpdatedAt)
+      }
+
       // If updating slug, check for conflicts within the same course
       if (data.slug && data.slug !== existingModule.slug) {
         const courseId = data.course_id || existingModule.course_id
@@ -838,7 +1263,8 @@ export class ContentService {
       // Prepare update data
       const updateData: any = {
         ...data,
-        updated_by: user.data.user.id
+        updated_by: user.data.user.id,
+        revision_note: changeNote?.trim() || null
       }
 
       // If status is being changed to 'published', set published metadata
@@ -847,12 +1273,16 @@ export class ContentService {
         updateData.published_at = new Date().toISOString()
       }
 
-      // Perform the update
-      const { data: result, error } = await supabase
+      // Perform the update, only on the version the editor loaded; if it changed, no row is returned
+      let query = supabase
         .from('modules')
         .update(updateData)
         .eq('id', id)
-        .select()
+      if (expectedUpdatedAt) {
+        query = query.eq('updated_at', expectedUpdatedAt)
+      }
+
+      const { data: result, error } = await query.select()
 
       if (error) {
         throw new Error(`Failed to update module: ${error.message}`)
@@ -861,6 +1291,10 @@ export class ContentService {
       // If no rows were returned, it could mean no changes were needed
       // Let's fetch the current module to verify it exists and return it
       if (!result || result.length === 0) {
+        if (expectedUpdatedAt) {
+          throw new Error(STALE_EDIT_MESSAGE)
+        }
+
         const { data: currentModule, error: fetchError } = await supabase
           .from('modules')
           .select('*')
@@ -892,11 +1326,12 @@ export class ContentService {
       clearCache(`module_${id}`)
       clearCache('courses')
       clearCache('stats')
+      clearCache(`content_revisions_module_${id}`)
 
       return updatedModule
     } catch (error) {
       handleError('updateModule', error)
-      return null
+      throw error
     }
   }
 
@@ -930,10 +1365,15 @@ export class ContentService {
           throw new Error(`Failed to fetch lessons: ${error.message}`)
         }
 
-        return data?.map((lesson: any) => ({
+        // A module's list includes the lessons placed in it
+        const placedLessons = moduleId
+          ? await fetchPlacedItems('lesson', moduleId, '*, module:modules(*), challenges:challenges(count)')
+          : []
+
+        return [...(data || []), ...placedLessons].sort(byPlacementOrder).map((lesson: any) => ({
           ...lesson,
           challenge_count: lesson.challenges?.[0]?.count || 0
-        })) || []
+        }))
       })
     } catch (error) {
       handleError('getLessons', error)
@@ -1017,7 +1457,8 @@ export class ContentService {
     }
   }
 
-  static async updateLesson(id: string, data: UpdateLessonDto): Promise<Lesson | null> {
+  // Same edit lock and stale-save checks as updateLearningPath; errors are rethrown
+  static async updateLesson(id: string, data: UpdateLessonDto, changeNote?: string, expectedUpdatedAt?: string): Promise<Lesson | null> {
     try {
       if (!validateSupabase()) return null
 
@@ -1059,6 +1500,13 @@ export class ContentService {
         throw new Error('Lesson not found')
       }
 
+      if (!isReorderOnly(data)) {
+        await assertNotLockedByOthers('lesson', id, user.data.user.id)
+      }
+      if (expectedUpdatedAt) {
+        assertNotStale(existingLesson, expectedUpdatedAt)
+      }
+
       // If updating slug, check for conflicts within the same module
       if (data.slug && data.slug !== existingLesson.slug) {
         const moduleId = data.module_id || existingLesson.module_id
@@ -1083,7 +1531,8 @@ export class ContentService {
       // Prepare update data
       const updateData: any = {
         ...data,
-        updated_by: user.data.user.id
+        updated_by: user.data.user.id,
+        revision_note: changeNote?.trim() || null
       }
 
       // If status is being changed to 'published', set published metadata
@@ -1092,12 +1541,16 @@ export class ContentService {
         updateData.published_at = new Date().toISOString()
       }
 
-      // Perform the update
-      const { data: result, error } = await supabase
+      // Perform the update, only on the version the editor loaded; if it changed, no row is returned
+      let query = supabase
         .from('lessons')
         .update(updateData)
         .eq('id', id)
-        .select()
+      if (expectedUpdatedAt) {
+        query = query.eq('updated_at', expectedUpdatedAt)
+      }
+
+      const { data: result, error } = await query.select()
 
       if (error) {
         throw new Error(`Failed to update lesson: ${error.message}`)
@@ -1106,6 +1559,10 @@ export class ContentService {
       // If no rows were returned, it could mean no changes were needed
       // Let's fetch the current lesson to verify it exists and return it
       if (!result || result.length === 0) {
+        if (expectedUpdatedAt) {
+          throw new Error(STALE_EDIT_MESSAGE)
+        }
+
         const { data: currentLesson, error: fetchError } = await supabase
           .from('lessons')
           .select('*')
@@ -1137,80 +1594,49 @@ export class ContentService {
       clearCache(`lesson_${id}`)
       clearCache('modules')
       clearCache('stats')
+      clearCache(`content_revisions_lesson_${id}`)
 
       return updatedLesson
     } catch (error) {
       handleError('updateLesson', error)
-      return null
+      throw error
     }
   }
 
   // ============================================================================
-  // CHALLENGES
+  // CONTENT PLACEMENTS
   // ============================================================================
 
-  static async getChallenges(lessonId?: string): Promise<Challenge[]> {
+  // Every placement of reusable modules or lessons, for the curriculum builder
+  static async getPlacements(entityType: PlacementEntityType): Promise<ContentPlacement[]> {
     try {
       if (!validateSupabase()) return []
 
-      const cacheKey = `challenges_${lessonId || 'all'}`
-      
-      return await withCache(cacheKey, async () => {
-        let query = supabase
-          .from('challenges')
-          .select(`
-            *,
-            lesson:lessons(*)
-          `)
-          .order('sort_order', { ascending: true })
-
-        if (lessonId) {
-          query = query.eq('lesson_id', lessonId)
-        }
-
-        const { data, error } = await query
-
-        if (error) {
-          throw new Error(`Failed to fetch challenges: ${error.message}`)
-        }
-
-        return data || []
-      })
-    } catch (error) {
-      handleError('getChallenges', error)
-      return []
-    }
-  }
-
-  static async getChallenge(id: string): Promise<Challenge | null> {
-    try {
-      if (!validateSupabase()) return null
+      const cacheKey = `placements_${entityType}`
 
-      const cacheKey = `challenge_${id}`
-      
       return await withCache(cacheKey, async () => {
         const { data, error } = await supabase
-          .from('challenges')
-          .select(`
-            *,
-            lesson:lessons(*)
-          `)
-          .eq('id', id)
-          .single()
+          .from(PLACEMENTS[entityType].table)
+          .select('*')
+          .order('sort_order', { ascending: true })
 
         if (error) {
-          throw new Error(`Failed to fetch challenge: ${error.message}`)
+          throw new Error(`Failed to fetch placements: ${error.message}`)
         }
 
-        return data
-      })
+        return (data || []).map((row: any) => toPlacement(entityType, row))
+      }, CACHE_TTL.CONTENT / 2)
     } catch (error) {
-      handleError('getChallenge', error)
-      return null
+      handleError('getPlacements', error)
+      return []
     }
   }
 
-  static async createChallenge(data: CreateChallengeDto): Promise<Challenge | null> {
+  /**
+   * Insert an existing module into another course, or an existing lesson into another module,
+   * after the parent's current children. Errors are rethrown for the UI to show.
+   */
+  static async placeContent(entityType: PlacementEntityType, itemId: string, parentId: string): Promise<ContentPlacement | null> {
     try {
       if (!validateSupabase()) return null
 
@@ -1219,189 +1645,1616 @@ export class ContentService {
         throw new Error('User not authenticated')
       }
 
-      const { data: result, error } = await supabase
-        .from('challenges')
+      const config = PLACEMENTS[entityType]
+      const [ownChildren, placedChildren] = await Promise.all([
+        supabase
+          .from(config.itemTable)
+          .select('sort_order')
+          .eq(config.parentColumn, parentId)
+          .order('sort_order', { ascending: false })
+          .limit(1),
+        supabase
+          .from(config.table)
+          .select('sort_order')
+          .eq(config.parentColumn, parentId)
+          .order('sort_order', { ascending: false })
+          .limit(1)
+      ])
+
+      const orderError = ownChildren.error || placedChildren.error
+      if (orderError) {
+        throw new Error(`Failed to check sort order: ${orderError.message}`)
+      }
+
+      const sortOrder = Math.max(ownChildren.data?.[0]?.sort_order ?? 0, placedChildren.data?.[0]?.sort_order ?? 0) + 1
+
+      const { data, error } = await supabase
+        .from(config.table)
         .insert({
-          ...data,
+          [config.itemColumn]: itemId,
+          [config.parentColumn]: parentId,
+          sort_order: sortOrder,
           created_by: user.data.user.id
         })
         .select()
         .single()
 
       if (error) {
-        throw new Error(`Failed to create challenge: ${error.message}`)
+        throw new Error(error.code === '23505'
+          ? `This ${entityType} is already used there`
+          : `Failed to insert ${entityType}: ${error.message}`)
       }
 
-      // Clear relevant cache entries
-      clearCache('challenges')
-      clearCache('lessons')
-      clearCache('stats')
+      clearPlacementCache()
 
-      return result
+      return toPlacement(entityType, data)
     } catch (error) {
-      handleError('createChallenge', error)
-      return null
+      handleError('placeContent', error)
+      throw error
     }
   }
 
-  static async updateChallenge(id: string, data: UpdateChallengeDto): Promise<Challenge | null> {
+  // Removes the item from one parent; the item itself and its other placements stay. Errors are rethrown
+  static async removePlacement(entityType: PlacementEntityType, placementId: string): Promise<void> {
     try {
-      if (!validateSupabase()) return null
+      if (!validateSupabase()) return
 
-      const user = await supabase.auth.getUser()
-      if (!user.data.user?.id) {
-        throw new Error('User not authenticated')
+      const { error } = await supabase
+        .from(PLACEMENTS[entityType].table)
+        .delete()
+        .eq('id', placementId)
+
+      if (error) {
+        throw new Error(`Failed to remove ${entityType} placement: ${error.message}`)
       }
 
-      // Check if there are any changes to apply
+      clearPlacementCache()
+    } catch (error) {
+      handleError('removePlacement', error)
+      throw error
+    }
+  }
+
+  static async updatePlacementSortOrder(entityType: PlacementEntityType, placementId: string, sortOrder: number): Promise<void> {
+    try {
+      if (!validateSupabase()) return
+
+      const { error } = await supabase
+        .from(PLACEMENTS[entityType].table)
+        .update({ sort_order: sortOrder })
+        .eq('id', placementId)
+
+      if (error) {
+        throw new Error(`Failed to reorder ${entityType}: ${error.message}`)
+      }
+
+      clearPlacementCache()
+    } catch (error) {
+      handleError('updatePlacementSortOrder', error)
+      throw error
+    }
+  }
+
+  // ============================================================================
+  // CONTENT MOVES
+  // ============================================================================
+
+  /**
+   * Move a course, module or lesson to another parent at a 1-based position (the end when omitted),
+   * renumbering both parents in one transaction. Moving it back to from_parent_id / from_position
+   * undoes the move. Errors are rethrown for the UI to show.
+   */
+  static async moveContent(entityType: MovableEntityType, itemId: string, parentId: string, position?: number): Promise<ContentMove | null> {
+    try {
+      if (!validateSupabase()) return null
+
+      const { data: result, error } = await supabase
+        .rpc('move_content_item', {
+          p_entity_type: entityType,
+          p_item_id: itemId,
+          p_parent_id: parentId,
+          p_position: position ?? null
+        })
+
+      if (error) {
+        throw new Error(`Failed to move ${entityType}: ${error.message}`)
+      }
+
+      const move = result as ContentMove
+      clearContentCache(entityType, itemId)
+      clearContentCache(PARENT_TYPES[entityType], move.from_parent_id)
+      clearContentCache(PARENT_TYPES[entityType], move.to_parent_id)
+      clearCache('placements_')
+
+      return move
+    } catch (error) {
+      handleError('moveContent', error)
+      throw error
+    }
+  }
+
+  // ============================================================================
+  // CONTENT CLONES
+  // ============================================================================
+
+  /**
+   * Deep copy a path, course or module with its courses, modules, lessons and challenges. The copy
+   * is made in one transaction, starts as draft and gets a slug that is unique where it lands.
+   * With rewriteForRole the copied lessons are then rewritten one by one; a lesson whose rewrite
+   * fails keeps the original text and is counted in failed_rewrites. Errors are rethrown.
+   */
+  static async cloneContent(
+    entityType: CloneEntityType,
+    entityId: string,
+    options: CloneContentOptions = {}
+  ): Promise<ContentCloneResult | null> {
+    try {
+      if (!validateSupabase()) return null
+
+      const { data: result, error } = await supabase
+        .rpc('clone_content_tree', {
+          p_entity_type: entityType,
+          p_entity_id: entityId,
+          p_parent_id: options.parentId || null,
+          p_title: options.title || null
+        })
+
+      if (error) {
+        throw new Error(`Failed to clone ${entityType}: ${error.message}`)
+      }
+
+      const clone = result as Omit<ContentCloneResult, 'rewritten_lessons' | 'failed_rewrites'>
+      let rewrittenLessons = 0
+      let failedRewrites = 0
+
+      if (options.rewriteForRole) {
+        for (const lessonId of clone.lesson_ids) {
+          const outcome = await rewriteClonedLesson(lessonId, options.rewriteForRole)
+          if (outcome === 'rewritten') {
+            rewrittenLessons++
+          } else if (outcome === 'failed') {
+            failedRewrites++
+          }
+        }
+      }
+
+      // Every level under the copy gained rows
+      for (const key of ['learning_path', 'course', 'module', 'lesson', 'challenges', 'placements_', 'stats']) {
+        clearCache(key)
+      }
+
+      return { ...clone, rewritten_lessons: rewrittenLessons, failed_rewrites: failedRewrites }
+    } catch (error) {
+      handleError('cloneContent', error)
+      throw error
+    }
+  }
+
+  // ============================================================================
+  // CONTENT BUNDLES
+  // ============================================================================
+
+  // A learning path with its courses, modules, lessons and challenges as a portable bundle.
+  // Placed modules and lessons (migration 024) are left out; only the path's own content is exported
+  static async exportLearningPathBundle(pathId: string): Promise<ContentBundle | null> {
+    try {
+      if (!validateSupabase()) return null
+
+      const { path, courses, modules, lessons, challenges } = await fetchLearningPathTree(pathId)
+      return buildContentBundle(path, courses, modules, lessons, challenges)
+    } catch (error) {
+      handleError('exportLearningPathBundle', error)
+      throw error
+    }
+  }
+
+  /**
+   * Validate a parsed bundle file and import it in one transaction (migration 027), or with dryRun
+   * only list what the import would do. onConflict decides what happens to an entity whose slug is
+   * already taken where it lands. Errors, including validation errors, are rethrown.
+   */
+  static async importContentBundle(
+    bundle: unknown,
+    onConflict: BundleConflictStrategy,
+    dryRun: boolean
+  ): Promise<BundleImportResult | null> {
+    try {
+      if (!validateSupabase()) return null
+
+      const { data: result, error } = await supabase
+        .rpc('import_content_bundle', {
+          p_bundle: validateContentBundle(bundle),
+          p_on_conflict: onConflict,
+          p_dry_run: dryRun
+        })
+
+      if (error) {
+        throw new Error(`Failed to import bundle: ${error.message}`)
+      }
+
+      if (!dryRun) {
+        for (const key of ['learning_path', 'course', 'module', 'lesson', 'challenges', 'content_revisions', 'stats']) {
+          clearCache(key)
+        }
+      }
+
+      return result
+    } catch (error) {
+      handleError('importContentBundle', error)
+      throw error
+    }
+  }
+
+  // ============================================================================
+  // MARKDOWN FOLDERS
+  // ============================================================================
+
+  // A learning path as the files of a markdown folder (src/lib/content-markdown.ts), for authoring in git
+  static async exportMarkdownFolder(pathId: string): Promise<MarkdownFile[] | null> {
+    try {
+      if (!validateSupabase()) return null
+
+      const { path, courses, modules, lessons, challenges } = await fetchLearningPathTree(pathId)
+      return buildMarkdownFolder(path, courses, modules, lessons, challenges)
+    } catch (error) {
+      handleError('exportMarkdownFolder', error)
+      throw error
+    }
+  }
+
+  /**
+   * Sync a markdown folder back in through the create and update methods, so their checks and
+   * revisions apply. Items are matched on slug within their parent (challenges on title within their
+   * lesson) and only changed fields are saved; nothing is deleted. An item that fails to save is
+   * reported and the items in it are skipped. Folder validation errors are rethrown before any write.
+   */
+  static async syncMarkdownFolder(files: MarkdownFile[]): Promise<MarkdownSyncResult | null> {
+    try {
+      if (!validateSupabase()) return null
+
+      const tree = parseMarkdownFolder(files)
+      const changes: MarkdownSyncChange[] = []
+
+      const { data: existingPath, error } = await supabase
+        .from('learning_paths')
+        .select('*')
+        .eq('slug', tree.data.slug)
+        .maybeSingle()
+
+      if (error) {
+        throw new Error(`Failed to fetch learning path: ${error.message}`)
+      }
+
+      const pathId = await syncMarkdownEntry('path', tree, {
+        existing: existingPath ?? undefined,
+        create: () => ContentService.createLearningPath(tree.data as CreateLearningPathDto),
+        update: (id, fields) => ContentService.updateLearningPath(id, fields, MARKDOWN_SYNC_NOTE)
+      }, changes)
+
+      if (!pathId) {
+        return { path_id: null, changes }
+      }
+
+      const existingCourses = await fetchChildRows('courses', 'path_id', [pathId])
+      for (const course of tree.courses) {
+        const courseId = await syncMarkdownEntry('course', course, {
+          existing: existingCourses.find(row => row.slug === course.data.slug),
+          create: () => ContentService.createCourse({ ...course.data, path_id: pathId } as CreateCourseDto),
+          update: (id, fields) => ContentService.updateCourse(id, fields, MARKDOWN_SYNC_NOTE)
+        }, changes)
+
+        if (!courseId) {
+          continue
+        }
+
+        const existingModules = await fetchChildRows('modules', 'course_id', [courseId])
+        for (const courseModule of course.modules) {
+          const moduleId = await syncMarkdownEntry('module', courseModule, {
+            existing: existingModules.find(row => row.slug === courseModule.data.slug),
+            create: () => ContentService.createModule({ ...courseModule.data, course_id: courseId } as CreateModuleDto),
+            update: (id, fields) => ContentService.updateModule(id, fields, MARKDOWN_SYNC_NOTE)
+          }, changes)
+
+          if (!moduleId) {
+            continue
+          }
+
+          const existingLessons = await fetchChildRows('lessons', 'module_id', [moduleId])
+          for (const lesson of courseModule.lessons) {
+            const lessonId = await syncMarkdownEntry('lesson', lesson, {
+              existing: existingLessons.find(row => row.slug === lesson.data.slug),
+              create: () => ContentService.createLesson({ ...lesson.data, module_id: moduleId } as CreateLessonDto),
+              update: (id, fields) => ContentService.updateLesson(id, fields, MARKDOWN_SYNC_NOTE)
+            }, changes)
+
+            if (!lessonId) {
+              continue
+            }
+
+            const existingChallenges = await fetchChildRows('challenges', 'lesson_id', [lessonId])
+            for (const challenge of lesson.challenges) {
+              await syncMarkdownEntry('challenge', challenge, {
+                existing: existingChallenges.find(row => row.title === challenge.data.title),
+                create: () => ContentService.createChallenge({ ...challenge.data, lesson_id: lessonId } as CreateChallengeDto),
+                update: (id, fields) => ContentService.updateChallenge(id, fields)
+              }, changes)
+            }
+          }
+        }
+      }
+
+      return { path_id: pathId, changes }
+    } catch (error) {
+      handleError('syncMarkdownFolder', error)
+      throw error
+    }
+  }
+
+  // ============================================================================
+  // CONTENT REVISIONS
+  // ============================================================================
+
+  // Saved snapshots of a path, course, module or lesson, newest first
+  static async getContentRevisions(entityType: RevisionEntityType, entityId: string): Promise<ContentRevision[]> {
+    try {
+      if (!validateSupabase()) return []
+
+      const cacheKey = `content_revisions_${entityType}_${entityId}`
+
+      return await withCache(cacheKey, async () => {
+        const { data, error } = await supabase
+          .from('content_revisions')
+          .select(`
+            *,
+            author:user_profiles!content_revisions_created_by_fkey(display_name)
+          `)
+          .eq('entity_type', entityType)
+          .eq('entity_id', entityId)
+          .order('revision_number', { ascending: false })
+
+        if (error) {
+          throw new Error(`Failed to fetch revisions: ${error.message}`)
+        }
+
+        return data || []
+      }, CACHE_TTL.CONTENT / 2)
+    } catch (error) {
+      handleError('getContentRevisions', error)
+      return []
+    }
+  }
+
+  /**
+   * Save a revision's content fields back onto its entity.
+   * Goes through the regular update so validation and caching apply, and the restore is
+   * recorded as a new revision - history is never rewritten.
+   */
+  static async restoreContentRevision(revision: ContentRevision): Promise<LearningPath | Course | Module | Lesson | null> {
+    const fields = pickRevisionFields(revision.entity_type, revision.snapshot)
+    const changeNote = `Restored revision ${revision.revision_number}`
+
+    switch (revision.entity_type) {
+      case 'path':
+        return await ContentService.updateLearningPath(revision.entity_id, fields, changeNote)
+      case 'course':
+        return await ContentService.updateCourse(revision.entity_id, fields, changeNote)
+      case 'module':
+        return await ContentService.updateModule(revision.entity_id, fields, changeNote)
+      case 'lesson':
+        return await ContentService.updateLesson(revision.entity_id, fields, changeNote)
+    }
+  }
+
+  // ============================================================================
+  // LESSON DRAFTS
+  // ============================================================================
+
+  // Staged drafts of published lessons, most recently edited first
+  static async getLessonDrafts(): Promise<LessonDraft[]> {
+    try {
+      if (!validateSupabase()) return []
+
+      return await withCache('lesson_drafts_all', async () => {
+        const { data, error } = await supabase
+          .from('lesson_drafts')
+          .select('*')
+          .order('updated_at', { ascending: false })
+
+        if (error) {
+          throw new Error(`Failed to fetch lesson drafts: ${error.message}`)
+        }
+
+        return data || []
+      }, CACHE_TTL.CONTENT / 2)
+    } catch (error) {
+      handleError('getLessonDrafts', error)
+      return []
+    }
+  }
+
+  static async getLessonDraft(lessonId: string): Promise<LessonDraft | null> {
+    try {
+      if (!validateSupabase()) return null
+
+      const cacheKey = `lesson_draft_${lessonId}`
+
+      return await withCache(cacheKey, async () => {
+        const { data, error } = await supabase
+          .from('lesson_drafts')
+          .select(`
+            *,
+            author:user_profiles!lesson_drafts_updated_by_fkey(display_name),
+            approver:user_profiles!lesson_drafts_approved_by_fkey(display_name)
+          `)
+          .eq('lesson_id', lessonId)
+          .maybeSingle()
+
+        if (error) {
+          throw new Error(`Failed to fetch lesson draft: ${error.message}`)
+        }
+
+        return data
+      }, CACHE_TTL.CONTENT / 2)
+    } catch (error) {
+      handleError('getLessonDraft', error)
+      return null
+    }
+  }
+
+  /**
+   * Stage edits of a published lesson without changing what learners see.
+   * Saving over an approved draft sends it back for approval (migration 020).
+   */
+  static async saveLessonDraft(lessonId: string, data: LessonDraftData): Promise<LessonDraft | null> {
+    try {
+      if (!validateSupabase()) return null
+
+      const user = await supabase.auth.getUser()
+      if (!user.data.user?.id) {
+        throw new Error('User not authenticated')
+      }
+
+      const draftData = pickLessonDraftFields(data)
+      if (Object.keys(draftData).length === 0) {
+        throw new Error('No data provided for draft')
+      }
+
+      if (draftData.title !== undefined && (!draftData.title || draftData.title.trim() === '')) {
+        throw new Error('Title is required')
+      }
+
+      const { data: lesson, error: lessonError } = await supabase
+        .from('lessons')
+        .select('id, status')
+        .eq('id', lessonId)
+        .maybeSingle()
+
+      if (lessonError) {
+        throw new Error(`Error fetching lesson: ${lessonError.message}`)
+      }
+
+      if (!lesson) {
+        throw new Error('Lesson not found')
+      }
+
+      if (lesson.status !== 'published') {
+        throw new Error('Only published lessons can have staged drafts')
+      }
+
+      await assertNotLockedByOthers('lesson', lessonId, user.data.user.id)
+
+      const { data: existing, error: existingError } = await supabase
+        .from('lesson_drafts')
+        .select('id')
+        .eq('lesson_id', lessonId)
+        .maybeSingle()
+
+      if (existingError) {
+        throw new Error(`Error fetching lesson draft: ${existingError.message}`)
+      }
+
+      const { data: result, error } = existing
+        ? await supabase
+          .from('lesson_drafts')
+          .update({ data: draftData, updated_by: user.data.user.id })
+          .eq('id', existing.id)
+          .select()
+          .single()
+        : await supabase
+          .from('lesson_drafts')
+          .insert({
+            lesson_id: lessonId,
+            data: draftData,
+            created_by: user.data.user.id,
+            updated_by: user.data.user.id
+          })
+          .select()
+          .single()
+
+      if (error) {
+        throw new Error(`Failed to save lesson draft: ${error.message}`)
+      }
+
+      clearCache(`lesson_draft_${lessonId}`)
+      clearCache('lesson_drafts_')
+
+      return result
+    } catch (error) {
+      handleError('saveLessonDraft', error)
+      throw error
+    }
+  }
+
+  // Admins only; errors are rethrown for the UI to show
+  static async approveLessonDraft(draft: LessonDraft): Promise<LessonDraft | null> {
+    try {
+      if (!validateSupabase()) return null
+
+      const { data: result, error } = await supabase
+        .from('lesson_drafts')
+        .update({ status: 'approved' })
+        .eq('id', draft.id)
+        .select()
+        .single()
+
+      if (error) {
+        throw new Error(`Failed to approve draft: ${error.message}`)
+      }
+
+      clearCache(`lesson_draft_${draft.lesson_id}`)
+      clearCache('lesson_drafts_')
+
+      return result
+    } catch (error) {
+      handleError('approveLessonDraft', error)
+      throw error
+    }
+  }
+
+  /**
+   * Swap an approved draft into its lesson.
+   * The database applies the draft, records a revision and removes the draft in one
+   * transaction; errors are rethrown for the UI to show.
+   */
+  static async publishLessonDraft(draft: LessonDraft): Promise<Lesson | null> {
+    try {
+      if (!validateSupabase()) return null
+
+      const { data: result, error } = await supabase
+        .rpc('publish_lesson_draft', { p_draft_id: draft.id })
+
+      if (error) {
+        throw new Error(`Failed to publish draft: ${error.message}`)
+      }
+
+      // Learners see the new version as soon as cached reads expire
+      clearCache('lessons')
+      clearCache(`lesson_${draft.lesson_id}`)
+      clearCache(`lesson_draft_${draft.lesson_id}`)
+      clearCache('lesson_drafts_')
+      clearCache(`content_revisions_lesson_${draft.lesson_id}`)
+      clearCache('modules')
+      clearCache('stats')
+
+      return result
+    } catch (error) {
+      handleError('publishLessonDraft', error)
+      throw error
+    }
+  }
+
+  static async discardLessonDraft(draft: LessonDraft): Promise<void> {
+    try {
+      if (!validateSupabase()) return
+
+      const { error } = await supabase
+        .from('lesson_drafts')
+        .delete()
+        .eq('id', draft.id)
+
+      if (error) {
+        throw new Error(`Failed to discard draft: ${error.message}`)
+      }
+
+      clearCache(`lesson_draft_${draft.lesson_id}`)
+      clearCache('lesson_drafts_')
+    } catch (error) {
+      handleError('discardLessonDraft', error)
+      throw error
+    }
+  }
+
+  // ============================================================================
+  // CONTENT REVIEW
+  // ============================================================================
+
+  /**
+   * Ask an admin to publish a draft path, course, module or lesson.
+   * The database moves the item to in_review and opens a review request (migration 021);
+   * errors are rethrown for the UI to show.
+   */
+  static async submitForReview(entityType: ContentEntityType, entityId: string, note?: string): Promise<ContentReviewRequest | null> {
+    try {
+      if (!validateSupabase()) return null
+
+      const { data: result, error } = await supabase
+        .rpc('submit_content_for_review', {
+          p_entity_type: entityType,
+          p_entity_id: entityId,
+          p_note: note || ''
+        })
+
+      if (error) {
+        throw new Error(`Failed to submit for review: ${error.message}`)
+      }
+
+      clearContentCache(entityType, entityId)
+      clearCache('review_requests_')
+
+      return result
+    } catch (error) {
+      handleError('submitForReview', error)
+      throw error
+    }
+  }
+
+  // Pending requests oldest first, so the queue is worked in submission order
+  static async getReviewRequests(status: ReviewRequestStatus = 'pending'): Promise<ContentReviewRequest[]> {
+    try {
+      if (!validateSupabase()) return []
+
+      const cacheKey = `review_requests_${status}`
+
+      return await withCache(cacheKey, async () => {
+        const { data, error } = await supabase
+          .from('content_review_requests')
+          .select(`
+            *,
+            submitter:user_profiles!content_review_requests_submitted_by_fkey(display_name)
+          `)
+          .eq('status', status)
+          .order('submitted_at', { ascending: status === 'pending' })
+          .limit(100)
+
+        if (error) {
+          throw new Error(`Failed to fetch review requests: ${error.message}`)
+        }
+
+        return data || []
+      }, CACHE_TTL.CONTENT / 2)
+    } catch (error) {
+      handleError('getReviewRequests', error)
+      return []
+    }
+  }
+
+  /**
+   * Approve (publish) or reject (back to draft) a review request; rejecting needs a comment.
+   * The author is notified by the database; errors are rethrown for the UI to show.
+   */
+  static async reviewContent(request: ContentReviewRequest, approve: boolean, comment?: string): Promise<ContentReviewRequest | null> {
+    try {
+      if (!validateSupabase()) return null
+
+      if (!approve && !comment?.trim()) {
+        throw new Error('Add a comment so the author knows what to change')
+      }
+
+      const { data: result, error } = await supabase
+        .rpc('review_content', {
+          p_request_id: request.id,
+          p_approve: approve,
+          p_comment: comment || ''
+        })
+
+      if (error) {
+        throw new Error(`Failed to save review: ${error.message}`)
+      }
+
+      clearContentCache(request.entity_type, request.entity_id)
+      clearCache('review_requests_')
+
+      return result
+    } catch (error) {
+      handleError('reviewContent', error)
+      throw error
+    }
+  }
+
+  // ============================================================================
+  // CONTENT SCHEDULES
+  // ============================================================================
+
+  /**
+   * Paths, courses, modules and lessons with a pending publish or unpublish time, soonest first.
+   * Schedules are set through the regular update methods and applied by /api/content/schedules.
+   */
+  static async getScheduledContent(): Promise<ScheduledContent[]> {
+    try {
+      if (!validateSupabase()) return []
+
+      // Under the stats prefix so every content write clears it
+      const cacheKey = 'stats_scheduled_content'
+
+      return await withCache(cacheKey, async () => {
+        const entityTypes = Object.keys(CONTENT_TABLES) as ContentEntityType[]
+
+        const results = await Promise.all(entityTypes.map(entityType =>
+          supabase
+            .from(CONTENT_TABLES[entityType])
+            .select('id, title, status, publish_at, unpublish_at')
+            .or('publish_at.not.is.null,unpublish_at.not.is.null')
+        ))
+
+        const items: ScheduledContent[] = []
+        results.forEach(({ data, error }, index) => {
+          if (error) {
+            throw new Error(`Failed to fetch scheduled content: ${error.message}`)
+          }
+          for (const row of data || []) {
+            items.push({ ...row, entity_type: entityTypes[index] })
+          }
+        })
+
+        const nextChange = (item: ScheduledContent) =>
+          Math.min(...[item.publish_at, item.unpublish_at].filter(Boolean).map(time => new Date(time as string).getTime()))
+
+        return items.sort((a, b) => nextChange(a) - nextChange(b))
+      }, CACHE_TTL.CONTENT / 2)
+    } catch (error) {
+      handleError('getScheduledContent', error)
+      return []
+    }
+  }
+
+  // ============================================================================
+  // EDIT LOCKS
+  // ============================================================================
+
+  /**
+   * Take or renew the signed-in editor's lease on an item; forms call this on open and then as a heartbeat.
+   * Returns the item's current lock, which is someone else's while they are editing it. Admins can pass
+   * override to take the lock over. Errors are rethrown for the UI to show.
+   */
+  static async acquireEditLock(entityType: ContentEntityType, entityId: string, override: boolean = false): Promise<ContentEditLock | null> {
+    try {
+      if (!validateSupabase()) return null
+
+      const { error } = await supabase.rpc('acquire_content_edit_lock', {
+        p_entity_type: entityType,
+        p_entity_id: entityId,
+        p_override: override
+      })
+
+      if (error) {
+        throw new Error(`Failed to lock item for editing: ${error.message}`)
+      }
+
+      return await fetchEditLock(entityType, entityId)
+    } catch (error) {
+      handleError('acquireEditLock', error)
+      throw error
+    }
+  }
+
+  // Releases the lock when the editor closes the form; other editors' locks are left alone by RLS
+  static async releaseEditLock(entityType: ContentEntityType, entityId: string): Promise<void> {
+    try {
+      if (!validateSupabase()) return
+
+      const { error } = await supabase
+        .from('content_edit_locks')
+        .delete()
+        .eq('entity_type', entityType)
+        .eq('entity_id', entityId)
+
+      if (error) {
+        throw new Error(`Failed to release edit lock: ${error.message}`)
+      }
+    } catch (error) {
+      handleError('releaseEditLock', error)
+    }
+  }
+
+  // ============================================================================
+  // NOTIFICATIONS
+  // ============================================================================
+
+  static async getNotifications(userId: string): Promise<UserNotification[]> {
+    try {
+      if (!validateSupabase()) return []
+
+      const cacheKey = `notifications_${userId}`
+
+      return await withCache(cacheKey, async () => {
+        const { data, error } = await supabase
+          .from('notifications')
+          .select('*')
+          .eq('user_id', userId)
+          .order('created_at', { ascending: false })
+          .limit(20)
+
+        if (error) {
+          throw new Error(`Failed to fetch notifications: ${error.message}`)
+        }
+
+        return data || []
+      }, CACHE_TTL.CONTENT / 2)
+    } catch (error) {
+      handleError('getNotifications', error)
+      return []
+    }
+  }
+
+  static async markNotificationsRead(userId: string): Promise<void> {
+    try {
+      if (!validateSupabase()) return
+
+      const { error } = await supabase
+        .from('notifications')
+        .update({ read_at: new Date().toISOString() })
+        .eq('user_id', userId)
+        .is('read_at', null)
+
+      if (error) {
+        throw new Error(`Failed to update notifications: ${error.message}`)
+      }
+
+      clearCache(`notifications_${userId}`)
+    } catch (error) {
+      handleError('markNotificationsRead', error)
+    }
+  }
+
+  // ============================================================================
+  // CHALLENGES
+  // ============================================================================
+
+  static async getChallenges(lessonId?: string): Promise<Challenge[]> {
+    try {
+      if (!validateSupabase()) return []
+
+      const cacheKey = `challenges_${lessonId || 'all'}`
+      
+      return await withCache(cacheKey, async () => {
+        let query = supabase
+          .from('challenges')
+          .select(`
+            *,
+            lesson:lessons(*)
+          `)
+          .order('sort_order', { ascending: true })
+
+        if (lessonId) {
+          query = query.eq('lesson_id', lessonId)
+        }
+
+        const { data, error } = await query
+
+        if (error) {
+          throw new Error(`Failed to fetch challenges: ${error.message}`)
+        }
+
+        return data || []
+      })
+    } catch (error) {
+      handleError('getChallenges', error)
+      return []
+    }
+  }
+
+  static async getChallenge(id: string): Promise<Challenge | null> {
+    try {
+      if (!validateSupabase()) return null
+
+      const cacheKey = `challenge_${id}`
+      
+      return await withCache(cacheKey, async () => {
+        const { data, error } = await supabase
+          .from('challenges')
+          .select(`
+            *,
+            lesson:lessons(*)
+          `)
+          .eq('id', id)
+          .single()
+
+        if (error) {
+          throw new Error(`Failed to fetch challenge: ${error.message}`)
+        }
+
+        return data
+      })
+    } catch (error) {
+      handleError('getChallenge', error)
+      return null
+    }
+  }
+
+  static async createChallenge(data: CreateChallengeDto): Promise<Challenge | null> {
+    try {
+      if (!validateSupabase()) return null
+
+      const user = await supabase.auth.getUser()
+      if (!user.data.user?.id) {
+        throw new Error('User not authenticated')
+      }
+
+      // Validate content/solution against the challenge type, upgrading the legacy single-question format
+      const upgraded = upgradeLegacyChallengePayload(data.challenge_type, data.content, data.solution)
+      const payload = validateChallengePayload(data.challenge_type, upgraded.content, upgraded.solution)
+
+      const { data: result, error } = await supabase
+        .from('challenges')
+        .insert({
+          ...data,
+          content: payload.content,
+          solution: payload.solution,
+          created_by: user.data.user.id
+        })
+        .select()
+        .single()
+
+      if (error) {
+        throw new Error(`Failed to create challenge: ${error.message}`)
+      }
+
+      // Clear relevant cache entries
+      clearCache('challenges')
+      clearCache('lessons')
+      clearCache('stats')
+
+      return result
+    } catch (error) {
+      handleError('createChallenge', error)
+      return null
+    }
+  }
+
+  static async updateChallenge(id: string, data: UpdateChallengeDto): Promise<Challenge | null> {
+    try {
+      if (!validateSupabase()) return null
+
+      const user = await supabase.auth.getUser()
+      if (!user.data.user?.id) {
+        throw new Error('User not authenticated')
+      }
+
+      // Check if there are any changes to apply
       if (Object.keys(data).length === 0) {
         throw new Error('No data provided for update')
       }
 
-      // First, check if the challenge exists and get current data
-      const { data: existingChallenge, error: fetchError } = await supabase
-        .from('challenges')
-        .select('*')
-        .eq('id', id)
-        .maybeSingle()
+      // First, check if the challenge exists and get current data
+      const { data: existingChallenge, error: fetchError } = await supabase
+        .from('challenges')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle()
+
+      if (fetchError) {
+        throw new Error(`Error fetching challenge: ${fetchError.message}`)
+      }
+
+      if (!existingChallenge) {
+        throw new Error('Challenge not found')
+      }
+
+      // Prepare update data
+      const updateData = {
+        ...data,
+        updated_by: user.data.user.id
+      }
+
+      // Re-validate the payload whenever the type, content or solution changes
+      if (data.challenge_type !== undefined || data.content !== undefined || data.solution !== undefined) {
+        const challengeType = data.challenge_type ?? existingChallenge.challenge_type
+        const upgraded = upgradeLegacyChallengePayload(
+          challengeType,
+          data.content ?? existingChallenge.content,
+          data.solution ?? existingChallenge.solution
+        )
+        const payload = validateChallengePayload(challengeType, upgraded.content, upgraded.solution)
+        updateData.content = payload.content
+        updateData.solution = payload.solution
+      }
+
+      // Perform the update
+      const { data: result, error } = await supabase
+        .from('challenges')
+        .update(updateData)
+        .eq('id', id)
+        .select()
+
+      if (error) {
+        throw new Error(`Failed to update challenge: ${error.message}`)
+      }
+
+      // If no rows were returned, it could mean no changes were needed
+      // Let's fetch the current challenge to verify it exists and return it
+      if (!result || result.length === 0) {
+        const { data: currentChallenge, error: fetchError } = await supabase
+          .from('challenges')
+          .select('*')
+          .eq('id', id)
+          .maybeSingle()
+
+        if (fetchError) {
+          throw new Error(`Failed to fetch challenge after update: ${fetchError.message}`)
+        }
+
+        if (!currentChallenge) {
+          throw new Error('Challenge not found')
+        }
+
+        // Return the current challenge data since no changes were made
+        return currentChallenge
+      }
+
+      // Return the first result if we got an array
+      const updatedChallenge = Array.isArray(result) ? result[0] : result
+
+      // Clear relevant cache entries
+      clearCache('challenges')
+      clearCache(`challenge_${id}`)
+      clearCache('lessons')
+      clearCache('stats')
+
+      return updatedChallenge
+    } catch (error) {
+      handleError('updateChallenge', error)
+      return null
+    }
+  }
+
+
+
+  // ============================================================================
+  // QUESTION BANKS
+  // ============================================================================
+
+  static async getQuestionBanks(parent?: { lessonId?: string; moduleId?: string }): Promise<QuestionBank[]> {
+    try {
+      if (!validateSupabase()) return []
+
+      const cacheKey = `question_banks_${parent?.lessonId || parent?.moduleId || 'all'}`
+
+      return await withCache(cacheKey, async () => {
+        let query = supabase
+          .from('question_banks')
+          .select('*')
+          .order('title', { ascending: true })
+
+        if (parent?.lessonId) {
+          query = query.eq('lesson_id', parent.lessonId)
+        }
+        if (parent?.moduleId) {
+          query = query.eq('module_id', parent.moduleId)
+        }
+
+        const { data, error } = await query
+
+        if (error) {
+          throw new Error(`Failed to fetch question banks: ${error.message}`)
+        }
+
+        return data || []
+      })
+    } catch (error) {
+      handleError('getQuestionBanks', error)
+      return []
+    }
+  }
+
+  static async createQuestionBank(data: CreateQuestionBankDto): Promise<QuestionBank | null> {
+    try {
+      if (!validateSupabase()) return null
+
+      const user = await supabase.auth.getUser()
+      if (!user.data.user?.id) {
+        throw new Error('User not authenticated')
+      }
+
+      if (!data.lesson_id === !data.module_id) {
+        throw new Error('A question bank must belong to exactly one lesson or module')
+      }
+
+      const { data: result, error } = await supabase
+        .from('question_banks')
+        .insert({
+          ...data,
+          title: validateString(data.title),
+          created_by: user.data.user.id
+        })
+        .select()
+        .single()
+
+      if (error) {
+        throw new Error(`Failed to create question bank: ${error.message}`)
+      }
+
+      clearCache('question_banks')
+
+      return result
+    } catch (error) {
+      handleError('createQuestionBank', error)
+      return null
+    }
+  }
+
+  static async updateQuestionBank(id: string, data: UpdateQuestionBankDto): Promise<QuestionBank | null> {
+    try {
+      if (!validateSupabase()) return null
+
+      const user = await supabase.auth.getUser()
+      if (!user.data.user?.id) {
+        throw new Error('User not authenticated')
+      }
+
+      const { data: result, error } = await supabase
+        .from('question_banks')
+        .update({
+          ...data,
+          ...(data.title !== undefined ? { title: validateString(data.title) } : {}),
+          updated_by: user.data.user.id
+        })
+        .eq('id', id)
+        .select()
+        .single()
+
+      if (error) {
+        throw new Error(`Failed to update question bank: ${error.message}`)
+      }
+
+      clearCache('question_banks')
+
+      return result
+    } catch (error) {
+      handleError('updateQuestionBank', error)
+      return null
+    }
+  }
+
+  // Items of a bank, or just the given items (e.g. the ones drawn for an attempt); content managers
+  // only, since items carry their answers - learners use getSessionQuestions
+  static async getQuestionBankItems(bankId: string, itemIds?: string[]): Promise<QuestionBankItem[]> {
+    try {
+      if (!validateSupabase()) return []
+
+      const cacheKey = `question_bank_items_${bankId}_${itemIds ? [...itemIds].sort().join(',') : 'all'}`
+
+      return await withCache(cacheKey, async () => {
+        let query = supabase
+          .from('question_bank_items')
+          .select('*')
+          .eq('bank_id', bankId)
+          .order('sort_order', { ascending: true })
+
+        if (itemIds) {
+          query = query.in('id', itemIds)
+        }
+
+        const { data, error } = await query
+
+        if (error) {
+          throw new Error(`Failed to fetch question bank items: ${error.message}`)
+        }
+
+        return data || []
+      })
+    } catch (error) {
+      handleError('getQuestionBankItems', error)
+      return []
+    }
+  }
+
+  static async createQuestionBankItem(data: CreateQuestionBankItemDto): Promise<QuestionBankItem | null> {
+    try {
+      if (!validateSupabase()) return null
+
+      const { question, answer } = validateQuestionBankItem(data.question, data.answer)
+
+      const { data: result, error } = await supabase
+        .from('question_bank_items')
+        .insert({ ...data, question, answer })
+        .select()
+        .single()
+
+      if (error) {
+        throw new Error(`Failed to create question bank item: ${error.message}`)
+      }
+
+      clearCache(`question_bank_items_${data.bank_id}`)
 
-      if (fetchError) {
-        throw new Error(`Error fetching challenge: ${fetchError.message}`)
+      return result
+    } catch (error) {
+      handleError('createQuestionBankItem', error)
+      return null
+    }
+  }
+
+  // Items are archived rather than deleted so past draws stay reviewable
+  static async updateQuestionBankItem(id: string, data: UpdateQuestionBankItemDto): Promise<QuestionBankItem | null> {
+    try {
+      if (!validateSupabase()) return null
+
+      const updateData: Record<string, unknown> = { ...data }
+
+      if (data.question !== undefined || data.answer !== undefined) {
+        const { data: existingItem, error: fetchError } = await supabase
+          .from('question_bank_items')
+          .select('*')
+          .eq('id', id)
+          .maybeSingle()
+
+        if (fetchError) {
+          throw new Error(`Error fetching question bank item: ${fetchError.message}`)
+        }
+
+        if (!existingItem) {
+          throw new Error('Question bank item not found')
+        }
+
+        const validated = validateQuestionBankItem(data.question ?? existingItem.question, data.answer ?? existingItem.answer)
+        updateData.question = validated.question
+        updateData.answer = validated.answer
       }
 
-      if (!existingChallenge) {
-        throw new Error('Challenge not found')
+      const { data: result, error } = await supabase
+        .from('question_bank_items')
+        .update(updateData)
+        .eq('id', id)
+        .select()
+        .single()
+
+      if (error) {
+        throw new Error(`Failed to update question bank item: ${error.message}`)
       }
 
-      // Prepare update data
-      const updateData = {
+      clearCache(`question_bank_items_${result.bank_id}`)
+
+      return result
+    } catch (error) {
+      handleError('updateQuestionBankItem', error)
+      return null
+    }
+  }
+
+  // ============================================================================
+  // PROGRESS TRACKING
+  // ============================================================================
+
+  static async getUserProgress(userId: string, contentId?: string, contentType?: 'path' | 'course' | 'module' | 'lesson' | 'challenge'): Promise<UserProgress[]> {
+    try {
+      if (!validateSupabase()) return []
+
+      const cacheKey = `user_progress_${userId}_${contentId || 'all'}_${contentType || 'all'}`
+      
+      return await withCache(cacheKey, async () => {
+        let query = supabase
+          .from('user_progress')
+          .select('*')
+          .eq('user_id', userId)
+
+        if (contentId && contentType) {
+          const contentColumn = `${contentType === 'path' ? 'path' : contentType}_id`
+          query = query.eq(contentColumn, contentId)
+        }
+
+        const { data, error } = await query
+
+        if (error) {
+          throw new Error(`Failed to fetch user progress: ${error.message}`)
+        }
+
+        return data || []
+      }, CACHE_TTL.CONTENT / 2) // Shorter cache for progress data
+    } catch (error) {
+      handleError('getUserProgress', error)
+      return []
+    }
+  }
+
+  static async updateProgress(
+    userId: string,
+    contentId: string,
+    contentType: 'path' | 'course' | 'module' | 'lesson' | 'challenge',
+    data: UpdateProgressDto
+  ): Promise<UserProgress | null> {
+    try {
+      if (!validateSupabase()) return null
+
+      // Map content type to the correct column name
+      const contentColumn = `${contentType === 'path' ? 'path' : contentType}_id`
+      
+      // Create progress record with the correct column structure
+      const progressData: any = {
+        user_id: userId,
+        [contentColumn]: contentId,
         ...data,
-        updated_by: user.data.user.id
+        updated_at: new Date().toISOString()
       }
 
-      // Perform the update
+      // One row per user and item (migration 028), so the upsert updates it in place
       const { data: result, error } = await supabase
-        .from('challenges')
-        .update(updateData)
-        .eq('id', id)
+        .from('user_progress')
+        .upsert(progressData, { onConflict: 'user_id,path_id,course_id,module_id,lesson_id,challenge_id' })
         .select()
+        .single()
 
       if (error) {
-        throw new Error(`Failed to update challenge: ${error.message}`)
+        throw new Error(`Failed to update progress: ${error.message}`)
       }
 
-      // If no rows were returned, it could mean no changes were needed
-      // Let's fetch the current challenge to verify it exists and return it
-      if (!result || result.length === 0) {
-        const { data: currentChallenge, error: fetchError } = await supabase
-          .from('challenges')
+      // Clear relevant cache entries
+      clearCache(`user_progress_${userId}`)
+      clearCache(`user_stats_${userId}`)
+
+      return result
+    } catch (error) {
+      handleError('updateProgress', error)
+      return null
+    }
+  }
+
+  // ============================================================================
+  // CHALLENGE ATTEMPTS
+  // ============================================================================
+
+  // Past attempts for a challenge, newest first
+  static async getChallengeAttempts(userId: string, challengeId: string): Promise<ChallengeAttempt[]> {
+    try {
+      if (!validateSupabase()) return []
+
+      const cacheKey = `challenge_attempts_${userId}_${challengeId}`
+
+      return await withCache(cacheKey, async () => {
+        const { data, error } = await supabase
+          .from('challenge_attempts')
           .select('*')
-          .eq('id', id)
-          .maybeSingle()
+          .eq('user_id', userId)
+          .eq('challenge_id', challengeId)
+          .order('attempt_number', { ascending: false })
 
-        if (fetchError) {
-          throw new Error(`Failed to fetch challenge after update: ${fetchError.message}`)
+        if (error) {
+          throw new Error(`Failed to fetch challenge attempts: ${error.message}`)
         }
 
-        if (!currentChallenge) {
-          throw new Error('Challenge not found')
+        return data || []
+      }, CACHE_TTL.CONTENT / 2)
+    } catch (error) {
+      handleError('getChallengeAttempts', error)
+      return []
+    }
+  }
+
+  /**
+   * Submit an attempt for the current user through the attempts route, which grades it on the
+   * server and records it (migration 035). The database assigns the attempt number and timing
+   * and rejects the attempt once the challenge's max_attempts is reached, so errors are rethrown for the UI to show.
+   */
+  static async recordChallengeAttempt(data: CreateChallengeAttemptDto): Promise<ChallengeAttempt | null> {
+    try {
+      if (!validateSupabase()) return null
+
+      const { data: sessionData } = await supabase.auth.getSession()
+      const accessToken = sessionData.session?.access_token
+      if (!accessToken) {
+        throw new Error('User not authenticated')
+      }
+
+      const response = await fetch('/api/challenges/attempts', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${accessToken}`
+        },
+        body: JSON.stringify({ ...data, hints_used: data.hints_used ?? 0 })
+      })
+
+      let payload: ApiResponse<ChallengeAttempt> | null = null
+      try {
+        payload = await response.json()
+      } catch {
+        // Non-JSON responses are handled below
+      }
+
+      if (!response.ok || !payload?.success || !payload.data) {
+        throw new Error(payload?.error?.message || `Failed to record attempt: status ${response.status}`)
+      }
+
+      const result = payload.data
+      clearCache(`challenge_attempts_${result.user_id}`)
+      clearCache(`challenge_hint_usage_${data.challenge_id}`)
+      clearCache('grading_reviews_')
+
+      return result
+    } catch (error) {
+      handleError('recordChallengeAttempt', error)
+      throw error
+    }
+  }
+
+  /**
+   * How many attempts revealed each hint, across all learners (content managers and admins).
+   * Hints are revealed in order, so an attempt with hints_used = 2 used hints 1 and 2.
+   */
+  static async getChallengeHintUsage(challengeId: string, hintCount: number): Promise<ChallengeHintUsage | null> {
+    try {
+      if (!validateSupabase()) return null
+
+      const cacheKey = `challenge_hint_usage_${challengeId}_${hintCount}`
+
+      return await withCache(cacheKey, async () => {
+        const { data, error } = await supabase
+          .from('challenge_attempts')
+          .select('hints_used')
+          .eq('challenge_id', challengeId)
+
+        if (error) {
+          throw new Error(`Failed to fetch hint usage: ${error.message}`)
         }
 
-        // Return the current challenge data since no changes were made
-        return currentChallenge
+        const hintCounts = new Array(hintCount).fill(0)
+        for (const attempt of data || []) {
+          for (let index = 0; index < Math.min(attempt.hints_used || 0, hintCount); index++) {
+            hintCounts[index]++
+          }
+        }
+
+        return {
+          challenge_id: challengeId,
+          attempt_count: (data || []).length,
+          hint_counts: hintCounts
+        }
+      }, CACHE_TTL.CONTENT / 2)
+    } catch (error) {
+      handleError('getChallengeHintUsage', error)
+      return null
+    }
+  }
+
+  /**
+   * Start a quiz session for the current user, or resume their active one.
+   * The start time and deadline are set by the database; `server_now` lets the
+   * client derive the remaining time independently of its own clock.
+   */
+  static async startChallengeSession(challengeId: string): Promise<ChallengeSession | null> {
+    try {
+      if (!validateSupabase()) return null
+
+      const { data, error } = await supabase
+        .rpc('start_challenge_session', { p_challenge_id: challengeId })
+
+      if (error) {
+        throw new Error(`Failed to start quiz session: ${error.message}`)
+      }
+
+      // An expired session was recorded as an attempt scoring 0
+      if (data?.previous_expired) {
+        clearCache(`challenge_attempts_${data.user_id}`)
+      }
+
+      return data
+    } catch (error) {
+      handleError('startChallengeSession', error)
+      return null
+    }
+  }
+
+  // Save partial answers (and hints revealed) so a reload can resume; rejected by the database after the deadline
+  static async saveChallengeSession(
+    sessionId: string,
+    answers: ChallengeSessionAnswer[],
+    currentQuestion: number,
+    hintsUsed = 0
+  ): Promise<boolean> {
+    try {
+      if (!validateSupabase()) return false
+
+      const { error } = await supabase
+        .from('challenge_sessions')
+        .update({ answers, current_question: currentQuestion, hints_used: hintsUsed })
+        .eq('id', sessionId)
+
+      if (error) {
+        throw new Error(`Failed to save quiz session: ${error.message}`)
       }
 
-      // Return the first result if we got an array
-      const updatedChallenge = Array.isArray(result) ? result[0] : result
+      return true
+    } catch (error) {
+      handleError('saveChallengeSession', error)
+      return false
+    }
+  }
+
+  /**
+   * Questions drawn for one of the current user's sessions, in draw order and without answers.
+   * Explanations are left out while the session is active; an item deleted since the draw is null.
+   */
+  static async getSessionQuestions(sessionId: string): Promise<(QuizQuestion | null)[] | null> {
+    try {
+      if (!validateSupabase()) return null
+
+      const { data, error } = await supabase
+        .rpc('get_session_questions', { p_session_id: sessionId })
 
-      // Clear relevant cache entries
-      clearCache('challenges')
-      clearCache(`challenge_${id}`)
-      clearCache('lessons')
-      clearCache('stats')
+      if (error) {
+        throw new Error(`Failed to fetch quiz questions: ${error.message}`)
+      }
 
-      return updatedChallenge
+      return data || []
     } catch (error) {
-      handleError('updateChallenge', error)
+      handleError('getSessionQuestions', error)
       return null
     }
   }
 
-
-
   // ============================================================================
-  // PROGRESS TRACKING
+  // GRADING REVIEWS
   // ============================================================================
 
-  static async getUserProgress(userId: string, contentId?: string, contentType?: 'path' | 'course' | 'module' | 'lesson' | 'challenge'): Promise<UserProgress[]> {
+  // Grading queue for content managers and admins: pending oldest first, completed newest first
+  static async getGradingReviews(status: GradingReviewStatus = 'pending'): Promise<GradingReview[]> {
     try {
       if (!validateSupabase()) return []
 
-      const cacheKey = `user_progress_${userId}_${contentId || 'all'}_${contentType || 'all'}`
-      
-      return await withCache(cacheKey, async () => {
-        let query = supabase
-          .from('user_progress')
-          .select('*')
-          .eq('user_id', userId)
-
-        if (contentId && contentType) {
-          const contentColumn = `${contentType === 'path' ? 'path' : contentType}_id`
-          query = query.eq(contentColumn, contentId)
-        }
+      const cacheKey = `grading_reviews_${status}`
 
-        const { data, error } = await query
+      return await withCache(cacheKey, async () => {
+        const { data, error } = await supabase
+          .from('grading_reviews')
+          .select(`
+            *,
+            attempt:challenge_attempts(*),
+            challenge:challenges(*),
+            user:user_profiles!grading_reviews_user_id_fkey(display_name)
+          `)
+          .eq('status', status)
+          .order(status === 'pending' ? 'created_at' : 'reviewed_at', { ascending: status === 'pending' })
+          .limit(100)
 
         if (error) {
-          throw new Error(`Failed to fetch user progress: ${error.message}`)
+          throw new Error(`Failed to fetch grading queue: ${error.message}`)
         }
 
         return data || []
-      }, CACHE_TTL.CONTENT / 2) // Shorter cache for progress data
+      }, CACHE_TTL.CONTENT / 2)
     } catch (error) {
-      handleError('getUserProgress', error)
+      handleError('getGradingReviews', error)
       return []
     }
   }
 
-  static async updateProgress(
-    userId: string,
-    contentId: string,
-    contentType: 'path' | 'course' | 'module' | 'lesson' | 'challenge',
-    data: UpdateProgressDto
-  ): Promise<UserProgress | null> {
+  /**
+   * Confirm or override a queued answer's score.
+   * The database checks the grader's role, updates the attempt and writes the final
+   * score and XP to the learner's progress; errors are rethrown for the UI to show.
+   */
+  static async completeGradingReview(id: string, data: CompleteGradingReviewDto): Promise<GradingReview | null> {
     try {
       if (!validateSupabase()) return null
 
-      // Map content type to the correct column name
-      const contentColumn = `${contentType === 'path' ? 'path' : contentType}_id`
-      
-      // Create progress record with the correct column structure
-      const progressData: any = {
-        user_id: userId,
-        [contentColumn]: contentId,
-        ...data,
-        updated_at: new Date().toISOString()
-      }
-
       const { data: result, error } = await supabase
-        .from('user_progress')
-        .upsert(progressData)
-        .select()
-        .single()
+        .rpc('complete_grading_review', {
+          p_review_id: id,
+          p_final_score: Math.round(data.final_score),
+          p_comment: data.comment || '',
+          p_attempt_score: Math.round(data.attempt_score),
+          p_xp_earned: Math.round(data.xp_earned)
+        })
 
       if (error) {
-        throw new Error(`Failed to update progress: ${error.message}`)
+        throw new Error(`Failed to save grade: ${error.message}`)
       }
 
-      // Clear relevant cache entries
-      clearCache(`user_progress_${userId}`)
-      clearCache(`user_stats_${userId}`)
+      clearCache('grading_reviews_')
+      clearCache('challenge_attempts_')
 
       return result
     } catch (error) {
-      handleError('updateProgress', error)
-      return null
+      handleError('completeGradingReview', error)
+      throw error
     }
   }
 
@@ -1698,40 +3551,18 @@ export class ContentService {
 
       const courseIds = courses.map((c: { id: string }) => c.id)
 
-      // Get all published modules in these courses
-      const { data: modules, error: modulesError } = await supabase
-        .from('modules')
-        .select('id')
-        .in('course_id', courseIds)
-        .eq('status', 'published')
-
-      if (modulesError || !modules) {
-        return false
-      }
-
-      if (modules.length === 0) {
+      // Get all published modules and lessons in these courses, including placed ones;
+      // a lesson used in several places is only counted once
+      const moduleIds = await fetchPublishedChildIds('module', courseIds)
+      if (moduleIds.length === 0) {
         return false // Courses have no modules
       }
 
-      const moduleIds = modules.map((m: { id: string }) => m.id)
-
-      // Get all published lessons in these modules
-      const { data: lessons, error: lessonsError } = await supabase
-        .from('lessons')
-        .select('id')
-        .in('module_id', moduleIds)
-        .eq('status', 'published')
-
-      if (lessonsError || !lessons) {
-        return false
-      }
-
-      if (lessons.length === 0) {
+      const lessonIds = await fetchPublishedChildIds('lesson', moduleIds)
+      if (lessonIds.length === 0) {
         return false // Modules have no lessons
       }
 
-      const lessonIds = lessons.map((l: { id: string }) => l.id)
-
       // Check user progress for all lessons
       const { data: progress, error: progressError } = await supabase
         .from('user_progress')
@@ -1794,40 +3625,17 @@ export class ContentService {
     try {
       if (!validateSupabase()) return false
 
-      // Get all published modules in the course
-      const { data: modules, error: modulesError } = await supabase
-        .from('modules')
-        .select('id')
-        .eq('course_id', courseId)
-        .eq('status', 'published')
-
-      if (modulesError || !modules) {
-        return false
-      }
-
-      if (modules.length === 0) {
+      // Get all published modules and lessons in the course, including placed ones
+      const moduleIds = await fetchPublishedChildIds('module', [courseId])
+      if (moduleIds.length === 0) {
         return false // Course has no modules
       }
 
-      const moduleIds = modules.map((m: { id: string }) => m.id)
-
-      // Get all published lessons in these modules
-      const { data: lessons, error: lessonsError } = await supabase
-        .from('lessons')
-        .select('id')
-        .in('module_id', moduleIds)
-        .eq('status', 'published')
-
-      if (lessonsError || !lessons) {
-        return false
-      }
-
-      if (lessons.length === 0) {
+      const lessonIds = await fetchPublishedChildIds('lesson', moduleIds)
+      if (lessonIds.length === 0) {
         return false // Modules have no lessons
       }
 
-      const lessonIds = lessons.map((l: { id: string }) => l.id)
-
       // Check user progress for all lessons
       const { data: progress, error: progressError } = await supabase
         .from('user_progress')
@@ -2130,112 +3938,7 @@ export class ContentService {
    * When a learning path is set to draft/archived, all courses, modules, lessons, and challenges follow
    */
   static async cascadeStatusFromLearningPath(pathId: string, newStatus: 'draft' | 'archived'): Promise<void> {
-    try {
-      if (!validateSupabase()) return
-
-      const user = await supabase.auth.getUser()
-      if (!user.data.user?.id) {
-        throw new Error('User not authenticated')
-      }
-
-      const updateData = {
-        status: newStatus,
-        updated_by: user.data.user.id,
-        updated_at: new Date().toISOString()
-      }
-
-      // Get all course IDs for this learning path
-      const { data: courses, error: coursesSelectError } = await supabase
-        .from('courses')
-        .select('id')
-        .eq('path_id', pathId)
-
-      if (coursesSelectError) {
-        throw new Error(`Failed to get courses: ${coursesSelectError.message}`)
-      }
-
-      const courseIds = courses?.map((c: { id: string }) => c.id) || []
-
-      // Update all courses in this learning path
-      if (courseIds.length > 0) {
-        const { error: coursesError } = await supabase
-          .from('courses')
-          .update(updateData)
-          .in('id', courseIds)
-
-        if (coursesError) {
-          console.error('Error cascading status to courses:', coursesError)
-          throw new Error(`Failed to cascade status to courses: ${coursesError.message}`)
-        }
-
-        // Get all module IDs for these courses
-        const { data: modules, error: modulesSelectError } = await supabase
-          .from('modules')
-          .select('id')
-          .in('course_id', courseIds)
-
-        if (modulesSelectError) {
-          throw new Error(`Failed to get modules: ${modulesSelectError.message}`)
-        }
-
-                 const moduleIds = modules?.map((m: { id: string }) => m.id) || []
-
-        // Update all modules in these courses
-        if (moduleIds.length > 0) {
-          const { error: modulesError } = await supabase
-            .from('modules')
-            .update(updateData)
-            .in('id', moduleIds)
-
-          if (modulesError) {
-            console.error('Error cascading status to modules:', modulesError)
-            throw new Error(`Failed to cascade status to modules: ${modulesError.message}`)
-          }
-
-          // Get all lesson IDs for these modules
-          const { data: lessons, error: lessonsSelectError } = await supabase
-            .from('lessons')
-            .select('id')
-            .in('module_id', moduleIds)
-
-          if (lessonsSelectError) {
-            throw new Error(`Failed to get lessons: ${lessonsSelectError.message}`)
-          }
-
-                     const lessonIds = lessons?.map((l: { id: string }) => l.id) || []
-
-          // Update all lessons in these modules
-          if (lessonIds.length > 0) {
-            const { error: lessonsError } = await supabase
-              .from('lessons')
-              .update(updateData)
-              .in('id', lessonIds)
-
-            if (lessonsError) {
-              console.error('Error cascading status to lessons:', lessonsError)
-              throw new Error(`Failed to cascade status to lessons: ${lessonsError.message}`)
-            }
-
-            // Update all challenges in these lessons
-            const { error: challengesError } = await supabase
-              .from('challenges')
-              .update(updateData)
-              .in('lesson_id', lessonIds)
-
-            if (challengesError) {
-              console.error('Error cascading status to challenges:', challengesError)
-              throw new Error(`Failed to cascade status to challenges: ${challengesError.message}`)
-            }
-          }
-        }
-      }
-
-      console.log(`✅ Successfully cascaded status '${newStatus}' from learning path ${pathId} to all child content`)
-
-    } catch (error) {
-      console.error('Error in cascadeStatusFromLearningPath:', error)
-      throw error
-    }
+    await cascadeContentStatus('path', pathId, newStatus)
   }
 
   /**
@@ -2243,87 +3946,7 @@ export class ContentService {
    * When a course is set to draft/archived, all modules, lessons, and challenges follow
    */
   static async cascadeStatusFromCourse(courseId: string, newStatus: 'draft' | 'archived'): Promise<void> {
-    try {
-      if (!validateSupabase()) return
-
-      const user = await supabase.auth.getUser()
-      if (!user.data.user?.id) {
-        throw new Error('User not authenticated')
-      }
-
-      const updateData = {
-        status: newStatus,
-        updated_by: user.data.user.id,
-        updated_at: new Date().toISOString()
-      }
-
-      // Update all modules in this course
-      const { error: modulesError } = await supabase
-        .from('modules')
-        .update(updateData)
-        .eq('course_id', courseId)
-
-      if (modulesError) {
-        console.error('Error cascading status to modules:', modulesError)
-        throw new Error(`Failed to cascade status to modules: ${modulesError.message}`)
-      }
-
-      // Get all module IDs for this course
-      const { data: modules, error: modulesSelectError } = await supabase
-        .from('modules')
-        .select('id')
-        .eq('course_id', courseId)
-
-      if (modulesSelectError) {
-        throw new Error(`Failed to get modules: ${modulesSelectError.message}`)
-      }
-
-      const moduleIds = modules?.map((m: { id: string }) => m.id) || []
-
-      // Update all lessons in modules of this course
-      if (moduleIds.length > 0) {
-        const { error: lessonsError } = await supabase
-          .from('lessons')
-          .update(updateData)
-          .in('module_id', moduleIds)
-
-        if (lessonsError) {
-          console.error('Error cascading status to lessons:', lessonsError)
-          throw new Error(`Failed to cascade status to lessons: ${lessonsError.message}`)
-        }
-
-        // Get all lesson IDs for these modules
-        const { data: lessons, error: lessonsSelectError } = await supabase
-          .from('lessons')
-          .select('id')
-          .in('module_id', moduleIds)
-
-        if (lessonsSelectError) {
-          throw new Error(`Failed to get lessons: ${lessonsSelectError.message}`)
-        }
-
-        const lessonIds = lessons?.map((l: { id: string }) => l.id) || []
-
-        // Update all challenges in lessons of modules of this course
-        if (lessonIds.length > 0) {
-          const { error: challengesError } = await supabase
-            .from('challenges')
-            .update(updateData)
-            .in('lesson_id', lessonIds)
-
-          if (challengesError) {
-            console.error('Error cascading status to challenges:', challengesError)
-            throw new Error(`Failed to cascade status to challenges: ${challengesError.message}`)
-          }
-        }
-      }
-
-      console.log(`✅ Successfully cascaded status '${newStatus}' from course ${courseId} to all child content`)
-
-    } catch (error) {
-      console.error('Error in cascadeStatusFromCourse:', error)
-      throw error
-    }
+    await cascadeContentStatus('course', courseId, newStatus)
   }
 
   /**
@@ -2331,62 +3954,7 @@ export class ContentService {
    * When a module is set to draft/archived, all lessons and challenges follow
    */
   static async cascadeStatusFromModule(moduleId: string, newStatus: 'draft' | 'archived'): Promise<void> {
-    try {
-      if (!validateSupabase()) return
-
-      const user = await supabase.auth.getUser()
-      if (!user.data.user?.id) {
-        throw new Error('User not authenticated')
-      }
-
-      const updateData = {
-        status: newStatus,
-        updated_by: user.data.user.id,
-        updated_at: new Date().toISOString()
-      }
-
-      // Update all lessons in this module
-      const { error: lessonsError } = await supabase
-        .from('lessons')
-        .update(updateData)
-        .eq('module_id', moduleId)
-
-      if (lessonsError) {
-        console.error('Error cascading status to lessons:', lessonsError)
-        throw new Error(`Failed to cascade status to lessons: ${lessonsError.message}`)
-      }
-
-      // Get all lesson IDs for this module
-      const { data: lessons, error: lessonsSelectError } = await supabase
-        .from('lessons')
-        .select('id')
-        .eq('module_id', moduleId)
-
-      if (lessonsSelectError) {
-        throw new Error(`Failed to get lessons: ${lessonsSelectError.message}`)
-      }
-
-      const lessonIds = lessons?.map((l: { id: string }) => l.id) || []
-
-      // Update all challenges in lessons of this module
-      if (lessonIds.length > 0) {
-        const { error: challengesError } = await supabase
-          .from('challenges')
-          .update(updateData)
-          .in('lesson_id', lessonIds)
-
-        if (challengesError) {
-          console.error('Error cascading status to challenges:', challengesError)
-          throw new Error(`Failed to cascade status to challenges: ${challengesError.message}`)
-        }
-              }
-
-      console.log(`✅ Successfully cascaded status '${newStatus}' from module ${moduleId} to all child content`)
-
-    } catch (error) {
-      console.error('Error in cascadeStatusFromModule:', error)
-      throw error
-    }
+    await cascadeContentStatus('module', moduleId, newStatus)
   }
 
   /**
@@ -2394,37 +3962,7 @@ export class ContentService {
    * When a lesson is set to draft/archived, all challenges follow
    */
   static async cascadeStatusFromLesson(lessonId: string, newStatus: 'draft' | 'archived'): Promise<void> {
-    try {
-      if (!validateSupabase()) return
-
-      const user = await supabase.auth.getUser()
-      if (!user.data.user?.id) {
-        throw new Error('User not authenticated')
-      }
-
-      const updateData = {
-        status: newStatus,
-        updated_by: user.data.user.id,
-        updated_at: new Date().toISOString()
-      }
-
-      // Update all challenges in this lesson
-      const { error: challengesError } = await supabase
-        .from('challenges')
-        .update(updateData)
-        .eq('lesson_id', lessonId)
-
-      if (challengesError) {
-        console.error('Error cascading status to challenges:', challengesError)
-        throw new Error(`Failed to cascade status to challenges: ${challengesError.message}`)
-      }
-
-      console.log(`✅ Successfully cascaded status '${newStatus}' from lesson ${lessonId} to all child content`)
-
-    } catch (error) {
-      console.error('Error in cascadeStatusFromLesson:', error)
-      throw error
-    }
+    await cascadeContentStatus('lesson', lessonId, newStatus)
   }
 
   // ============================================================================
@@ -0,0 +1,191 @@
+import type { CriterionScore, GradingCriterion, GradingResult } from '@/types/ai'
+import type { GradingReviewReason } from '@/types/content'
+
+// Structured grading helpers shared by AIService (server) and QuizEngine (client)
+
+export const PASSING_SCORE = 70
+
+// AI grades below this confidence are sent to the manual grading queue
+export const REVIEW_CONFIDENCE_THRESHOLD = 0.6
+
+// Variable XP based on performance: bonus above 80%, half XP for 50-69%, nothing below 50%
+export function calculateXpEarned(scorePercentage: number, xpReward: number): number {
+  if (scorePercentage >= 90) {
+    return Math.round(xpReward * 1.5)
+  }
+  if (scorePercentage >= 80) {
+    return Math.round(xpReward * 1.2)
+  }
+  if (scorePercentage >= PASSING_SCORE) {
+    return xpReward
+  }
+  if (scorePercentage >= 50) {
+    return Math.round(xpReward * 0.5)
+  }
+  return 0
+}
+
+// Each revealed hint costs its XP penalty; XP never drops below zero
+export function applyHintPenalty(xpEarned: number, hintsUsed: number, penaltyPerHint = 0): number {
+  return Math.max(0, xpEarned - Math.max(0, hintsUsed) * Math.max(0, penaltyPerHint))
+}
+
+// Why an AI-graded answer needs a human grader, or null when the AI grade stands
+export function getReviewReason(grading?: GradingResult | null): GradingReviewReason | null {
+  if (!grading) {
+    return 'ai_unavailable'
+  }
+  return grading.confidence < REVIEW_CONFIDENCE_THRESHOLD ? 'low_confidence' : null
+}
+
+// Used when a question defines no rubric - mirrors the weights of the original scoring prompt
+export const DEFAULT_GRADING_CRITERIA: GradingCriterion[] = [
+  { name: 'Accuracy', description: 'Accuracy of information', weight: 40 },
+  { name: 'Completeness', description: 'Completeness of response', weight: 30 },
+  { name: 'Understanding', description: 'Understanding demonstrated', weight: 20 },
+  { name: 'Clarity', description: 'Clarity of explanation', weight: 10 }
+]
+
+/**
+ * Build grading criteria from challenge data.
+ * Accepts the essay template's `criteria: string[]` and `rubric: { [criterion]: description }`,
+ * or a free-text rubric string which is attached to the default criteria.
+ */
+export function buildGradingCriteria(
+  criteria?: unknown,
+  rubric?: unknown
+): GradingCriterion[] {
+  const rubricMap = rubric && typeof rubric === 'object' && !Array.isArray(rubric)
+    ? rubric as Record<string, unknown>
+    : {}
+
+  const names = Array.isArray(criteria)
+    ? criteria.filter((name): name is string => typeof name === 'string' && name.trim().length > 0)
+    : Object.keys(rubricMap)
+
+  if (names.length === 0) {
+    if (typeof rubric === 'string' && rubric.trim()) {
+      return DEFAULT_GRADING_CRITERIA.map(criterion => ({
+        ...criterion,
+        description: `${criterion.description}. Rubric: ${rubric.trim()}`
+      }))
+    }
+    return DEFAULT_GRADING_CRITERIA
+  }
+
+  return names.map(name => ({
+    name,
+    description: typeof rubricMap[name] === 'string' ? rubricMap[name] as string : undefined,
+    weight: 1
+  }))
+}
+
+// JSON schema the grader's output must satisfy (also sent to providers that support structured output)
+export function getGradingResultSchema(criteria: GradingCriterion[]): Record<string, unknown> {
+  return {
+    type: 'object',
+    additionalProperties: false,
+    required: ['criteria', 'feedback', 'strengths', 'gaps', 'confidence'],
+    properties: {
+      criteria: {
+        type: 'array',
+        items: {
+          type: 'object',
+          additionalProperties: false,
+          required: ['criterion', 'score', 'feedback'],
+          properties: {
+            criterion: { type: 'string', enum: criteria.map(c => c.name) },
+            score: { type: 'number' },
+            feedback: { type: 'string' }
+          }
+        }
+      },
+      feedback: { type: 'string' },
+      strengths: { type: 'array', items: { type: 'string' } },
+      gaps: { type: 'array', items: { type: 'string' } },
+      confidence: { type: 'number' }
+    }
+  }
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value))
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function toStringList(value: unknown, field: string): string[] {
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+    throw new Error(`Grading result field "${field}" must be an array of strings`)
+  }
+  return value.map(item => item.trim()).filter(item => item.length > 0)
+}
+
+/**
+ * Validate raw grader output against the grading schema and compute the weighted score.
+ * The overall score is always derived from the criterion scores rather than trusted from the model.
+ */
+export function parseGradingResult(raw: string | object, criteria: GradingCriterion[]): GradingResult {
+  let data: unknown = raw
+  if (typeof raw === 'string') {
+    // Models sometimes wrap JSON in a markdown code fence
+    const json = raw.replace(/^\s*```(?:json)?\s*/i, '').replace(/\s*```\s*$/, '')
+    try {
+      data = JSON.parse(json)
+    } catch {
+      throw new Error('Grading result is not valid JSON')
+    }
+  }
+
+  if (!isRecord(data)) {
+    throw new Error('Grading result must be an object')
+  }
+
+  if (!Array.isArray(data.criteria)) {
+    throw new Error('Grading result field "criteria" must be an array')
+  }
+
+  const scoresByName = new Map<string, CriterionScore>()
+  for (const item of data.criteria) {
+    if (!isRecord(item) || typeof item.criterion !== 'string' || typeof item.score !== 'number' || Number.isNaN(item.score)) {
+      throw new Error('Each criterion score needs a "criterion" name and a numeric "score"')
+    }
+    scoresByName.set(item.criterion.trim().toLowerCase(), {
+      criterion: item.criterion.trim(),
+      score: Math.round(clamp(item.score, 0, 100)),
+      feedback: typeof item.feedback === 'string' ? item.feedback.trim() : ''
+    })
+  }
+
+  const criterionScores = criteria.map(criterion => {
+    const match = scoresByName.get(criterion.name.toLowerCase())
+    if (!match) {
+      throw new Error(`Grading result is missing criterion "${criterion.name}"`)
+    }
+    return { ...match, criterion: criterion.name }
+  })
+
+  if (typeof data.feedback !== 'string') {
+    throw new Error('Grading result field "feedback" must be a string')
+  }
+
+  if (typeof data.confidence !== 'number' || Number.isNaN(data.confidence)) {
+    throw new Error('Grading result field "confidence" must be a number')
+  }
+
+  const totalWeight = criteria.reduce((sum, criterion) => sum + (criterion.weight ?? 1), 0)
+  const weightedScore = totalWeight > 0
+    ? criterionScores.reduce((sum, item, index) => sum + item.score * (criteria[index].weight ?? 1), 0) / totalWeight
+    : 0
+
+  return {
+    score: Math.round(weightedScore),
+    criteria: criterionScores,
+    feedback: data.feedback.trim(),
+    strengths: toStringList(data.strengths, 'strengths'),
+    gaps: toStringList(data.gaps, 'gaps'),
+    confidence: clamp(data.confidence, 0, 1)
+  }
+}
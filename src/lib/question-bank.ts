@@ -0,0 +1,120 @@
+import type {
+  QuestionBankItem,
+  QuestionBankSource,
+  QuestionDraw,
+  QuizAnswerValue,
+  QuizChallengeContent,
+  QuizChallengeSolution,
+  QuizQuestion
+} from '@/types/content'
+
+// Question bank draws for QuizEngine
+// The authoritative draw is made by start_challenge_session (migration 015) and stored on the
+// session and attempt; learners get its questions, without answers, from get_session_questions
+// (migration 030). drawQuestions mirrors the draw for session-less play such as previews.
+
+// Fisher-Yates shuffle, returning a new array
+export function shuffle<T>(items: T[], random: () => number = Math.random): T[] {
+  const result = [...items]
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    ;[result[i], result[j]] = [result[j], result[i]]
+  }
+  return result
+}
+
+function hasOptions(question: QuizQuestion): question is Extract<QuizQuestion, { options: string[] }> {
+  return question.type === 'single_choice' || question.type === 'multiple_choice'
+}
+
+function matchesSource(item: QuestionBankItem, source: QuestionBankSource): boolean {
+  if (item.is_archived) {
+    return false
+  }
+  if (source.tags && source.tags.length > 0 && !item.tags.some(tag => source.tags?.includes(tag))) {
+    return false
+  }
+  if (source.difficulty && source.difficulty.length > 0 && !source.difficulty.includes(item.difficulty)) {
+    return false
+  }
+  return true
+}
+
+// Pick draw_count random matching items and, unless disabled, a random option order for each
+export function drawQuestions(
+  items: QuestionBankItem[],
+  source: QuestionBankSource,
+  random: () => number = Math.random
+): QuestionDraw {
+  const candidates = shuffle(items.filter(item => matchesSource(item, source)), random)
+
+  return candidates.slice(0, source.draw_count).map(item => ({
+    item_id: item.id,
+    option_order: hasOptions(item.question) && source.shuffle_options !== false
+      ? shuffle(item.question.options.map((_, index) => index), random)
+      : null
+  }))
+}
+
+// Map a correct answer from the item's original option indexes to the displayed order
+function remapAnswer(question: QuizQuestion, answer: QuizAnswerValue, optionOrder?: number[] | null): QuizAnswerValue {
+  if (!optionOrder || !hasOptions(question)) {
+    return answer
+  }
+  const toDisplay = (originalIndex: number) => optionOrder.indexOf(originalIndex)
+
+  if (question.type === 'multiple_choice' && Array.isArray(answer)) {
+    return (answer as number[]).map(toDisplay)
+  }
+  return typeof answer === 'number' ? toDisplay(answer) : answer
+}
+
+// Stands in for an item deleted since the draw, so later questions keep their indexes
+export function unavailableQuestion(itemId: string): QuizQuestion {
+  return { id: itemId, type: 'single_choice', question: 'This question is no longer available.', options: [] }
+}
+
+// Questions served for a session's draw, with placeholders where an item was deleted
+export function withUnavailableQuestions(draw: QuestionDraw, questions: (QuizQuestion | null)[]): QuizQuestion[] {
+  return draw.map((entry, index) => questions[index] ?? unavailableQuestion(entry.item_id))
+}
+
+/**
+ * Build the questions and answer key shown for a draw.
+ * Options are reordered and correct answers remapped to the displayed indexes, so QuizEngine
+ * scores drawn questions exactly like a fixed question list. Items missing from `items`
+ * (e.g. deleted since the draw) get a placeholder that no answer matches.
+ */
+export function applyQuestionDraw(
+  items: QuestionBankItem[],
+  draw: QuestionDraw
+): { content: QuizChallengeContent; solution: QuizChallengeSolution } {
+  const itemsById = new Map(items.map(item => [item.id, item]))
+  const questions: QuizQuestion[] = []
+  const answers: QuizAnswerValue[] = []
+
+  for (const entry of draw) {
+    const item = itemsById.get(entry.item_id)
+    if (!item) {
+      questions.push(unavailableQuestion(entry.item_id))
+      answers.push(-1) // an option index the placeholder doesn't have
+      continue
+    }
+
+    const original = item.question
+    const optionOrder = entry.option_order
+    const question: QuizQuestion = hasOptions(original) && optionOrder
+      ? {
+          ...original,
+          id: item.id,
+          options: optionOrder.map(index => original.options[index]),
+          option_explanations: original.option_explanations && optionOrder.map(index => original.option_explanations?.[index] ?? '')
+        }
+      : { ...original, id: item.id }
+
+    questions.push(question)
+    answers.push(remapAnswer(original, item.answer, entry.option_order))
+  }
+
+  return { content: { questions }, solution: { answers } }
+}
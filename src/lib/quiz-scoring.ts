@@ -0,0 +1,284 @@
+import type {
+  ChallengeAttemptAnswer,
+  NumericAnswer,
+  QuestionType,
+  QuizAnswerValue,
+  QuizQuestion,
+  ScoringStrategy
+} from '@/types/content'
+import { PASSING_SCORE } from './grading'
+
+// Per-question partial credit and weighted quiz scores for QuizEngine
+// Credit is a fraction between 0 and 1; the quiz score is the points-weighted average
+
+export const DEFAULT_QUESTION_POINTS = 1
+export const DEFAULT_SCORING_STRATEGY: ScoringStrategy = 'all_or_nothing'
+
+// Strategies that make sense for each question type
+export const SCORING_STRATEGIES: Record<QuestionType, ScoringStrategy[]> = {
+  single_choice: ['all_or_nothing'],
+  multiple_choice: ['all_or_nothing', 'proportional', 'penalty'],
+  open_text: ['all_or_nothing', 'proportional'],
+  drag_drop: ['all_or_nothing', 'proportional', 'kendall_tau'],
+  cloze: ['all_or_nothing', 'proportional'],
+  numeric: ['all_or_nothing'],
+  matching: ['all_or_nothing', 'proportional']
+}
+
+// Blank marker inside cloze question text
+export const CLOZE_BLANK = '{{blank}}'
+
+// Text around the blanks: n blanks give n + 1 segments
+export function splitClozeText(text: string): string[] {
+  return text.split(CLOZE_BLANK)
+}
+
+export interface QuizScore {
+  score: number // 0-100
+  pointsEarned: number
+  totalPoints: number
+}
+
+export function getQuestionPoints(question: QuizQuestion): number {
+  return typeof question.points === 'number' && question.points > 0 ? question.points : DEFAULT_QUESTION_POINTS
+}
+
+export function getScoringStrategy(question: QuizQuestion): ScoringStrategy {
+  return question.scoring && SCORING_STRATEGIES[question.type].includes(question.scoring)
+    ? question.scoring
+    : DEFAULT_SCORING_STRATEGY
+}
+
+function toIndexSet(value: unknown): Set<number> {
+  return new Set(Array.isArray(value) ? value.filter((item): item is number => typeof item === 'number') : [])
+}
+
+function toMapping(value: unknown): Record<string, string> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, string> : {}
+}
+
+function scoreMultipleChoice(selectedValue: unknown, correctValue: unknown, strategy: ScoringStrategy): number {
+  const selected = toIndexSet(selectedValue)
+  const correct = toIndexSet(correctValue)
+  if (correct.size === 0) {
+    return 0
+  }
+
+  const hits = [...selected].filter(index => correct.has(index)).length
+  const wrongPicks = selected.size - hits
+
+  switch (strategy) {
+    case 'proportional':
+      // Correct picks over every option that was either picked or should have been
+      return hits / (correct.size + wrongPicks)
+    case 'penalty':
+      return Math.max(0, (hits - wrongPicks) / correct.size)
+    default:
+      return hits === correct.size && wrongPicks === 0 ? 1 : 0
+  }
+}
+
+// Pairs of items placed in the same relative order as the answer key, where zone order is the position
+function kendallTauCredit(zones: string[], mapping: Record<string, string>, correct: Record<string, string>): number {
+  const correctPositions = new Map<string, number>()
+  const placedPositions = new Map<string, number>()
+  for (const [zone, item] of Object.entries(correct)) {
+    correctPositions.set(item, zones.indexOf(zone))
+  }
+  for (const [zone, item] of Object.entries(mapping)) {
+    placedPositions.set(item, zones.indexOf(zone))
+  }
+
+  const items = [...correctPositions.keys()]
+  if (items.length === 1) {
+    return placedPositions.get(items[0]) === correctPositions.get(items[0]) ? 1 : 0
+  }
+
+  let concordant = 0
+  let pairs = 0
+  for (let i = 0; i < items.length; i++) {
+    for (let j = i + 1; j < items.length; j++) {
+      pairs++
+      const a = placedPositions.get(items[i])
+      const b = placedPositions.get(items[j])
+      if (a === undefined || b === undefined) {
+        continue
+      }
+      const expected = Math.sign((correctPositions.get(items[i]) ?? 0) - (correctPositions.get(items[j]) ?? 0))
+      if (Math.sign(a - b) === expected) {
+        concordant++
+      }
+    }
+  }
+  return pairs > 0 ? concordant / pairs : 0
+}
+
+function scoreDragDrop(question: Extract<QuizQuestion, { type: 'drag_drop' }>, answerValue: unknown, correctValue: unknown, strategy: ScoringStrategy): number {
+  const mapping = toMapping(answerValue)
+  const correct = toMapping(correctValue)
+  const correctZones = Object.keys(correct)
+  if (correctZones.length === 0) {
+    return 0
+  }
+
+  const matched = correctZones.filter(zone => mapping[zone] === correct[zone]).length
+
+  switch (strategy) {
+    case 'proportional':
+      return matched / correctZones.length
+    case 'kendall_tau':
+      return kendallTauCredit(question.zones, mapping, correct)
+    default: {
+      const extraPlacements = Object.keys(mapping).filter(zone => !(zone in correct)).length
+      return matched === correctZones.length && extraPlacements === 0 ? 1 : 0
+    }
+  }
+}
+
+function normalizeClozeAnswer(value: unknown, caseSensitive: boolean): string {
+  const text = typeof value === 'string' ? value.trim().replace(/\s+/g, ' ') : ''
+  return caseSensitive ? text : text.toLowerCase()
+}
+
+function scoreCloze(question: Extract<QuizQuestion, { type: 'cloze' }>, answerValue: unknown, correctValue: unknown, strategy: ScoringStrategy): number {
+  const accepted = Array.isArray(correctValue) ? correctValue as string[][] : []
+  if (accepted.length === 0) {
+    return 0
+  }
+
+  const filled = Array.isArray(answerValue) ? answerValue : []
+  const caseSensitive = !!question.case_sensitive
+  const matched = accepted.filter((options, index) => {
+    const given = normalizeClozeAnswer(filled[index], caseSensitive)
+    return given !== '' && options.some(option => normalizeClozeAnswer(option, caseSensitive) === given)
+  }).length
+
+  if (strategy === 'proportional') {
+    return matched / accepted.length
+  }
+  return matched === accepted.length ? 1 : 0
+}
+
+// Learners type numbers freely; ignore spaces and thousands separators
+export function parseNumericAnswer(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null
+  }
+  if (typeof value !== 'string' || value.trim() === '') {
+    return null
+  }
+  const parsed = Number(value.replace(/[\s,]/g, ''))
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+export function isWithinTolerance(given: number, expected: NumericAnswer): boolean {
+  const tolerance = expected.tolerance ?? 0
+  const allowed = expected.tolerance_type === 'relative'
+    ? Math.abs(expected.value) * tolerance / 100
+    : tolerance
+  // Small epsilon so 0.1 + 0.2 style float noise doesn't fail an exact answer
+  return Math.abs(given - expected.value) <= allowed + 1e-9
+}
+
+function scoreNumeric(answerValue: unknown, correctValue: unknown): number {
+  const given = parseNumericAnswer(answerValue)
+  const expected = correctValue as NumericAnswer | undefined
+  if (given === null || !expected || typeof expected.value !== 'number') {
+    return 0
+  }
+  return isWithinTolerance(given, expected) ? 1 : 0
+}
+
+function scoreMatching(answerValue: unknown, correctValue: unknown, strategy: ScoringStrategy): number {
+  const pairs = toMapping(answerValue)
+  const correct = toMapping(correctValue)
+  const leftEntries = Object.keys(correct)
+  if (leftEntries.length === 0) {
+    return 0
+  }
+
+  const matched = leftEntries.filter(left => pairs[left] === correct[left]).length
+  if (strategy === 'proportional') {
+    return matched / leftEntries.length
+  }
+  return matched === leftEntries.length ? 1 : 0
+}
+
+/**
+ * Credit (0-1) for an automatically scored answer.
+ * open_text answers are graded by AI - use creditForGradedAnswer for those.
+ */
+export function scoreAnswer(question: QuizQuestion, answer: unknown, correctAnswer: QuizAnswerValue | undefined): number {
+  if (answer === null || answer === undefined) {
+    return 0
+  }
+
+  const strategy = getScoringStrategy(question)
+
+  switch (question.type) {
+    case 'multiple_choice':
+      return scoreMultipleChoice(answer, correctAnswer, strategy)
+    case 'drag_drop':
+      return scoreDragDrop(question, answer, correctAnswer, strategy)
+    case 'cloze':
+      return scoreCloze(question, answer, correctAnswer, strategy)
+    case 'numeric':
+      return scoreNumeric(answer, correctAnswer)
+    case 'matching':
+      return scoreMatching(answer, correctAnswer, strategy)
+    default:
+      return answer === correctAnswer ? 1 : 0
+  }
+}
+
+// Credit for an AI-graded answer: the grade itself when proportional, otherwise pass/fail
+export function creditForGradedAnswer(question: QuizQuestion, gradeScore: number, passed: boolean): number {
+  if (getScoringStrategy(question) === 'proportional') {
+    return Math.min(1, Math.max(0, gradeScore / 100))
+  }
+  return passed ? 1 : 0
+}
+
+// Points-weighted quiz score from each question's credit
+export function calculateQuizScore(questions: QuizQuestion[], credits: number[]): QuizScore {
+  let pointsEarned = 0
+  let totalPoints = 0
+
+  questions.forEach((question, index) => {
+    const points = getQuestionPoints(question)
+    totalPoints += points
+    pointsEarned += points * (credits[index] ?? 0)
+  })
+
+  return {
+    score: totalPoints > 0 ? Math.round((pointsEarned / totalPoints) * 100) : 0,
+    pointsEarned: Math.round(pointsEarned * 100) / 100,
+    totalPoints
+  }
+}
+
+// Credit for a recorded answer score (0-100); open-text scores are grades, so they go through
+// the question's scoring strategy again rather than being used as credit directly
+export function creditForRecordedScore(question: QuizQuestion, score: number): number {
+  return question.type === 'open_text'
+    ? creditForGradedAnswer(question, score, score >= PASSING_SCORE)
+    : score / 100
+}
+
+/**
+ * Quiz score after a grader sets some answers' scores (0-100, keyed by question index).
+ * Other answers keep their recorded score.
+ */
+export function rescoreQuizAttempt(
+  questions: QuizQuestion[],
+  answers: ChallengeAttemptAnswer[],
+  overrides: Record<number, number>
+): QuizScore {
+  const credits = questions.map((question, index) => {
+    const recorded = answers.find(answer => answer.question_index === index)?.score
+    const score = overrides[index] ?? recorded
+    return typeof score === 'number' ? creditForRecordedScore(question, score) : 0
+  })
+
+  return calculateQuizScore(questions, credits)
+}
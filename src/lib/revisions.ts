@@ -0,0 +1,166 @@
+import type { RevisionEntityType } from '@/types/content'
+
+// Content revision helpers: what a restore brings back, and a side-by-side line diff for markdown
+
+// Editable fields restored from a snapshot; status and placement in the curriculum are left alone.
+// Mirrored by content_revision_fields() (migration 036), which only records revisions when one changes
+export const REVISION_FIELDS: Record<RevisionEntityType, string[]> = {
+  path: [
+    'title', 'slug', 'description', 'short_description', 'difficulty', 'estimated_hours',
+    'featured', 'image_url', 'tags', 'prerequisites', 'learning_outcomes'
+  ],
+  course: ['title', 'slug', 'description', 'short_description', 'difficulty', 'estimated_hours', 'image_url'],
+  module: ['title', 'slug', 'description', 'short_description', 'estimated_minutes'],
+  lesson: [
+    'title', 'slug', 'content', 'summary', 'estimated_minutes', 'xp_reward', 'lesson_type',
+    'video_url', 'video_duration', 'meta_title', 'meta_description'
+  ]
+}
+
+// Lesson fields that can be staged in a draft of a published lesson (migration 020);
+// the slug stays out so a lesson's URL only changes on the lesson itself
+export const LESSON_DRAFT_FIELDS = REVISION_FIELDS.lesson.filter(field => field !== 'slug')
+
+// Longer texts that are shown as a line diff rather than before/after values
+export const REVISION_TEXT_FIELDS = ['content', 'description']
+
+// Above this many cells the diff skips line alignment and shows the changed block as a whole
+const MAX_DIFF_CELLS = 2_000_000
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null)
+}
+
+export function pickRevisionFields(entityType: RevisionEntityType, snapshot: Record<string, any>): Record<string, any> {
+  const fields: Record<string, any> = {}
+  for (const field of REVISION_FIELDS[entityType]) {
+    if (field in snapshot) {
+      fields[field] = snapshot[field]
+    }
+  }
+  return fields
+}
+
+// Draft fields from lesson form data; cleared optional values are stored as null
+export function pickLessonDraftFields(data: Record<string, any>): Record<string, any> {
+  const fields: Record<string, any> = {}
+  for (const field of LESSON_DRAFT_FIELDS) {
+    if (field in data) {
+      fields[field] = data[field] === '' || data[field] === undefined ? null : data[field]
+    }
+  }
+  return fields
+}
+
+// Restorable fields that differ between two versions of an entity
+export function getChangedFields(
+  entityType: RevisionEntityType,
+  before: Record<string, any>,
+  after: Record<string, any>
+): string[] {
+  return REVISION_FIELDS[entityType].filter(field => !sameValue(before[field], after[field]))
+}
+
+export type DiffRowType = 'equal' | 'added' | 'removed' | 'changed'
+
+export interface DiffRow {
+  type: DiffRowType
+  left: string | null
+  right: string | null
+  leftNumber: number | null // 1-based line numbers
+  rightNumber: number | null
+}
+
+/**
+ * Side-by-side line diff based on the longest common subsequence.
+ * Runs of removed and added lines between unchanged lines are paired up as changed rows,
+ * so an edited paragraph lines up with its new version.
+ */
+export function diffLines(before: string, after: string): DiffRow[] {
+  const left = before.split('\n')
+  const right = after.split('\n')
+
+  // The common prefix and suffix need no table, which keeps typical edits cheap
+  let start = 0
+  while (start < left.length && start < right.length && left[start] === right[start]) {
+    start++
+  }
+  let leftEnd = left.length
+  let rightEnd = right.length
+  while (leftEnd > start && rightEnd > start && left[leftEnd - 1] === right[rightEnd - 1]) {
+    leftEnd--
+    rightEnd--
+  }
+
+  const a = left.slice(start, leftEnd)
+  const b = right.slice(start, rightEnd)
+  const width = b.length + 1
+  const aligned = a.length * b.length <= MAX_DIFF_CELLS
+
+  // lengths[i * width + j] = LCS length of a[i..] and b[j..]
+  const lengths = new Uint32Array(aligned ? (a.length + 1) * width : 0)
+  if (aligned) {
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lengths[i * width + j] = a[i] === b[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1])
+      }
+    }
+  }
+
+  const rows: DiffRow[] = []
+  const equalRow = (leftIndex: number, rightIndex: number): DiffRow => ({
+    type: 'equal',
+    left: left[leftIndex],
+    right: right[rightIndex],
+    leftNumber: leftIndex + 1,
+    rightNumber: rightIndex + 1
+  })
+
+  for (let index = 0; index < start; index++) {
+    rows.push(equalRow(index, index))
+  }
+
+  let removed: number[] = []
+  let added: number[] = []
+  const flush = () => {
+    for (let n = 0; n < Math.max(removed.length, added.length); n++) {
+      const leftIndex = removed[n]
+      const rightIndex = added[n]
+      rows.push({
+        type: leftIndex !== undefined && rightIndex !== undefined ? 'changed' : leftIndex !== undefined ? 'removed' : 'added',
+        left: leftIndex !== undefined ? a[leftIndex] : null,
+        right: rightIndex !== undefined ? b[rightIndex] : null,
+        leftNumber: leftIndex !== undefined ? start + leftIndex + 1 : null,
+        rightNumber: rightIndex !== undefined ? start + rightIndex + 1 : null
+      })
+    }
+    removed = []
+    added = []
+  }
+
+  let i = 0
+  let j = 0
+  while (i < a.length || j < b.length) {
+    if (aligned && i < a.length && j < b.length && a[i] === b[j]) {
+      flush()
+      rows.push(equalRow(start + i, start + j))
+      i++
+      j++
+    } else if (j < b.length && (i === a.length || (aligned && lengths[i * width + j + 1] >= lengths[(i + 1) * width + j]))) {
+      added.push(j)
+      j++
+    } else {
+      removed.push(i)
+      i++
+    }
+  }
+  flush()
+
+  for (let offset = 0; offset < left.length - leftEnd; offset++) {
+    rows.push(equalRow(leftEnd + offset, rightEnd + offset))
+  }
+
+  return rows
+}
@@ -0,0 +1,149 @@
+import type { ScenarioChallengeContent, ScenarioNode, ScenarioOutcomeNode, ScenarioPathStep } from '@/types/content'
+
+// Branching scenario graph helpers
+// Shared by challenge-schema (save-time validation), ChallengeBuilder (live issues), ScenarioChallenge (playback)
+// and the attempts route (scoring)
+
+export const MAX_SCENARIO_STEPS = 200 // guards playback against authoring loops
+
+export function getScenarioNode(content: ScenarioChallengeContent, nodeId: string): ScenarioNode | undefined {
+  return content.nodes.find(node => node.id === nodeId)
+}
+
+// Node ids a node can lead to
+export function getNextNodeIds(node: ScenarioNode): string[] {
+  switch (node.type) {
+    case 'narrative':
+      return [node.next]
+    case 'choice':
+      return (node.choices || []).map(choice => choice.next)
+    default:
+      return []
+  }
+}
+
+function collectReachable(startIds: string[], edges: Map<string, string[]>): Set<string> {
+  const visited = new Set<string>()
+  const queue = [...startIds]
+  while (queue.length > 0) {
+    const id = queue.shift() as string
+    if (visited.has(id)) {
+      continue
+    }
+    visited.add(id)
+    queue.push(...(edges.get(id) || []))
+  }
+  return visited
+}
+
+/**
+ * Every problem with a scenario graph, in a readable form.
+ * Catches duplicate ids, links to missing nodes (dangling), nodes that can't be reached from
+ * the start, and nodes from which no outcome can be reached. An empty list means the graph is playable.
+ */
+export function getScenarioIssues(content: ScenarioChallengeContent): string[] {
+  const issues: string[] = []
+  const nodes = Array.isArray(content.nodes) ? content.nodes : []
+
+  if (nodes.length === 0) {
+    return ['The scenario needs at least one node']
+  }
+
+  const ids = new Set<string>()
+  for (const node of nodes) {
+    if (!node.id) {
+      issues.push('Every node needs an id')
+    } else if (ids.has(node.id)) {
+      issues.push(`Node id "${node.id}" is used more than once`)
+    }
+    ids.add(node.id)
+  }
+
+  if (!ids.has(content.start_node)) {
+    issues.push(content.start_node ? `Start node "${content.start_node}" does not exist` : 'Choose a start node')
+  }
+
+  const forward = new Map<string, string[]>()
+  const backward = new Map<string, string[]>()
+  for (const node of nodes) {
+    if (node.type === 'choice') {
+      if (!node.choices || node.choices.length === 0) {
+        issues.push(`Choice node "${node.id}" has no choices`)
+      }
+      const choiceIds = (node.choices || []).map(choice => choice.id)
+      if (new Set(choiceIds).size !== choiceIds.length) {
+        issues.push(`Choice node "${node.id}" has duplicate choice ids`)
+      }
+    }
+    if (node.type === 'outcome' && (typeof node.score !== 'number' || node.score < 0 || node.score > 100)) {
+      issues.push(`Outcome "${node.id}" needs a score between 0 and 100`)
+    }
+
+    const targets = getNextNodeIds(node)
+    for (const target of targets) {
+      if (!ids.has(target)) {
+        issues.push(target ? `Node "${node.id}" points to missing node "${target}"` : `Node "${node.id}" has a link with no target`)
+      }
+      backward.set(target, [...(backward.get(target) || []), node.id])
+    }
+    forward.set(node.id, targets)
+  }
+
+  if (!nodes.some(node => node.type === 'outcome')) {
+    issues.push('The scenario needs at least one outcome node')
+  }
+
+  if (ids.has(content.start_node)) {
+    const reachable = collectReachable([content.start_node], forward)
+    for (const node of nodes) {
+      if (!reachable.has(node.id)) {
+        issues.push(`Node "${node.id}" can't be reached from the start`)
+      }
+    }
+  }
+
+  // Walk backwards from the outcomes to find nodes that can only loop or stop
+  const canFinish = collectReachable(nodes.filter(node => node.type === 'outcome').map(node => node.id), backward)
+  for (const node of nodes) {
+    if (node.type !== 'outcome' && !canFinish.has(node.id)) {
+      issues.push(`Node "${node.id}" can never reach an outcome`)
+    }
+  }
+
+  return issues
+}
+
+/**
+ * The outcome a recorded path reaches, or null when the path doesn't follow the graph.
+ * Each step must start where the previous one led, choice steps must name one of the node's
+ * choices, and the last step must be an outcome. Used by the attempts route to score scenarios.
+ */
+export function getScenarioPathOutcome(content: ScenarioChallengeContent, path: ScenarioPathStep[]): ScenarioOutcomeNode | null {
+  if (!Array.isArray(content.nodes) || path.length === 0 || path.length > MAX_SCENARIO_STEPS) {
+    return null
+  }
+
+  let expectedId = content.start_node
+  for (const [index, step] of path.entries()) {
+    const node = step?.node_id === expectedId ? getScenarioNode(content, expectedId) : undefined
+    if (!node) {
+      return null
+    }
+
+    if (node.type === 'outcome') {
+      return index === path.length - 1 ? node : null
+    }
+
+    if (node.type === 'choice') {
+      const choice = (node.choices || []).find(option => option.id === step.choice_id)
+      if (!choice) {
+        return null
+      }
+      expectedId = choice.next
+    } else {
+      expectedId = node.next
+    }
+  }
+
+  return null
+}
@@ -0,0 +1,86 @@
+// AI Assistant Types - Own The Flow
+// Shared between the server-side AIService and the browser AIClient
+
+// Available roles for UI
+export const AI_ROLES = [
+  { value: 'coo', label: 'COO (Operations Focus)' },
+  { value: 'product_manager', label: 'Product Manager' },
+  { value: 'project_manager', label: 'Project Manager' },
+  { value: 'founder', label: 'Founder/CEO' },
+  { value: 'delivery_director', label: 'Delivery Director' },
+  { value: 'general', label: 'General Business Professional' }
+] as const
+
+export type AIRole = typeof AI_ROLES[number]['value']
+
+export type AIContentType = 'lesson' | 'module' | 'course'
+
+// Request payloads for the /api/ai/* route handlers
+export interface SummarizeRequest {
+  content: string
+  maxLength?: number
+}
+
+export interface RewriteRequest {
+  content: string
+  role: string
+}
+
+export interface ImproveWritingRequest {
+  content: string
+}
+
+export interface GenerateContentRequest {
+  topic: string
+  role: string
+  contentType?: AIContentType
+}
+
+export interface MetaDescriptionRequest {
+  title: string
+  content: string
+}
+
+export interface ScoreTextAnswerRequest {
+  question: string
+  userAnswer: string
+  expectedAnswer: string
+  rubric?: string
+}
+
+export interface SuggestImprovementsRequest {
+  content: string
+}
+
+export interface AIStatusResponse {
+  available: boolean
+}
+
+// Structured grading (per-criterion AI feedback)
+export interface GradingCriterion {
+  name: string
+  description?: string
+  weight?: number // relative weight, defaults to 1
+}
+
+export interface CriterionScore {
+  criterion: string
+  score: number // 0-100
+  feedback: string
+}
+
+export interface GradingResult {
+  score: number // weighted 0-100 across criteria
+  criteria: CriterionScore[]
+  feedback: string
+  strengths: string[]
+  gaps: string[]
+  confidence: number // 0-1, how sure the grader is
+}
+
+export interface GradeAnswerRequest {
+  question: string
+  userAnswer: string
+  expectedAnswer?: string
+  criteria?: GradingCriterion[]
+}
@@ -101,7 +101,7 @@ export const ROLE_INFO: Record<UserRole, { label: string; description: string; c
   },
   content_manager: {
     label: 'Content Manager', 
-    description: 'Can create and edit content but cannot publish or manage users',
+    description: 'Can create and edit content and submit it for review, but cannot publish or manage users',
     color: 'blue',
   },
   user: {
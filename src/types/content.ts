@@ -1,10 +1,13 @@
 // Content Management Types - Own The Flow
 // Matches the database schema from migration 009_create_content_schema.sql
 
-export type ContentStatus = 'draft' | 'published' | 'archived'
+import type { AIRole, GradingResult } from './ai'
+
+export type ContentStatus = 'draft' | 'in_review' | 'published' | 'archived' // in_review: migration 021
+export type ContentEntityType = 'path' | 'course' | 'module' | 'lesson'
 export type DifficultyLevel = 'beginner' | 'intermediate' | 'advanced'
 export type LessonType = 'reading' | 'video' | 'interactive' | 'quiz'
-export type ChallengeType = 'quiz' | 'code' | 'essay' | 'multiple_choice'
+export type ChallengeType = 'quiz' | 'code' | 'essay' | 'multiple_choice' | 'scenario'
 export type ProgressStatus = 'not_started' | 'in_progress' | 'completed' | 'skipped'
 export type CertificateType = 'completion' | 'achievement'
 export type CertificateStatus = 'issued' | 'revoked'
@@ -30,6 +33,9 @@ export interface LearningPath {
   updated_by?: string
   published_by?: string
   published_at?: string
+  publish_at?: string | null // scheduled publish time (migration 022)
+  unpublish_at?: string | null // scheduled return to draft
+  external_id?: string | null // stable id in content bundles (migration 027)
   created_at: string
   updated_at: string
   
@@ -57,6 +63,9 @@ export interface Course {
   updated_by?: string
   published_by?: string
   published_at?: string
+  publish_at?: string | null
+  unpublish_at?: string | null
+  external_id?: string | null
   created_at: string
   updated_at: string
   
@@ -83,6 +92,9 @@ export interface Module {
   updated_by?: string
   published_by?: string
   published_at?: string
+  publish_at?: string | null
+  unpublish_at?: string | null
+  external_id?: string | null
   created_at: string
   updated_at: string
   
@@ -90,6 +102,7 @@ export interface Module {
   course?: Course
   lessons?: Lesson[]
   lesson_count?: number
+  placement_id?: string // set when listed in a course through a placement rather than its home
 }
 
 // Lesson
@@ -119,6 +132,9 @@ export interface Lesson {
   updated_by?: string
   published_by?: string
   published_at?: string
+  publish_at?: string | null
+  unpublish_at?: string | null
+  external_id?: string | null
   created_at: string
   updated_at: string
   
@@ -126,8 +142,250 @@ export interface Lesson {
   module?: Module
   challenges?: Challenge[]
   challenge_count?: number
+  placement_id?: string // set when listed in a module through a placement rather than its home
+}
+
+// Challenge payloads - the JSONB `content`/`solution` shape depends on challenge_type
+// Validated by src/lib/challenge-schema.ts on create/update
+
+// Question types rendered by QuizEngine for 'quiz' and 'multiple_choice' challenges
+export type QuestionType =
+  | 'single_choice'
+  | 'multiple_choice'
+  | 'open_text'
+  | 'drag_drop'
+  | 'cloze'
+  | 'numeric'
+  | 'matching'
+
+// How much credit a partly correct answer earns (see src/lib/quiz-scoring.ts)
+// all_or_nothing -> full credit only for an exact match
+// proportional   -> share of options / zones answered correctly
+// penalty        -> correct picks minus wrong picks, floored at zero (multiple_choice)
+// kendall_tau    -> share of item pairs placed in the right relative order (drag_drop)
+export type ScoringStrategy = 'all_or_nothing' | 'proportional' | 'penalty' | 'kendall_tau'
+
+interface BaseQuestion {
+  id: string
+  question: string
+  image_url?: string
+  explanation?: string
+  points?: number // weight in the quiz score, default 1
+  scoring?: ScoringStrategy // default all_or_nothing
+}
+
+export interface SingleChoiceQuestion extends BaseQuestion {
+  type: 'single_choice'
+  options: string[]
+  option_explanations?: string[] // shown after submitting, indexed like options
+}
+
+export interface MultipleChoiceQuestion extends BaseQuestion {
+  type: 'multiple_choice'
+  options: string[]
+  option_explanations?: string[]
+}
+
+export interface OpenTextQuestion extends BaseQuestion {
+  type: 'open_text'
+  rubric?: string
+  criteria?: string[]
+}
+
+export interface DragDropQuestion extends BaseQuestion {
+  type: 'drag_drop'
+  items: string[]
+  zones: string[]
+}
+
+// Markdown sentence with blanks written as {{blank}}
+export interface ClozeQuestion extends BaseQuestion {
+  type: 'cloze'
+  text: string
+  case_sensitive?: boolean // default false
+}
+
+export interface NumericQuestion extends BaseQuestion {
+  type: 'numeric'
+  unit?: string // shown next to the input, e.g. "USD/month"
+}
+
+// Match every left-hand entry to one right-hand entry
+export interface MatchingQuestion extends BaseQuestion {
+  type: 'matching'
+  left: string[]
+  right: string[]
+}
+
+export type QuizQuestion =
+  | SingleChoiceQuestion
+  | MultipleChoiceQuestion
+  | OpenTextQuestion
+  | DragDropQuestion
+  | ClozeQuestion
+  | NumericQuestion
+  | MatchingQuestion
+
+// Accepted when within tolerance of value; relative tolerance is a percentage of value
+export interface NumericAnswer {
+  value: number
+  tolerance?: number // default 0 (exact)
+  tolerance_type?: 'absolute' | 'relative' // default absolute
+}
+
+// Expected answer per question, indexed like content.questions:
+// single_choice -> option index, multiple_choice -> option indexes,
+// open_text -> model answer, drag_drop -> { zone: item },
+// cloze -> accepted answers per blank, numeric -> NumericAnswer, matching -> { left: right }
+export type QuizAnswerValue = number | number[] | string | Record<string, string> | string[][] | NumericAnswer
+
+// Draw questions from a question bank instead of a fixed list (migration 015)
+export interface QuestionBankSource {
+  bank_id: string
+  draw_count: number
+  tags?: string[] // items with any of these tags
+  difficulty?: DifficultyLevel[]
+  shuffle_options?: boolean // default true
+}
+
+export interface QuizChallengeContent {
+  questions: QuizQuestion[] // empty when question_bank is set
+  question_bank?: QuestionBankSource
+}
+
+export interface QuizChallengeSolution {
+  answers: QuizAnswerValue[]
+  explanation?: string
+}
+
+export type CodeLanguage = 'javascript' | 'typescript'
+
+export interface CodeTestCase {
+  input: string
+  expected_output: string
+  description?: string
+}
+
+export interface CodeChallengeContent {
+  problem_statement: string
+  starter_code: string
+  language: CodeLanguage
+  test_cases: CodeTestCase[]
+  function_name?: string // entry point called for each test case, defaults to "solution"
+}
+
+export interface CodeChallengeSolution {
+  solution_code: string
+  explanation?: string
+}
+
+export interface EssayChallengeContent {
+  prompt: string
+  min_words: number
+  max_words: number
+  criteria: string[]
+}
+
+export interface EssayChallengeSolution {
+  sample_answer?: string
+  rubric: Record<string, string> // criterion -> description
+}
+
+// Branching scenario: a graph of nodes walked from start_node until an outcome is reached
+// Graph rules (no dangling or unreachable nodes) are checked by src/lib/scenario.ts
+export type ScenarioNodeType = 'narrative' | 'choice' | 'outcome'
+
+interface BaseScenarioNode {
+  id: string
+  title?: string
+  body: string // markdown
+}
+
+export interface ScenarioNarrativeNode extends BaseScenarioNode {
+  type: 'narrative'
+  next: string
+}
+
+export interface ScenarioChoice {
+  id: string
+  label: string
+  next: string
+  consequence?: string // markdown shown after picking, before moving on
+}
+
+export interface ScenarioChoiceNode extends BaseScenarioNode {
+  type: 'choice'
+  choices: ScenarioChoice[]
 }
 
+export interface ScenarioOutcomeNode extends BaseScenarioNode {
+  type: 'outcome'
+  score: number // 0-100
+}
+
+export type ScenarioNode = ScenarioNarrativeNode | ScenarioChoiceNode | ScenarioOutcomeNode
+
+export interface ScenarioChallengeContent {
+  start_node: string
+  nodes: ScenarioNode[]
+}
+
+export interface ScenarioChallengeSolution {
+  explanation?: string // shown with the outcome
+}
+
+// One step of the learner's path; choice_id is set for choice nodes
+export interface ScenarioPathStep {
+  node_id: string
+  choice_id?: string
+}
+
+export type ChallengePayload =
+  | { challenge_type: 'quiz'; content: QuizChallengeContent; solution: QuizChallengeSolution }
+  | { challenge_type: 'multiple_choice'; content: QuizChallengeContent; solution: QuizChallengeSolution }
+  | { challenge_type: 'code'; content: CodeChallengeContent; solution: CodeChallengeSolution }
+  | { challenge_type: 'essay'; content: EssayChallengeContent; solution: EssayChallengeSolution }
+  | { challenge_type: 'scenario'; content: ScenarioChallengeContent; solution: ScenarioChallengeSolution }
+
+export type ChallengeContent = ChallengePayload['content']
+export type ChallengeSolution = ChallengePayload['solution']
+
+// Question Bank - reusable questions attached to a lesson or module (migration 015)
+export interface QuestionBank {
+  id: string
+  title: string
+  description?: string
+  lesson_id?: string | null
+  module_id?: string | null
+
+  // Metadata
+  created_by?: string
+  updated_by?: string
+  created_at: string
+  updated_at: string
+}
+
+export interface QuestionBankItem {
+  id: string
+  bank_id: string
+  question: QuizQuestion // question.id is replaced by the item id when drawn
+  answer: QuizAnswerValue
+  tags: string[]
+  difficulty: DifficultyLevel
+  sort_order: number
+  is_archived: boolean
+  created_at: string
+  updated_at: string
+}
+
+// One drawn question; option_order[displayIndex] is the index in the item's original options
+export interface QuestionDrawEntry {
+  item_id: string
+  option_order?: number[] | null
+}
+
+export type QuestionDraw = QuestionDrawEntry[]
+
 // Challenge
 export interface Challenge {
   id: string
@@ -135,17 +393,20 @@ export interface Challenge {
   title: string
   description: string
   challenge_type: ChallengeType
-  content: any // JSONB - challenge-specific data
-  solution: any // JSONB - expected answers
-  hints: string[]
+  content: any // JSONB - see ChallengePayload for the shape per challenge_type
+  solution: any // JSONB - see ChallengePayload for the shape per challenge_type
+  hints: string[] // revealed one at a time on request
+  hint_xp_penalty?: number // XP deducted per hint revealed (migration 017)
   xp_reward: number
   max_attempts?: number
   time_limit?: number // minutes
   sort_order: number
+  status?: ContentStatus // follows the lesson's status changes (migration 031)
   
   // Metadata
   created_by?: string
   updated_by?: string
+  external_id?: string | null
   created_at: string
   updated_at: string
   
@@ -180,6 +441,334 @@ export interface UserProgress {
   xp_earned: number
   score?: number
   attempts: number
+  hints_used?: number // hints revealed in the latest attempt (migration 017)
+
+  // Essay submissions (migration 012)
+  response?: string | null
+  feedback?: GradingResult | null
+}
+
+// Content Revision - append-only snapshot of a saved path, course, module or lesson (migration 019)
+export type RevisionEntityType = ContentEntityType
+
+export interface ContentRevision {
+  id: string
+  entity_type: RevisionEntityType
+  entity_id: string
+  revision_number: number
+  snapshot: Record<string, any> // the full row as saved
+  change_note?: string | null
+  created_by?: string | null
+  created_at: string
+
+  // Relationships
+  author?: { display_name?: string | null }
+}
+
+// Lesson Draft - staged edit of a published lesson (migration 020)
+export type LessonDraftStatus = 'pending' | 'approved'
+
+export type LessonDraftData = Partial<Pick<Lesson,
+  'title' | 'content' | 'summary' | 'estimated_minutes' | 'xp_reward' | 'lesson_type' |
+  'video_url' | 'video_duration' | 'meta_title' | 'meta_description'
+>>
+
+export interface LessonDraft {
+  id: string
+  lesson_id: string
+  data: LessonDraftData
+  status: LessonDraftStatus
+  approved_by?: string | null
+  approved_at?: string | null
+  created_by?: string | null
+  updated_by?: string | null
+  created_at: string
+  updated_at: string
+
+  // Relationships
+  author?: { display_name?: string | null }
+  approver?: { display_name?: string | null }
+}
+
+// Content Review - content managers submit drafts, admins publish or reject them (migration 021)
+export type ReviewRequestStatus = 'pending' | 'approved' | 'rejected' | 'withdrawn'
+
+export interface ContentReviewRequest {
+  id: string
+  entity_type: ContentEntityType
+  entity_id: string
+  entity_title: string // title at submission
+  status: ReviewRequestStatus
+  note?: string | null
+  submitted_by?: string | null
+  submitted_at: string
+  reviewer_comment?: string | null
+  reviewed_by?: string | null
+  reviewed_at?: string | null
+  created_at: string
+  updated_at: string
+
+  // Relationships
+  submitter?: { display_name?: string | null }
+}
+
+// Scheduled publish/unpublish across paths, courses, modules and lessons (migration 022)
+export interface ScheduledContent {
+  entity_type: ContentEntityType
+  id: string
+  title: string
+  status: ContentStatus
+  publish_at?: string | null
+  unpublish_at?: string | null
+}
+
+export interface UserNotification {
+  id: string
+  user_id: string
+  type: string // content_approved, content_rejected, edit_lock_overridden
+  title: string
+  message?: string | null
+  entity_type?: ContentEntityType | null
+  entity_id?: string | null
+  read_at?: string | null
+  created_at: string
+}
+
+// Placement - a reusable module or lesson shown in a parent besides its home one (migration 024).
+// parent_id is a course for modules and a module for lessons.
+export type PlacementEntityType = 'module' | 'lesson'
+
+export interface ContentPlacement {
+  id: string
+  entity_type: PlacementEntityType
+  item_id: string
+  parent_id: string
+  sort_order: number
+  created_at: string
+}
+
+// Move - a course, module or lesson moved to another parent by move_content_item (migration 025).
+// Positions are 1-based among the parent's items and placements; from_* is where undo puts it back.
+export type MovableEntityType = 'course' | 'module' | 'lesson'
+
+export interface ContentMove {
+  entity_type: MovableEntityType
+  item_id: string
+  from_parent_id: string
+  from_position: number
+  to_parent_id: string
+  to_position: number
+}
+
+// Clone - deep copy of a path, course or module made by clone_content_tree (migration 026)
+export type CloneEntityType = 'path' | 'course' | 'module'
+
+export interface CloneContentOptions {
+  parentId?: string // another path for a course, another course for a module; defaults to the source's parent
+  title?: string // defaults to "<title> (Copy)"
+  rewriteForRole?: AIRole // rewrite every copied lesson for this persona
+}
+
+export interface ContentCloneResult {
+  entity_type: CloneEntityType
+  id: string
+  slug: string
+  lesson_ids: string[]
+  rewritten_lessons: number
+  failed_rewrites: number
+}
+
+// Content Bundle - a learning path with everything in it as portable JSON (migration 027).
+// Built and validated by src/lib/content-bundle.ts; data holds each entity's editable columns
+export type BundleConflictStrategy = 'skip' | 'rename' | 'overwrite'
+
+export interface BundleChallenge {
+  external_id: string
+  data: Record<string, any>
+}
+
+export interface BundleLesson {
+  external_id: string
+  data: Record<string, any>
+  challenges: BundleChallenge[]
+}
+
+export interface BundleModule {
+  external_id: string
+  data: Record<string, any>
+  lessons: BundleLesson[]
+}
+
+export interface BundleCourse {
+  external_id: string
+  data: Record<string, any>
+  modules: BundleModule[]
+}
+
+export interface BundleLearningPath {
+  external_id: string
+  data: Record<string, any>
+  courses: BundleCourse[]
+}
+
+// A file the content points at; the files themselves are not in the bundle
+export interface BundleMediaReference {
+  url: string
+  external_id: string // entity that uses it
+  field: string
+}
+
+export interface ContentBundle {
+  format: string
+  version: number
+  exported_at: string
+  path: BundleLearningPath
+  media: BundleMediaReference[]
+}
+
+export type BundleEntityType = ContentEntityType | 'challenge'
+export type BundleImportAction = 'create' | 'update' | 'unchanged' | 'skip'
+
+export interface BundleImportChange {
+  entity_type: BundleEntityType
+  external_id: string
+  title: string
+  slug: string | null // null for challenges
+  action: BundleImportAction
+  existing_id: string | null
+  renamed_from?: string | null
+  changed_fields?: string[]
+}
+
+export interface BundleImportResult {
+  dry_run: boolean
+  path_id: string | null
+  changes: BundleImportChange[]
+}
+
+// Markdown Sync - change report of syncing a markdown folder (src/lib/content-markdown.ts) back in
+export type MarkdownSyncAction = 'created' | 'updated' | 'unchanged' | 'failed'
+
+export interface MarkdownSyncChange {
+  entity_type: BundleEntityType
+  title: string
+  file: string // relative to the folder
+  action: MarkdownSyncAction
+  changed_fields?: string[]
+  error?: string
+}
+
+export interface MarkdownSyncResult {
+  path_id: string | null
+  changes: MarkdownSyncChange[]
+}
+
+// Edit Lock - lease held by the one editor of an item, renewed while their form is open (migration 023)
+export interface ContentEditLock {
+  entity_type: ContentEntityType
+  entity_id: string
+  locked_by: string
+  locked_at: string
+  expires_at: string
+
+  // Relationships
+  holder?: { display_name?: string | null }
+}
+
+// Challenge Attempt - one row per submission (migration 013)
+export interface ChallengeAttemptAnswer {
+  question_index: number
+  question_id?: string
+  answer: any // shape depends on the question type; code attempts store { code, results }
+  is_correct: boolean | null // null when the answer could not be graded
+  score?: number // 0-100 for graded answers
+  feedback?: GradingResult | null
+  review?: AnswerReview // set when the answer is queued for manual grading (migration 018)
+}
+
+export interface ChallengeAttempt {
+  id: string
+  user_id: string
+  challenge_id: string
+  attempt_number: number
+  answers: ChallengeAttemptAnswer[]
+  score: number
+  started_at?: string | null
+  submitted_at: string
+  time_taken_seconds?: number | null
+  session_id?: string | null
+  draw?: QuestionDraw | null // questions drawn from a bank for this attempt
+  hints_used?: number // hints revealed, in order (migration 017)
+  created_at: string
+}
+
+// How often each hint of a challenge is revealed, across all learners' attempts
+export interface ChallengeHintUsage {
+  challenge_id: string
+  attempt_count: number
+  hint_counts: number[] // attempts that revealed hint N, indexed like Challenge.hints
+}
+
+// Grading Review - manual grading queue for essay and open-text answers (migration 018)
+export type GradingReviewReason = 'low_confidence' | 'ai_unavailable' | 'code_submission'
+export type GradingReviewStatus = 'pending' | 'completed'
+
+export interface AnswerReview {
+  status: GradingReviewStatus
+  score?: number
+  comment?: string | null
+  reviewed_at?: string
+}
+
+export interface GradingReview {
+  id: string
+  attempt_id: string
+  user_id: string
+  challenge_id: string
+  question_index: number
+  reason: GradingReviewReason
+  ai_score?: number | null
+  ai_confidence?: number | null
+  status: GradingReviewStatus
+  final_score?: number | null
+  comment?: string | null
+  reviewed_by?: string | null
+  reviewed_at?: string | null
+  created_at: string
+  updated_at: string
+
+  // Relationships
+  attempt?: ChallengeAttempt
+  challenge?: Challenge
+  user?: { display_name?: string | null }
+}
+
+// Challenge Session - server-timed quiz session with resumable answers (migration 014)
+export type ChallengeSessionStatus = 'active' | 'submitted' | 'expired'
+
+export interface ChallengeSessionAnswer {
+  question_index: number
+  answer: any
+}
+
+export interface ChallengeSession {
+  id: string
+  user_id: string
+  challenge_id: string
+  started_at: string
+  deadline_at: string | null // null when the challenge has no time limit
+  submitted_at?: string | null
+  answers: ChallengeSessionAnswer[]
+  current_question: number
+  draw?: QuestionDraw | null // set at session start for bank-based quizzes
+  hints_used?: number // only grows, so a reload can't hide revealed hints
+  status: ChallengeSessionStatus
+  created_at: string
+  updated_at: string
+
+  // Returned by start_challenge_session only
+  server_now?: string
+  previous_expired?: boolean // the expired session was recorded as an attempt scoring 0
 }
 
 // User XP
@@ -241,6 +830,8 @@ export interface CreateLearningPathDto {
   tags?: string[]
   prerequisites?: string[]
   learning_outcomes?: string[]
+  publish_at?: string | null
+  unpublish_at?: string | null
 }
 
 export interface UpdateLearningPathDto extends Partial<CreateLearningPathDto> {
@@ -257,6 +848,8 @@ export interface CreateCourseDto {
   estimated_hours?: number
   sort_order?: number
   image_url?: string
+  publish_at?: string | null
+  unpublish_at?: string | null
 }
 
 export interface UpdateCourseDto extends Partial<CreateCourseDto> {
@@ -271,6 +864,8 @@ export interface CreateModuleDto {
   short_description?: string
   estimated_minutes?: number
   sort_order?: number
+  publish_at?: string | null
+  unpublish_at?: string | null
 }
 
 export interface UpdateModuleDto extends Partial<CreateModuleDto> {
@@ -291,6 +886,8 @@ export interface CreateLessonDto {
   video_duration?: number
   meta_title?: string
   meta_description?: string
+  publish_at?: string | null
+  unpublish_at?: string | null
 }
 
 export interface UpdateLessonDto extends Partial<CreateLessonDto> {
@@ -302,9 +899,10 @@ export interface CreateChallengeDto {
   title: string
   description: string
   challenge_type: ChallengeType
-  content: any
+  content: any // validated against ChallengePayload on save
   solution: any
   hints?: string[]
+  hint_xp_penalty?: number
   xp_reward?: number
   max_attempts?: number
   time_limit?: number
@@ -319,6 +917,58 @@ export interface UpdateProgressDto {
   completion_percentage?: number
   xp_earned?: number
   score?: number
+  response?: string | null
+  feedback?: GradingResult | null
+  attempts?: number
+  hints_used?: number
+}
+
+// Answers are graded and scored on the server (POST /api/challenges/attempts, migration 035)
+export interface CreateChallengeAttemptDto {
+  challenge_id: string
+  answers: Pick<ChallengeAttemptAnswer, 'question_index' | 'question_id' | 'answer'>[]
+  started_at?: string // attempt_number, submitted_at and time_taken_seconds are set by the database
+  session_id?: string // required for timed quizzes; the session's server start time is used
+  draw?: QuestionDraw // replaced by the session's draw when session_id is set
+  hints_used?: number
+  send_to_grader?: boolean // essays: queue for a grader when AI grading is unavailable instead of failing
+}
+
+export interface CreateGradingReviewDto {
+  question_index: number
+  reason: GradingReviewReason
+  ai_score?: number
+  ai_confidence?: number
+}
+
+// The attempt score and XP are recomputed by the grader's client with the overridden answer score
+export interface CompleteGradingReviewDto {
+  final_score: number
+  comment?: string
+  attempt_score: number
+  xp_earned: number
+}
+
+export interface CreateQuestionBankDto {
+  title: string
+  description?: string
+  lesson_id?: string | null
+  module_id?: string | null
+}
+
+export type UpdateQuestionBankDto = Partial<CreateQuestionBankDto>
+
+export interface CreateQuestionBankItemDto {
+  bank_id: string
+  question: QuizQuestion
+  answer: QuizAnswerValue
+  tags?: string[]
+  difficulty?: DifficultyLevel
+  sort_order?: number
+}
+
+export interface UpdateQuestionBankItemDto extends Partial<Omit<CreateQuestionBankItemDto, 'bank_id'>> {
+  is_archived?: boolean
 }
 
 // Search and filtering
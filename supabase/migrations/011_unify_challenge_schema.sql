@@ -0,0 +1,86 @@
+-- ============================================================================
+-- UNIFY CHALLENGE CONTENT SCHEMA - Own The Flow
+-- Converts legacy single-question quiz rows written by ChallengeForm
+--   content:  { question, options, multiple_correct | multiple_select }
+--   solution: { correct_answers, explanation }
+-- into the questions[]/answers[] format played by QuizEngine
+--   content:  { questions: [{ id, type, question, options, explanation }] }
+--   solution: { answers: [...], explanation }
+-- Mirrors upgradeLegacyChallengePayload() in src/lib/challenge-schema.ts
+-- ============================================================================
+
+WITH legacy AS (
+    SELECT
+        id,
+        content,
+        solution,
+        COALESCE(
+            (content->>'multiple_correct')::boolean,
+            (content->>'multiple_select')::boolean,
+            false
+        ) AS is_multiple
+    FROM challenges
+    WHERE challenge_type IN ('quiz', 'multiple_choice')
+      AND content ? 'question'
+      AND NOT content ? 'questions'
+)
+UPDATE challenges c
+SET
+    content = jsonb_build_object(
+        'questions', jsonb_build_array(
+            jsonb_strip_nulls(jsonb_build_object(
+                'id', 'q1',
+                'type', CASE WHEN legacy.is_multiple THEN 'multiple_choice' ELSE 'single_choice' END,
+                'question', legacy.content->'question',
+                'options', COALESCE(legacy.content->'options', '[]'::jsonb),
+                'explanation', NULLIF(legacy.solution->>'explanation', '')
+            ))
+        )
+    ),
+    solution = jsonb_strip_nulls(jsonb_build_object(
+        'answers', jsonb_build_array(
+            CASE
+                WHEN legacy.is_multiple THEN COALESCE(legacy.solution->'correct_answers', '[]'::jsonb)
+                ELSE legacy.solution->'correct_answers'->0
+            END
+        ),
+        'explanation', legacy.solution->'explanation'
+    ))
+FROM legacy
+WHERE c.id = legacy.id;
+
+-- Quiz-style challenges must now carry a questions array. Added NOT VALID so
+-- rows in neither the legacy nor the new shape don't fail the migration; new
+-- and updated rows are checked right away
+ALTER TABLE challenges
+    ADD CONSTRAINT valid_quiz_challenge_content CHECK (
+        challenge_type NOT IN ('quiz', 'multiple_choice')
+        OR content IS NULL
+        OR jsonb_typeof(content->'questions') = 'array'
+    ) NOT VALID;
+
+-- Validate existing rows when they all conform; otherwise list the ones to fix
+DO $$
+DECLARE
+    invalid_ids TEXT;
+BEGIN
+    SELECT string_agg(id::TEXT, ', ') INTO invalid_ids
+    FROM challenges
+    WHERE challenge_type IN ('quiz', 'multiple_choice')
+      AND content IS NOT NULL
+      AND jsonb_typeof(content->'questions') IS DISTINCT FROM 'array';
+
+    IF invalid_ids IS NULL THEN
+        ALTER TABLE challenges VALIDATE CONSTRAINT valid_quiz_challenge_content;
+    ELSE
+        RAISE WARNING 'Quiz challenges with unrecognised content were left as they are: %', invalid_ids;
+        RAISE WARNING 'Fix them, then run: ALTER TABLE challenges VALIDATE CONSTRAINT valid_quiz_challenge_content';
+    END IF;
+END $$;
+
+-- Log successful completion
+DO $$
+BEGIN
+    RAISE NOTICE '=== CHALLENGE SCHEMA MIGRATION COMPLETED ===';
+    RAISE NOTICE 'Legacy quiz challenges converted to questions[]/answers[] format';
+END $$;
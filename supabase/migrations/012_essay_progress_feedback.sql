@@ -0,0 +1,19 @@
+-- ============================================================================
+-- ESSAY SUBMISSIONS ON USER PROGRESS - Own The Flow
+-- Stores the learner's submitted response and the per-criterion grading
+-- result next to the score on their user_progress row
+--   response: submitted essay text
+--   feedback: { score, criteria: [{ criterion, score, feedback }], feedback,
+--               strengths, gaps, confidence }  (GradingResult in src/types/ai.ts)
+-- ============================================================================
+
+ALTER TABLE user_progress
+    ADD COLUMN IF NOT EXISTS response TEXT,
+    ADD COLUMN IF NOT EXISTS feedback JSONB;
+
+-- Log successful completion
+DO $$
+BEGIN
+    RAISE NOTICE '=== ESSAY PROGRESS MIGRATION COMPLETED ===';
+    RAISE NOTICE 'user_progress.response and user_progress.feedback added';
+END $$;
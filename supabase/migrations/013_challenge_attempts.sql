@@ -0,0 +1,110 @@
+-- ============================================================================
+-- CHALLENGE ATTEMPTS - Own The Flow
+-- One immutable row per challenge submission: the answers given, per-question
+-- correctness, AI feedback, time taken and score
+--   answers: [{ question_index, question_id?, answer, is_correct, score?, feedback? }]
+-- attempt_number, submitted_at and time_taken_seconds are assigned by the
+-- database, which also enforces challenges.max_attempts
+-- ============================================================================
+
+CREATE TABLE challenge_attempts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+    challenge_id UUID NOT NULL REFERENCES challenges(id) ON DELETE CASCADE,
+    attempt_number INTEGER NOT NULL,
+
+    -- Submission
+    answers JSONB NOT NULL DEFAULT '[]'::jsonb,
+    score INTEGER NOT NULL,
+
+    -- Timing
+    started_at TIMESTAMP WITH TIME ZONE,
+    submitted_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    time_taken_seconds INTEGER,
+
+    -- Metadata
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT valid_attempt_score CHECK (score >= 0 AND score <= 100),
+    CONSTRAINT valid_attempt_number CHECK (attempt_number > 0),
+    CONSTRAINT valid_attempt_answers CHECK (jsonb_typeof(answers) = 'array'),
+    UNIQUE(user_id, challenge_id, attempt_number)
+);
+
+CREATE INDEX idx_challenge_attempts_user_challenge ON challenge_attempts(user_id, challenge_id);
+CREATE INDEX idx_challenge_attempts_challenge_id ON challenge_attempts(challenge_id);
+
+-- ============================================================================
+-- ATTEMPT NUMBERING AND MAX ATTEMPTS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION assign_challenge_attempt_number()
+RETURNS TRIGGER AS $$
+DECLARE
+    allowed_attempts INTEGER;
+    previous_attempts INTEGER;
+BEGIN
+    -- Serialize submissions per user and challenge so concurrent inserts can't exceed the limit
+    PERFORM pg_advisory_xact_lock(hashtext(NEW.user_id::text || ':' || NEW.challenge_id::text));
+
+    SELECT max_attempts INTO allowed_attempts
+    FROM challenges
+    WHERE id = NEW.challenge_id;
+
+    SELECT COUNT(*) INTO previous_attempts
+    FROM challenge_attempts
+    WHERE user_id = NEW.user_id AND challenge_id = NEW.challenge_id;
+
+    IF allowed_attempts IS NOT NULL AND allowed_attempts > 0 AND previous_attempts >= allowed_attempts THEN
+        RAISE EXCEPTION 'Maximum attempts (%) reached for this challenge', allowed_attempts
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    NEW.attempt_number := previous_attempts + 1;
+    NEW.submitted_at := NOW();
+    NEW.created_at := NOW();
+
+    -- Never trust a start time from the future
+    IF NEW.started_at IS NOT NULL THEN
+        NEW.started_at := LEAST(NEW.started_at, NEW.submitted_at);
+        NEW.time_taken_seconds := EXTRACT(EPOCH FROM (NEW.submitted_at - NEW.started_at))::INTEGER;
+    ELSE
+        NEW.time_taken_seconds := NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER assign_challenge_attempt_number_trigger
+    BEFORE INSERT ON challenge_attempts
+    FOR EACH ROW EXECUTE FUNCTION assign_challenge_attempt_number();
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+
+ALTER TABLE challenge_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Attempts are append-only for learners: no UPDATE or DELETE policies
+CREATE POLICY "Users can read own attempts" ON challenge_attempts
+    FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Users can record own attempts" ON challenge_attempts
+    FOR INSERT WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Content managers can read all attempts" ON challenge_attempts
+    FOR SELECT USING (
+        EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role IN ('admin', 'content_manager'))
+    );
+
+GRANT SELECT, INSERT ON challenge_attempts TO authenticated;
+GRANT ALL ON challenge_attempts TO service_role;
+
+-- Log successful completion
+DO $$
+BEGIN
+    RAISE NOTICE '=== CHALLENGE ATTEMPTS MIGRATION COMPLETED ===';
+    RAISE NOTICE 'Table created: challenge_attempts (max_attempts enforced by trigger)';
+END $$;
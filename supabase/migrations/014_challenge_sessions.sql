@@ -0,0 +1,249 @@
+-- ============================================================================
+-- CHALLENGE SESSIONS - Own The Flow
+-- Server-side quiz sessions: the start time and deadline are set by the
+-- database, partial answers are saved so a reload can resume, and attempts
+-- for timed quizzes are only accepted through an active session before its
+-- deadline (plus a short grace period for network latency)
+--   answers: [{ question_index, answer }]  (partial answers while active)
+-- ============================================================================
+
+CREATE TABLE challenge_sessions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+    challenge_id UUID NOT NULL REFERENCES challenges(id) ON DELETE CASCADE,
+
+    -- Timing (set by trigger, never by the client)
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    deadline_at TIMESTAMP WITH TIME ZONE, -- NULL when the challenge has no time limit
+    submitted_at TIMESTAMP WITH TIME ZONE,
+
+    -- Resume state
+    answers JSONB NOT NULL DEFAULT '[]'::jsonb,
+    current_question INTEGER NOT NULL DEFAULT 0,
+    status VARCHAR(20) NOT NULL DEFAULT 'active', -- active, submitted, expired
+
+    -- Metadata
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT valid_session_status CHECK (status IN ('active', 'submitted', 'expired')),
+    CONSTRAINT valid_session_answers CHECK (jsonb_typeof(answers) = 'array'),
+    CONSTRAINT valid_session_current_question CHECK (current_question >= 0)
+);
+
+-- Only one active session per user per challenge
+CREATE UNIQUE INDEX idx_challenge_sessions_active
+    ON challenge_sessions(user_id, challenge_id)
+    WHERE status = 'active';
+
+ALTER TABLE challenge_attempts
+    ADD COLUMN session_id UUID REFERENCES challenge_sessions(id) ON DELETE SET NULL;
+
+-- ============================================================================
+-- SESSION TRIGGERS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION initialize_challenge_session()
+RETURNS TRIGGER AS $$
+DECLARE
+    limit_minutes INTEGER;
+BEGIN
+    SELECT time_limit INTO limit_minutes
+    FROM challenges
+    WHERE id = NEW.challenge_id;
+
+    NEW.started_at := NOW();
+    NEW.deadline_at := CASE
+        WHEN limit_minutes IS NOT NULL AND limit_minutes > 0 THEN NOW() + make_interval(mins => limit_minutes)
+        ELSE NULL
+    END;
+    NEW.status := 'active';
+    NEW.submitted_at := NULL;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER initialize_challenge_session_trigger
+    BEFORE INSERT ON challenge_sessions
+    FOR EACH ROW EXECUTE FUNCTION initialize_challenge_session();
+
+CREATE OR REPLACE FUNCTION protect_challenge_session()
+RETURNS TRIGGER AS $$
+BEGIN
+    -- Timing and ownership can't be changed after the session starts
+    NEW.user_id := OLD.user_id;
+    NEW.challenge_id := OLD.challenge_id;
+    NEW.started_at := OLD.started_at;
+    NEW.deadline_at := OLD.deadline_at;
+
+    IF OLD.status <> 'active' THEN
+        RAISE EXCEPTION 'Quiz session is already %', OLD.status
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    -- Partial answers can't be saved once time is up
+    IF OLD.deadline_at IS NOT NULL AND NOW() > OLD.deadline_at
+       AND (NEW.answers IS DISTINCT FROM OLD.answers OR NEW.current_question IS DISTINCT FROM OLD.current_question) THEN
+        RAISE EXCEPTION 'Time limit exceeded for this quiz session'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER protect_challenge_session_trigger
+    BEFORE UPDATE ON challenge_sessions
+    FOR EACH ROW EXECUTE FUNCTION protect_challenge_session();
+
+CREATE TRIGGER update_challenge_sessions_updated_at BEFORE UPDATE ON challenge_sessions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- START OR RESUME A SESSION
+-- ============================================================================
+
+-- Returns the caller's active session (or a new one) plus the server clock,
+-- so the client can show an accurate countdown regardless of its own clock
+CREATE OR REPLACE FUNCTION start_challenge_session(p_challenge_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+    session_row challenge_sessions;
+    previous_expired BOOLEAN := false;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'User not authenticated';
+    END IF;
+
+    SELECT * INTO session_row
+    FROM challenge_sessions
+    WHERE user_id = auth.uid() AND challenge_id = p_challenge_id AND status = 'active'
+    FOR UPDATE;
+
+    -- Sessions past their deadline are closed; the learner starts over
+    IF session_row.id IS NOT NULL AND session_row.deadline_at IS NOT NULL
+       AND NOW() > session_row.deadline_at + INTERVAL '10 seconds' THEN
+        UPDATE challenge_sessions SET status = 'expired' WHERE id = session_row.id;
+        session_row := NULL;
+        previous_expired := true;
+    END IF;
+
+    IF session_row.id IS NULL THEN
+        INSERT INTO challenge_sessions (user_id, challenge_id)
+        VALUES (auth.uid(), p_challenge_id)
+        RETURNING * INTO session_row;
+    END IF;
+
+    RETURN to_jsonb(session_row) || jsonb_build_object(
+        'server_now', NOW(),
+        'previous_expired', previous_expired
+    );
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- ATTEMPTS: REQUIRE AN IN-TIME SESSION FOR TIMED QUIZZES
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION assign_challenge_attempt_number()
+RETURNS TRIGGER AS $$
+DECLARE
+    challenge_row RECORD;
+    session_row challenge_sessions;
+    previous_attempts INTEGER;
+BEGIN
+    -- Serialize submissions per user and challenge so concurrent inserts can't exceed the limit
+    PERFORM pg_advisory_xact_lock(hashtext(NEW.user_id::text || ':' || NEW.challenge_id::text));
+
+    SELECT max_attempts, time_limit, challenge_type INTO challenge_row
+    FROM challenges
+    WHERE id = NEW.challenge_id;
+
+    SELECT COUNT(*) INTO previous_attempts
+    FROM challenge_attempts
+    WHERE user_id = NEW.user_id AND challenge_id = NEW.challenge_id;
+
+    IF challenge_row.max_attempts IS NOT NULL AND challenge_row.max_attempts > 0
+       AND previous_attempts >= challenge_row.max_attempts THEN
+        RAISE EXCEPTION 'Maximum attempts (%) reached for this challenge', challenge_row.max_attempts
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    NEW.attempt_number := previous_attempts + 1;
+    NEW.submitted_at := NOW();
+    NEW.created_at := NOW();
+
+    IF NEW.session_id IS NOT NULL THEN
+        SELECT * INTO session_row
+        FROM challenge_sessions
+        WHERE id = NEW.session_id AND user_id = NEW.user_id AND challenge_id = NEW.challenge_id
+        FOR UPDATE;
+
+        IF session_row.id IS NULL OR session_row.status <> 'active' THEN
+            RAISE EXCEPTION 'Quiz session is not active'
+                USING ERRCODE = 'check_violation';
+        END IF;
+
+        IF session_row.deadline_at IS NOT NULL AND NOW() > session_row.deadline_at + INTERVAL '10 seconds' THEN
+            RAISE EXCEPTION 'Time limit exceeded: submissions closed at %', session_row.deadline_at
+                USING ERRCODE = 'check_violation';
+        END IF;
+
+        -- Timing comes from the server-side session
+        NEW.started_at := session_row.started_at;
+
+        UPDATE challenge_sessions
+        SET status = 'submitted', submitted_at = NOW()
+        WHERE id = session_row.id;
+    ELSIF challenge_row.time_limit IS NOT NULL AND challenge_row.time_limit > 0
+          AND challenge_row.challenge_type IN ('quiz', 'multiple_choice') THEN
+        RAISE EXCEPTION 'Timed quizzes must be submitted through a quiz session'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    -- Never trust a start time from the future
+    IF NEW.started_at IS NOT NULL THEN
+        NEW.started_at := LEAST(NEW.started_at, NEW.submitted_at);
+        NEW.time_taken_seconds := EXTRACT(EPOCH FROM (NEW.submitted_at - NEW.started_at))::INTEGER;
+    ELSE
+        NEW.time_taken_seconds := NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+
+ALTER TABLE challenge_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own sessions" ON challenge_sessions
+    FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Users can start own sessions" ON challenge_sessions
+    FOR INSERT WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update own sessions" ON challenge_sessions
+    FOR UPDATE USING (user_id = auth.uid())
+    WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Admins can read all sessions" ON challenge_sessions
+    FOR SELECT USING (
+        EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role = 'admin')
+    );
+
+GRANT SELECT, INSERT, UPDATE ON challenge_sessions TO authenticated;
+GRANT ALL ON challenge_sessions TO service_role;
+GRANT EXECUTE ON FUNCTION start_challenge_session(UUID) TO authenticated;
+
+-- Log successful completion
+DO $$
+BEGIN
+    RAISE NOTICE '=== CHALLENGE SESSIONS MIGRATION COMPLETED ===';
+    RAISE NOTICE 'Table created: challenge_sessions (server-side start time and deadline)';
+    RAISE NOTICE 'challenge_attempts.session_id added; timed quizzes require an in-time session';
+END $$;
@@ -0,0 +1,227 @@
+-- ============================================================================
+-- QUESTION BANKS - Own The Flow
+-- Reusable questions attached to a lesson or module. Quiz challenges can draw
+-- from a bank instead of carrying a fixed question list:
+--   content: { questions: [], question_bank: { bank_id, draw_count, tags?,
+--              difficulty?, shuffle_options? } }
+-- The draw is made when a session starts and copied onto the attempt:
+--   draw: [{ item_id, option_order }]  (option_order[displayIndex] = original index)
+-- Mirrors drawQuestions() in src/lib/question-bank.ts
+-- ============================================================================
+
+CREATE TABLE question_banks (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    title VARCHAR(255) NOT NULL,
+    description TEXT,
+    lesson_id UUID REFERENCES lessons(id) ON DELETE CASCADE,
+    module_id UUID REFERENCES modules(id) ON DELETE CASCADE,
+
+    -- Metadata
+    created_by UUID REFERENCES user_profiles(id),
+    updated_by UUID REFERENCES user_profiles(id),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Attached to exactly one lesson or module
+    CONSTRAINT valid_question_bank_parent CHECK (
+        (lesson_id IS NOT NULL AND module_id IS NULL) OR
+        (lesson_id IS NULL AND module_id IS NOT NULL)
+    )
+);
+
+CREATE TABLE question_bank_items (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    bank_id UUID NOT NULL REFERENCES question_banks(id) ON DELETE CASCADE,
+
+    -- Same shapes as one entry of content.questions / solution.answers
+    question JSONB NOT NULL,
+    answer JSONB NOT NULL,
+
+    -- Draw filters
+    tags TEXT[] DEFAULT '{}',
+    difficulty VARCHAR(20) DEFAULT 'beginner',
+
+    sort_order INTEGER DEFAULT 0,
+    is_archived BOOLEAN DEFAULT false, -- archived items are never drawn but keep past attempts readable
+
+    -- Metadata
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT valid_bank_item_difficulty CHECK (difficulty IN ('beginner', 'intermediate', 'advanced')),
+    CONSTRAINT valid_bank_item_question CHECK (jsonb_typeof(question) = 'object')
+);
+
+CREATE INDEX idx_question_banks_lesson_id ON question_banks(lesson_id);
+CREATE INDEX idx_question_banks_module_id ON question_banks(module_id);
+CREATE INDEX idx_question_bank_items_bank_id ON question_bank_items(bank_id);
+CREATE INDEX idx_question_bank_items_tags ON question_bank_items USING GIN(tags);
+
+CREATE TRIGGER update_question_banks_updated_at BEFORE UPDATE ON question_banks
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_question_bank_items_updated_at BEFORE UPDATE ON question_bank_items
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Draws recorded per session and per attempt
+ALTER TABLE challenge_sessions ADD COLUMN draw JSONB;
+ALTER TABLE challenge_attempts ADD COLUMN draw JSONB;
+
+-- ============================================================================
+-- DRAWING QUESTIONS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION draw_questions_from_bank(source JSONB)
+RETURNS JSONB AS $$
+DECLARE
+    result JSONB;
+    shuffle_options BOOLEAN;
+BEGIN
+    IF source IS NULL OR jsonb_typeof(source) <> 'object' THEN
+        RETURN NULL;
+    END IF;
+
+    shuffle_options := COALESCE((source->>'shuffle_options')::boolean, true);
+
+    WITH drawn AS (
+        SELECT i.id, i.question, row_number() OVER (ORDER BY i.sort_key) AS position
+        FROM (
+            SELECT id, question, random() AS sort_key
+            FROM question_bank_items
+            WHERE bank_id = (source->>'bank_id')::uuid
+              AND NOT is_archived
+              AND (
+                  jsonb_typeof(source->'tags') IS DISTINCT FROM 'array'
+                  OR jsonb_array_length(source->'tags') = 0
+                  OR tags && ARRAY(SELECT jsonb_array_elements_text(source->'tags'))
+              )
+              AND (
+                  jsonb_typeof(source->'difficulty') IS DISTINCT FROM 'array'
+                  OR jsonb_array_length(source->'difficulty') = 0
+                  OR difficulty IN (SELECT jsonb_array_elements_text(source->'difficulty'))
+              )
+            ORDER BY sort_key
+            LIMIT GREATEST(COALESCE((source->>'draw_count')::int, 0), 0)
+        ) i
+    )
+    SELECT COALESCE(jsonb_agg(
+        jsonb_build_object(
+            'item_id', d.id,
+            'option_order', CASE
+                WHEN shuffle_options
+                     AND d.question->>'type' IN ('single_choice', 'multiple_choice')
+                     AND jsonb_typeof(d.question->'options') = 'array'
+                THEN (
+                    SELECT jsonb_agg(n ORDER BY random())
+                    FROM generate_series(0, jsonb_array_length(d.question->'options') - 1) AS n
+                )
+                ELSE NULL
+            END
+        )
+        ORDER BY d.position
+    ), '[]'::jsonb)
+    INTO result
+    FROM drawn d;
+
+    RETURN result;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Sessions now also record the draw for bank-based quizzes
+CREATE OR REPLACE FUNCTION initialize_challenge_session()
+RETURNS TRIGGER AS $$
+DECLARE
+    challenge_row RECORD;
+BEGIN
+    SELECT time_limit, challenge_type, content INTO challenge_row
+    FROM challenges
+    WHERE id = NEW.challenge_id;
+
+    NEW.started_at := NOW();
+    NEW.deadline_at := CASE
+        WHEN challenge_row.time_limit IS NOT NULL AND challenge_row.time_limit > 0 THEN NOW() + make_interval(mins => challenge_row.time_limit)
+        ELSE NULL
+    END;
+    NEW.status := 'active';
+    NEW.submitted_at := NULL;
+    NEW.draw := CASE
+        WHEN challenge_row.challenge_type IN ('quiz', 'multiple_choice') THEN draw_questions_from_bank(challenge_row.content->'question_bank')
+        ELSE NULL
+    END;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- The draw is fixed for the lifetime of a session
+CREATE OR REPLACE FUNCTION protect_challenge_session_draw()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.draw := OLD.draw;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER protect_challenge_session_draw_trigger
+    BEFORE UPDATE ON challenge_sessions
+    FOR EACH ROW EXECUTE FUNCTION protect_challenge_session_draw();
+
+-- Attempts made through a session record the session's draw, not a client-supplied one
+CREATE OR REPLACE FUNCTION copy_session_draw_to_attempt()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.session_id IS NOT NULL THEN
+        SELECT draw INTO NEW.draw
+        FROM challenge_sessions
+        WHERE id = NEW.session_id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER copy_session_draw_to_attempt_trigger
+    BEFORE INSERT ON challenge_attempts
+    FOR EACH ROW EXECUTE FUNCTION copy_session_draw_to_attempt();
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+
+ALTER TABLE question_banks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE question_bank_items ENABLE ROW LEVEL SECURITY;
+
+-- Learners need bank items to play drawn questions
+CREATE POLICY "Authenticated users can read question banks" ON question_banks
+    FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Authenticated users can read question bank items" ON question_bank_items
+    FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Content managers can manage question banks" ON question_banks
+    FOR ALL USING (
+        EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role IN ('admin', 'content_manager'))
+    )
+    WITH CHECK (
+        EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role IN ('admin', 'content_manager'))
+    );
+
+CREATE POLICY "Content managers can manage question bank items" ON question_bank_items
+    FOR ALL USING (
+        EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role IN ('admin', 'content_manager'))
+    )
+    WITH CHECK (
+        EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role IN ('admin', 'content_manager'))
+    );
+
+GRANT SELECT, INSERT, UPDATE ON question_banks, question_bank_items TO authenticated;
+GRANT ALL ON question_banks, question_bank_items TO service_role;
+
+-- Log successful completion
+DO $$
+BEGIN
+    RAISE NOTICE '=== QUESTION BANKS MIGRATION COMPLETED ===';
+    RAISE NOTICE 'Tables created: question_banks, question_bank_items';
+    RAISE NOTICE 'Draws recorded on challenge_sessions.draw and challenge_attempts.draw';
+END $$;
@@ -0,0 +1,22 @@
+-- ============================================================================
+-- SCENARIO CHALLENGES - Own The Flow
+-- Adds the 'scenario' challenge type: a branching graph walked by the learner
+--   content:  { start_node, nodes: [{ id, type: narrative|choice|outcome,
+--               title?, body, next? | choices?: [{ id, label, next, consequence? }] | score? }] }
+--   solution: { explanation? }
+-- The path taken is recorded on challenge_attempts.answers[0].answer:
+--   { path: [{ node_id, choice_id? }], outcome: node_id }
+-- Graph rules are enforced by src/lib/scenario.ts when the challenge is saved
+-- ============================================================================
+
+ALTER TABLE challenges DROP CONSTRAINT IF EXISTS valid_challenge_type;
+
+ALTER TABLE challenges
+    ADD CONSTRAINT valid_challenge_type CHECK (challenge_type IN ('quiz', 'code', 'essay', 'multiple_choice', 'scenario'));
+
+-- Log successful completion
+DO $$
+BEGIN
+    RAISE NOTICE '=== SCENARIO CHALLENGES MIGRATION COMPLETED ===';
+    RAISE NOTICE 'challenges.challenge_type now accepts scenario';
+END $$;
@@ -0,0 +1,69 @@
+-- ============================================================================
+-- CHALLENGE HINTS - Own The Flow
+-- Hints are revealed one at a time on request; each revealed hint deducts
+-- challenges.hint_xp_penalty XP from the XP earned for the attempt
+-- hints_used counts revealed hints in order, so hint N was used when
+-- hints_used >= N. It is recorded on the attempt, the learner's progress and
+-- the active quiz session (so reloading can't hide hints already seen)
+-- ============================================================================
+
+ALTER TABLE challenges
+    ADD COLUMN hint_xp_penalty INTEGER NOT NULL DEFAULT 0,
+    ADD CONSTRAINT valid_hint_xp_penalty CHECK (hint_xp_penalty >= 0);
+
+ALTER TABLE challenge_attempts
+    ADD COLUMN hints_used INTEGER NOT NULL DEFAULT 0,
+    ADD CONSTRAINT valid_attempt_hints_used CHECK (hints_used >= 0);
+
+ALTER TABLE user_progress
+    ADD COLUMN hints_used INTEGER NOT NULL DEFAULT 0,
+    ADD CONSTRAINT valid_progress_hints_used CHECK (hints_used >= 0);
+
+ALTER TABLE challenge_sessions
+    ADD COLUMN hints_used INTEGER NOT NULL DEFAULT 0,
+    ADD CONSTRAINT valid_session_hints_used CHECK (hints_used >= 0);
+
+-- ============================================================================
+-- SESSION HINTS ONLY GROW
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION keep_challenge_session_hints()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.hints_used := GREATEST(OLD.hints_used, NEW.hints_used);
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER keep_challenge_session_hints_trigger
+    BEFORE UPDATE ON challenge_sessions
+    FOR EACH ROW EXECUTE FUNCTION keep_challenge_session_hints();
+
+-- An attempt submitted through a session can't report fewer hints than the session saw
+CREATE OR REPLACE FUNCTION apply_session_hints_to_attempt()
+RETURNS TRIGGER AS $$
+DECLARE
+    session_hints INTEGER;
+BEGIN
+    IF NEW.session_id IS NOT NULL THEN
+        SELECT hints_used INTO session_hints
+        FROM challenge_sessions
+        WHERE id = NEW.session_id AND user_id = NEW.user_id;
+
+        NEW.hints_used := GREATEST(NEW.hints_used, COALESCE(session_hints, 0));
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER apply_session_hints_to_attempt_trigger
+    BEFORE INSERT ON challenge_attempts
+    FOR EACH ROW EXECUTE FUNCTION apply_session_hints_to_attempt();
+
+-- Log successful completion
+DO $$
+BEGIN
+    RAISE NOTICE '=== CHALLENGE HINTS MIGRATION COMPLETED ===';
+    RAISE NOTICE 'Columns added: challenges.hint_xp_penalty, hints_used on challenge_attempts, user_progress and challenge_sessions';
+END $$;
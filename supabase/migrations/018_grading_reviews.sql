@@ -0,0 +1,183 @@
+-- ============================================================================
+-- GRADING REVIEWS - Own The Flow
+-- Manual grading queue for essay and open-text answers. A review is queued
+-- when AI grading is unavailable or its confidence is low; content managers
+-- and admins confirm or override the score and leave a comment.
+-- Completing a review writes the answer's review onto the attempt
+--   answers[n].review: { status, score?, comment?, reviewed_at? }
+-- and, for the learner's latest attempt, the final score and XP onto
+-- user_progress
+-- ============================================================================
+
+CREATE TABLE grading_reviews (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    attempt_id UUID NOT NULL REFERENCES challenge_attempts(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+    challenge_id UUID NOT NULL REFERENCES challenges(id) ON DELETE CASCADE,
+    question_index INTEGER NOT NULL DEFAULT 0,
+
+    -- Why the answer was queued
+    reason VARCHAR(20) NOT NULL, -- low_confidence, ai_unavailable
+    ai_score INTEGER,
+    ai_confidence NUMERIC(3, 2),
+
+    -- Grader decision
+    status VARCHAR(20) NOT NULL DEFAULT 'pending', -- pending, completed
+    final_score INTEGER,
+    comment TEXT,
+    reviewed_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+
+    -- Metadata
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT valid_review_reason CHECK (reason IN ('low_confidence', 'ai_unavailable')),
+    CONSTRAINT valid_review_status CHECK (status IN ('pending', 'completed')),
+    CONSTRAINT valid_review_ai_score CHECK (ai_score IS NULL OR (ai_score >= 0 AND ai_score <= 100)),
+    CONSTRAINT valid_review_ai_confidence CHECK (ai_confidence IS NULL OR (ai_confidence >= 0 AND ai_confidence <= 1)),
+    CONSTRAINT valid_review_final_score CHECK (final_score IS NULL OR (final_score >= 0 AND final_score <= 100)),
+    UNIQUE(attempt_id, question_index)
+);
+
+CREATE INDEX idx_grading_reviews_status ON grading_reviews(status, created_at);
+CREATE INDEX idx_grading_reviews_attempt_id ON grading_reviews(attempt_id);
+
+CREATE TRIGGER update_grading_reviews_updated_at BEFORE UPDATE ON grading_reviews
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- COMPLETE A REVIEW
+-- ============================================================================
+
+-- The attempt score and XP are computed by the grader's client (they depend on
+-- question points and scoring strategies); this function checks the grader's
+-- role and applies everything in one transaction
+CREATE OR REPLACE FUNCTION complete_grading_review(
+    p_review_id UUID,
+    p_final_score INTEGER,
+    p_comment TEXT,
+    p_attempt_score INTEGER,
+    p_xp_earned INTEGER
+)
+RETURNS JSONB AS $$
+DECLARE
+    review_row grading_reviews;
+    latest_attempt_id UUID;
+    passing_score CONSTANT INTEGER := 70; -- PASSING_SCORE in src/lib/grading.ts
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role IN ('admin', 'content_manager')
+    ) THEN
+        RAISE EXCEPTION 'Only content managers and admins can grade submissions'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF p_final_score < 0 OR p_final_score > 100 OR p_attempt_score < 0 OR p_attempt_score > 100 OR p_xp_earned < 0 THEN
+        RAISE EXCEPTION 'Scores must be between 0 and 100 and XP cannot be negative'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    SELECT * INTO review_row
+    FROM grading_reviews
+    WHERE id = p_review_id
+    FOR UPDATE;
+
+    IF review_row.id IS NULL THEN
+        RAISE EXCEPTION 'Grading review not found';
+    END IF;
+
+    IF review_row.status <> 'pending' THEN
+        RAISE EXCEPTION 'This submission has already been graded'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    UPDATE grading_reviews
+    SET status = 'completed',
+        final_score = p_final_score,
+        comment = NULLIF(TRIM(p_comment), ''),
+        reviewed_by = auth.uid(),
+        reviewed_at = NOW()
+    WHERE id = p_review_id
+    RETURNING * INTO review_row;
+
+    -- Replace the reviewed answer's score and record the review on it
+    UPDATE challenge_attempts
+    SET score = p_attempt_score,
+        answers = (
+            SELECT COALESCE(jsonb_agg(
+                CASE WHEN (answer->>'question_index')::INTEGER = review_row.question_index
+                    THEN answer || jsonb_build_object(
+                        'score', p_final_score,
+                        'is_correct', p_final_score >= passing_score,
+                        'review', jsonb_build_object(
+                            'status', 'completed',
+                            'score', p_final_score,
+                            'comment', review_row.comment,
+                            'reviewed_at', review_row.reviewed_at
+                        )
+                    )
+                    ELSE answer
+                END
+                ORDER BY position
+            ), '[]'::jsonb)
+            FROM jsonb_array_elements(answers) WITH ORDINALITY AS elements(answer, position)
+        )
+    WHERE id = review_row.attempt_id;
+
+    -- Progress reflects the learner's latest attempt only
+    SELECT id INTO latest_attempt_id
+    FROM challenge_attempts
+    WHERE user_id = review_row.user_id AND challenge_id = review_row.challenge_id
+    ORDER BY attempt_number DESC
+    LIMIT 1;
+
+    IF latest_attempt_id = review_row.attempt_id THEN
+        UPDATE user_progress
+        SET score = p_attempt_score,
+            completion_percentage = p_attempt_score,
+            xp_earned = p_xp_earned,
+            status = CASE WHEN p_attempt_score >= passing_score THEN 'completed' ELSE 'in_progress' END,
+            completed_at = CASE WHEN p_attempt_score >= passing_score THEN COALESCE(completed_at, NOW()) ELSE completed_at END,
+            updated_at = NOW()
+        WHERE user_id = review_row.user_id AND challenge_id = review_row.challenge_id;
+    END IF;
+
+    RETURN to_jsonb(review_row);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+
+ALTER TABLE grading_reviews ENABLE ROW LEVEL SECURITY;
+
+-- Learners queue reviews for their own attempts; graders complete them through complete_grading_review
+CREATE POLICY "Users can read own grading reviews" ON grading_reviews
+    FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Users can request reviews of own attempts" ON grading_reviews
+    FOR INSERT WITH CHECK (
+        user_id = auth.uid()
+        AND status = 'pending'
+        AND EXISTS (SELECT 1 FROM challenge_attempts WHERE id = attempt_id AND user_id = auth.uid())
+    );
+
+CREATE POLICY "Content managers can read all grading reviews" ON grading_reviews
+    FOR SELECT USING (
+        EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role IN ('admin', 'content_manager'))
+    );
+
+GRANT SELECT, INSERT ON grading_reviews TO authenticated;
+GRANT ALL ON grading_reviews TO service_role;
+GRANT EXECUTE ON FUNCTION complete_grading_review(UUID, INTEGER, TEXT, INTEGER, INTEGER) TO authenticated;
+
+-- Log successful completion
+DO $$
+BEGIN
+    RAISE NOTICE '=== GRADING REVIEWS MIGRATION COMPLETED ===';
+    RAISE NOTICE 'Table created: grading_reviews (manual grading queue)';
+    RAISE NOTICE 'Function created: complete_grading_review (writes final score and XP back to user_progress)';
+END $$;
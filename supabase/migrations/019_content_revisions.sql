@@ -0,0 +1,95 @@
+-- ============================================================================
+-- CONTENT REVISIONS - Own The Flow
+-- Append-only history of learning paths, courses, modules and lessons: every
+-- save stores a full snapshot of the row with its author and an optional
+-- change note. Restoring a revision saves its snapshot as a new revision, so
+-- history is never rewritten.
+-- revision_number is assigned by the database per entity
+-- ============================================================================
+
+CREATE TABLE content_revisions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    entity_type VARCHAR(20) NOT NULL, -- path, course, module, lesson
+    entity_id UUID NOT NULL,
+    revision_number INTEGER NOT NULL,
+
+    -- Snapshot
+    snapshot JSONB NOT NULL,
+    change_note TEXT,
+
+    -- Metadata
+    created_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT valid_revision_entity_type CHECK (entity_type IN ('path', 'course', 'module', 'lesson')),
+    CONSTRAINT valid_revision_snapshot CHECK (jsonb_typeof(snapshot) = 'object'),
+    CONSTRAINT valid_revision_number CHECK (revision_number > 0),
+    UNIQUE(entity_type, entity_id, revision_number)
+);
+
+CREATE INDEX idx_content_revisions_entity ON content_revisions(entity_type, entity_id, revision_number DESC);
+
+-- ============================================================================
+-- REVISION NUMBERING AND IMMUTABILITY
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION assign_content_revision_number()
+RETURNS TRIGGER AS $$
+BEGIN
+    -- Serialize saves per entity so concurrent revisions get distinct numbers
+    PERFORM pg_advisory_xact_lock(hashtext('content_revision:' || NEW.entity_type || ':' || NEW.entity_id::text));
+
+    SELECT COALESCE(MAX(revision_number), 0) + 1 INTO NEW.revision_number
+    FROM content_revisions
+    WHERE entity_type = NEW.entity_type AND entity_id = NEW.entity_id;
+
+    NEW.created_by := COALESCE(auth.uid(), NEW.created_by);
+    NEW.created_at := NOW();
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER assign_content_revision_number_trigger
+    BEFORE INSERT ON content_revisions
+    FOR EACH ROW EXECUTE FUNCTION assign_content_revision_number();
+
+CREATE OR REPLACE FUNCTION prevent_content_revision_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+    RAISE EXCEPTION 'Content revisions are append-only'
+        USING ERRCODE = 'check_violation';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER prevent_content_revision_changes_trigger
+    BEFORE UPDATE OR DELETE ON content_revisions
+    FOR EACH ROW EXECUTE FUNCTION prevent_content_revision_changes();
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+
+ALTER TABLE content_revisions ENABLE ROW LEVEL SECURITY;
+
+-- No UPDATE or DELETE policies: revisions are append-only
+CREATE POLICY "Content managers can read revisions" ON content_revisions
+    FOR SELECT USING (
+        EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role IN ('admin', 'content_manager'))
+    );
+
+CREATE POLICY "Content managers can record revisions" ON content_revisions
+    FOR INSERT WITH CHECK (
+        EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role IN ('admin', 'content_manager'))
+    );
+
+GRANT SELECT, INSERT ON content_revisions TO authenticated;
+GRANT ALL ON content_revisions TO service_role;
+
+-- Log successful completion
+DO $$
+BEGIN
+    RAISE NOTICE '=== CONTENT REVISIONS MIGRATION COMPLETED ===';
+    RAISE NOTICE 'Table created: content_revisions (append-only snapshots of paths, courses, modules and lessons)';
+END $$;
@@ -0,0 +1,168 @@
+-- ============================================================================
+-- LESSON DRAFTS - Own The Flow
+-- Staged edits of published lessons. A published lesson can carry one pending
+-- draft that authors keep editing while learners still see the published
+-- version. An admin approves the draft, and publishing swaps its fields into
+-- the lesson in one transaction.
+--   data: { title, content, summary, estimated_minutes, xp_reward, lesson_type,
+--           video_url, video_duration, meta_title, meta_description }
+-- Slug, module, order and status are not staged; they change on the lesson
+-- itself
+-- ============================================================================
+
+CREATE TABLE lesson_drafts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    lesson_id UUID NOT NULL UNIQUE REFERENCES lessons(id) ON DELETE CASCADE,
+
+    -- Staged content
+    data JSONB NOT NULL,
+
+    -- Approval
+    status VARCHAR(20) NOT NULL DEFAULT 'pending', -- pending, approved
+    approved_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+    approved_at TIMESTAMP WITH TIME ZONE,
+
+    -- Metadata
+    created_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+    updated_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT valid_lesson_draft_status CHECK (status IN ('pending', 'approved')),
+    CONSTRAINT valid_lesson_draft_data CHECK (jsonb_typeof(data) = 'object')
+);
+
+CREATE TRIGGER update_lesson_drafts_updated_at BEFORE UPDATE ON lesson_drafts
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- APPROVAL RULES
+-- ============================================================================
+
+-- Editing a draft sends it back for approval; only admins can approve
+CREATE OR REPLACE FUNCTION check_lesson_draft_approval()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.data IS DISTINCT FROM OLD.data THEN
+        NEW.status := 'pending';
+        NEW.approved_by := NULL;
+        NEW.approved_at := NULL;
+    ELSIF NEW.status = 'approved' AND OLD.status <> 'approved' THEN
+        IF NOT EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role = 'admin') THEN
+            RAISE EXCEPTION 'Only admins can approve lesson drafts'
+                USING ERRCODE = 'insufficient_privilege';
+        END IF;
+
+        NEW.approved_by := auth.uid();
+        NEW.approved_at := NOW();
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER check_lesson_draft_approval_trigger
+    BEFORE UPDATE ON lesson_drafts
+    FOR EACH ROW EXECUTE FUNCTION check_lesson_draft_approval();
+
+-- ============================================================================
+-- PUBLISH A DRAFT
+-- ============================================================================
+
+-- Applies an approved draft to its lesson, records the result as a content
+-- revision (migration 019) and removes the draft, all in one transaction
+CREATE OR REPLACE FUNCTION publish_lesson_draft(p_draft_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+    draft_row lesson_drafts;
+    lesson_row lessons;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role = 'admin') THEN
+        RAISE EXCEPTION 'Only admins can publish lesson drafts'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    SELECT * INTO draft_row
+    FROM lesson_drafts
+    WHERE id = p_draft_id
+    FOR UPDATE;
+
+    IF draft_row.id IS NULL THEN
+        RAISE EXCEPTION 'Lesson draft not found';
+    END IF;
+
+    IF draft_row.status <> 'approved' THEN
+        RAISE EXCEPTION 'This draft has not been approved yet'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    UPDATE lessons
+    SET title = COALESCE(draft_row.data->>'title', title),
+        content = CASE WHEN draft_row.data ? 'content' THEN draft_row.data->>'content' ELSE content END,
+        summary = CASE WHEN draft_row.data ? 'summary' THEN draft_row.data->>'summary' ELSE summary END,
+        estimated_minutes = COALESCE((draft_row.data->>'estimated_minutes')::INTEGER, estimated_minutes),
+        xp_reward = COALESCE((draft_row.data->>'xp_reward')::INTEGER, xp_reward),
+        lesson_type = COALESCE(draft_row.data->>'lesson_type', lesson_type),
+        video_url = CASE WHEN draft_row.data ? 'video_url' THEN draft_row.data->>'video_url' ELSE video_url END,
+        video_duration = CASE WHEN draft_row.data ? 'video_duration' THEN (draft_row.data->>'video_duration')::INTEGER ELSE video_duration END,
+        meta_title = CASE WHEN draft_row.data ? 'meta_title' THEN draft_row.data->>'meta_title' ELSE meta_title END,
+        meta_description = CASE WHEN draft_row.data ? 'meta_description' THEN draft_row.data->>'meta_description' ELSE meta_description END,
+        updated_by = auth.uid(),
+        published_by = auth.uid(),
+        published_at = NOW()
+    WHERE id = draft_row.lesson_id
+    RETURNING * INTO lesson_row;
+
+    IF lesson_row.id IS NULL THEN
+        RAISE EXCEPTION 'Lesson not found';
+    END IF;
+
+    INSERT INTO content_revisions (entity_type, entity_id, snapshot, change_note)
+    VALUES ('lesson', lesson_row.id, to_jsonb(lesson_row), 'Published staged draft');
+
+    DELETE FROM lesson_drafts WHERE id = draft_row.id;
+
+    RETURN to_jsonb(lesson_row);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+
+ALTER TABLE lesson_drafts ENABLE ROW LEVEL SECURITY;
+
+-- Drafts are never visible to learners
+CREATE POLICY "Content managers can read lesson drafts" ON lesson_drafts
+    FOR SELECT USING (
+        EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role IN ('admin', 'content_manager'))
+    );
+
+CREATE POLICY "Content managers can create lesson drafts" ON lesson_drafts
+    FOR INSERT WITH CHECK (
+        status = 'pending'
+        AND EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role IN ('admin', 'content_manager'))
+    );
+
+CREATE POLICY "Content managers can update lesson drafts" ON lesson_drafts
+    FOR UPDATE USING (
+        EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role IN ('admin', 'content_manager'))
+    );
+
+CREATE POLICY "Content managers can discard lesson drafts" ON lesson_drafts
+    FOR DELETE USING (
+        EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role IN ('admin', 'content_manager'))
+    );
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON lesson_drafts TO authenticated;
+GRANT ALL ON lesson_drafts TO service_role;
+GRANT EXECUTE ON FUNCTION publish_lesson_draft(UUID) TO authenticated;
+
+-- Log successful completion
+DO $$
+BEGIN
+    RAISE NOTICE '=== LESSON DRAFTS MIGRATION COMPLETED ===';
+    RAISE NOTICE 'Table created: lesson_drafts (staged edits of published lessons)';
+    RAISE NOTICE 'Function created: publish_lesson_draft (swaps an approved draft into its lesson)';
+END $$;
@@ -0,0 +1,301 @@
+-- ============================================================================
+-- CONTENT REVIEW WORKFLOW - Own The Flow
+-- Content managers cannot publish; they submit paths, courses, modules and
+-- lessons for review instead. Admins approve (publish) or reject (back to
+-- draft) with a comment, and the author is notified of the decision.
+--   draft ──submit──> in_review ──approve──> published
+--                        └───────reject────> draft
+-- Leaving in_review any other way (editing the status, a parent's cascade)
+-- withdraws the pending request
+-- ============================================================================
+
+ALTER TYPE content_status ADD VALUE IF NOT EXISTS 'in_review' AFTER 'draft';
+
+-- ============================================================================
+-- REVIEW REQUESTS
+-- ============================================================================
+
+CREATE TABLE content_review_requests (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    entity_type VARCHAR(20) NOT NULL, -- path, course, module, lesson
+    entity_id UUID NOT NULL,
+    entity_title VARCHAR(200) NOT NULL, -- title at submission, for the queue
+
+    -- Submission
+    status VARCHAR(20) NOT NULL DEFAULT 'pending', -- pending, approved, rejected, withdrawn
+    note TEXT,
+    submitted_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+    submitted_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Decision
+    reviewer_comment TEXT,
+    reviewed_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+    reviewed_at TIMESTAMP WITH TIME ZONE,
+
+    -- Metadata
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT valid_review_request_entity_type CHECK (entity_type IN ('path', 'course', 'module', 'lesson')),
+    CONSTRAINT valid_review_request_status CHECK (status IN ('pending', 'approved', 'rejected', 'withdrawn'))
+);
+
+-- One open request per item
+CREATE UNIQUE INDEX idx_content_review_requests_pending
+    ON content_review_requests(entity_type, entity_id) WHERE status = 'pending';
+CREATE INDEX idx_content_review_requests_status ON content_review_requests(status, submitted_at);
+
+CREATE TRIGGER update_content_review_requests_updated_at BEFORE UPDATE ON content_review_requests
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================================
+-- NOTIFICATIONS
+-- ============================================================================
+
+CREATE TABLE notifications (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+    type VARCHAR(50) NOT NULL, -- content_approved, content_rejected
+    title VARCHAR(200) NOT NULL,
+    message TEXT,
+
+    -- What the notification is about
+    entity_type VARCHAR(20),
+    entity_id UUID,
+
+    read_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_notifications_user_id ON notifications(user_id, created_at DESC);
+
+-- ============================================================================
+-- STATUS TRANSITIONS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION content_table_name(p_entity_type TEXT)
+RETURNS TEXT AS $$
+BEGIN
+    RETURN CASE p_entity_type
+        WHEN 'path' THEN 'learning_paths'
+        WHEN 'course' THEN 'courses'
+        WHEN 'module' THEN 'modules'
+        WHEN 'lesson' THEN 'lessons'
+    END;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Only admins publish; in_review is entered by submitting for review; leaving it
+-- outside a review decision withdraws the pending request.
+-- Requests without a signed-in user (service role jobs) are not restricted
+CREATE OR REPLACE FUNCTION enforce_content_status_transition()
+RETURNS TRIGGER AS $$
+DECLARE
+    target_type TEXT := TG_ARGV[0];
+    old_status TEXT := CASE WHEN TG_OP = 'UPDATE' THEN OLD.status::TEXT END;
+BEGIN
+    IF old_status IS NOT DISTINCT FROM NEW.status::TEXT OR auth.uid() IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.status::TEXT = 'published' AND NOT EXISTS (
+        SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role = 'admin'
+    ) THEN
+        RAISE EXCEPTION 'Only admins can publish content. Submit it for review instead.'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF NEW.status::TEXT = 'in_review' AND NOT EXISTS (
+        SELECT 1 FROM content_review_requests
+        WHERE content_review_requests.entity_type = target_type
+          AND content_review_requests.entity_id = NEW.id
+          AND status = 'pending'
+    ) THEN
+        RAISE EXCEPTION 'Content goes into review by submitting it for review'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF old_status = 'in_review' THEN
+        UPDATE content_review_requests
+        SET status = 'withdrawn'
+        WHERE content_review_requests.entity_type = target_type
+          AND content_review_requests.entity_id = NEW.id
+          AND status = 'pending';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER enforce_learning_path_status_transition BEFORE INSERT OR UPDATE OF status ON learning_paths
+    FOR EACH ROW EXECUTE FUNCTION enforce_content_status_transition('path');
+CREATE TRIGGER enforce_course_status_transition BEFORE INSERT OR UPDATE OF status ON courses
+    FOR EACH ROW EXECUTE FUNCTION enforce_content_status_transition('course');
+CREATE TRIGGER enforce_module_status_transition BEFORE INSERT OR UPDATE OF status ON modules
+    FOR EACH ROW EXECUTE FUNCTION enforce_content_status_transition('module');
+CREATE TRIGGER enforce_lesson_status_transition BEFORE INSERT OR UPDATE OF status ON lessons
+    FOR EACH ROW EXECUTE FUNCTION enforce_content_status_transition('lesson');
+
+-- ============================================================================
+-- SUBMIT AND REVIEW
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION submit_content_for_review(
+    p_entity_type TEXT,
+    p_entity_id UUID,
+    p_note TEXT
+)
+RETURNS JSONB AS $$
+DECLARE
+    table_name TEXT := content_table_name(p_entity_type);
+    current_status TEXT;
+    current_title TEXT;
+    request_row content_review_requests;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role IN ('admin', 'content_manager')
+    ) THEN
+        RAISE EXCEPTION 'Only content managers and admins can submit content for review'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF table_name IS NULL THEN
+        RAISE EXCEPTION 'Unknown content type: %', p_entity_type;
+    END IF;
+
+    EXECUTE format('SELECT status::TEXT, title FROM %I WHERE id = $1 FOR UPDATE', table_name)
+        INTO current_status, current_title
+        USING p_entity_id;
+
+    IF current_status IS NULL THEN
+        RAISE EXCEPTION 'Content not found';
+    END IF;
+
+    IF current_status <> 'draft' THEN
+        RAISE EXCEPTION 'Only drafts can be submitted for review'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    INSERT INTO content_review_requests (entity_type, entity_id, entity_title, note, submitted_by)
+    VALUES (p_entity_type, p_entity_id, current_title, NULLIF(TRIM(p_note), ''), auth.uid())
+    RETURNING * INTO request_row;
+
+    EXECUTE format('UPDATE %I SET status = ''in_review'', updated_by = $2 WHERE id = $1', table_name)
+        USING p_entity_id, auth.uid();
+
+    RETURN to_jsonb(request_row);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Approving publishes the item, rejecting returns it to draft; either way the
+-- author gets a notification with the reviewer's comment
+CREATE OR REPLACE FUNCTION review_content(
+    p_request_id UUID,
+    p_approve BOOLEAN,
+    p_comment TEXT
+)
+RETURNS JSONB AS $$
+DECLARE
+    request_row content_review_requests;
+    comment_text TEXT := NULLIF(TRIM(p_comment), '');
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role = 'admin') THEN
+        RAISE EXCEPTION 'Only admins can review content'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF NOT p_approve AND comment_text IS NULL THEN
+        RAISE EXCEPTION 'Add a comment so the author knows what to change'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    SELECT * INTO request_row
+    FROM content_review_requests
+    WHERE id = p_request_id
+    FOR UPDATE;
+
+    IF request_row.id IS NULL THEN
+        RAISE EXCEPTION 'Review request not found';
+    END IF;
+
+    IF request_row.status <> 'pending' THEN
+        RAISE EXCEPTION 'This request has already been reviewed'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    -- Close the request first so the status change below is not treated as a withdrawal
+    UPDATE content_review_requests
+    SET status = CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END,
+        reviewer_comment = comment_text,
+        reviewed_by = auth.uid(),
+        reviewed_at = NOW()
+    WHERE id = p_request_id
+    RETURNING * INTO request_row;
+
+    IF p_approve THEN
+        EXECUTE format(
+            'UPDATE %I SET status = ''published'', published_by = $2, published_at = NOW(), updated_by = $2 WHERE id = $1',
+            content_table_name(request_row.entity_type)
+        ) USING request_row.entity_id, auth.uid();
+    ELSE
+        EXECUTE format(
+            'UPDATE %I SET status = ''draft'', updated_by = $2 WHERE id = $1',
+            content_table_name(request_row.entity_type)
+        ) USING request_row.entity_id, auth.uid();
+    END IF;
+
+    IF request_row.submitted_by IS NOT NULL THEN
+        INSERT INTO notifications (user_id, type, title, message, entity_type, entity_id)
+        VALUES (
+            request_row.submitted_by,
+            CASE WHEN p_approve THEN 'content_approved' ELSE 'content_rejected' END,
+            CASE WHEN p_approve
+                THEN format('"%s" was approved and published', request_row.entity_title)
+                ELSE format('"%s" needs changes', request_row.entity_title)
+            END,
+            comment_text,
+            request_row.entity_type,
+            request_row.entity_id
+        );
+    END IF;
+
+    RETURN to_jsonb(request_row);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+
+ALTER TABLE content_review_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+-- Requests are created and decided through the functions above
+CREATE POLICY "Content managers can read review requests" ON content_review_requests
+    FOR SELECT USING (
+        EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role IN ('admin', 'content_manager'))
+    );
+
+-- Notifications are created by review_content; users can only read and mark their own
+CREATE POLICY "Users can read own notifications" ON notifications
+    FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Users can mark own notifications read" ON notifications
+    FOR UPDATE USING (user_id = auth.uid());
+
+GRANT SELECT ON content_review_requests TO authenticated;
+GRANT ALL ON content_review_requests TO service_role;
+GRANT SELECT, UPDATE ON notifications TO authenticated;
+GRANT ALL ON notifications TO service_role;
+GRANT EXECUTE ON FUNCTION submit_content_for_review(TEXT, UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION review_content(UUID, BOOLEAN, TEXT) TO authenticated;
+
+-- Log successful completion
+DO $$
+BEGIN
+    RAISE NOTICE '=== CONTENT REVIEW WORKFLOW MIGRATION COMPLETED ===';
+    RAISE NOTICE 'Status added: in_review';
+    RAISE NOTICE 'Tables created: content_review_requests, notifications';
+    RAISE NOTICE 'Functions created: submit_content_for_review, review_content';
+END $$;
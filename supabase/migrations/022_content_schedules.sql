@@ -0,0 +1,170 @@
+-- ============================================================================
+-- CONTENT SCHEDULES - Own The Flow
+-- Future publish and unpublish times on paths, courses, modules and lessons.
+-- apply_content_schedules() applies the times that have passed; it is run by
+-- the server job at /api/content/schedules (or by pg_cron, see below).
+-- Unpublishing returns the item to draft and cascades to its children the way
+-- ContentService.cascadeStatusFromLearningPath does; publishing does not
+-- cascade. Schedules are cleared once applied.
+-- Like publishing itself (migration 021), only admins can set schedules
+-- ============================================================================
+
+ALTER TABLE learning_paths
+    ADD COLUMN publish_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN unpublish_at TIMESTAMP WITH TIME ZONE,
+    ADD CONSTRAINT valid_learning_path_schedule CHECK (publish_at IS NULL OR unpublish_at IS NULL OR unpublish_at > publish_at);
+
+ALTER TABLE courses
+    ADD COLUMN publish_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN unpublish_at TIMESTAMP WITH TIME ZONE,
+    ADD CONSTRAINT valid_course_schedule CHECK (publish_at IS NULL OR unpublish_at IS NULL OR unpublish_at > publish_at);
+
+ALTER TABLE modules
+    ADD COLUMN publish_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN unpublish_at TIMESTAMP WITH TIME ZONE,
+    ADD CONSTRAINT valid_module_schedule CHECK (publish_at IS NULL OR unpublish_at IS NULL OR unpublish_at > publish_at);
+
+ALTER TABLE lessons
+    ADD COLUMN publish_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN unpublish_at TIMESTAMP WITH TIME ZONE,
+    ADD CONSTRAINT valid_lesson_schedule CHECK (publish_at IS NULL OR unpublish_at IS NULL OR unpublish_at > publish_at);
+
+CREATE INDEX idx_learning_paths_publish_at ON learning_paths(publish_at) WHERE publish_at IS NOT NULL;
+CREATE INDEX idx_learning_paths_unpublish_at ON learning_paths(unpublish_at) WHERE unpublish_at IS NOT NULL;
+CREATE INDEX idx_courses_publish_at ON courses(publish_at) WHERE publish_at IS NOT NULL;
+CREATE INDEX idx_courses_unpublish_at ON courses(unpublish_at) WHERE unpublish_at IS NOT NULL;
+CREATE INDEX idx_modules_publish_at ON modules(publish_at) WHERE publish_at IS NOT NULL;
+CREATE INDEX idx_modules_unpublish_at ON modules(unpublish_at) WHERE unpublish_at IS NOT NULL;
+CREATE INDEX idx_lessons_publish_at ON lessons(publish_at) WHERE publish_at IS NOT NULL;
+CREATE INDEX idx_lessons_unpublish_at ON lessons(unpublish_at) WHERE unpublish_at IS NOT NULL;
+
+-- ============================================================================
+-- WHO CAN SCHEDULE
+-- ============================================================================
+
+-- Requests without a signed-in user (service role jobs) are not restricted
+CREATE OR REPLACE FUNCTION enforce_content_schedule_permission()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    IF (TG_OP = 'INSERT' AND (NEW.publish_at IS NOT NULL OR NEW.unpublish_at IS NOT NULL))
+        OR (TG_OP = 'UPDATE' AND (NEW.publish_at IS DISTINCT FROM OLD.publish_at OR NEW.unpublish_at IS DISTINCT FROM OLD.unpublish_at))
+    THEN
+        IF NOT EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role = 'admin') THEN
+            RAISE EXCEPTION 'Only admins can schedule publishing'
+                USING ERRCODE = 'insufficient_privilege';
+        END IF;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER enforce_learning_path_schedule_permission BEFORE INSERT OR UPDATE OF publish_at, unpublish_at ON learning_paths
+    FOR EACH ROW EXECUTE FUNCTION enforce_content_schedule_permission();
+CREATE TRIGGER enforce_course_schedule_permission BEFORE INSERT OR UPDATE OF publish_at, unpublish_at ON courses
+    FOR EACH ROW EXECUTE FUNCTION enforce_content_schedule_permission();
+CREATE TRIGGER enforce_module_schedule_permission BEFORE INSERT OR UPDATE OF publish_at, unpublish_at ON modules
+    FOR EACH ROW EXECUTE FUNCTION enforce_content_schedule_permission();
+CREATE TRIGGER enforce_lesson_schedule_permission BEFORE INSERT OR UPDATE OF publish_at, unpublish_at ON lessons
+    FOR EACH ROW EXECUTE FUNCTION enforce_content_schedule_permission();
+
+-- ============================================================================
+-- APPLY SCHEDULES
+-- ============================================================================
+
+-- Same rules as ContentService.cascadeStatusFromLearningPath / Course / Module:
+-- every descendant takes the new status (migration 031 adds challenges and updated_by)
+CREATE OR REPLACE FUNCTION cascade_content_status(p_entity_type TEXT, p_entity_id UUID, p_status TEXT)
+RETURNS VOID AS $$
+BEGIN
+    IF p_entity_type = 'path' THEN
+        UPDATE courses SET status = p_status::content_status WHERE path_id = p_entity_id;
+        UPDATE modules SET status = p_status::content_status
+        WHERE course_id IN (SELECT id FROM courses WHERE path_id = p_entity_id);
+        UPDATE lessons SET status = p_status::content_status
+        WHERE module_id IN (
+            SELECT modules.id FROM modules JOIN courses ON courses.id = modules.course_id
+            WHERE courses.path_id = p_entity_id
+        );
+    ELSIF p_entity_type = 'course' THEN
+        UPDATE modules SET status = p_status::content_status WHERE course_id = p_entity_id;
+        UPDATE lessons SET status = p_status::content_status
+        WHERE module_id IN (SELECT id FROM modules WHERE course_id = p_entity_id);
+    ELSIF p_entity_type = 'module' THEN
+        UPDATE lessons SET status = p_status::content_status WHERE module_id = p_entity_id;
+    END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Parents are handled before children, so a path unpublished in the same run
+-- as one of its lessons ends with everything in draft
+CREATE OR REPLACE FUNCTION apply_content_schedules()
+RETURNS JSONB AS $$
+DECLARE
+    entity_type TEXT;
+    table_name TEXT;
+    item_id UUID;
+    published_count INTEGER := 0;
+    unpublished_count INTEGER := 0;
+    row_count INTEGER;
+BEGIN
+    FOREACH entity_type IN ARRAY ARRAY['path', 'course', 'module', 'lesson'] LOOP
+        table_name := content_table_name(entity_type);
+
+        -- Scheduling was an admin's decision to publish, so it settles any pending review
+        EXECUTE format(
+            'UPDATE content_review_requests
+             SET status = ''approved'', reviewed_at = NOW()
+             WHERE entity_type = $1 AND status = ''pending''
+               AND entity_id IN (SELECT id FROM %I WHERE publish_at <= NOW() AND status <> ''published'')',
+            table_name
+        ) USING entity_type;
+
+        -- Publish
+        EXECUTE format(
+            'UPDATE %I SET status = ''published'', published_at = NOW(), publish_at = NULL
+             WHERE publish_at <= NOW() AND status <> ''published''',
+            table_name
+        );
+        GET DIAGNOSTICS row_count = ROW_COUNT;
+        published_count := published_count + row_count;
+
+        -- Unpublish, cascading to children
+        FOR item_id IN EXECUTE format(
+            'UPDATE %I SET status = ''draft'', unpublish_at = NULL
+             WHERE unpublish_at <= NOW() AND status = ''published''
+             RETURNING id',
+            table_name
+        ) LOOP
+            PERFORM cascade_content_status(entity_type, item_id, 'draft');
+            unpublished_count := unpublished_count + 1;
+        END LOOP;
+
+        -- Times that passed while the item was already in the target state
+        EXECUTE format('UPDATE %I SET publish_at = NULL WHERE publish_at <= NOW()', table_name);
+        EXECUTE format('UPDATE %I SET unpublish_at = NULL WHERE unpublish_at <= NOW()', table_name);
+    END LOOP;
+
+    RETURN jsonb_build_object('published', published_count, 'unpublished', unpublished_count);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the server job may run schedules
+REVOKE ALL ON FUNCTION apply_content_schedules() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION cascade_content_status(TEXT, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION apply_content_schedules() TO service_role;
+
+-- Without an external scheduler, pg_cron can run the job every minute instead:
+--   SELECT cron.schedule('apply-content-schedules', '* * * * *', 'SELECT apply_content_schedules()');
+
+-- Log successful completion
+DO $$
+BEGIN
+    RAISE NOTICE '=== CONTENT SCHEDULES MIGRATION COMPLETED ===';
+    RAISE NOTICE 'Columns added: publish_at, unpublish_at on learning_paths, courses, modules, lessons';
+    RAISE NOTICE 'Function created: apply_content_schedules (service role only)';
+END $$;
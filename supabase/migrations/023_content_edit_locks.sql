@@ -0,0 +1,133 @@
+-- ============================================================================
+-- CONTENT EDIT LOCKS - Own The Flow
+-- Single-editor model per item: opening a path, course, module or lesson
+-- form takes a short lease on it, renewed by a heartbeat while the form is
+-- open. Others see who is editing and cannot save until the lease is released
+-- or expires; admins can take the lock over, and the previous holder is
+-- notified. Saves made from a stale copy are rejected by ContentService,
+-- which compares updated_at with the value the form was opened with.
+-- ============================================================================
+
+CREATE TABLE content_edit_locks (
+    entity_type VARCHAR(20) NOT NULL, -- path, course, module, lesson
+    entity_id UUID NOT NULL,
+    locked_by UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+    locked_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL, -- renewed by the editor's heartbeat
+
+    PRIMARY KEY (entity_type, entity_id),
+
+    -- Constraints
+    CONSTRAINT valid_edit_lock_entity_type CHECK (entity_type IN ('path', 'course', 'module', 'lesson'))
+);
+
+CREATE INDEX idx_content_edit_locks_locked_by ON content_edit_locks(locked_by);
+
+-- ============================================================================
+-- LOCK FUNCTIONS
+-- ============================================================================
+
+-- Take or renew the caller's lock on an item. While someone else holds a live
+-- lock, that lock is returned unchanged; admins can pass p_override to take it.
+CREATE OR REPLACE FUNCTION acquire_content_edit_lock(
+    p_entity_type TEXT,
+    p_entity_id UUID,
+    p_override BOOLEAN DEFAULT FALSE
+)
+RETURNS JSONB AS $$
+DECLARE
+    caller_role TEXT;
+    lock_row content_edit_locks;
+    item_title TEXT;
+    lease CONSTANT INTERVAL := INTERVAL '90 seconds';
+BEGIN
+    SELECT role::TEXT INTO caller_role FROM user_profiles WHERE id = auth.uid();
+
+    IF caller_role IS NULL OR caller_role NOT IN ('admin', 'content_manager') THEN
+        RAISE EXCEPTION 'Only content editors can edit content'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF p_override AND caller_role <> 'admin' THEN
+        RAISE EXCEPTION 'Only admins can take over an edit lock'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    SELECT * INTO lock_row
+    FROM content_edit_locks
+    WHERE entity_type = p_entity_type AND entity_id = p_entity_id
+    FOR UPDATE;
+
+    IF FOUND AND lock_row.locked_by <> auth.uid() AND lock_row.expires_at > NOW() THEN
+        IF NOT p_override THEN
+            RETURN to_jsonb(lock_row);
+        END IF;
+
+        EXECUTE format('SELECT title FROM %I WHERE id = $1', content_table_name(p_entity_type))
+            INTO item_title
+            USING p_entity_id;
+
+        INSERT INTO notifications (user_id, type, title, message, entity_type, entity_id)
+        VALUES (
+            lock_row.locked_by,
+            'edit_lock_overridden',
+            format('An admin took over editing "%s"', COALESCE(item_title, 'an item')),
+            'Changes you had not saved yet were not kept. Reopen the item to continue once they are done.',
+            p_entity_type,
+            p_entity_id
+        );
+    END IF;
+
+    -- Keep locked_at across renewals so it shows when editing started.
+    -- The WHERE guards a concurrent acquire that got in between the check above and here.
+    INSERT INTO content_edit_locks (entity_type, entity_id, locked_by, locked_at, expires_at)
+    VALUES (p_entity_type, p_entity_id, auth.uid(), NOW(), NOW() + lease)
+    ON CONFLICT (entity_type, entity_id) DO UPDATE
+    SET locked_by = EXCLUDED.locked_by,
+        locked_at = CASE
+            WHEN content_edit_locks.locked_by = EXCLUDED.locked_by AND content_edit_locks.expires_at > NOW()
+            THEN content_edit_locks.locked_at
+            ELSE EXCLUDED.locked_at
+        END,
+        expires_at = EXCLUDED.expires_at
+    WHERE content_edit_locks.locked_by = EXCLUDED.locked_by
+       OR content_edit_locks.expires_at <= NOW()
+       OR p_override
+    RETURNING * INTO lock_row;
+
+    IF NOT FOUND THEN
+        SELECT * INTO lock_row
+        FROM content_edit_locks
+        WHERE entity_type = p_entity_type AND entity_id = p_entity_id;
+    END IF;
+
+    RETURN to_jsonb(lock_row);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+
+ALTER TABLE content_edit_locks ENABLE ROW LEVEL SECURITY;
+
+-- Locks are taken through acquire_content_edit_lock; editors release their own
+CREATE POLICY "Content managers can read edit locks" ON content_edit_locks
+    FOR SELECT USING (
+        EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role IN ('admin', 'content_manager'))
+    );
+
+CREATE POLICY "Editors can release own edit locks" ON content_edit_locks
+    FOR DELETE USING (locked_by = auth.uid());
+
+GRANT SELECT, DELETE ON content_edit_locks TO authenticated;
+GRANT ALL ON content_edit_locks TO service_role;
+GRANT EXECUTE ON FUNCTION acquire_content_edit_lock(TEXT, UUID, BOOLEAN) TO authenticated;
+
+-- Log successful completion
+DO $$
+BEGIN
+    RAISE NOTICE '=== CONTENT EDIT LOCKS MIGRATION COMPLETED ===';
+    RAISE NOTICE 'Table created: content_edit_locks';
+    RAISE NOTICE 'Function created: acquire_content_edit_lock';
+END $$;
@@ -0,0 +1,155 @@
+-- ============================================================================
+-- CONTENT PLACEMENTS - Own The Flow
+-- Reusable modules and lessons. modules.course_id and lessons.module_id stay
+-- the item's home; a placement shows the same module in another course (or
+-- the same lesson in another module) with its own sort_order. There is one
+-- canonical copy, so edits show everywhere it is placed, and progress is
+-- tracked per lesson, so completing a shared lesson counts once in every
+-- course that uses it. Status cascades follow the home parent only.
+-- ============================================================================
+
+CREATE TABLE module_placements (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    module_id UUID NOT NULL REFERENCES modules(id) ON DELETE CASCADE,
+    course_id UUID NOT NULL REFERENCES courses(id) ON DELETE CASCADE,
+    sort_order INTEGER NOT NULL DEFAULT 0,
+
+    -- Metadata
+    created_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT unique_module_placement UNIQUE (module_id, course_id)
+);
+
+CREATE TABLE lesson_placements (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    lesson_id UUID NOT NULL REFERENCES lessons(id) ON DELETE CASCADE,
+    module_id UUID NOT NULL REFERENCES modules(id) ON DELETE CASCADE,
+    sort_order INTEGER NOT NULL DEFAULT 0,
+
+    -- Metadata
+    created_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    -- Constraints
+    CONSTRAINT unique_lesson_placement UNIQUE (lesson_id, module_id)
+);
+
+CREATE INDEX idx_module_placements_course ON module_placements(course_id, sort_order);
+CREATE INDEX idx_lesson_placements_module ON lesson_placements(module_id, sort_order);
+
+-- ============================================================================
+-- HOME PARENT RULES
+-- ============================================================================
+
+-- A placement in the item's home parent would list it there twice
+CREATE OR REPLACE FUNCTION check_content_placement()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_TABLE_NAME = 'module_placements'
+        AND EXISTS (SELECT 1 FROM modules WHERE id = NEW.module_id AND course_id = NEW.course_id)
+    THEN
+        RAISE EXCEPTION 'This module already belongs to that course'
+            USING ERRCODE = 'unique_violation';
+    END IF;
+
+    IF TG_TABLE_NAME = 'lesson_placements'
+        AND EXISTS (SELECT 1 FROM lessons WHERE id = NEW.lesson_id AND module_id = NEW.module_id)
+    THEN
+        RAISE EXCEPTION 'This lesson already belongs to that module'
+            USING ERRCODE = 'unique_violation';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER check_module_placement BEFORE INSERT OR UPDATE ON module_placements
+    FOR EACH ROW EXECUTE FUNCTION check_content_placement();
+CREATE TRIGGER check_lesson_placement BEFORE INSERT OR UPDATE ON lesson_placements
+    FOR EACH ROW EXECUTE FUNCTION check_content_placement();
+
+-- Moving an item's home into a parent where it was placed turns that placement into the home
+CREATE OR REPLACE FUNCTION drop_placement_in_new_home()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_TABLE_NAME = 'modules' THEN
+        DELETE FROM module_placements WHERE module_id = NEW.id AND course_id = NEW.course_id;
+    ELSE
+        DELETE FROM lesson_placements WHERE lesson_id = NEW.id AND module_id = NEW.module_id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER drop_module_placement_in_new_home AFTER UPDATE OF course_id ON modules
+    FOR EACH ROW EXECUTE FUNCTION drop_placement_in_new_home();
+CREATE TRIGGER drop_lesson_placement_in_new_home AFTER UPDATE OF module_id ON lessons
+    FOR EACH ROW EXECUTE FUNCTION drop_placement_in_new_home();
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+
+ALTER TABLE module_placements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE lesson_placements ENABLE ROW LEVEL SECURITY;
+
+-- Placements only link rows; what a learner can see is still decided by the content tables' policies
+CREATE POLICY "Anyone can read module placements" ON module_placements
+    FOR SELECT USING (true);
+
+CREATE POLICY "Anyone can read lesson placements" ON lesson_placements
+    FOR SELECT USING (true);
+
+CREATE POLICY "Content managers can manage module placements" ON module_placements
+    FOR ALL USING (
+        EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role IN ('admin', 'content_manager'))
+    );
+
+CREATE POLICY "Content managers can manage lesson placements" ON lesson_placements
+    FOR ALL USING (
+        EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role IN ('admin', 'content_manager'))
+    );
+
+-- Published items are also readable through a placement in a published parent
+CREATE POLICY "Anyone can read published modules placed in published courses" ON modules
+    FOR SELECT USING (
+        status = 'published' AND
+        EXISTS (
+            SELECT 1 FROM module_placements mp
+            JOIN courses c ON mp.course_id = c.id
+            JOIN learning_paths p ON c.path_id = p.id
+            WHERE mp.module_id = modules.id
+            AND c.status = 'published'
+            AND p.status = 'published'
+        )
+    );
+
+-- The modules join is itself filtered by the modules policies, so this covers modules
+-- that are only readable through their own placement
+CREATE POLICY "Anyone can read published lessons placed in published modules" ON lessons
+    FOR SELECT USING (
+        status = 'published' AND
+        EXISTS (
+            SELECT 1 FROM lesson_placements lp
+            JOIN modules m ON lp.module_id = m.id
+            WHERE lp.lesson_id = lessons.id
+            AND m.status = 'published'
+        )
+    );
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON module_placements TO authenticated;
+GRANT SELECT ON module_placements TO anon;
+GRANT ALL ON module_placements TO service_role;
+GRANT SELECT, INSERT, UPDATE, DELETE ON lesson_placements TO authenticated;
+GRANT SELECT ON lesson_placements TO anon;
+GRANT ALL ON lesson_placements TO service_role;
+
+-- Log successful completion
+DO $$
+BEGIN
+    RAISE NOTICE '=== CONTENT PLACEMENTS MIGRATION COMPLETED ===';
+    RAISE NOTICE 'Tables created: module_placements, lesson_placements';
+END $$;
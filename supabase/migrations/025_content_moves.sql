@@ -0,0 +1,198 @@
+-- ============================================================================
+-- CONTENT MOVES - Own The Flow
+-- Moves a course to another path, a module to another course or a lesson to
+-- another module. The parent change and the renumbering of sort_order in both
+-- the old and the new parent happen in one transaction. The old parent and
+-- position are returned so the curriculum builder can undo the move.
+-- Placements (migration 024) share the sort_order of the parent they are in,
+-- so they are renumbered along with the parent's own items.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION content_parent_column(p_entity_type TEXT)
+RETURNS TEXT AS $$
+BEGIN
+    RETURN CASE p_entity_type
+        WHEN 'course' THEN 'path_id'
+        WHEN 'module' THEN 'course_id'
+        WHEN 'lesson' THEN 'module_id'
+    END;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION content_parent_type(p_entity_type TEXT)
+RETURNS TEXT AS $$
+BEGIN
+    RETURN CASE p_entity_type
+        WHEN 'course' THEN 'path'
+        WHEN 'module' THEN 'course'
+        WHEN 'lesson' THEN 'module'
+    END;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- ============================================================================
+-- RENUMBERING
+-- ============================================================================
+
+-- Number a parent's items and placements 1..n in their current order. When
+-- p_item_id is given, that item is left out of the current order and put at
+-- p_position instead (the end when NULL or past the end).
+CREATE OR REPLACE FUNCTION renumber_content_children(
+    p_entity_type TEXT,
+    p_parent_id UUID,
+    p_item_id UUID,
+    p_position INTEGER
+)
+RETURNS VOID AS $$
+DECLARE
+    item_table TEXT := content_table_name(p_entity_type);
+    parent_column TEXT := content_parent_column(p_entity_type);
+    placement_table TEXT := CASE p_entity_type
+        WHEN 'module' THEN 'module_placements'
+        WHEN 'lesson' THEN 'lesson_placements'
+    END;
+    children TEXT[];
+    child TEXT;
+    insert_at INTEGER;
+    next_order INTEGER := 0;
+BEGIN
+    EXECUTE format(
+        'SELECT COALESCE(array_agg(child ORDER BY sort_order, created_at), ''{}'') FROM (
+            SELECT ''item:'' || id AS child, sort_order, created_at FROM %I
+            WHERE %I = $1 AND id IS DISTINCT FROM $2
+            %s
+        ) siblings',
+        item_table,
+        parent_column,
+        CASE WHEN placement_table IS NULL THEN '' ELSE format(
+            'UNION ALL SELECT ''placement:'' || id, sort_order, created_at FROM %I WHERE %I = $1',
+            placement_table,
+            parent_column
+        ) END
+    )
+    INTO children
+    USING p_parent_id, p_item_id;
+
+    IF p_item_id IS NOT NULL THEN
+        insert_at := LEAST(GREATEST(COALESCE(p_position, cardinality(children) + 1), 1), cardinality(children) + 1);
+        children := children[1:insert_at - 1] || ARRAY['item:' || p_item_id] || children[insert_at:cardinality(children)];
+    END IF;
+
+    -- Rows that already have the right number are left alone so their updated_at does not change
+    FOREACH child IN ARRAY children LOOP
+        next_order := next_order + 1;
+
+        IF child LIKE 'placement:%' THEN
+            EXECUTE format('UPDATE %I SET sort_order = $1 WHERE id = $2 AND sort_order IS DISTINCT FROM $1', placement_table)
+                USING next_order, substring(child FROM 11)::UUID;
+        ELSE
+            EXECUTE format('UPDATE %I SET sort_order = $1 WHERE id = $2 AND sort_order IS DISTINCT FROM $1', item_table)
+                USING next_order, substring(child FROM 6)::UUID;
+        END IF;
+    END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- MOVE
+-- ============================================================================
+
+-- Positions are 1-based among the parent's items and placements; NULL appends
+CREATE OR REPLACE FUNCTION move_content_item(
+    p_entity_type TEXT,
+    p_item_id UUID,
+    p_parent_id UUID,
+    p_position INTEGER DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    item_table TEXT := content_table_name(p_entity_type);
+    parent_type TEXT := content_parent_type(p_entity_type);
+    parent_column TEXT := content_parent_column(p_entity_type);
+    item_status TEXT;
+    item_title TEXT;
+    parent_status TEXT;
+    from_parent_id UUID;
+    from_position INTEGER;
+    to_position INTEGER;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role IN ('admin', 'content_manager')
+    ) THEN
+        RAISE EXCEPTION 'Only content managers and admins can move content'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF parent_column IS NULL THEN
+        RAISE EXCEPTION 'Only courses, modules and lessons can be moved';
+    END IF;
+
+    EXECUTE format('SELECT status::TEXT, title, %I FROM %I WHERE id = $1 FOR UPDATE', parent_column, item_table)
+        INTO item_status, item_title, from_parent_id
+        USING p_item_id;
+
+    IF item_status IS NULL THEN
+        RAISE EXCEPTION 'Content not found';
+    END IF;
+
+    EXECUTE format('SELECT status::TEXT FROM %I WHERE id = $1 FOR UPDATE', content_table_name(parent_type))
+        INTO parent_status
+        USING p_parent_id;
+
+    IF parent_status IS NULL THEN
+        RAISE EXCEPTION 'Destination % not found', parent_type;
+    END IF;
+
+    IF item_status = 'published' AND parent_status = 'archived' THEN
+        RAISE EXCEPTION 'Published content cannot be moved into an archived %', parent_type
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM content_edit_locks
+        WHERE entity_type = p_entity_type
+        AND entity_id = p_item_id
+        AND locked_by <> auth.uid()
+        AND expires_at > NOW()
+    ) THEN
+        RAISE EXCEPTION '"%" is being edited by someone else', item_title
+            USING ERRCODE = 'lock_not_available';
+    END IF;
+
+    -- Numbering the old parent first makes the item's sort_order its position, which undo returns it to
+    PERFORM renumber_content_children(p_entity_type, from_parent_id, NULL, NULL);
+    EXECUTE format('SELECT sort_order FROM %I WHERE id = $1', item_table)
+        INTO from_position
+        USING p_item_id;
+
+    IF from_parent_id <> p_parent_id THEN
+        EXECUTE format('UPDATE %I SET %I = $2, updated_by = $3 WHERE id = $1', item_table, parent_column)
+            USING p_item_id, p_parent_id, auth.uid();
+        PERFORM renumber_content_children(p_entity_type, from_parent_id, NULL, NULL);
+    END IF;
+
+    PERFORM renumber_content_children(p_entity_type, p_parent_id, p_item_id, p_position);
+    EXECUTE format('SELECT sort_order FROM %I WHERE id = $1', item_table)
+        INTO to_position
+        USING p_item_id;
+
+    RETURN jsonb_build_object(
+        'entity_type', p_entity_type,
+        'item_id', p_item_id,
+        'from_parent_id', from_parent_id,
+        'from_position', from_position,
+        'to_parent_id', p_parent_id,
+        'to_position', to_position
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION renumber_content_children(TEXT, UUID, UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION move_content_item(TEXT, UUID, UUID, INTEGER) TO authenticated;
+
+-- Log successful completion
+DO $$
+BEGIN
+    RAISE NOTICE '=== CONTENT MOVES MIGRATION COMPLETED ===';
+    RAISE NOTICE 'Functions created: content_parent_column, content_parent_type, renumber_content_children, move_content_item';
+END $$;
@@ -0,0 +1,210 @@
+-- ============================================================================
+-- CONTENT CLONES - Own The Flow
+-- Deep copy of a learning path, course or module with everything under it:
+-- courses, modules, lessons and challenges. Copies start as drafts with no
+-- publish schedule, the copy of the root gets a slug that is unique in its
+-- destination, and it can be placed under a different parent. Descendants
+-- keep their slugs, which stay unique because their parent is new.
+-- Reused modules and lessons (migration 024) stay shared: the copy gets the
+-- same placements instead of copies of them. Question banks are not copied,
+-- so cloned challenges keep drawing from the source's banks.
+-- ============================================================================
+
+-- Insert a copy of one row with some columns replaced. Keys that are not
+-- columns of the table are ignored, so one set of overrides fits every table.
+CREATE OR REPLACE FUNCTION clone_content_row(p_table TEXT, p_id UUID, p_overrides JSONB)
+RETURNS UUID AS $$
+DECLARE
+    new_id UUID := gen_random_uuid();
+BEGIN
+    EXECUTE format(
+        'INSERT INTO %1$I SELECT (jsonb_populate_record(NULL::%1$I, to_jsonb(source) || $2)).* FROM %1$I source WHERE id = $1',
+        p_table
+    )
+    USING p_id, p_overrides || jsonb_build_object('id', new_id);
+
+    RETURN new_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Copy everything under p_source_id into p_clone_id; returns the ids of the new lessons
+CREATE OR REPLACE FUNCTION clone_content_children(
+    p_entity_type TEXT,
+    p_source_id UUID,
+    p_clone_id UUID,
+    p_overrides JSONB
+)
+RETURNS UUID[] AS $$
+DECLARE
+    child RECORD;
+    challenge RECORD;
+    child_clone UUID;
+    lesson_ids UUID[] := '{}';
+BEGIN
+    IF p_entity_type = 'path' THEN
+        FOR child IN SELECT id FROM courses WHERE path_id = p_source_id LOOP
+            child_clone := clone_content_row('courses', child.id, p_overrides || jsonb_build_object('path_id', p_clone_id));
+            lesson_ids := lesson_ids || clone_content_children('course', child.id, child_clone, p_overrides);
+        END LOOP;
+    ELSIF p_entity_type = 'course' THEN
+        FOR child IN SELECT id FROM modules WHERE course_id = p_source_id LOOP
+            child_clone := clone_content_row('modules', child.id, p_overrides || jsonb_build_object('course_id', p_clone_id));
+            lesson_ids := lesson_ids || clone_content_children('module', child.id, child_clone, p_overrides);
+        END LOOP;
+
+        INSERT INTO module_placements (module_id, course_id, sort_order, created_by)
+        SELECT module_id, p_clone_id, sort_order, auth.uid()
+        FROM module_placements
+        WHERE course_id = p_source_id;
+    ELSIF p_entity_type = 'module' THEN
+        FOR child IN SELECT id FROM lessons WHERE module_id = p_source_id LOOP
+            child_clone := clone_content_row('lessons', child.id, p_overrides || jsonb_build_object('module_id', p_clone_id));
+            lesson_ids := lesson_ids || child_clone;
+
+            FOR challenge IN SELECT id FROM challenges WHERE lesson_id = child.id LOOP
+                PERFORM clone_content_row('challenges', challenge.id, p_overrides || jsonb_build_object('lesson_id', child_clone));
+            END LOOP;
+        END LOOP;
+
+        INSERT INTO lesson_placements (lesson_id, module_id, sort_order, created_by)
+        SELECT lesson_id, p_clone_id, sort_order, auth.uid()
+        FROM lesson_placements
+        WHERE module_id = p_source_id;
+    END IF;
+
+    RETURN lesson_ids;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- CLONE
+-- ============================================================================
+
+-- p_parent_id moves the copy to another path (courses) or course (modules);
+-- without it the copy sits next to the original. The copy is titled p_title,
+-- or "<title> (Copy)", and is added at the end of its parent.
+CREATE OR REPLACE FUNCTION clone_content_tree(
+    p_entity_type TEXT,
+    p_entity_id UUID,
+    p_parent_id UUID DEFAULT NULL,
+    p_title TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    item_table TEXT := content_table_name(p_entity_type);
+    parent_column TEXT := content_parent_column(p_entity_type);
+    overrides JSONB := jsonb_build_object(
+        'status', 'draft',
+        'created_by', auth.uid(),
+        'updated_by', auth.uid(),
+        'published_by', NULL,
+        'published_at', NULL,
+        'publish_at', NULL,
+        'unpublish_at', NULL,
+        'created_at', NOW(),
+        'updated_at', NOW()
+    );
+    source JSONB;
+    target_parent UUID;
+    parent_found BOOLEAN;
+    new_title TEXT;
+    base_slug TEXT;
+    new_slug TEXT;
+    slug_taken BOOLEAN;
+    suffix INTEGER := 1;
+    root_id UUID;
+    lesson_ids UUID[];
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role IN ('admin', 'content_manager')
+    ) THEN
+        RAISE EXCEPTION 'Only content managers and admins can clone content'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF p_entity_type NOT IN ('path', 'course', 'module') THEN
+        RAISE EXCEPTION 'Only learning paths, courses and modules can be cloned';
+    END IF;
+
+    EXECUTE format('SELECT to_jsonb(t) FROM %I t WHERE id = $1', item_table)
+        INTO source
+        USING p_entity_id;
+
+    IF source IS NULL THEN
+        RAISE EXCEPTION 'Content not found';
+    END IF;
+
+    IF parent_column IS NOT NULL THEN
+        target_parent := COALESCE(p_parent_id, (source ->> parent_column)::UUID);
+
+        EXECUTE format('SELECT EXISTS (SELECT 1 FROM %I WHERE id = $1)', content_table_name(content_parent_type(p_entity_type)))
+            INTO parent_found
+            USING target_parent;
+
+        IF NOT parent_found THEN
+            RAISE EXCEPTION 'Destination % not found', content_parent_type(p_entity_type);
+        END IF;
+    END IF;
+
+    -- A new title gets its own slug; otherwise the source slug with -copy
+    new_title := left(COALESCE(NULLIF(TRIM(p_title), ''), (source ->> 'title') || ' (Copy)'), 200);
+    base_slug := CASE
+        WHEN NULLIF(TRIM(p_title), '') IS NOT NULL
+            THEN left(trim(BOTH '-' FROM regexp_replace(lower(p_title), '[^a-z0-9]+', '-', 'g')), 90)
+        ELSE left(source ->> 'slug', 85) || '-copy'
+    END;
+
+    IF base_slug = '' THEN
+        base_slug := left(source ->> 'slug', 85) || '-copy';
+    END IF;
+
+    new_slug := base_slug;
+    LOOP
+        IF parent_column IS NULL THEN
+            EXECUTE format('SELECT EXISTS (SELECT 1 FROM %I WHERE slug = $1)', item_table)
+                INTO slug_taken
+                USING new_slug;
+        ELSE
+            EXECUTE format('SELECT EXISTS (SELECT 1 FROM %I WHERE slug = $1 AND %I = $2)', item_table, parent_column)
+                INTO slug_taken
+                USING new_slug, target_parent;
+        END IF;
+
+        EXIT WHEN NOT slug_taken;
+        suffix := suffix + 1;
+        new_slug := base_slug || '-' || suffix;
+    END LOOP;
+
+    root_id := clone_content_row(
+        item_table,
+        p_entity_id,
+        overrides
+            || jsonb_build_object('title', new_title, 'slug', new_slug)
+            || CASE WHEN parent_column IS NULL THEN '{}'::JSONB ELSE jsonb_build_object(parent_column, target_parent) END
+    );
+
+    lesson_ids := clone_content_children(p_entity_type, p_entity_id, root_id, overrides);
+
+    IF parent_column IS NOT NULL THEN
+        PERFORM renumber_content_children(p_entity_type, target_parent, root_id, NULL);
+    END IF;
+
+    RETURN jsonb_build_object(
+        'entity_type', p_entity_type,
+        'id', root_id,
+        'slug', new_slug,
+        'lesson_ids', to_jsonb(lesson_ids)
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION clone_content_row(TEXT, UUID, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION clone_content_children(TEXT, UUID, UUID, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION clone_content_tree(TEXT, UUID, UUID, TEXT) TO authenticated;
+
+-- Log successful completion
+DO $$
+BEGIN
+    RAISE NOTICE '=== CONTENT CLONES MIGRATION COMPLETED ===';
+    RAISE NOTICE 'Functions created: clone_content_row, clone_content_children, clone_content_tree';
+END $$;
@@ -0,0 +1,498 @@
+-- ============================================================================
+-- SERVER QUIZ SCORING - Own The Flow
+-- Quiz attempts are scored by the database, not the browser: a trigger on
+-- challenge_attempts recomputes each answer's is_correct and score and the
+-- attempt score from the challenge's answer key (or, for question bank
+-- quizzes, the drawn items' answers remapped to the displayed option order)
+-- Mirrors scoreAnswer() and calculateQuizScore() in src/lib/quiz-scoring.ts
+--
+-- open_text answers are graded by AI before submission; their grade is taken
+-- from the answer's feedback, clamped to 0-100, and low-confidence grades are
+-- queued for a human grader (migration 018). Without an AI grade the model
+-- answer is matched as text. Code, essay and scenario attempts are not
+-- question based and keep the score they were submitted with.
+--
+-- Also gives user_progress one row per user and item: the unique key treats
+-- NULL content columns as equal, so progress upserts update instead of insert
+-- ============================================================================
+
+-- ============================================================================
+-- SCORING ONE ANSWER
+-- ============================================================================
+
+-- Strategies that make sense for each question type; anything else scores all or nothing
+CREATE OR REPLACE FUNCTION quiz_scoring_strategy(question JSONB)
+RETURNS TEXT AS $$
+DECLARE
+    strategy TEXT := question->>'scoring';
+BEGIN
+    IF strategy = ANY (CASE question->>'type'
+        WHEN 'multiple_choice' THEN ARRAY['all_or_nothing', 'proportional', 'penalty']
+        WHEN 'open_text' THEN ARRAY['all_or_nothing', 'proportional']
+        WHEN 'drag_drop' THEN ARRAY['all_or_nothing', 'proportional', 'kendall_tau']
+        WHEN 'cloze' THEN ARRAY['all_or_nothing', 'proportional']
+        WHEN 'matching' THEN ARRAY['all_or_nothing', 'proportional']
+        ELSE ARRAY['all_or_nothing']
+    END) THEN
+        RETURN strategy;
+    END IF;
+
+    RETURN 'all_or_nothing';
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION quiz_question_points(question JSONB)
+RETURNS NUMERIC AS $$
+BEGIN
+    IF jsonb_typeof(question->'points') = 'number' AND (question->>'points')::NUMERIC > 0 THEN
+        RETURN (question->>'points')::NUMERIC;
+    END IF;
+
+    RETURN 1;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Distinct option indexes in a JSON array; anything that isn't a number is ignored
+CREATE OR REPLACE FUNCTION quiz_index_set(value JSONB)
+RETURNS NUMERIC[] AS $$
+BEGIN
+    RETURN ARRAY(
+        SELECT DISTINCT (element #>> '{}')::NUMERIC
+        FROM jsonb_array_elements(CASE WHEN jsonb_typeof(value) = 'array' THEN value ELSE '[]'::jsonb END) AS element
+        WHERE jsonb_typeof(element) = 'number'
+    );
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Zone -> item (drag_drop) or left -> right (matching) answers
+CREATE OR REPLACE FUNCTION quiz_mapping(value JSONB)
+RETURNS JSONB AS $$
+BEGIN
+    RETURN CASE WHEN jsonb_typeof(value) = 'object' THEN value ELSE '{}'::jsonb END;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION quiz_normalize_text(value JSONB, case_sensitive BOOLEAN)
+RETURNS TEXT AS $$
+DECLARE
+    text_value TEXT := '';
+BEGIN
+    IF jsonb_typeof(value) = 'string' THEN
+        text_value := regexp_replace(regexp_replace(value #>> '{}', '^\s+|\s+$', '', 'g'), '\s+', ' ', 'g');
+    END IF;
+
+    RETURN CASE WHEN case_sensitive THEN text_value ELSE lower(text_value) END;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Learners type numbers freely; ignore spaces and thousands separators
+CREATE OR REPLACE FUNCTION quiz_parse_number(value JSONB)
+RETURNS NUMERIC AS $$
+DECLARE
+    text_value TEXT;
+BEGIN
+    IF jsonb_typeof(value) = 'number' THEN
+        RETURN (value #>> '{}')::NUMERIC;
+    END IF;
+
+    IF jsonb_typeof(value) <> 'string' THEN
+        RETURN NULL;
+    END IF;
+
+    text_value := regexp_replace(value #>> '{}', '[\s,]', '', 'g');
+    IF text_value !~ '^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$' THEN
+        RETURN NULL;
+    END IF;
+
+    RETURN text_value::NUMERIC;
+EXCEPTION
+    WHEN numeric_value_out_of_range THEN
+        RETURN NULL;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Share of item pairs placed in the same relative order as the answer key, where zone order is the position
+CREATE OR REPLACE FUNCTION quiz_kendall_tau_credit(zones JSONB, placed JSONB, expected JSONB)
+RETURNS NUMERIC AS $$
+DECLARE
+    item_count INTEGER;
+    single_credit NUMERIC;
+    pair_count INTEGER;
+    concordant INTEGER;
+BEGIN
+    -- Zones missing from the question's zone list sit at -1, like indexOf
+    WITH zone_positions AS (
+        SELECT zone.name, MIN(zone.position - 1) AS position
+        FROM jsonb_array_elements_text(CASE WHEN jsonb_typeof(zones) = 'array' THEN zones ELSE '[]'::jsonb END)
+            WITH ORDINALITY AS zone(name, position)
+        GROUP BY zone.name
+    ),
+    correct_positions AS (
+        SELECT pair.value AS item, MAX(COALESCE(zone_positions.position, -1)) AS position
+        FROM jsonb_each(expected) AS pair
+        LEFT JOIN zone_positions ON zone_positions.name = pair.key
+        GROUP BY pair.value
+    ),
+    placed_positions AS (
+        SELECT pair.value AS item, MAX(COALESCE(zone_positions.position, -1)) AS position
+        FROM jsonb_each(placed) AS pair
+        LEFT JOIN zone_positions ON zone_positions.name = pair.key
+        GROUP BY pair.value
+    ),
+    items AS (
+        SELECT correct_positions.item, correct_positions.position AS correct_position, placed_positions.position AS placed_position
+        FROM correct_positions
+        LEFT JOIN placed_positions ON placed_positions.item = correct_positions.item
+    )
+    SELECT
+        (SELECT COUNT(*) FROM items),
+        (SELECT MAX(CASE WHEN placed_position = correct_position THEN 1 ELSE 0 END) FROM items),
+        (SELECT COUNT(*) FROM items a JOIN items b ON a.item < b.item),
+        (SELECT COUNT(*) FROM items a JOIN items b ON a.item < b.item
+         WHERE a.placed_position IS NOT NULL AND b.placed_position IS NOT NULL
+           AND sign(a.placed_position - b.placed_position) = sign(a.correct_position - b.correct_position))
+    INTO item_count, single_credit, pair_count, concordant;
+
+    IF item_count = 1 THEN
+        RETURN single_credit;
+    END IF;
+
+    RETURN CASE WHEN pair_count > 0 THEN concordant::NUMERIC / pair_count ELSE 0 END;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Credit (0-1) for an automatically scored answer; open_text is graded separately
+CREATE OR REPLACE FUNCTION score_quiz_answer(question JSONB, answer JSONB, expected JSONB)
+RETURNS NUMERIC AS $$
+DECLARE
+    strategy TEXT := quiz_scoring_strategy(question);
+    selected NUMERIC[];
+    correct NUMERIC[];
+    hits INTEGER;
+    wrong_picks INTEGER;
+    total INTEGER;
+    matched INTEGER;
+    extra_placements INTEGER := 0;
+    case_sensitive BOOLEAN;
+    given NUMERIC;
+    allowed NUMERIC;
+BEGIN
+    IF answer IS NULL OR jsonb_typeof(answer) = 'null' THEN
+        RETURN 0;
+    END IF;
+
+    CASE question->>'type'
+        WHEN 'multiple_choice' THEN
+            selected := quiz_index_set(answer);
+            correct := quiz_index_set(expected);
+            total := cardinality(correct);
+            IF total = 0 THEN
+                RETURN 0;
+            END IF;
+
+            hits := cardinality(ARRAY(SELECT unnest(selected) INTERSECT SELECT unnest(correct)));
+            wrong_picks := cardinality(selected) - hits;
+
+            RETURN CASE strategy
+                -- Correct picks over every option that was either picked or should have been
+                WHEN 'proportional' THEN hits::NUMERIC / (total + wrong_picks)
+                WHEN 'penalty' THEN GREATEST(0, (hits - wrong_picks)::NUMERIC / total)
+                ELSE CASE WHEN hits = total AND wrong_picks = 0 THEN 1 ELSE 0 END
+            END;
+
+        WHEN 'drag_drop', 'matching' THEN
+            answer := quiz_mapping(answer);
+            expected := quiz_mapping(expected);
+
+            SELECT COUNT(*), COUNT(*) FILTER (WHERE answer->pair.key = pair.value)
+            INTO total, matched
+            FROM jsonb_each(expected) AS pair;
+
+            IF total = 0 THEN
+                RETURN 0;
+            END IF;
+
+            IF strategy = 'kendall_tau' THEN
+                RETURN quiz_kendall_tau_credit(question->'zones', answer, expected);
+            END IF;
+
+            IF strategy = 'proportional' THEN
+                RETURN matched::NUMERIC / total;
+            END IF;
+
+            -- A drag_drop answer also can't place items in zones the key leaves empty
+            IF question->>'type' = 'drag_drop' THEN
+                SELECT COUNT(*) INTO extra_placements
+                FROM jsonb_object_keys(answer) AS zone
+                WHERE NOT expected ? zone;
+            END IF;
+
+            RETURN CASE WHEN matched = total AND extra_placements = 0 THEN 1 ELSE 0 END;
+
+        WHEN 'cloze' THEN
+            IF jsonb_typeof(expected) IS DISTINCT FROM 'array' OR jsonb_array_length(expected) = 0 THEN
+                RETURN 0;
+            END IF;
+
+            case_sensitive := COALESCE(question->>'case_sensitive' = 'true', false);
+
+            SELECT COUNT(*), COUNT(*) FILTER (
+                WHERE quiz_normalize_text(answer->(blank.position::INTEGER - 1), case_sensitive) <> ''
+                  AND EXISTS (
+                      SELECT 1
+                      FROM jsonb_array_elements(CASE WHEN jsonb_typeof(blank.options) = 'array' THEN blank.options ELSE '[]'::jsonb END) AS accepted
+                      WHERE quiz_normalize_text(accepted, case_sensitive) = quiz_normalize_text(answer->(blank.position::INTEGER - 1), case_sensitive)
+                  )
+            )
+            INTO total, matched
+            FROM jsonb_array_elements(expected) WITH ORDINALITY AS blank(options, position);
+
+            IF strategy = 'proportional' THEN
+                RETURN matched::NUMERIC / total;
+            END IF;
+            RETURN CASE WHEN matched = total THEN 1 ELSE 0 END;
+
+        WHEN 'numeric' THEN
+            given := quiz_parse_number(answer);
+            IF given IS NULL OR jsonb_typeof(expected->'value') IS DISTINCT FROM 'number' THEN
+                RETURN 0;
+            END IF;
+
+            allowed := CASE WHEN jsonb_typeof(expected->'tolerance') = 'number' THEN (expected->>'tolerance')::NUMERIC ELSE 0 END;
+            IF expected->>'tolerance_type' = 'relative' THEN
+                allowed := abs((expected->>'value')::NUMERIC) * allowed / 100;
+            END IF;
+
+            -- Same epsilon as isWithinTolerance()
+            RETURN CASE WHEN abs(given - (expected->>'value')::NUMERIC) <= allowed + 0.000000001 THEN 1 ELSE 0 END;
+
+        ELSE
+            RETURN CASE
+                WHEN jsonb_typeof(answer) NOT IN ('object', 'array') AND answer = expected THEN 1
+                ELSE 0
+            END;
+    END CASE;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- DRAWN QUESTIONS
+-- ============================================================================
+
+-- Display index of an original option index, -1 when it isn't in the order
+CREATE OR REPLACE FUNCTION quiz_display_index(option_order JSONB, original JSONB)
+RETURNS JSONB AS $$
+BEGIN
+    RETURN COALESCE((
+        SELECT to_jsonb(entry.position - 1)
+        FROM jsonb_array_elements(option_order) WITH ORDINALITY AS entry(value, position)
+        WHERE entry.value = original
+        ORDER BY entry.position
+        LIMIT 1
+    ), '-1'::jsonb);
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Questions and answer key for a draw, in draw order: options are reordered and
+-- correct answers remapped to the displayed indexes. Items deleted since the draw
+-- give a NULL question and answer so later indexes stay aligned
+-- Mirrors applyQuestionDraw() in src/lib/question-bank.ts
+CREATE OR REPLACE FUNCTION drawn_quiz_questions(p_draw JSONB)
+RETURNS TABLE (question_index INTEGER, item_id UUID, question JSONB, answer JSONB) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        (entry.position - 1)::INTEGER,
+        (entry.value->>'item_id')::UUID,
+        CASE
+            WHEN item.id IS NULL THEN NULL
+            WHEN shuffled.is_shuffled THEN item.question || jsonb_build_object(
+                'id', item.id,
+                'options', (
+                    SELECT COALESCE(jsonb_agg(item.question->'options'->(original.value::INTEGER) ORDER BY original.position), '[]'::jsonb)
+                    FROM jsonb_array_elements_text(entry.value->'option_order') WITH ORDINALITY AS original(value, position)
+                )
+            ) || CASE
+                WHEN jsonb_typeof(item.question->'option_explanations') = 'array' THEN jsonb_build_object(
+                    'option_explanations', (
+                        SELECT COALESCE(jsonb_agg(COALESCE(item.question->'option_explanations'->(original.value::INTEGER), '""'::jsonb) ORDER BY original.position), '[]'::jsonb)
+                        FROM jsonb_array_elements_text(entry.value->'option_order') WITH ORDINALITY AS original(value, position)
+                    )
+                )
+                ELSE '{}'::jsonb
+            END
+            ELSE item.question || jsonb_build_object('id', item.id)
+        END,
+        CASE
+            WHEN item.id IS NULL THEN NULL
+            WHEN NOT shuffled.is_shuffled THEN item.answer
+            WHEN item.question->>'type' = 'multiple_choice' AND jsonb_typeof(item.answer) = 'array' THEN (
+                SELECT COALESCE(jsonb_agg(quiz_display_index(entry.value->'option_order', original) ORDER BY original_position), '[]'::jsonb)
+                FROM jsonb_array_elements(item.answer) WITH ORDINALITY AS answers(original, original_position)
+            )
+            WHEN jsonb_typeof(item.answer) = 'number' THEN quiz_display_index(entry.value->'option_order', item.answer)
+            ELSE item.answer
+        END
+    FROM jsonb_array_elements(CASE WHEN jsonb_typeof(p_draw) = 'array' THEN p_draw ELSE '[]'::jsonb END)
+        WITH ORDINALITY AS entry(value, position)
+    LEFT JOIN question_bank_items item ON item.id = (entry.value->>'item_id')::UUID
+    CROSS JOIN LATERAL (
+        SELECT item.question->>'type' IN ('single_choice', 'multiple_choice')
+               AND jsonb_typeof(entry.value->'option_order') = 'array' AS is_shuffled
+    ) shuffled
+    ORDER BY entry.position;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- ============================================================================
+-- SCORING ATTEMPTS
+-- ============================================================================
+
+-- Runs after the session triggers (triggers fire in name order), so NEW.draw is
+-- the session's draw. SECURITY DEFINER so answer keys are read whatever the
+-- learner's own access to them
+CREATE OR REPLACE FUNCTION score_challenge_attempt()
+RETURNS TRIGGER AS $$
+DECLARE
+    challenge_row RECORD;
+    questions JSONB;
+    expected_answers JSONB;
+    question JSONB;
+    expected JSONB;
+    entry JSONB;
+    credit NUMERIC;
+    answer_score NUMERIC;
+    expected_text TEXT;
+    points NUMERIC;
+    points_earned NUMERIC := 0;
+    total_points NUMERIC := 0;
+    scored_answers JSONB := '[]'::jsonb;
+    passing_score CONSTANT INTEGER := 70;
+BEGIN
+    SELECT challenge_type, content, solution INTO challenge_row
+    FROM challenges
+    WHERE id = NEW.challenge_id;
+
+    IF challenge_row.challenge_type NOT IN ('quiz', 'multiple_choice') THEN
+        RETURN NEW;
+    END IF;
+
+    IF jsonb_typeof(challenge_row.content->'question_bank') = 'object' THEN
+        SELECT COALESCE(jsonb_agg(drawn.question ORDER BY drawn.question_index), '[]'::jsonb),
+               COALESCE(jsonb_agg(drawn.answer ORDER BY drawn.question_index), '[]'::jsonb)
+        INTO questions, expected_answers
+        FROM drawn_quiz_questions(NEW.draw) drawn;
+    ELSE
+        questions := challenge_row.content->'questions';
+        expected_answers := challenge_row.solution->'answers';
+    END IF;
+
+    -- Rows migration 011 couldn't convert can't be scored here; the score constraint still applies
+    IF jsonb_typeof(questions) IS DISTINCT FROM 'array' THEN
+        RETURN NEW;
+    END IF;
+
+    FOR i IN 0 .. jsonb_array_length(questions) - 1 LOOP
+        question := COALESCE(questions->i, '{}'::jsonb);
+        expected := CASE WHEN jsonb_typeof(expected_answers) = 'array' THEN expected_answers->i ELSE NULL END;
+
+        SELECT submitted.value INTO entry
+        FROM jsonb_array_elements(CASE WHEN jsonb_typeof(NEW.answers) = 'array' THEN NEW.answers ELSE '[]'::jsonb END) AS submitted
+        WHERE jsonb_typeof(submitted.value) = 'object'
+          AND submitted.value->>'question_index' = i::TEXT
+        LIMIT 1;
+        entry := COALESCE(entry, jsonb_build_object('answer', NULL));
+
+        IF question->>'type' = 'open_text' THEN
+            IF jsonb_typeof(entry->'feedback') = 'object' AND jsonb_typeof(entry->'score') = 'number' THEN
+                -- AI grade: proportional questions take it as credit, others pass or fail
+                answer_score := LEAST(100, GREATEST(0, round((entry->>'score')::NUMERIC)));
+                credit := CASE
+                    WHEN quiz_scoring_strategy(question) = 'proportional' THEN answer_score / 100
+                    WHEN answer_score >= passing_score THEN 1
+                    ELSE 0
+                END;
+            ELSE
+                -- No AI grade: match the model answer as text until a grader reviews it
+                expected_text := CASE WHEN jsonb_typeof(expected) = 'string' THEN lower(btrim(expected #>> '{}')) ELSE '' END;
+                credit := CASE
+                    WHEN expected_text <> '' AND jsonb_typeof(entry->'answer') = 'string'
+                         AND strpos(lower(entry->>'answer'), expected_text) > 0 THEN 1
+                    ELSE 0
+                END;
+                answer_score := round(credit * 100);
+            END IF;
+        ELSE
+            credit := score_quiz_answer(question, entry->'answer', expected);
+            answer_score := round(credit * 100);
+        END IF;
+
+        points := quiz_question_points(question);
+        total_points := total_points + points;
+        points_earned := points_earned + points * credit;
+
+        scored_answers := scored_answers || jsonb_build_array(
+            (entry - 'question_id') || jsonb_strip_nulls(jsonb_build_object('question_id', question->'id')) || jsonb_build_object(
+                'question_index', i,
+                'answer', COALESCE(entry->'answer', 'null'::jsonb),
+                'is_correct', credit = 1,
+                'score', answer_score
+            )
+        );
+    END LOOP;
+
+    NEW.answers := scored_answers;
+    NEW.score := CASE WHEN total_points > 0 THEN round(points_earned / total_points * 100) ELSE 0 END;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER score_challenge_attempt_trigger
+    BEFORE INSERT ON challenge_attempts
+    FOR EACH ROW EXECUTE FUNCTION score_challenge_attempt();
+
+REVOKE ALL ON FUNCTION drawn_quiz_questions(JSONB) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- ONE PROGRESS ROW PER USER AND ITEM
+-- ============================================================================
+
+-- The original UNIQUE treated NULL content columns as distinct, so every upsert
+-- inserted a new row. Keep the most recently updated row of each duplicate set
+DELETE FROM user_progress
+WHERE id IN (
+    SELECT id
+    FROM (
+        SELECT id, row_number() OVER (
+            PARTITION BY user_id, path_id, course_id, module_id, lesson_id, challenge_id
+            ORDER BY updated_at DESC NULLS LAST, created_at DESC NULLS LAST, id
+        ) AS position
+        FROM user_progress
+    ) ranked
+    WHERE position > 1
+);
+
+DO $$
+DECLARE
+    constraint_name TEXT;
+BEGIN
+    FOR constraint_name IN
+        SELECT conname FROM pg_constraint
+        WHERE conrelid = 'user_progress'::regclass AND contype = 'u'
+    LOOP
+        EXECUTE format('ALTER TABLE user_progress DROP CONSTRAINT %I', constraint_name);
+    END LOOP;
+END $$;
+
+ALTER TABLE user_progress
+    ADD CONSTRAINT user_progress_item_key
+    UNIQUE NULLS NOT DISTINCT (user_id, path_id, course_id, module_id, lesson_id, challenge_id);
+
+-- Log successful completion
+DO $$
+BEGIN
+    RAISE NOTICE '=== SERVER QUIZ SCORING MIGRATION COMPLETED ===';
+    RAISE NOTICE 'Trigger created: score_challenge_attempt (quiz attempts scored from the answer key)';
+    RAISE NOTICE 'user_progress_item_key: one progress row per user and item';
+END $$;
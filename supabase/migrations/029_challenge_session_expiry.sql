@@ -0,0 +1,173 @@
+-- ============================================================================
+-- CHALLENGE SESSION EXPIRY - Own The Flow
+-- A session that runs past its deadline is closed by start_challenge_session
+-- and recorded as an attempt scoring 0, so it counts against max_attempts
+-- like a submission would. Learners can only save their answers, current
+-- question and hints on a session: status is set by the database alone, so
+-- a session can't be expired early to restart the clock
+-- ============================================================================
+
+-- ============================================================================
+-- SESSION COLUMNS LEARNERS MAY UPDATE
+-- ============================================================================
+
+REVOKE UPDATE ON challenge_sessions FROM authenticated;
+GRANT UPDATE (answers, current_question, hints_used) ON challenge_sessions TO authenticated;
+
+-- ============================================================================
+-- START OR RESUME A SESSION
+-- ============================================================================
+
+-- SECURITY DEFINER because learners can no longer change a session's status
+CREATE OR REPLACE FUNCTION start_challenge_session(p_challenge_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+    session_row challenge_sessions;
+    expired_row challenge_sessions;
+    allowed_attempts INTEGER;
+    previous_attempts INTEGER;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'User not authenticated';
+    END IF;
+
+    SELECT * INTO session_row
+    FROM challenge_sessions
+    WHERE user_id = auth.uid() AND challenge_id = p_challenge_id AND status = 'active'
+    FOR UPDATE;
+
+    -- Sessions past their deadline are closed and recorded as an attempt scoring 0
+    IF session_row.id IS NOT NULL AND session_row.deadline_at IS NOT NULL
+       AND NOW() > session_row.deadline_at + INTERVAL '10 seconds' THEN
+        UPDATE challenge_sessions SET status = 'expired' WHERE id = session_row.id
+        RETURNING * INTO expired_row;
+
+        INSERT INTO challenge_attempts (user_id, challenge_id, answers, score, session_id)
+        VALUES (auth.uid(), p_challenge_id, '[]'::jsonb, 0, expired_row.id);
+
+        session_row := NULL;
+    END IF;
+
+    IF session_row.id IS NULL THEN
+        SELECT max_attempts INTO allowed_attempts
+        FROM challenges
+        WHERE id = p_challenge_id;
+
+        SELECT COUNT(*) INTO previous_attempts
+        FROM challenge_attempts
+        WHERE user_id = auth.uid() AND challenge_id = p_challenge_id;
+
+        IF allowed_attempts IS NOT NULL AND allowed_attempts > 0 AND previous_attempts >= allowed_attempts THEN
+            -- The expired session used the last attempt: return it so the learner sees why
+            IF expired_row.id IS NOT NULL THEN
+                RETURN to_jsonb(expired_row) || jsonb_build_object(
+                    'server_now', NOW(),
+                    'previous_expired', true
+                );
+            END IF;
+
+            RAISE EXCEPTION 'Maximum attempts (%) reached for this challenge', allowed_attempts
+                USING ERRCODE = 'check_violation';
+        END IF;
+
+        INSERT INTO challenge_sessions (user_id, challenge_id)
+        VALUES (auth.uid(), p_challenge_id)
+        RETURNING * INTO session_row;
+    END IF;
+
+    RETURN to_jsonb(session_row) || jsonb_build_object(
+        'server_now', NOW(),
+        'previous_expired', expired_row.id IS NOT NULL
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- ATTEMPTS: EXPIRED SESSIONS SCORE 0
+-- ============================================================================
+
+-- SECURITY DEFINER because it marks the session submitted on the learner's behalf
+CREATE OR REPLACE FUNCTION assign_challenge_attempt_number()
+RETURNS TRIGGER AS $$
+DECLARE
+    challenge_row RECORD;
+    session_row challenge_sessions;
+    previous_attempts INTEGER;
+BEGIN
+    -- Serialize submissions per user and challenge so concurrent inserts can't exceed the limit
+    PERFORM pg_advisory_xact_lock(hashtext(NEW.user_id::text || ':' || NEW.challenge_id::text));
+
+    SELECT max_attempts, time_limit, challenge_type INTO challenge_row
+    FROM challenges
+    WHERE id = NEW.challenge_id;
+
+    SELECT COUNT(*) INTO previous_attempts
+    FROM challenge_attempts
+    WHERE user_id = NEW.user_id AND challenge_id = NEW.challenge_id;
+
+    IF challenge_row.max_attempts IS NOT NULL AND challenge_row.max_attempts > 0
+       AND previous_attempts >= challenge_row.max_attempts THEN
+        RAISE EXCEPTION 'Maximum attempts (%) reached for this challenge', challenge_row.max_attempts
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    NEW.attempt_number := previous_attempts + 1;
+    NEW.submitted_at := NOW();
+    NEW.created_at := NOW();
+
+    IF NEW.session_id IS NOT NULL THEN
+        SELECT * INTO session_row
+        FROM challenge_sessions
+        WHERE id = NEW.session_id AND user_id = NEW.user_id AND challenge_id = NEW.challenge_id
+        FOR UPDATE;
+
+        -- Only start_challenge_session expires a session, and it records the attempt once
+        IF session_row.status = 'expired'
+           AND NOT EXISTS (SELECT 1 FROM challenge_attempts WHERE session_id = session_row.id) THEN
+            NEW.answers := '[]'::jsonb;
+            NEW.score := 0;
+            NEW.started_at := session_row.started_at;
+            NEW.submitted_at := LEAST(NOW(), session_row.deadline_at);
+        ELSE
+            IF session_row.id IS NULL OR session_row.status <> 'active' THEN
+                RAISE EXCEPTION 'Quiz session is not active'
+                    USING ERRCODE = 'check_violation';
+            END IF;
+
+            IF session_row.deadline_at IS NOT NULL AND NOW() > session_row.deadline_at + INTERVAL '10 seconds' THEN
+                RAISE EXCEPTION 'Time limit exceeded: submissions closed at %', session_row.deadline_at
+                    USING ERRCODE = 'check_violation';
+            END IF;
+
+            -- Timing comes from the server-side session
+            NEW.started_at := session_row.started_at;
+
+            UPDATE challenge_sessions
+            SET status = 'submitted', submitted_at = NOW()
+            WHERE id = session_row.id;
+        END IF;
+    ELSIF challenge_row.time_limit IS NOT NULL AND challenge_row.time_limit > 0
+          AND challenge_row.challenge_type IN ('quiz', 'multiple_choice') THEN
+        RAISE EXCEPTION 'Timed quizzes must be submitted through a quiz session'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    -- Never trust a start time from the future
+    IF NEW.started_at IS NOT NULL THEN
+        NEW.started_at := LEAST(NEW.started_at, NEW.submitted_at);
+        NEW.time_taken_seconds := EXTRACT(EPOCH FROM (NEW.submitted_at - NEW.started_at))::INTEGER;
+    ELSE
+        NEW.time_taken_seconds := NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Log successful completion
+DO $$
+BEGIN
+    RAISE NOTICE '=== CHALLENGE SESSION EXPIRY MIGRATION COMPLETED ===';
+    RAISE NOTICE 'Expired sessions are recorded as attempts scoring 0';
+    RAISE NOTICE 'Learners can update challenge_sessions answers, current_question and hints_used only';
+END $$;
@@ -0,0 +1,86 @@
+-- ============================================================================
+-- QUESTION BANK ANSWERS - Own The Flow
+-- Learners no longer read question_bank_items, whose answer column is the
+-- answer key. They get the questions drawn for their session from
+-- get_session_questions() instead, without answers, and without explanations
+-- until the session is over. Bank quizzes are scored by the database
+-- (migration 028), so they must be submitted through a session: a client
+-- supplied draw could pick its own items
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Authenticated users can read question bank items" ON question_bank_items;
+
+-- ============================================================================
+-- QUESTIONS FOR A SESSION
+-- ============================================================================
+
+-- The caller's drawn questions in draw order, options in displayed order;
+-- NULL for an item deleted since the draw
+CREATE OR REPLACE FUNCTION get_session_questions(p_session_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+    session_row challenge_sessions;
+    result JSONB;
+BEGIN
+    IF auth.uid() IS NULL THEN
+        RAISE EXCEPTION 'User not authenticated';
+    END IF;
+
+    SELECT * INTO session_row
+    FROM challenge_sessions
+    WHERE id = p_session_id AND user_id = auth.uid();
+
+    IF session_row.id IS NULL THEN
+        RAISE EXCEPTION 'Quiz session not found';
+    END IF;
+
+    -- Explanations give answers away, so they wait until the session is submitted or expired
+    SELECT COALESCE(jsonb_agg(
+        CASE
+            WHEN session_row.status = 'active' THEN drawn.question - 'explanation' - 'option_explanations'
+            ELSE drawn.question
+        END
+        ORDER BY drawn.question_index
+    ), '[]'::jsonb)
+    INTO result
+    FROM drawn_quiz_questions(session_row.draw) drawn;
+
+    RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- BANK QUIZZES REQUIRE A SESSION
+-- ============================================================================
+
+-- SECURITY DEFINER so the check sees the challenge whatever its publication status
+CREATE OR REPLACE FUNCTION require_bank_quiz_session()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.session_id IS NULL AND EXISTS (
+        SELECT 1 FROM challenges
+        WHERE id = NEW.challenge_id
+          AND challenge_type IN ('quiz', 'multiple_choice')
+          AND jsonb_typeof(content->'question_bank') = 'object'
+    ) THEN
+        RAISE EXCEPTION 'Question bank quizzes must be submitted through a quiz session'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER require_bank_quiz_session_trigger
+    BEFORE INSERT ON challenge_attempts
+    FOR EACH ROW EXECUTE FUNCTION require_bank_quiz_session();
+
+GRANT EXECUTE ON FUNCTION get_session_questions(UUID) TO authenticated;
+
+-- Log successful completion
+DO $$
+BEGIN
+    RAISE NOTICE '=== QUESTION BANK ANSWERS MIGRATION COMPLETED ===';
+    RAISE NOTICE 'question_bank_items readable by content managers only';
+    RAISE NOTICE 'Function created: get_session_questions (drawn questions without answers)';
+END $$;
@@ -0,0 +1,165 @@
+-- ============================================================================
+-- CASCADE CONTENT STATUS - Own The Flow
+-- Brings the scheduled unpublish cascade in line with ContentService's
+-- cascadeStatusFrom* methods:
+--   - challenges get the status column those methods already write, and
+--     follow their lesson when it is unpublished on schedule
+--   - cascaded rows record who changed them in updated_by
+--   - pending review requests of cascaded items are withdrawn. The status
+--     transition trigger (migration 021) does this for signed-in users only,
+--     and apply_content_schedules runs as the service role
+-- ============================================================================
+
+-- ============================================================================
+-- CHALLENGE STATUS
+-- ============================================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'challenges' AND column_name = 'status'
+    ) THEN
+        ALTER TABLE challenges ADD COLUMN status content_status DEFAULT 'draft';
+
+        -- Existing challenges start with their lesson's status; challenges are never reviewed on their own
+        UPDATE challenges
+        SET status = CASE WHEN lessons.status = 'in_review' THEN 'draft' ELSE lessons.status END
+        FROM lessons
+        WHERE lessons.id = challenges.lesson_id;
+    END IF;
+END $$;
+
+-- ============================================================================
+-- CASCADE
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS cascade_content_status(TEXT, UUID, TEXT);
+
+-- Same rules as ContentService.cascadeStatusFromLearningPath / Course / Module / Lesson:
+-- every descendant, challenges included, takes the new status
+CREATE OR REPLACE FUNCTION cascade_content_status(
+    p_entity_type TEXT,
+    p_entity_id UUID,
+    p_status TEXT,
+    p_updated_by UUID
+)
+RETURNS VOID AS $$
+DECLARE
+    course_ids UUID[];
+    module_ids UUID[];
+    lesson_ids UUID[];
+BEGIN
+    course_ids := CASE WHEN p_entity_type = 'path'
+        THEN ARRAY(SELECT id FROM courses WHERE path_id = p_entity_id)
+        ELSE '{}'::UUID[] END;
+
+    module_ids := CASE
+        WHEN p_entity_type = 'path' THEN ARRAY(SELECT id FROM modules WHERE course_id = ANY (course_ids))
+        WHEN p_entity_type = 'course' THEN ARRAY(SELECT id FROM modules WHERE course_id = p_entity_id)
+        ELSE '{}'::UUID[] END;
+
+    lesson_ids := CASE
+        WHEN p_entity_type IN ('path', 'course') THEN ARRAY(SELECT id FROM lessons WHERE module_id = ANY (module_ids))
+        WHEN p_entity_type = 'module' THEN ARRAY(SELECT id FROM lessons WHERE module_id = p_entity_id)
+        ELSE '{}'::UUID[] END;
+
+    -- Cascaded items leave in_review, so their requests can no longer be decided
+    IF p_status <> 'in_review' THEN
+        UPDATE content_review_requests
+        SET status = 'withdrawn'
+        WHERE status = 'pending'
+          AND (
+              (entity_type = 'course' AND entity_id = ANY (course_ids))
+              OR (entity_type = 'module' AND entity_id = ANY (module_ids))
+              OR (entity_type = 'lesson' AND entity_id = ANY (lesson_ids))
+          );
+    END IF;
+
+    UPDATE courses SET status = p_status::content_status, updated_by = p_updated_by
+    WHERE id = ANY (course_ids) AND status IS DISTINCT FROM p_status::content_status;
+
+    UPDATE modules SET status = p_status::content_status, updated_by = p_updated_by
+    WHERE id = ANY (module_ids) AND status IS DISTINCT FROM p_status::content_status;
+
+    UPDATE lessons SET status = p_status::content_status, updated_by = p_updated_by
+    WHERE id = ANY (lesson_ids) AND status IS DISTINCT FROM p_status::content_status;
+
+    IF p_entity_type = 'lesson' THEN
+        lesson_ids := ARRAY[p_entity_id];
+    END IF;
+
+    UPDATE challenges SET status = p_status::content_status, updated_by = p_updated_by
+    WHERE lesson_id = ANY (lesson_ids) AND status IS DISTINCT FROM p_status::content_status;
+END;
+$$ LANGUAGE plpgsql;
+
+-- ============================================================================
+-- APPLY SCHEDULES
+-- ============================================================================
+
+-- Parents are handled before children, so a path unpublished in the same run
+-- as one of its lessons ends with everything in draft. The job has no signed-in
+-- user, so cascaded rows are attributed to whoever last updated the unpublished
+-- item, normally the admin who scheduled it
+CREATE OR REPLACE FUNCTION apply_content_schedules()
+RETURNS JSONB AS $$
+DECLARE
+    entity_type TEXT;
+    table_name TEXT;
+    item_id UUID;
+    item_updated_by UUID;
+    published_count INTEGER := 0;
+    unpublished_count INTEGER := 0;
+    row_count INTEGER;
+BEGIN
+    FOREACH entity_type IN ARRAY ARRAY['path', 'course', 'module', 'lesson'] LOOP
+        table_name := content_table_name(entity_type);
+
+        -- Scheduling was an admin's decision to publish, so it settles any pending review
+        EXECUTE format(
+            'UPDATE content_review_requests
+             SET status = ''approved'', reviewed_at = NOW()
+             WHERE entity_type = $1 AND status = ''pending''
+               AND entity_id IN (SELECT id FROM %I WHERE publish_at <= NOW() AND status <> ''published'')',
+            table_name
+        ) USING entity_type;
+
+        -- Publish
+        EXECUTE format(
+            'UPDATE %I SET status = ''published'', published_at = NOW(), publish_at = NULL
+             WHERE publish_at <= NOW() AND status <> ''published''',
+            table_name
+        );
+        GET DIAGNOSTICS row_count = ROW_COUNT;
+        published_count := published_count + row_count;
+
+        -- Unpublish, cascading to children
+        FOR item_id, item_updated_by IN EXECUTE format(
+            'UPDATE %I SET status = ''draft'', unpublish_at = NULL
+             WHERE unpublish_at <= NOW() AND status = ''published''
+             RETURNING id, updated_by',
+            table_name
+        ) LOOP
+            PERFORM cascade_content_status(entity_type, item_id, 'draft', item_updated_by);
+            unpublished_count := unpublished_count + 1;
+        END LOOP;
+
+        -- Times that passed while the item was already in the target state
+        EXECUTE format('UPDATE %I SET publish_at = NULL WHERE publish_at <= NOW()', table_name);
+        EXECUTE format('UPDATE %I SET unpublish_at = NULL WHERE unpublish_at <= NOW()', table_name);
+    END LOOP;
+
+    RETURN jsonb_build_object('published', published_count, 'unpublished', unpublished_count);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION cascade_content_status(TEXT, UUID, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Log successful completion
+DO $$
+BEGIN
+    RAISE NOTICE '=== CASCADE CONTENT STATUS MIGRATION COMPLETED ===';
+    RAISE NOTICE 'Column added: status on challenges';
+    RAISE NOTICE 'Scheduled unpublishing cascades to challenges, sets updated_by and withdraws pending reviews';
+END $$;
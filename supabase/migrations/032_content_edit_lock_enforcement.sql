@@ -0,0 +1,43 @@
+-- ============================================================================
+-- CONTENT EDIT LOCK ENFORCEMENT - Own The Flow
+-- The edit locks of migration 023 were only checked by ContentService form
+-- saves. Every update of a path, course, module or lesson by a signed-in user
+-- is now rejected while someone else holds a live lock on it, whatever made
+-- it: bulk status changes, reorders, restores, imports or direct REST calls.
+-- Requests without a signed-in user (service role jobs) are not restricted
+-- ============================================================================
+
+-- SECURITY DEFINER so the check sees locks whatever the caller may read
+CREATE OR REPLACE FUNCTION enforce_content_edit_lock()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF auth.uid() IS NOT NULL AND EXISTS (
+        SELECT 1 FROM content_edit_locks
+        WHERE entity_type = TG_ARGV[0]
+        AND entity_id = OLD.id
+        AND locked_by <> auth.uid()
+        AND expires_at > NOW()
+    ) THEN
+        RAISE EXCEPTION '"%" is being edited by someone else', OLD.title
+            USING ERRCODE = 'lock_not_available';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER enforce_learning_path_edit_lock BEFORE UPDATE ON learning_paths
+    FOR EACH ROW EXECUTE FUNCTION enforce_content_edit_lock('path');
+CREATE TRIGGER enforce_course_edit_lock BEFORE UPDATE ON courses
+    FOR EACH ROW EXECUTE FUNCTION enforce_content_edit_lock('course');
+CREATE TRIGGER enforce_module_edit_lock BEFORE UPDATE ON modules
+    FOR EACH ROW EXECUTE FUNCTION enforce_content_edit_lock('module');
+CREATE TRIGGER enforce_lesson_edit_lock BEFORE UPDATE ON lessons
+    FOR EACH ROW EXECUTE FUNCTION enforce_content_edit_lock('lesson');
+
+-- Log successful completion
+DO $$
+BEGIN
+    RAISE NOTICE '=== CONTENT EDIT LOCK ENFORCEMENT MIGRATION COMPLETED ===';
+    RAISE NOTICE 'Triggers created: enforce_*_edit_lock on learning_paths, courses, modules, lessons';
+END $$;
@@ -0,0 +1,152 @@
+-- ============================================================================
+-- CONTENT REVISION TRIGGERS - Own The Flow
+-- Revisions (migration 019) are now written by the database in the same
+-- transaction as the save, for every insert and update of a path, course,
+-- module or lesson, whoever makes it. A save passes its change note in the
+-- revision_note column; the note goes onto the revision and is never kept on
+-- the row itself. Clients can no longer insert revisions directly
+-- ============================================================================
+
+ALTER TABLE learning_paths ADD COLUMN IF NOT EXISTS revision_note TEXT;
+ALTER TABLE courses ADD COLUMN IF NOT EXISTS revision_note TEXT;
+ALTER TABLE modules ADD COLUMN IF NOT EXISTS revision_note TEXT;
+ALTER TABLE lessons ADD COLUMN IF NOT EXISTS revision_note TEXT;
+
+-- ============================================================================
+-- RECORD REVISIONS
+-- ============================================================================
+
+-- Moves the change note off the row before it is saved. AFTER triggers run
+-- at the end of the statement, so notes are kept per item until then
+CREATE OR REPLACE FUNCTION capture_content_revision_note()
+RETURNS TRIGGER AS $$
+BEGIN
+    PERFORM set_config(
+        'content_revisions.notes',
+        (
+            COALESCE(NULLIF(current_setting('content_revisions.notes', true), '')::jsonb, '{}'::jsonb)
+            || jsonb_build_object(NEW.id::text, NULLIF(btrim(NEW.revision_note), ''))
+        )::text,
+        true
+    );
+
+    NEW.revision_note := NULL;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- SECURITY DEFINER because only the database records revisions. Saves that
+-- change nothing but updated_at add no revision
+CREATE OR REPLACE FUNCTION record_content_revision()
+RETURNS TRIGGER AS $$
+DECLARE
+    row_snapshot JSONB := to_jsonb(NEW) - 'revision_note';
+    note TEXT := NULLIF(current_setting('content_revisions.notes', true), '')::jsonb ->> NEW.id::text;
+BEGIN
+    IF TG_OP = 'UPDATE' AND row_snapshot - 'updated_at' = to_jsonb(OLD) - 'revision_note' - 'updated_at' THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO content_revisions (entity_type, entity_id, snapshot, change_note, created_by)
+    VALUES (
+        TG_ARGV[0],
+        NEW.id,
+        row_snapshot,
+        CASE WHEN TG_OP = 'INSERT' THEN COALESCE(note, 'Created') ELSE note END,
+        COALESCE(NEW.updated_by, NEW.created_by)
+    );
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER capture_learning_path_revision_note BEFORE INSERT OR UPDATE ON learning_paths
+    FOR EACH ROW EXECUTE FUNCTION capture_content_revision_note();
+CREATE TRIGGER capture_course_revision_note BEFORE INSERT OR UPDATE ON courses
+    FOR EACH ROW EXECUTE FUNCTION capture_content_revision_note();
+CREATE TRIGGER capture_module_revision_note BEFORE INSERT OR UPDATE ON modules
+    FOR EACH ROW EXECUTE FUNCTION capture_content_revision_note();
+CREATE TRIGGER capture_lesson_revision_note BEFORE INSERT OR UPDATE ON lessons
+    FOR EACH ROW EXECUTE FUNCTION capture_content_revision_note();
+
+CREATE TRIGGER record_learning_path_revision AFTER INSERT OR UPDATE ON learning_paths
+    FOR EACH ROW EXECUTE FUNCTION record_content_revision('path');
+CREATE TRIGGER record_course_revision AFTER INSERT OR UPDATE ON courses
+    FOR EACH ROW EXECUTE FUNCTION record_content_revision('course');
+CREATE TRIGGER record_module_revision AFTER INSERT OR UPDATE ON modules
+    FOR EACH ROW EXECUTE FUNCTION record_content_revision('module');
+CREATE TRIGGER record_lesson_revision AFTER INSERT OR UPDATE ON lessons
+    FOR EACH ROW EXECUTE FUNCTION record_content_revision('lesson');
+
+-- ============================================================================
+-- PUBLISH A DRAFT
+-- ============================================================================
+
+-- Same as migration 020, with the revision left to record_content_revision
+CREATE OR REPLACE FUNCTION publish_lesson_draft(p_draft_id UUID)
+RETURNS JSONB AS $$
+DECLARE
+    draft_row lesson_drafts;
+    lesson_row lessons;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role = 'admin') THEN
+        RAISE EXCEPTION 'Only admins can publish lesson drafts'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    SELECT * INTO draft_row
+    FROM lesson_drafts
+    WHERE id = p_draft_id
+    FOR UPDATE;
+
+    IF draft_row.id IS NULL THEN
+        RAISE EXCEPTION 'Lesson draft not found';
+    END IF;
+
+    IF draft_row.status <> 'approved' THEN
+        RAISE EXCEPTION 'This draft has not been approved yet'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    UPDATE lessons
+    SET title = COALESCE(draft_row.data->>'title', title),
+        content = CASE WHEN draft_row.data ? 'content' THEN draft_row.data->>'content' ELSE content END,
+        summary = CASE WHEN draft_row.data ? 'summary' THEN draft_row.data->>'summary' ELSE summary END,
+        estimated_minutes = COALESCE((draft_row.data->>'estimated_minutes')::INTEGER, estimated_minutes),
+        xp_reward = COALESCE((draft_row.data->>'xp_reward')::INTEGER, xp_reward),
+        lesson_type = COALESCE(draft_row.data->>'lesson_type', lesson_type),
+        video_url = CASE WHEN draft_row.data ? 'video_url' THEN draft_row.data->>'video_url' ELSE video_url END,
+        video_duration = CASE WHEN draft_row.data ? 'video_duration' THEN (draft_row.data->>'video_duration')::INTEGER ELSE video_duration END,
+        meta_title = CASE WHEN draft_row.data ? 'meta_title' THEN draft_row.data->>'meta_title' ELSE meta_title END,
+        meta_description = CASE WHEN draft_row.data ? 'meta_description' THEN draft_row.data->>'meta_description' ELSE meta_description END,
+        updated_by = auth.uid(),
+        published_by = auth.uid(),
+        published_at = NOW(),
+        revision_note = 'Published staged draft'
+    WHERE id = draft_row.lesson_id
+    RETURNING * INTO lesson_row;
+
+    IF lesson_row.id IS NULL THEN
+        RAISE EXCEPTION 'Lesson not found';
+    END IF;
+
+    DELETE FROM lesson_drafts WHERE id = draft_row.id;
+
+    RETURN to_jsonb(lesson_row) - 'revision_note';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Content managers can record revisions" ON content_revisions;
+REVOKE INSERT ON content_revisions FROM authenticated;
+
+-- Log successful completion
+DO $$
+BEGIN
+    RAISE NOTICE '=== CONTENT REVISION TRIGGERS MIGRATION COMPLETED ===';
+    RAISE NOTICE 'Columns added: revision_note on learning_paths, courses, modules, lessons';
+    RAISE NOTICE 'Triggers created: record_*_revision (revisions written with every save)';
+END $$;
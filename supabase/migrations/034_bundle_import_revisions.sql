@@ -0,0 +1,188 @@
+-- ============================================================================
+-- BUNDLE IMPORT REVISIONS - Own The Flow
+-- Paths, courses, modules and lessons created or updated by a bundle import
+-- (migration 027) get a content revision noted "Imported from bundle", like
+-- any other save (migration 033). revision_note is never taken from a bundle
+-- ============================================================================
+
+-- Import one bundle entry and everything under it. Returns the planned or
+-- applied change for each entity. p_parent_id is NULL for a path, and for
+-- children of an entity that a dry run would create. Same as migration 027,
+-- with the change note for the revisions of imported rows
+CREATE OR REPLACE FUNCTION import_bundle_entity(
+    p_entity_type TEXT,
+    p_entry JSONB,
+    p_parent_id UUID,
+    p_on_conflict TEXT,
+    p_dry_run BOOLEAN
+)
+RETURNS JSONB AS $$
+DECLARE
+    item_table TEXT := CASE WHEN p_entity_type = 'challenge' THEN 'challenges' ELSE content_table_name(p_entity_type) END;
+    parent_column TEXT := CASE WHEN p_entity_type = 'challenge' THEN 'lesson_id' ELSE content_parent_column(p_entity_type) END;
+    child_type TEXT := CASE p_entity_type
+        WHEN 'path' THEN 'course'
+        WHEN 'course' THEN 'module'
+        WHEN 'module' THEN 'lesson'
+        WHEN 'lesson' THEN 'challenge'
+    END;
+    child_key TEXT := CASE p_entity_type
+        WHEN 'path' THEN 'courses'
+        WHEN 'course' THEN 'modules'
+        WHEN 'module' THEN 'lessons'
+        WHEN 'lesson' THEN 'challenges'
+    END;
+    external_id TEXT := p_entry ->> 'external_id';
+    -- Bookkeeping columns never come from a bundle
+    fields JSONB := (p_entry -> 'data') - ARRAY[
+        'id', 'external_id', 'status', 'path_id', 'course_id', 'module_id', 'lesson_id',
+        'created_by', 'updated_by', 'published_by', 'published_at', 'created_at', 'updated_at',
+        'publish_at', 'unpublish_at', 'revision_note'
+    ];
+    slug TEXT := fields ->> 'slug';
+    original_slug TEXT := fields ->> 'slug';
+    existing JSONB;
+    conflict JSONB;
+    slug_taken BOOLEAN := TRUE;
+    suffix INTEGER := 1;
+    change_action TEXT;
+    changed TEXT[] := '{}';
+    row_data JSONB;
+    revision_fields JSONB := CASE WHEN p_entity_type <> 'challenge'
+        THEN jsonb_build_object('revision_note', 'Imported from bundle')
+        ELSE '{}'::JSONB END;
+    target_id UUID;
+    child JSONB;
+    changes JSONB := '[]'::JSONB;
+BEGIN
+    EXECUTE format('SELECT to_jsonb(t) FROM %I t WHERE external_id = $1', item_table)
+        INTO existing
+        USING external_id;
+
+    -- Another row already uses this slug where the entity lands (challenges have no slug)
+    IF slug IS NOT NULL AND (parent_column IS NULL OR p_parent_id IS NOT NULL) THEN
+        IF p_entity_type = 'path' THEN
+            EXECUTE format('SELECT to_jsonb(t) FROM %I t WHERE slug = $1 AND id IS DISTINCT FROM $2', item_table)
+                INTO conflict
+                USING slug, (existing ->> 'id')::UUID;
+        ELSE
+            EXECUTE format('SELECT to_jsonb(t) FROM %I t WHERE slug = $1 AND %I = $2 AND id IS DISTINCT FROM $3', item_table, parent_column)
+                INTO conflict
+                USING slug, p_parent_id, (existing ->> 'id')::UUID;
+        END IF;
+    END IF;
+
+    IF conflict IS NOT NULL AND p_on_conflict = 'skip' THEN
+        RETURN changes || jsonb_build_object(
+            'entity_type', p_entity_type,
+            'external_id', external_id,
+            'title', fields ->> 'title',
+            'slug', slug,
+            'action', 'skip',
+            'existing_id', conflict ->> 'id'
+        );
+    END IF;
+
+    -- Overwriting takes the conflicting row over, unless the bundle entity already
+    -- has a row of its own; two rows can't be merged, so that case is renamed
+    IF conflict IS NOT NULL AND p_on_conflict = 'overwrite' AND existing IS NULL THEN
+        existing := conflict;
+        conflict := NULL;
+    END IF;
+
+    IF conflict IS NOT NULL THEN
+        WHILE slug_taken LOOP
+            suffix := suffix + 1;
+            slug := left(original_slug, 95) || '-' || suffix;
+
+            IF p_entity_type = 'path' THEN
+                EXECUTE format('SELECT EXISTS (SELECT 1 FROM %I WHERE slug = $1)', item_table)
+                    INTO slug_taken
+                    USING slug;
+            ELSE
+                EXECUTE format('SELECT EXISTS (SELECT 1 FROM %I WHERE slug = $1 AND %I = $2)', item_table, parent_column)
+                    INTO slug_taken
+                    USING slug, p_parent_id;
+            END IF;
+        END LOOP;
+
+        fields := fields || jsonb_build_object('slug', slug);
+    END IF;
+
+    row_data := fields || jsonb_build_object('external_id', external_id);
+    IF parent_column IS NOT NULL THEN
+        row_data := row_data || jsonb_build_object(parent_column, p_parent_id);
+    END IF;
+
+    IF existing IS NULL THEN
+        change_action := 'create';
+    ELSE
+        SELECT COALESCE(array_agg(key ORDER BY key), '{}') INTO changed
+        FROM jsonb_each(row_data)
+        WHERE existing -> key IS DISTINCT FROM value
+        -- A dry run doesn't know the id of a parent it would create
+        AND NOT (p_dry_run AND key = parent_column AND p_parent_id IS NULL);
+
+        change_action := CASE WHEN cardinality(changed) = 0 THEN 'unchanged' ELSE 'update' END;
+    END IF;
+
+    changes := changes || jsonb_build_object(
+        'entity_type', p_entity_type,
+        'external_id', external_id,
+        'title', fields ->> 'title',
+        'slug', slug,
+        'action', change_action,
+        'existing_id', existing ->> 'id',
+        'renamed_from', CASE WHEN slug IS DISTINCT FROM original_slug THEN original_slug END,
+        'changed_fields', to_jsonb(changed)
+    );
+
+    IF p_dry_run THEN
+        target_id := (existing ->> 'id')::UUID;
+    ELSIF existing IS NULL THEN
+        target_id := gen_random_uuid();
+        row_data := row_data || jsonb_build_object(
+            'id', target_id,
+            'status', 'draft',
+            'created_by', auth.uid(),
+            'updated_by', auth.uid()
+        ) || revision_fields;
+
+        -- Only the columns present are listed, so the rest keep their defaults
+        EXECUTE format(
+            'INSERT INTO %1$I (%2$s) SELECT %2$s FROM jsonb_populate_record(NULL::%1$I, $1)',
+            item_table,
+            bundle_row_columns(item_table, row_data)
+        )
+        USING row_data;
+    ELSE
+        target_id := (existing ->> 'id')::UUID;
+
+        IF change_action = 'update' THEN
+            row_data := row_data || jsonb_build_object('updated_by', auth.uid()) || revision_fields;
+
+            EXECUTE format(
+                'UPDATE %1$I SET (%2$s) = (SELECT %2$s FROM jsonb_populate_record(NULL::%1$I, $1)) WHERE id = $2',
+                item_table,
+                bundle_row_columns(item_table, row_data)
+            )
+            USING row_data, target_id;
+        END IF;
+    END IF;
+
+    IF child_key IS NOT NULL THEN
+        FOR child IN SELECT value FROM jsonb_array_elements(COALESCE(p_entry -> child_key, '[]'::JSONB)) LOOP
+            changes := changes || import_bundle_entity(child_type, child, target_id, p_on_conflict, p_dry_run);
+        END LOOP;
+    END IF;
+
+    RETURN changes;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Log successful completion
+DO $$
+BEGIN
+    RAISE NOTICE '=== BUNDLE IMPORT REVISIONS MIGRATION COMPLETED ===';
+    RAISE NOTICE 'Function updated: import_bundle_entity (imported rows are recorded as revisions)';
+END $$;
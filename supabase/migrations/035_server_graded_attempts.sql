@@ -0,0 +1,146 @@
+-- ============================================================================
+-- SERVER GRADED ATTEMPTS - Own The Flow
+-- Learners no longer insert challenge attempts themselves. Submissions go
+-- through POST /api/challenges/attempts, which grades them on the server and
+-- records them with the service role:
+--   - open_text quiz answers and essays are graded by AI against the answer
+--     key; answers it can't grade confidently are queued for a grader
+--   - scenario attempts score the outcome their path reaches
+--   - code attempts are queued for a grader (reason code_submission), since
+--     the test cases only run in the learner's browser
+-- score_challenge_attempt (migration 028) only takes an open_text grade from
+-- the answer when there is no signed-in user, i.e. from the route
+-- ============================================================================
+
+-- ============================================================================
+-- SCORING ATTEMPTS
+-- ============================================================================
+
+-- Same as migration 028, with grades in the submitted answers ignored for signed-in inserts
+CREATE OR REPLACE FUNCTION score_challenge_attempt()
+RETURNS TRIGGER AS $$
+DECLARE
+    challenge_row RECORD;
+    questions JSONB;
+    expected_answers JSONB;
+    question JSONB;
+    expected JSONB;
+    entry JSONB;
+    credit NUMERIC;
+    answer_score NUMERIC;
+    expected_text TEXT;
+    points NUMERIC;
+    points_earned NUMERIC := 0;
+    total_points NUMERIC := 0;
+    scored_answers JSONB := '[]'::jsonb;
+    passing_score CONSTANT INTEGER := 70;
+BEGIN
+    SELECT challenge_type, content, solution INTO challenge_row
+    FROM challenges
+    WHERE id = NEW.challenge_id;
+
+    IF challenge_row.challenge_type NOT IN ('quiz', 'multiple_choice') THEN
+        -- Only the attempts route grades these; a signed-in insert can't award itself a score
+        IF auth.uid() IS NOT NULL THEN
+            NEW.score := 0;
+        END IF;
+        RETURN NEW;
+    END IF;
+
+    IF jsonb_typeof(challenge_row.content->'question_bank') = 'object' THEN
+        SELECT COALESCE(jsonb_agg(drawn.question ORDER BY drawn.question_index), '[]'::jsonb),
+               COALESCE(jsonb_agg(drawn.answer ORDER BY drawn.question_index), '[]'::jsonb)
+        INTO questions, expected_answers
+        FROM drawn_quiz_questions(NEW.draw) drawn;
+    ELSE
+        questions := challenge_row.content->'questions';
+        expected_answers := challenge_row.solution->'answers';
+    END IF;
+
+    -- Rows migration 011 couldn't convert can't be scored here; the score constraint still applies
+    IF jsonb_typeof(questions) IS DISTINCT FROM 'array' THEN
+        RETURN NEW;
+    END IF;
+
+    FOR i IN 0 .. jsonb_array_length(questions) - 1 LOOP
+        question := COALESCE(questions->i, '{}'::jsonb);
+        expected := CASE WHEN jsonb_typeof(expected_answers) = 'array' THEN expected_answers->i ELSE NULL END;
+
+        SELECT submitted.value INTO entry
+        FROM jsonb_array_elements(CASE WHEN jsonb_typeof(NEW.answers) = 'array' THEN NEW.answers ELSE '[]'::jsonb END) AS submitted
+        WHERE jsonb_typeof(submitted.value) = 'object'
+          AND submitted.value->>'question_index' = i::TEXT
+        LIMIT 1;
+        entry := COALESCE(entry, jsonb_build_object('answer', NULL));
+
+        IF question->>'type' = 'open_text' THEN
+            IF auth.uid() IS NULL AND jsonb_typeof(entry->'feedback') = 'object' AND jsonb_typeof(entry->'score') = 'number' THEN
+                -- AI grade from the attempts route: proportional questions take it as credit, others pass or fail
+                answer_score := LEAST(100, GREATEST(0, round((entry->>'score')::NUMERIC)));
+                credit := CASE
+                    WHEN quiz_scoring_strategy(question) = 'proportional' THEN answer_score / 100
+                    WHEN answer_score >= passing_score THEN 1
+                    ELSE 0
+                END;
+            ELSE
+                -- No AI grade: match the model answer as text until a grader reviews it
+                expected_text := CASE WHEN jsonb_typeof(expected) = 'string' THEN lower(btrim(expected #>> '{}')) ELSE '' END;
+                credit := CASE
+                    WHEN expected_text <> '' AND jsonb_typeof(entry->'answer') = 'string'
+                         AND strpos(lower(entry->>'answer'), expected_text) > 0 THEN 1
+                    ELSE 0
+                END;
+                answer_score := round(credit * 100);
+            END IF;
+        ELSE
+            credit := score_quiz_answer(question, entry->'answer', expected);
+            answer_score := round(credit * 100);
+        END IF;
+
+        points := quiz_question_points(question);
+        total_points := total_points + points;
+        points_earned := points_earned + points * credit;
+
+        scored_answers := scored_answers || jsonb_build_array(
+            (entry - 'question_id') || jsonb_strip_nulls(jsonb_build_object('question_id', question->'id')) || jsonb_build_object(
+                'question_index', i,
+                'answer', COALESCE(entry->'answer', 'null'::jsonb),
+                'is_correct', credit = 1,
+                'score', answer_score
+            )
+        );
+    END LOOP;
+
+    NEW.answers := scored_answers;
+    NEW.score := CASE WHEN total_points > 0 THEN round(points_earned / total_points * 100) ELSE 0 END;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- GRADING REVIEWS
+-- ============================================================================
+
+ALTER TABLE grading_reviews DROP CONSTRAINT IF EXISTS valid_review_reason;
+ALTER TABLE grading_reviews ADD CONSTRAINT valid_review_reason
+    CHECK (reason IN ('low_confidence', 'ai_unavailable', 'code_submission'));
+
+-- ============================================================================
+-- RLS POLICIES
+-- ============================================================================
+
+-- Attempts and their reviews are recorded by the attempts route only
+DROP POLICY IF EXISTS "Users can record own attempts" ON challenge_attempts;
+REVOKE INSERT ON challenge_attempts FROM authenticated;
+
+DROP POLICY IF EXISTS "Users can request reviews of own attempts" ON grading_reviews;
+REVOKE INSERT ON grading_reviews FROM authenticated;
+
+-- Log successful completion
+DO $$
+BEGIN
+    RAISE NOTICE '=== SERVER GRADED ATTEMPTS MIGRATION COMPLETED ===';
+    RAISE NOTICE 'Attempts and grading reviews are recorded by the attempts route only';
+    RAISE NOTICE 'Review reason added: code_submission';
+END $$;
@@ -0,0 +1,71 @@
+-- ============================================================================
+-- CONTENT REVISION FIELDS - Own The Flow
+-- record_content_revision (migration 033) recorded a revision for any update
+-- that changed more than updated_at, so moves and clones, which renumber
+-- sort_order across siblings, added a revision to every sibling with nothing
+-- to restore. Revisions are now only recorded when a field a restore brings
+-- back changed, and are credited to the signed-in user making the change
+-- before the row's last editor
+-- ============================================================================
+
+-- Fields a restore brings back, per entity type
+-- Mirrors REVISION_FIELDS in src/lib/revisions.ts
+CREATE OR REPLACE FUNCTION content_revision_fields(p_entity_type TEXT)
+RETURNS TEXT[] AS $$
+BEGIN
+    RETURN CASE p_entity_type
+        WHEN 'path' THEN ARRAY[
+            'title', 'slug', 'description', 'short_description', 'difficulty', 'estimated_hours',
+            'featured', 'image_url', 'tags', 'prerequisites', 'learning_outcomes'
+        ]
+        WHEN 'course' THEN ARRAY['title', 'slug', 'description', 'short_description', 'difficulty', 'estimated_hours', 'image_url']
+        WHEN 'module' THEN ARRAY['title', 'slug', 'description', 'short_description', 'estimated_minutes']
+        WHEN 'lesson' THEN ARRAY[
+            'title', 'slug', 'content', 'summary', 'estimated_minutes', 'xp_reward', 'lesson_type',
+            'video_url', 'video_duration', 'meta_title', 'meta_description'
+        ]
+        ELSE ARRAY[]::TEXT[]
+    END;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Same as migration 033, skipping updates that change no revision field
+CREATE OR REPLACE FUNCTION record_content_revision()
+RETURNS TRIGGER AS $$
+DECLARE
+    row_snapshot JSONB := to_jsonb(NEW) - 'revision_note';
+    previous_row JSONB;
+    note TEXT := NULLIF(current_setting('content_revisions.notes', true), '')::jsonb ->> NEW.id::text;
+BEGIN
+    IF TG_OP = 'UPDATE' THEN
+        previous_row := to_jsonb(OLD);
+
+        IF NOT EXISTS (
+            SELECT 1
+            FROM unnest(content_revision_fields(TG_ARGV[0])) AS field
+            WHERE row_snapshot -> field IS DISTINCT FROM previous_row -> field
+        ) THEN
+            RETURN NULL;
+        END IF;
+    END IF;
+
+    INSERT INTO content_revisions (entity_type, entity_id, snapshot, change_note, created_by)
+    VALUES (
+        TG_ARGV[0],
+        NEW.id,
+        row_snapshot,
+        CASE WHEN TG_OP = 'INSERT' THEN COALESCE(note, 'Created') ELSE note END,
+        COALESCE(auth.uid(), NEW.updated_by, NEW.created_by)
+    );
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Log successful completion
+DO $$
+BEGIN
+    RAISE NOTICE '=== CONTENT REVISION FIELDS MIGRATION COMPLETED ===';
+    RAISE NOTICE 'Function created: content_revision_fields (mirrors REVISION_FIELDS)';
+    RAISE NOTICE 'Revisions are only recorded when a restorable field changes';
+END $$;
@@ -0,0 +1,86 @@
+-- ============================================================================
+-- CONTENT EDIT LOCK EXEMPTIONS - Own The Flow
+-- The edit lock trigger of migration 032 rejected every update of a locked
+-- item, so reordering siblings (CurriculumBuilder, and renumber_content_children
+-- inside moves and clones) failed whenever one of them was being edited, and
+-- so did status cascades to locked children. Updates that only change an
+-- item's position now pass, and status cascades run in the database through
+-- cascade_content_status_from, which skips the check for the children: the
+-- parent they follow was itself checked when its status changed
+-- ============================================================================
+
+-- ============================================================================
+-- ENFORCE LOCKS
+-- ============================================================================
+
+-- Same as migration 032, letting through reorders and cascaded status changes
+CREATE OR REPLACE FUNCTION enforce_content_edit_lock()
+RETURNS TRIGGER AS $$
+BEGIN
+    -- A new position changes nothing the lock holder is editing
+    IF to_jsonb(NEW) - 'sort_order' - 'updated_at' - 'updated_by'
+        = to_jsonb(OLD) - 'sort_order' - 'updated_at' - 'updated_by' THEN
+        RETURN NEW;
+    END IF;
+
+    IF current_setting('content_edit_locks.cascading', true) = 'on' THEN
+        RETURN NEW;
+    END IF;
+
+    IF auth.uid() IS NOT NULL AND EXISTS (
+        SELECT 1 FROM content_edit_locks
+        WHERE entity_type = TG_ARGV[0]
+        AND entity_id = OLD.id
+        AND locked_by <> auth.uid()
+        AND expires_at > NOW()
+    ) THEN
+        RAISE EXCEPTION '"%" is being edited by someone else', OLD.title
+            USING ERRCODE = 'lock_not_available';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- CASCADE STATUS
+-- ============================================================================
+
+-- Used by ContentService.cascadeStatusFromLearningPath / Course / Module / Lesson
+-- after a path, course, module or lesson is set to draft or archived
+CREATE OR REPLACE FUNCTION cascade_content_status_from(
+    p_entity_type TEXT,
+    p_entity_id UUID,
+    p_status TEXT
+)
+RETURNS VOID AS $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM user_profiles
+        WHERE id = auth.uid() AND role IN ('admin', 'content_manager')
+    ) THEN
+        RAISE EXCEPTION 'Only content managers and admins can change content status'
+            USING ERRCODE = 'insufficient_privilege';
+    END IF;
+
+    IF p_status NOT IN ('draft', 'archived') THEN
+        RAISE EXCEPTION 'Only draft and archived cascade to child content'
+            USING ERRCODE = 'check_violation';
+    END IF;
+
+    PERFORM set_config('content_edit_locks.cascading', 'on', true);
+    PERFORM cascade_content_status(p_entity_type, p_entity_id, p_status, auth.uid());
+    PERFORM set_config('content_edit_locks.cascading', 'off', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION cascade_content_status_from(TEXT, UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION cascade_content_status_from(TEXT, UUID, TEXT) TO authenticated;
+
+-- Log successful completion
+DO $$
+BEGIN
+    RAISE NOTICE '=== CONTENT EDIT LOCK EXEMPTIONS MIGRATION COMPLETED ===';
+    RAISE NOTICE 'Updates that only change sort_order pass edit locks';
+    RAISE NOTICE 'Function created: cascade_content_status_from (status cascades past edit locks)';
+END $$;